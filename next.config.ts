@@ -8,6 +8,9 @@ const nextConfig = {
 
   turbopack: {},
 
+  // Loaded at runtime by /api/export rather than bundled.
+  serverExternalPackages: ["pptxgenjs"],
+
   // Optimized image handling
   images: {
     formats: ["image/webp", "image/avif"],
@@ -0,0 +1,63 @@
+/**
+ * API Route: Finish GitHub sign-in.
+ *
+ * ## Inputs
+ * - GET `?code=<code>&state=<state>` from GitHub's redirect
+ *
+ * ## Outputs
+ * - 302 to `/` with the encrypted session cookie set on success
+ * - 302 to `/?authError=<message>` when the user declined, the `state` does not
+ *   match the one issued by `/api/auth/github/login`, or the code exchange fails
+ *
+ * ## Security
+ * - The access token lives only inside the encrypted, HTTP-only session cookie.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { GitHubAuth } from "../../../../services/githubAuth";
+import { Session } from "../../../../services/session";
+
+/** GET /api/auth/github/callback */
+export async function GET(request: NextRequest) {
+  const { searchParams, origin } = request.nextUrl;
+  const code = searchParams.get("code");
+  const state = searchParams.get("state");
+  const expectedState = request.cookies.get(Session.STATE_COOKIE)?.value;
+
+  const finish = (error?: string) => {
+    const target = new URL("/", origin);
+    if (error) target.searchParams.set("authError", error);
+    const response = NextResponse.redirect(target);
+    response.cookies.set(Session.STATE_COOKIE, "", {
+      ...Session.cookieOptions(),
+      maxAge: 0,
+    });
+    return response;
+  };
+
+  if (!Session.isEnabled()) {
+    return finish("GitHub sign-in is not configured on this server");
+  }
+  if (searchParams.get("error")) {
+    return finish(
+      searchParams.get("error_description") ?? "GitHub sign-in was cancelled"
+    );
+  }
+  if (!code || !state || state !== expectedState) {
+    return finish(
+      "GitHub sign-in expired or was tampered with. Please try again."
+    );
+  }
+
+  try {
+    const session = await GitHubAuth.signIn(code, origin);
+    const response = finish();
+    Session.write(response, session);
+    return response;
+  } catch (error) {
+    console.error("Auth Error:", error);
+    return finish(
+      error instanceof Error ? error.message : "GitHub sign-in failed"
+    );
+  }
+}
@@ -0,0 +1,39 @@
+/**
+ * API Route: Start GitHub sign-in.
+ *
+ * ## Inputs
+ * - GET; requires `SESSION_SECRET`, `GITHUB_CLIENT_ID` and `GITHUB_CLIENT_SECRET`
+ *
+ * ## Outputs
+ * - 302 to GitHub's authorization page, with a random `state` also stored in a
+ *   short-lived cookie for `/api/auth/github/callback` to check
+ * - 404 with { error } when sign-in is not configured
+ */
+
+import { randomBytes } from "crypto";
+import { NextRequest, NextResponse } from "next/server";
+import { GitHubAuth } from "../../../../services/githubAuth";
+import { Session } from "../../../../services/session";
+
+/** How long the user has to finish authorizing on GitHub. */
+const STATE_MAX_AGE_SECONDS = 10 * 60;
+
+/** GET /api/auth/github/login */
+export async function GET(request: NextRequest) {
+  if (!Session.isEnabled()) {
+    return NextResponse.json(
+      { error: "GitHub sign-in is not configured on this server" },
+      { status: 404 }
+    );
+  }
+
+  const state = randomBytes(16).toString("hex");
+  const response = NextResponse.redirect(
+    GitHubAuth.authorizeUrl(state, request.nextUrl.origin)
+  );
+  response.cookies.set(Session.STATE_COOKIE, state, {
+    ...Session.cookieOptions(),
+    maxAge: STATE_MAX_AGE_SECONDS,
+  });
+  return response;
+}
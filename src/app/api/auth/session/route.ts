@@ -0,0 +1,26 @@
+/**
+ * API Route: The current GitHub sign-in session.
+ *
+ * ## Outputs
+ * - GET 200: { enabled: boolean; user: SessionUser | null } — `enabled` is false
+ *   when the server has no GitHub sign-in configured
+ * - DELETE 200: { user: null } — signs out by clearing the session cookie
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Session } from "../../../services/session";
+
+/** GET /api/auth/session */
+export async function GET(request: NextRequest) {
+  return NextResponse.json({
+    enabled: Session.isEnabled(),
+    user: Session.user(Session.read(request)),
+  });
+}
+
+/** DELETE /api/auth/session — sign out. */
+export async function DELETE() {
+  const response = NextResponse.json({ user: null });
+  Session.clear(response);
+  return response;
+}
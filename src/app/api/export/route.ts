@@ -0,0 +1,104 @@
+/**
+ * API Route: Export a run of show as a slide deck.
+ *
+ * ## Purpose
+ * Turns a (possibly edited) run of show into a downloadable PowerPoint file or a
+ * self-contained reveal.js HTML deck.
+ *
+ * ## Inputs
+ * - POST JSON body: { format: "pptx" | "reveal"; runOfShow: RunOfShow; metadata?: RunOfShowMetadata }
+ *
+ * ## Outputs
+ * - 200 OK: the file, with `Content-Disposition: attachment`
+ * - 400 with { error, issues? } when the format is unknown or the run of show is invalid
+ * - 500 with { error } on rendering failures
+ *
+ * ## Security
+ * - Stateless: nothing is stored; the deck is built from the request body only.
+ * - All run-of-show text is escaped by the exporters.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { EXPORTERS, isExportFormat } from "../../services/exporters";
+import { RunOfShowSchema } from "../../services/runOfShowSchema";
+import type { RunOfShowMetadata } from "@/app/page";
+
+/**
+ * POST /api/export
+ *
+ * @example
+ * fetch('/api/export', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({ format: 'pptx', runOfShow, metadata })
+ * })
+ */
+export async function POST(request: NextRequest) {
+  const body: {
+    format?: unknown;
+    runOfShow?: unknown;
+    metadata?: unknown;
+  } | null = await request.json().catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid JSON in request body" },
+      { status: 400 }
+    );
+  }
+
+  const { format } = body;
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      {
+        error: `format must be one of: ${Object.keys(EXPORTERS).join(
+          ", "
+        )}`,
+      },
+      { status: 400 }
+    );
+  }
+
+  const result = RunOfShowSchema.validate(body.runOfShow);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: "Invalid run of show", issues: result.issues },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const exporter = EXPORTERS[format];
+    const metadata = (body.metadata ?? null) as RunOfShowMetadata | null;
+    const file = await exporter.render(result.value, metadata);
+
+    const payload =
+      typeof file === "string"
+        ? file
+        : new Blob([new Uint8Array(file)]);
+
+    return new NextResponse(payload, {
+      headers: {
+        "Content-Type": exporter.contentType,
+        "Content-Disposition": `attachment; filename="${fileSlug(
+          result.value.title
+        )}.${exporter.extension}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Export Error:", error);
+    return NextResponse.json(
+      { error: "Failed to export presentation" },
+      { status: 500 }
+    );
+  }
+}
+
+/** Filesystem/header-safe name derived from the deck title. */
+function fileSlug(title: string): string {
+  return (
+    title
+      .replace(/[^a-z0-9]+/gi, "-")
+      .replace(/^-|-$/g, "")
+      .toLowerCase() || "presentation"
+  );
+}
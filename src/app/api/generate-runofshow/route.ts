@@ -1,28 +1,71 @@
 /**
- * API Route: Generate a presentation "run of show" from a GitHub repo.
+ * API Route: Generate a presentation "run of show" from a repository.
  *
  * ## Purpose
- * Turns a GitHub repository URL plus presentation preferences into a structured,
- * speaker‑ready outline by prompting Claude, then returning validated JSON.
+ * Turns a repository URL (GitHub, GitLab, Bitbucket or Gitea) plus presentation preferences into a structured,
+ * speaker‑ready outline by prompting a language model (Claude by default), then
+ * returning validated JSON.
  *
  * ## Responsibilities
  * - Validate input (shape, types, and required fields)
  * - Analyze the repository (language, stats, basic structure)
- * - Generate a prompt from the analysis + user config
- * - Call Claude and parse the response into a well‑formed object
+ * - Generate a prompt from the analysis + user config, with the config's audience
+ *   and time profiles (built-in or custom) looked up
+ * - Pick the model and its settings: `config.model` over the deployment defaults
+ *   (see `services/llm`)
+ * - Call the model and validate the response against the run-of-show schema,
+ *   asking it to repair invalid output (see `services/llm/completion`)
+ * - Check the section durations against the target length; when they miss by more
+ *   than the tolerance, ask the model to revise once, then rescale proportionally
+ *   (see `services/durationBudget`)
+ * - Cache analyses per commit and generations per analysis, config, model settings
+ *   and prompt version (see `services/cache`); `refresh: true` bypasses both
  * - Return helpful error messages with appropriate HTTP status codes
  *
  * ## Inputs
- * - POST JSON body: { repoUrl: string; config: PresentationConfig }
- * - Environment: ANTHROPIC_API_KEY (server‑side only)
+ * - POST JSON body: { repoUrl: string; ref?: string; subpath?: string; refresh?: boolean; config: PresentationConfig }
+ *   (`ref`/`subpath` may also be embedded in `/tree/<ref>/<path>` or `/blob/...` URLs)
+ * - or POST JSON body: { localPath: string; refresh?: boolean; config: PresentationConfig }
+ * - or POST multipart/form-data: `archive` (tar, tar.gz, tgz or zip) + `config` (JSON string)
+ *   + optional `refresh` ("true")
+ * - `config.model` (optional): { id?, temperature?, maxTokens? } — a model from
+ *   `GET /api/models` and sampling overrides
+ * - Environment: ANTHROPIC_API_KEY, OPENAI_BASE_URL or LLM_FIXTURE_FILE (at least
+ *   one; server‑side only), plus the LLM_* defaults (see `services/llm`)
+ * - Environment: LOCAL_REPO_ROOT (optional) enables `localPath`, restricted to that directory
+ * - Session cookie (optional): GitHub repositories are read with the signed-in
+ *   user's token instead of GITHUB_TOKEN, so their private repositories work
  *
  * ## Outputs
- * - 200 OK: { runOfShow, metadata } where runOfShow is presentation content
- * - 4xx/5xx with { error } on failure
+ * - 200 OK: { runOfShow, metadata } where runOfShow is presentation content and
+ *   metadata records the analyzed ref, resolved commit SHA and subpath, an
+ *   `analysisId` for reusing the cached analysis in follow-up requests, a
+ *   `budget` report of how the durations were fitted to the target, a
+ *   `context` report of what repository content fit the prompt's token budget,
+ *   a `cache` report of which stages were served from the cache, `timings`
+ *   (analysis vs. generation, plus the GitHub fetch breakdown) and the `model`
+ *   and settings that wrote it
+ * - With `Accept: text/event-stream`: server-sent events instead — `stage`
+ *   (analyzing → prompting → generating), `field` (title/overview), one `section`
+ *   per completed section, then `complete` with the validated (and duration-fitted)
+ *   payload, or `error`. A cached run of show is replayed as the same events.
+ * - 400 with { error } for an unknown model or out-of-range settings, or an
+ *   archive with too many entries or too much content
+ * - 502 with { error, issues, attempts } when the model's output still fails validation
+ *   after repairs; `issues` lists each failing field path and reason
+ * - 404 with { error } when the requested branch, tag, commit or subdirectory
+ *   does not exist (any provider)
+ * - GitHub failures: 404 (repository or ref not found), 403 (forbidden), 429 with
+ *   { error, resetAt } and a `Retry-After` header (rate limited), 502 (GitHub
+ *   unreachable or failing after retries)
+ * - GitLab, Bitbucket and Gitea failures: 404 (not found), 403 (unauthorized or
+ *   forbidden), 429 (rate limited), 502 (unreachable or other upstream errors)
+ * - 4xx/5xx with { error } on other failures
  *
  * ## Security
- * - Never echo secrets. Requires ANTHROPIC_API_KEY present at runtime.
- * - Accepts only HTTPS GitHub URLs; reject non‑string/empty values.
+ * - Never echo secrets. Requires a configured model provider at runtime.
+ * - Accepts only HTTPS URLs on a supported provider host; reject non‑string/empty values.
+ * - Local paths are rejected unless they resolve inside LOCAL_REPO_ROOT.
  * - This endpoint does not write to GitHub or your repo; analysis is read‑only.
  *
  * ## Observability
@@ -30,41 +73,123 @@
  * - Client should surface returned messages; avoid leaking stack traces.
  */
 
+import path from "path";
 import { NextRequest, NextResponse } from "next/server";
-import Anthropic from "@anthropic-ai/sdk";
-import { GitHubAnalyzer } from "../../services/github";
+import {
+  errorBody,
+  errorHeaders,
+  errorStatus,
+  ValidationError,
+} from "../../services/apiErrors";
+import type { RepoAnalysis } from "../../services/github";
+import { LocalRepoAnalyzer } from "../../services/local";
+import {
+  resolveProvider,
+  type RepoSourceProvider,
+  type RepoTarget,
+} from "../../services/providers";
 import { PromptGenerator } from "../../services/prompts";
-import type { PresentationConfig } from "@/app/page";
+import { RunOfShowSchema } from "../../services/runOfShowSchema";
+import {
+  completeValidated,
+  streamCompletion,
+} from "../../services/llm/completion";
+import {
+  describeModel,
+  resolveModel,
+  type SelectedModel,
+} from "../../services/llm";
+import { RunOfShowStreamParser } from "../../services/incrementalJson";
+import { analysisCache } from "../../services/analysisCache";
+import {
+  CACHE_TTL_MS,
+  generationCacheKey,
+  remember,
+} from "../../services/cache";
+import { enforceDurationBudget } from "../../services/durationBudget";
+import { Pacing } from "../../services/pacing";
+import {
+  Profiles,
+  type ResolvedConfig,
+} from "../../services/profiles";
+import { Session } from "../../services/session";
+import { resolvePresentationConfig } from "../../services/storage";
+import {
+  encodeEvent,
+  EVENT_STREAM_CONTENT_TYPE,
+  type GenerationEvent,
+} from "../../services/eventStream";
+import type {
+  CacheStatus,
+  ContextReport,
+  DurationBudgetReport,
+  PresentationConfig,
+  RunOfShow,
+  RunOfShowMetadata,
+  TimingReport,
+} from "@/app/page";
 
-/**
- * Claude client (server-side). Requires `process.env.ANTHROPIC_API_KEY`.
- * @remarks The key must be injected at deploy time; never ship it to the client.
- */
-const anthropic = new Anthropic({
-  apiKey: process.env.ANTHROPIC_API_KEY,
-});
-
-/** Performs read-only GitHub repository inspection. */
-const analyzer = new GitHubAnalyzer();
+/** Analyzes local directories and uploaded archives without network access. */
+const localAnalyzer = new LocalRepoAnalyzer();
 
 /**
  * Expected POST body for this route.
  * @public
  */
 interface ApiRequestBody {
-  /** HTTPS GitHub URL, e.g. "https://github.com/vercel/next.js" */
-  repoUrl: string;
+  /** HTTPS repository URL, e.g. "https://github.com/vercel/next.js" or a GitLab/Bitbucket/Gitea URL */
+  repoUrl?: string;
+  /** Branch, tag or commit SHA to analyze instead of the default branch. */
+  ref?: string;
+  /** Subdirectory of the repository to analyze (e.g. "packages/core"). */
+  subpath?: string;
+  /** Directory on the server, resolved inside `LOCAL_REPO_ROOT`. */
+  localPath?: string;
+  /** Skip cached analyses and generations (fresh results are still stored). */
+  refresh?: boolean;
   /** Presentation preferences that tailor the prompt and output. */
   config: PresentationConfig;
 }
 
+/** Where the repository to analyze comes from, after validation. */
+type RepoSource =
+  | {
+      type: "remote";
+      repoUrl: string;
+      provider: RepoSourceProvider;
+      target: RepoTarget;
+    }
+  | { type: "local"; path: string }
+  | { type: "archive"; filename: string; data: Buffer };
+
+/** Normalized result of {@link validateRequest}. */
+interface ValidatedRequest {
+  source: RepoSource;
+  config: ResolvedConfig;
+  model: SelectedModel;
+  refresh: boolean;
+}
+
+/** What is cached per generation; the context report is recomputed. */
+interface CachedGeneration {
+  runOfShow: RunOfShow;
+  budget: DurationBudgetReport;
+}
+
+/** A generation with where it came from. */
+interface GenerationResult extends CachedGeneration {
+  status: CacheStatus;
+  generatedAt: string;
+}
+
 /**
  * POST /api/generate-runofshow
  *
- * Validates input, analyzes the repo, prompts Claude, and returns structured
+ * Validates input, analyzes the repo, prompts the model, and returns structured
  * presentation content plus useful metadata.
  *
- * @param request - Next.js Request containing {@link ApiRequestBody}
+ * @param request - Next.js Request containing {@link ApiRequestBody},
+ *   or multipart form data with an `archive` file and a `config` JSON field
  * @returns JSON with `{ runOfShow, metadata }` on success.
  *
  * @example
@@ -83,65 +208,363 @@ interface ApiRequestBody {
  * })
  *
  * @throws {ValidationError} When the request body is malformed or missing fields.
- * @throws {Error} When Anthropic API or parsing fails (returned as 500).
+ * @throws {ModelSelectionError} When `config.model` is not offered or out of range (returned as 400).
+ * @throws {InvalidOutputError} When the model's output fails validation after repairs (returned as 502).
+ * @throws {GitHubApiError} When GitHub fails (returned as 404/403/429/502).
+ * @throws {Error} When the model provider fails (returned as 500).
  */
 export async function POST(request: NextRequest) {
   try {
-    const { repoUrl, config } =
-      await validateRequest<ApiRequestBody>(request);
+    const { source, config, model, refresh } =
+      await validateRequest<ValidatedRequest>(request);
 
-    const repoAnalysis = await analyzer.analyzeRepository(
-      repoUrl.trim()
-    );
+    if (
+      (request.headers.get("accept") || "").includes(
+        EVENT_STREAM_CONTENT_TYPE
+      )
+    ) {
+      return streamRunOfShow(source, config, model, refresh);
+    }
 
+    const startedAt = Date.now();
+    const repoAnalysis = await analyzeSource(source, refresh);
+    const analyzedAt = Date.now();
+
+    const context = PromptGenerator.packContext(repoAnalysis);
     const prompt = PromptGenerator.generate(
       repoAnalysis,
-      config
+      config,
+      context
     );
 
-    const runOfShow = await generatePresentation(prompt);
+    const generation = await rememberGeneration(
+      repoAnalysis,
+      config,
+      model,
+      refresh,
+      async () =>
+        enforceDurationBudget(
+          model,
+          prompt,
+          await generatePresentation(model, prompt),
+          Pacing.targetSeconds(config)
+        )
+    );
 
     return NextResponse.json({
-      runOfShow,
-      metadata: {
-        repoName: repoAnalysis.name,
-        language: repoAnalysis.language,
-        stars: repoAnalysis.stats.stars,
-        generatedAt: new Date().toISOString(),
+      runOfShow: generation.runOfShow,
+      metadata: buildMetadata(
+        source,
+        repoAnalysis,
         config,
-      },
+        model,
+        generation,
+        context.report,
+        measureTimings(repoAnalysis, startedAt, analyzedAt)
+      ),
     });
   } catch (error) {
     // Keep logs terse and non-sensitive. Clients see a friendly message below.
     console.error("API Error:", error);
-    return NextResponse.json(
-      {
-        error:
-          error instanceof Error
-            ? error.message
-            : "An unexpected error occurred",
-      },
-      {
-        status:
-          error instanceof ValidationError ? 400 : 500,
-      }
-    );
+    return NextResponse.json(errorBody(error), {
+      status: errorStatus(error),
+      headers: errorHeaders(error),
+    });
   }
 }
 
+/**
+ * Runs analysis and generation inside a server-sent event stream so the client
+ * can show real progress and render sections as soon as each one is complete.
+ * A cached run of show is replayed as `field` and `section` events. Failures
+ * after the stream opens are reported as an `error` event.
+ */
+function streamRunOfShow(
+  source: RepoSource,
+  config: ResolvedConfig,
+  model: SelectedModel,
+  refresh: boolean
+): Response {
+  const encoder = new TextEncoder();
+
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: GenerationEvent) =>
+        controller.enqueue(encoder.encode(encodeEvent(event)));
+
+      try {
+        send({
+          event: "stage",
+          data: {
+            stage: "analyzing",
+            message: "Analyzing repository structure and key files",
+          },
+        });
+        const startedAt = Date.now();
+        const repoAnalysis = await analyzeSource(source, refresh);
+        const analyzedAt = Date.now();
+
+        send({
+          event: "stage",
+          data: {
+            stage: "prompting",
+            message: `Building the ${config.audienceProfile.label} prompt for ${repoAnalysis.name}`,
+          },
+        });
+        const context = PromptGenerator.packContext(repoAnalysis);
+        const prompt = PromptGenerator.generate(
+          repoAnalysis,
+          config,
+          context
+        );
+
+        const generation = await rememberGeneration(
+          repoAnalysis,
+          config,
+          model,
+          refresh,
+          async () => {
+            send({
+              event: "stage",
+              data: {
+                stage: "generating",
+                message: `${model.settings.model} is writing your run of show`,
+              },
+            });
+            const parser = new RunOfShowStreamParser();
+            const text = await streamCompletion(model, prompt, (delta) => {
+              for (const part of parser.push(delta)) {
+                if (part.type === "field") {
+                  send({
+                    event: "field",
+                    data: { key: part.key, value: part.value },
+                  });
+                  continue;
+                }
+                // Skip invalid sections here; the repair pass fixes them for `complete`.
+                const section = RunOfShowSchema.validateSection(
+                  part.section
+                );
+                if (section.ok) {
+                  send({
+                    event: "section",
+                    data: { index: part.index, section: section.value },
+                  });
+                }
+              }
+            });
+
+            return enforceDurationBudget(
+              model,
+              prompt,
+              await completeValidated(
+                model,
+                prompt,
+                (reply) => RunOfShowSchema.parse(reply),
+                text
+              ),
+              Pacing.targetSeconds(config)
+            );
+          }
+        );
+
+        if (generation.status === "hit") {
+          const { runOfShow } = generation;
+          send({
+            event: "stage",
+            data: {
+              stage: "generating",
+              message: "Reusing the run of show generated for this commit",
+            },
+          });
+          send({
+            event: "field",
+            data: { key: "title", value: runOfShow.title },
+          });
+          send({
+            event: "field",
+            data: { key: "overview", value: runOfShow.overview },
+          });
+          runOfShow.sections.forEach((section, index) =>
+            send({ event: "section", data: { index, section } })
+          );
+        }
+
+        send({
+          event: "complete",
+          data: {
+            runOfShow: generation.runOfShow,
+            metadata: buildMetadata(
+              source,
+              repoAnalysis,
+              config,
+              model,
+              generation,
+              context.report,
+              measureTimings(repoAnalysis, startedAt, analyzedAt)
+            ),
+          },
+        });
+      } catch (error) {
+        console.error("API Error:", error);
+        send({
+          event: "error",
+          data: { ...errorBody(error), status: errorStatus(error) },
+        });
+      } finally {
+        controller.close();
+      }
+    },
+  });
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": EVENT_STREAM_CONTENT_TYPE,
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  });
+}
+
+/**
+ * The run of show cached for this analysis, config, model and prompt version, or
+ * the result of `generate` (which is then cached).
+ */
+async function rememberGeneration(
+  repoAnalysis: RepoAnalysis,
+  config: ResolvedConfig,
+  model: SelectedModel,
+  refresh: boolean,
+  generate: () => Promise<CachedGeneration>
+): Promise<GenerationResult> {
+  const { entry, status } = await remember(
+    generationCacheKey(
+      repoAnalysis,
+      config,
+      model,
+      PromptGenerator.VERSION
+    ),
+    CACHE_TTL_MS.generation,
+    async () => {
+      const { runOfShow, budget } = await generate();
+      return { runOfShow, budget };
+    },
+    { refresh }
+  );
+  return { ...entry.value, status, generatedAt: entry.storedAt };
+}
+
+/**
+ * Response metadata describing what was analyzed and how. Caches the analysis so
+ * follow-up requests (e.g. /api/regenerate-section) can reuse it by `analysisId`.
+ */
+function buildMetadata(
+  source: RepoSource,
+  repoAnalysis: RepoAnalysis,
+  config: ResolvedConfig,
+  model: SelectedModel,
+  generation: GenerationResult,
+  context: ContextReport,
+  timings: TimingReport
+): RunOfShowMetadata {
+  return {
+    repoName: repoAnalysis.name,
+    language: repoAnalysis.language,
+    stars: repoAnalysis.stats.stars,
+    source:
+      source.type === "remote"
+        ? source.provider.id
+        : source.type,
+    ref: repoAnalysis.revision?.ref,
+    commitSha: repoAnalysis.revision?.commitSha,
+    subpath: repoAnalysis.revision?.subpath || undefined,
+    analysisId: analysisCache.put(repoAnalysis),
+    generatedAt: generation.generatedAt,
+    config: Profiles.toConfig(config),
+    budget: generation.budget,
+    context,
+    cache: {
+      analysis: repoAnalysis.cache?.status ?? "off",
+      generation: generation.status,
+    },
+    timings,
+    model: describeModel(model),
+  };
+}
+
+/**
+ * Split the time since `startedAt` into analysis and generation. The fetch
+ * breakdown is left out when the analysis came from the cache.
+ */
+function measureTimings(
+  repoAnalysis: RepoAnalysis,
+  startedAt: number,
+  analyzedAt: number
+): TimingReport {
+  const now = Date.now();
+  return {
+    totalMs: now - startedAt,
+    analysisMs: analyzedAt - startedAt,
+    generationMs: now - analyzedAt,
+    fetch:
+      repoAnalysis.cache?.status === "hit"
+        ? undefined
+        : repoAnalysis.timings,
+  };
+}
+
 /**
  * Validates and narrows the incoming request to the expected body shape.
  *
  * @typeParam T - The expected body type (defaults to `unknown` at call site).
- * @param request - Next.js Request whose body will be parsed as JSON.
- * @returns The parsed and validated body cast to {@link T}.
+ * @param request - Next.js Request whose body will be parsed as JSON or form data.
+ * @returns The validated repository source and config cast to {@link T}.
  *
  * @remarks
  * - Performs minimal structural validation here to keep runtime overhead low.
  *   Consider a schema validator (e.g., Zod) if the shape evolves.
+ * - Multipart requests carry an uploaded archive; JSON requests carry either
+ *   `repoUrl` or `localPath`.
  */
 async function validateRequest<T = unknown>(
   request: NextRequest
+) {
+  const isMultipart = (
+    request.headers.get("content-type") || ""
+  ).includes("multipart/form-data");
+
+  const { source, config, refresh } = isMultipart
+    ? await parseArchiveUpload(request)
+    : await parseJsonBody(request, Session.githubToken(request));
+
+  if (!config || typeof config !== "object") {
+    throw new ValidationError(
+      "Presentation configuration is required"
+    );
+  }
+
+  const model = resolveModel(
+    (config as PresentationConfig).model ?? {}
+  );
+
+  return {
+    source,
+    config: await resolvePresentationConfig(
+      config as PresentationConfig,
+      Session.owner(request)
+    ),
+    model,
+    refresh,
+  } as unknown as T;
+}
+
+/**
+ * Parse a JSON body into a hosted-repository or local-directory source. GitHub
+ * repositories are analyzed with `githubToken` (the signed-in user's) when given.
+ */
+async function parseJsonBody(
+  request: NextRequest,
+  githubToken: string | undefined
 ) {
   const body = (await request.json().catch(() => {
     throw new ValidationError(
@@ -149,7 +572,12 @@ async function validateRequest<T = unknown>(
     );
   })) as Partial<ApiRequestBody>;
 
-  const { repoUrl, config } = body;
+  const { repoUrl, localPath, ref, subpath, config } = body;
+  const refresh = body.refresh === true;
+
+  if (localPath !== undefined) {
+    return { source: resolveLocalPath(localPath), config, refresh };
+  }
 
   if (!repoUrl || typeof repoUrl !== "string") {
     throw new ValidationError(
@@ -157,110 +585,155 @@ async function validateRequest<T = unknown>(
     );
   }
 
-  // Lightweight GitHub URL sanity check (avoid fetching here).
-  if (
-    !/^https:\/\/github\.com\/[\w\-\.]+\/[\w\-\.]+\/?$/.test(
-      repoUrl
-    )
-  ) {
+  for (const [field, value] of Object.entries({ ref, subpath })) {
+    if (value !== undefined && typeof value !== "string") {
+      throw new ValidationError(`${field} must be a string`);
+    }
+  }
+  if (subpath?.split("/").includes("..")) {
+    throw new ValidationError("subpath must not contain '..'");
+  }
+
+  // Pick the provider by host and check the URL shape (avoid fetching here).
+  let provider: RepoSourceProvider;
+  try {
+    provider = resolveProvider(repoUrl.trim(), { githubToken });
+    provider.parseRepoUrl(repoUrl.trim());
+  } catch (error) {
     throw new ValidationError(
-      "Repository URL must be a valid GitHub URL"
+      error instanceof Error
+        ? error.message
+        : "Repository URL must be a valid repository URL"
     );
   }
 
-  if (!config || typeof config !== "object") {
+  return {
+    source: {
+      type: "remote",
+      repoUrl: repoUrl.trim(),
+      provider,
+      target: {
+        ref: ref?.trim() || undefined,
+        subpath: subpath?.trim() || undefined,
+      },
+    } as RepoSource,
+    config,
+    refresh,
+  };
+}
+
+/** Parse a multipart upload into an archive source. */
+async function parseArchiveUpload(request: NextRequest) {
+  const form = await request.formData().catch(() => {
+    throw new ValidationError("Invalid form data in request body");
+  });
+
+  const archive = form.get("archive");
+  if (!(archive instanceof File)) {
     throw new ValidationError(
-      "Presentation configuration is required"
+      "An `archive` file (tar, tar.gz, tgz or zip) is required"
+    );
+  }
+  if (!/\.(zip|tar|tar\.gz|tgz)$/i.test(archive.name)) {
+    throw new ValidationError(
+      "Archive must be a .zip, .tar, .tar.gz or .tgz file"
+    );
+  }
+  if (archive.size > LocalRepoAnalyzer.MAX_ARCHIVE_SIZE) {
+    throw new ValidationError(
+      "Archive is too large to analyze"
     );
   }
 
-  if (!process.env.ANTHROPIC_API_KEY) {
-    // Treat missing secrets as a server misconfiguration, not user error.
-    throw new Error(
-      "Server configuration error. Please check API key setup."
+  let config: unknown;
+  try {
+    config = JSON.parse(String(form.get("config") ?? ""));
+  } catch {
+    throw new ValidationError(
+      "Presentation configuration must be valid JSON"
     );
   }
 
   return {
-    repoUrl,
-    config: config as PresentationConfig,
-  } as unknown as T;
+    source: {
+      type: "archive",
+      filename: archive.name,
+      data: Buffer.from(await archive.arrayBuffer()),
+    } as RepoSource,
+    config,
+    refresh: form.get("refresh") === "true",
+  };
 }
 
 /**
- * Calls Claude to generate presentation content from a prepared prompt.
- *
- * @param prompt - A complete, self-contained prompt string.
- * @returns Parsed presentation content ready for rendering.
- *
- * @throws {Error} If the Anthropic response is non-text or parsing fails.
+ * Resolve a requested local path inside `LOCAL_REPO_ROOT`.
+ * Local analysis is disabled entirely when the variable is unset.
  */
-async function generatePresentation(prompt: string) {
-  const response = await anthropic.messages.create({
-    model: "claude-sonnet-4-20250514",
-    max_tokens: 4000,
-    temperature: 0.7,
-    messages: [{ role: "user", content: prompt }],
-  });
+function resolveLocalPath(localPath: unknown): RepoSource {
+  const root = process.env.LOCAL_REPO_ROOT;
+  if (!root) {
+    throw new ValidationError(
+      "Local directory analysis is not enabled on this server"
+    );
+  }
+  if (!localPath || typeof localPath !== "string") {
+    throw new ValidationError(
+      "Local path must be a non-empty string"
+    );
+  }
 
-  const content = response.content[0];
-  if (content.type !== "text") {
-    throw new Error("Unexpected response type from Claude");
+  const resolvedRoot = path.resolve(root);
+  const resolved = path.resolve(resolvedRoot, localPath);
+  if (
+    resolved !== resolvedRoot &&
+    !resolved.startsWith(resolvedRoot + path.sep)
+  ) {
+    throw new ValidationError(
+      "Local path must be inside the configured LOCAL_REPO_ROOT"
+    );
   }
 
-  return parseClaudeResponse(content.text);
+  return { type: "local", path: resolved };
 }
 
 /**
- * Parses Claude's response into a strongly expected JSON structure.
- *
- * Accepts both fenced JSON blocks (```json ... ```) and raw JSON strings.
- * Performs basic shape validation for the expected fields.
- *
- * @param text - Raw text returned by Claude.
- * @returns A normalized object containing `title`, `overview`, and `sections`.
- * @throws {Error} When no valid JSON object can be extracted.
+ * Dispatch a validated source to the matching analyzer. Hosted repositories go
+ * through the analysis cache; local directories and archives are always analyzed.
  */
-function parseClaudeResponse(text: string) {
-  try {
-    const cleanedText = text
-      .replace(/```json\n?/g, "")
-      .replace(/```\n?/g, "")
-      .trim();
-
-    const parsed = JSON.parse(cleanedText);
-
-    if (
-      !parsed.title ||
-      !parsed.overview ||
-      !Array.isArray(parsed.sections)
-    ) {
-      throw new Error("Invalid response structure from AI");
-    }
-
-    return parsed;
-  } catch {
-    // Fallback: try to extract the first JSON object in the string.
-    const jsonMatch = text.match(/\{[\s\S]*\}/);
-    if (jsonMatch) {
-      return JSON.parse(jsonMatch[0]);
-    }
-    throw new Error(
-      "Failed to generate properly formatted presentation content"
-    );
+function analyzeSource(
+  source: RepoSource,
+  refresh: boolean
+): Promise<RepoAnalysis> {
+  switch (source.type) {
+    case "remote":
+      return source.provider.analyzeRepository(
+        source.repoUrl,
+        source.target,
+        { refresh }
+      );
+    case "local":
+      return localAnalyzer.analyzeDirectory(source.path);
+    case "archive":
+      return localAnalyzer.analyzeArchive(
+        source.data,
+        source.filename
+      );
   }
 }
 
 /**
- * Minimal typed error for request validation failures.
- * @public
+ * Calls the model to generate presentation content from a prepared prompt.
+ *
+ * @param prompt - A complete, self-contained prompt string.
+ * @returns Validated presentation content ready for rendering.
+ *
+ * @throws {InvalidOutputError} If the output still fails validation after repairs.
+ * @throws {Error} If the provider fails or the reply is non-text.
  */
-class ValidationError extends Error {
-  /** @param message - Human-readable reason for the validation failure. */
-  constructor(message: string) {
-    super(message);
-    this.name = "ValidationError";
-  }
+function generatePresentation(model: SelectedModel, prompt: string) {
+  return completeValidated(model, prompt, (text) =>
+    RunOfShowSchema.parse(text)
+  );
 }
 
 /**
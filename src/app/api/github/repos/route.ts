@@ -0,0 +1,46 @@
+/**
+ * API Route: Repositories the signed-in GitHub user can access.
+ *
+ * ## Outputs
+ * - GET 200: { repositories: AccessibleRepository[] }, most recently pushed first
+ * - 401 with { error } when not signed in
+ * - 403/429/502 with { error } when GitHub refuses or fails (see `githubErrorStatus`)
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { GitHubAuth } from "../../../services/githubAuth";
+import {
+  GitHubApiError,
+  githubErrorStatus,
+} from "../../../services/githubClient";
+import { Session } from "../../../services/session";
+
+/** GET /api/github/repos */
+export async function GET(request: NextRequest) {
+  const token = Session.githubToken(request);
+  if (!token) {
+    return NextResponse.json(
+      { error: "Sign in with GitHub to list your repositories" },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const repositories = await GitHubAuth.listRepositories(token);
+    return NextResponse.json({ repositories });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(
+      {
+        error:
+          error instanceof Error
+            ? error.message
+            : "Failed to list repositories",
+      },
+      {
+        status:
+          error instanceof GitHubApiError ? githubErrorStatus(error) : 500,
+      }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * API Route: The language models this deployment offers.
+ *
+ * ## Outputs
+ * - GET 200: { models: ModelOption[]; defaults: { id, temperature, maxTokens } | null;
+ *   limits } — `models` feeds the model picker; `defaults` is null when no model
+ *   provider is configured (see `services/llm`)
+ * - 500 with { error } when the provider configuration cannot be loaded
+ */
+
+import { NextResponse } from "next/server";
+import {
+  listModels,
+  modelDefaults,
+  MODEL_LIMITS,
+} from "../../services/llm";
+
+/** GET /api/models */
+export async function GET() {
+  try {
+    return NextResponse.json({
+      models: listModels(),
+      defaults: modelDefaults(),
+      limits: MODEL_LIMITS,
+    });
+  } catch (error) {
+    // e.g. an unreadable LLM_FIXTURE_FILE
+    console.error("Models Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load models" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+/**
+ * API Route: A single saved presentation.
+ *
+ * ## Outputs
+ * - GET 200: { presentation: PresentationRecord }
+ * - PUT 200: { presentation: PresentationRecord } — replaces the saved content
+ *   (same body as POST /api/presentations); 400 with { error, issues? } if invalid
+ * - DELETE 200: { deleted: true }
+ * - 404 with { error } when no presentation has this id in the caller's library
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Session } from "../../../services/session";
+import {
+  getPresentationStore,
+  parsePresentationInput,
+} from "../../../services/storage";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** GET /api/presentations/:id — the full record, for reopening. */
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  try {
+    const presentation = await getPresentationStore().get(
+      Session.owner(request),
+      id
+    );
+    if (!presentation) {
+      return NextResponse.json(
+        { error: "Presentation not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ presentation });
+  } catch (error) {
+    console.error("Library Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load presentation" },
+      { status: 500 }
+    );
+  }
+}
+
+/** PUT /api/presentations/:id — save edits to an existing presentation. */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  const body: Record<string, unknown> | null = await request
+    .json()
+    .catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid JSON in request body" },
+      { status: 400 }
+    );
+  }
+
+  const input = parsePresentationInput(body);
+  if ("error" in input) {
+    return NextResponse.json(input, { status: 400 });
+  }
+
+  try {
+    const presentation = await getPresentationStore().update(
+      Session.owner(request),
+      id,
+      input
+    );
+    if (!presentation) {
+      return NextResponse.json(
+        { error: "Presentation not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ presentation });
+  } catch (error) {
+    console.error("Library Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save presentation" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE /api/presentations/:id */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteContext
+) {
+  const { id } = await params;
+  try {
+    const deleted = await getPresentationStore().delete(
+      Session.owner(request),
+      id
+    );
+    if (!deleted) {
+      return NextResponse.json(
+        { error: "Presentation not found" },
+        { status: 404 }
+      );
+    }
+    return NextResponse.json({ deleted: true });
+  } catch (error) {
+    console.error("Library Error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete presentation" },
+      { status: 500 }
+    );
+  }
+}
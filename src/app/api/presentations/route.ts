@@ -0,0 +1,73 @@
+/**
+ * API Route: Saved presentation library.
+ *
+ * ## Inputs
+ * - GET `?q=<text>`: list saved presentations (summaries), optionally filtered
+ * - POST JSON body: { repoUrl: string; runOfShow: RunOfShow; metadata?: RunOfShowMetadata; config: PresentationConfig; versions?: RunOfShowVersion[] }
+ *
+ * ## Outputs
+ * - GET 200: { presentations: PresentationSummary[] }
+ * - POST 201: { presentation: PresentationRecord }
+ * - 400 with { error, issues? } for invalid bodies; 500 with { error } on storage failures
+ *
+ * ## Storage
+ * - Backed by {@link getPresentationStore}; see `services/storage`.
+ * - Each signed-in user has their own library; signed-out visitors share one.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Session } from "../../services/session";
+import {
+  getPresentationStore,
+  parsePresentationInput,
+} from "../../services/storage";
+
+/** GET /api/presentations — newest first, filtered by `q` when given. */
+export async function GET(request: NextRequest) {
+  try {
+    const query = request.nextUrl.searchParams.get("q") ?? undefined;
+    const presentations = await getPresentationStore().list(
+      Session.owner(request),
+      query
+    );
+    return NextResponse.json({ presentations });
+  } catch (error) {
+    console.error("Library Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load saved presentations" },
+      { status: 500 }
+    );
+  }
+}
+
+/** POST /api/presentations — save a generated run of show. */
+export async function POST(request: NextRequest) {
+  const body: Record<string, unknown> | null = await request
+    .json()
+    .catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid JSON in request body" },
+      { status: 400 }
+    );
+  }
+
+  const input = parsePresentationInput(body);
+  if ("error" in input) {
+    return NextResponse.json(input, { status: 400 });
+  }
+
+  try {
+    const presentation = await getPresentationStore().create(
+      Session.owner(request),
+      input
+    );
+    return NextResponse.json({ presentation }, { status: 201 });
+  } catch (error) {
+    console.error("Library Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save presentation" },
+      { status: 500 }
+    );
+  }
+}
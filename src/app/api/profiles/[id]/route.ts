@@ -0,0 +1,110 @@
+/**
+ * API Route: A single custom profile.
+ *
+ * ## Outputs
+ * - PUT 200: { profile: Profile } — replaces the profile's fields (same body as
+ *   POST /api/profiles; `kind` cannot change); 400 with { error } if invalid
+ * - DELETE 200: { deleted: true } — presentations that used the profile keep its
+ *   label and length, but cannot be regenerated or refined until re-configured
+ * - 400 with { error } for built-in profiles, which are read-only
+ * - 404 with { error } when the caller has no custom profile with this id
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { Profiles } from "../../../services/profiles";
+import { Session } from "../../../services/session";
+import { getProfileStore } from "../../../services/storage";
+
+interface RouteContext {
+  params: Promise<{ id: string }>;
+}
+
+/** PUT /api/profiles/:id — edit a custom profile. */
+export async function PUT(request: NextRequest, { params }: RouteContext) {
+  const { id } = await params;
+  if (Profiles.builtIn(id)) {
+    return builtInResponse();
+  }
+
+  const body: Record<string, unknown> | null = await request
+    .json()
+    .catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid JSON in request body" },
+      { status: 400 }
+    );
+  }
+
+  const input = Profiles.parseInput(body);
+  if ("error" in input) {
+    return NextResponse.json(input, { status: 400 });
+  }
+
+  try {
+    const store = getProfileStore();
+    const owner = Session.owner(request);
+    const existing = await store.get(owner, id);
+    if (!existing) {
+      return notFoundResponse();
+    }
+    if (existing.kind !== input.kind) {
+      return NextResponse.json(
+        { error: `kind must stay "${existing.kind}"` },
+        { status: 400 }
+      );
+    }
+
+    const profile = await store.update(owner, id, input);
+    return profile
+      ? NextResponse.json({ profile })
+      : notFoundResponse();
+  } catch (error) {
+    console.error("Profiles Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save profile" },
+      { status: 500 }
+    );
+  }
+}
+
+/** DELETE /api/profiles/:id */
+export async function DELETE(
+  request: NextRequest,
+  { params }: RouteContext
+) {
+  const { id } = await params;
+  if (Profiles.builtIn(id)) {
+    return builtInResponse();
+  }
+
+  try {
+    const deleted = await getProfileStore().delete(
+      Session.owner(request),
+      id
+    );
+    return deleted
+      ? NextResponse.json({ deleted: true })
+      : notFoundResponse();
+  } catch (error) {
+    console.error("Profiles Error:", error);
+    return NextResponse.json(
+      { error: "Failed to delete profile" },
+      { status: 500 }
+    );
+  }
+}
+
+function builtInResponse() {
+  return NextResponse.json(
+    { error: "Built-in profiles cannot be changed" },
+    { status: 400 }
+  );
+}
+
+function notFoundResponse() {
+  return NextResponse.json(
+    { error: "Profile not found" },
+    { status: 404 }
+  );
+}
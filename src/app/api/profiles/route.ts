@@ -0,0 +1,90 @@
+/**
+ * API Route: Audience and time-constraint profiles.
+ *
+ * ## Inputs
+ * - GET: no parameters
+ * - POST JSON body, one of:
+ *   - { kind: "audience"; label: string; description?: string; context: string; focusAreas: string; instructions?: string }
+ *   - { kind: "time"; label: string; minutes: number; guidance?: string }
+ *
+ * ## Outputs
+ * - GET 200: { audiences: AudienceProfile[]; timeProfiles: TimeProfile[] } —
+ *   built-ins first (`builtIn: true`), then custom profiles in creation order
+ * - POST 201: { profile: Profile }
+ * - 400 with { error } for invalid bodies; 500 with { error } on storage failures
+ *
+ * ## Storage
+ * - Custom profiles are kept by {@link getProfileStore}; see `services/storage`.
+ * - Each signed-in user has their own custom profiles; signed-out visitors
+ *   share one set.
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import {
+  BUILT_IN_AUDIENCES,
+  BUILT_IN_TIME_PROFILES,
+  Profiles,
+  type AudienceProfile,
+  type TimeProfile,
+} from "../../services/profiles";
+import { Session } from "../../services/session";
+import { getProfileStore } from "../../services/storage";
+
+/** GET /api/profiles — every profile the options picker can offer. */
+export async function GET(request: NextRequest) {
+  try {
+    const custom = await getProfileStore().list(Session.owner(request));
+    return NextResponse.json({
+      audiences: [
+        ...BUILT_IN_AUDIENCES,
+        ...custom.filter(
+          (profile): profile is AudienceProfile => profile.kind === "audience"
+        ),
+      ],
+      timeProfiles: [
+        ...BUILT_IN_TIME_PROFILES,
+        ...custom.filter(
+          (profile): profile is TimeProfile => profile.kind === "time"
+        ),
+      ],
+    });
+  } catch (error) {
+    console.error("Profiles Error:", error);
+    return NextResponse.json(
+      { error: "Failed to load profiles" },
+      { status: 500 }
+    );
+  }
+}
+
+/** POST /api/profiles — create a custom profile. */
+export async function POST(request: NextRequest) {
+  const body: Record<string, unknown> | null = await request
+    .json()
+    .catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid JSON in request body" },
+      { status: 400 }
+    );
+  }
+
+  const input = Profiles.parseInput(body);
+  if ("error" in input) {
+    return NextResponse.json(input, { status: 400 });
+  }
+
+  try {
+    const profile = await getProfileStore().create(
+      Session.owner(request),
+      input
+    );
+    return NextResponse.json({ profile }, { status: 201 });
+  } catch (error) {
+    console.error("Profiles Error:", error);
+    return NextResponse.json(
+      { error: "Failed to save profile" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,221 @@
+/**
+ * API Route: Refine a whole run of show through a chat request.
+ *
+ * ## Purpose
+ * Backs the refinement chat: the presenter asks for a change ("cut this to 10
+ * minutes", "make it friendlier for juniors") and gets a revised run of show.
+ *
+ * ## Conversation sent to the model
+ * 1. The original generation prompt, rebuilt from the cached `RepoAnalysis` and the
+ *    presentation config
+ * 2. The current run of show JSON, as the model's reply
+ * 3. The new request, listing earlier chat turns (see `PromptGenerator.generateRefinement`)
+ *
+ * ## Inputs
+ * - POST JSON body: {
+ *     runOfShow: RunOfShow; instruction: string; history?: RefinementTurn[];
+ *     config: PresentationConfig; metadata?: RunOfShowMetadata; repoUrl?: string
+ *   }
+ * - The repository context is loaded like `/api/regenerate-section` does: from the
+ *   analysis cache, or re-analyzed at `metadata.commitSha` when `repoUrl` is given
+ *   (as the signed-in GitHub user, if any).
+ *
+ * ## Outputs
+ * - 200 OK: { runOfShow, summary, analysisId }
+ * - 400 with { error, issues? } for invalid input, an unknown (deleted) profile or
+ *   an unknown model (`config.model`, as in `/api/generate-runofshow`)
+ * - 409 with { error } when the analysis expired and cannot be rebuilt
+ * - 502 with { error, issues, attempts } when the model's revision fails validation
+ * - 404 with { error } when re-analyzing finds the commit or subdirectory gone
+ * - 404/403/429/502 when re-analyzing on GitHub, GitLab, Bitbucket or Gitea
+ *   fails, as in `/api/generate-runofshow` (see `errorStatus` in
+ *   `services/apiErrors`)
+ * - 500 with { error } on other failures
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadAnalysis } from "../../services/analysisCache";
+import {
+  errorBody,
+  errorHeaders,
+  errorStatus,
+} from "../../services/apiErrors";
+import { completeValidated } from "../../services/llm/completion";
+import { resolveModel } from "../../services/llm";
+import { PromptGenerator } from "../../services/prompts";
+import { RunOfShowSchema } from "../../services/runOfShowSchema";
+import { Session } from "../../services/session";
+import { resolvePresentationConfig } from "../../services/storage";
+import type {
+  PresentationConfig,
+  RefinementTurn,
+  RunOfShowMetadata,
+} from "@/app/page";
+
+/** Limits that keep the conversation (and the prompt) bounded. */
+const MAX_INSTRUCTION_LENGTH = 500;
+const MAX_HISTORY_TURNS = 20;
+
+/** Used when the model's reply has no usable summary line. */
+const DEFAULT_SUMMARY = "Revised the run of show.";
+
+/**
+ * POST /api/refine-runofshow
+ *
+ * @example
+ * fetch('/api/refine-runofshow', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({
+ *     runOfShow, instruction: 'cut this to 10 minutes',
+ *     history: [{ instruction: 'make it friendlier for juniors', summary: '...' }],
+ *     config, metadata, repoUrl
+ *   })
+ * })
+ */
+export async function POST(request: NextRequest) {
+  const body: Record<string, unknown> | null = await request
+    .json()
+    .catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid JSON in request body" },
+      { status: 400 }
+    );
+  }
+
+  const { instruction, config, repoUrl } = body;
+  const metadata = (body.metadata ?? null) as RunOfShowMetadata | null;
+
+  const result = RunOfShowSchema.validate(body.runOfShow);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: "Invalid run of show", issues: result.issues },
+      { status: 400 }
+    );
+  }
+
+  if (
+    typeof instruction !== "string" ||
+    !instruction.trim() ||
+    instruction.length > MAX_INSTRUCTION_LENGTH
+  ) {
+    return NextResponse.json(
+      {
+        error: `instruction must be a non-empty string of at most ${MAX_INSTRUCTION_LENGTH} characters`,
+      },
+      { status: 400 }
+    );
+  }
+  const history = parseHistory(body.history);
+  if (!history) {
+    return NextResponse.json(
+      {
+        error: `history must be a list of at most ${MAX_HISTORY_TURNS} { instruction, summary } turns`,
+      },
+      { status: 400 }
+    );
+  }
+  if (!config || typeof config !== "object") {
+    return NextResponse.json(
+      { error: "Presentation configuration is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const model = resolveModel(
+      (config as PresentationConfig).model ?? {}
+    );
+    const resolved = await resolvePresentationConfig(
+      config as PresentationConfig,
+      Session.owner(request)
+    );
+    const context = await loadAnalysis(
+      metadata,
+      typeof repoUrl === "string" ? repoUrl.trim() : "",
+      { githubToken: Session.githubToken(request) }
+    );
+    if (!context) {
+      return NextResponse.json(
+        {
+          error:
+            "The repository analysis for this presentation has expired. Generate it again to keep refining.",
+        },
+        { status: 409 }
+      );
+    }
+
+    let summary: string | null = null;
+    const runOfShow = await completeValidated(
+      model,
+      [
+        {
+          role: "user",
+          content: PromptGenerator.generate(
+            context.analysis,
+            resolved
+          ),
+        },
+        {
+          role: "assistant",
+          content: JSON.stringify(result.value, null, 2),
+        },
+        {
+          role: "user",
+          content: PromptGenerator.generateRefinement(
+            instruction.trim(),
+            history
+          ),
+        },
+      ],
+      (text) => {
+        // Repair replies are usually bare JSON; keep the first summary found.
+        summary ??= extractSummary(text);
+        return RunOfShowSchema.parse(text);
+      }
+    );
+
+    return NextResponse.json({
+      runOfShow,
+      summary: summary ?? DEFAULT_SUMMARY,
+      analysisId: context.analysisId,
+    });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(errorBody(error), {
+      status: errorStatus(error),
+      headers: errorHeaders(error),
+    });
+  }
+}
+
+/** Validated chat history, or null when it is malformed or too long. */
+function parseHistory(value: unknown): RefinementTurn[] | null {
+  if (value === undefined) return [];
+  if (!Array.isArray(value) || value.length > MAX_HISTORY_TURNS) {
+    return null;
+  }
+
+  const turns: RefinementTurn[] = [];
+  for (const turn of value) {
+    if (
+      typeof turn?.instruction !== "string" ||
+      typeof turn?.summary !== "string"
+    ) {
+      return null;
+    }
+    turns.push({
+      instruction: turn.instruction.slice(0, MAX_INSTRUCTION_LENGTH),
+      summary: turn.summary,
+    });
+  }
+  return turns;
+}
+
+/** The "Summary:" line the model was asked to write before the JSON, if any. */
+function extractSummary(text: string): string | null {
+  const preamble = text.slice(0, Math.max(0, text.indexOf("{")));
+  const match = preamble.match(/summary:\s*(.+)/i);
+  return match ? match[1].replace(/[*`]/g, "").trim() || null : null;
+}
@@ -0,0 +1,169 @@
+/**
+ * API Route: Regenerate one section of a run of show.
+ *
+ * ## Purpose
+ * Replaces a single weak section without regenerating (and changing) the rest of
+ * the talk. The replacement keeps the section's time slot and is written to fit
+ * the transitions of its neighbours.
+ *
+ * ## Inputs
+ * - POST JSON body: {
+ *     runOfShow: RunOfShow; sectionIndex: number; instruction?: string;
+ *     config: PresentationConfig; metadata?: RunOfShowMetadata; repoUrl?: string
+ *   }
+ * - The repository context comes from the analysis cache (`metadata.analysisId`).
+ *   On a miss, the repository is analyzed again at `metadata.commitSha` when
+ *   `repoUrl` is given, as the signed-in GitHub user if any.
+ *
+ * ## Outputs
+ * - 200 OK: { section, analysisId } — `section.duration` is always the replaced
+ *   section's; `analysisId` may be new after a re-analysis
+ * - 400 with { error, issues? } for invalid input, an unknown (deleted) profile or
+ *   an unknown model (`config.model`, as in `/api/generate-runofshow`)
+ * - 409 with { error } when the analysis expired and cannot be rebuilt
+ *   (local directories and uploaded archives)
+ * - 502 with { error, issues, attempts } when the model's section fails validation
+ * - 404 with { error } when re-analyzing finds the commit or subdirectory gone
+ * - 404/403/429/502 when re-analyzing on GitHub, GitLab, Bitbucket or Gitea
+ *   fails, as in `/api/generate-runofshow` (see `errorStatus` in
+ *   `services/apiErrors`)
+ * - 500 with { error } on other failures
+ */
+
+import { NextRequest, NextResponse } from "next/server";
+import { loadAnalysis } from "../../services/analysisCache";
+import {
+  errorBody,
+  errorHeaders,
+  errorStatus,
+} from "../../services/apiErrors";
+import { completeValidated } from "../../services/llm/completion";
+import { resolveModel } from "../../services/llm";
+import { PromptGenerator } from "../../services/prompts";
+import { RunOfShowSchema } from "../../services/runOfShowSchema";
+import { Session } from "../../services/session";
+import { resolvePresentationConfig } from "../../services/storage";
+import type {
+  PresentationConfig,
+  RunOfShowMetadata,
+} from "@/app/page";
+
+/** Upper bound on the free-text instruction, to keep prompts bounded. */
+const MAX_INSTRUCTION_LENGTH = 500;
+
+/**
+ * POST /api/regenerate-section
+ *
+ * @example
+ * fetch('/api/regenerate-section', {
+ *   method: 'POST',
+ *   headers: { 'Content-Type': 'application/json' },
+ *   body: JSON.stringify({
+ *     runOfShow, sectionIndex: 2, instruction: 'more code, less business',
+ *     config, metadata, repoUrl
+ *   })
+ * })
+ */
+export async function POST(request: NextRequest) {
+  const body: Record<string, unknown> | null = await request
+    .json()
+    .catch(() => null);
+  if (!body || typeof body !== "object") {
+    return NextResponse.json(
+      { error: "Invalid JSON in request body" },
+      { status: 400 }
+    );
+  }
+
+  const { sectionIndex, instruction, config, repoUrl } = body;
+  const metadata = (body.metadata ?? null) as RunOfShowMetadata | null;
+
+  const result = RunOfShowSchema.validate(body.runOfShow);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: "Invalid run of show", issues: result.issues },
+      { status: 400 }
+    );
+  }
+  const runOfShow = result.value;
+
+  if (
+    typeof sectionIndex !== "number" ||
+    !Number.isInteger(sectionIndex) ||
+    sectionIndex < 0 ||
+    sectionIndex >= runOfShow.sections.length
+  ) {
+    return NextResponse.json(
+      { error: "sectionIndex must be the index of an existing section" },
+      { status: 400 }
+    );
+  }
+  if (
+    instruction !== undefined &&
+    (typeof instruction !== "string" ||
+      instruction.length > MAX_INSTRUCTION_LENGTH)
+  ) {
+    return NextResponse.json(
+      {
+        error: `instruction must be a string of at most ${MAX_INSTRUCTION_LENGTH} characters`,
+      },
+      { status: 400 }
+    );
+  }
+  if (!config || typeof config !== "object") {
+    return NextResponse.json(
+      { error: "Presentation configuration is required" },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const model = resolveModel(
+      (config as PresentationConfig).model ?? {}
+    );
+    const resolved = await resolvePresentationConfig(
+      config as PresentationConfig,
+      Session.owner(request)
+    );
+    const context = await loadAnalysis(
+      metadata,
+      typeof repoUrl === "string" ? repoUrl.trim() : "",
+      { githubToken: Session.githubToken(request) }
+    );
+    if (!context) {
+      return NextResponse.json(
+        {
+          error:
+            "The repository analysis for this presentation has expired. Generate it again to regenerate sections.",
+        },
+        { status: 409 }
+      );
+    }
+
+    const prompt = PromptGenerator.generateSectionRegeneration(
+      context.analysis,
+      resolved,
+      runOfShow,
+      sectionIndex,
+      (instruction as string | undefined)?.trim() || undefined
+    );
+    const section = await completeValidated(model, prompt, (text) =>
+      RunOfShowSchema.parseSection(text)
+    );
+
+    return NextResponse.json({
+      // The replacement takes over the time slot whatever the model wrote.
+      section: {
+        ...section,
+        duration: runOfShow.sections[sectionIndex].duration,
+      },
+      analysisId: context.analysisId,
+    });
+  } catch (error) {
+    console.error("API Error:", error);
+    return NextResponse.json(errorBody(error), {
+      status: errorStatus(error),
+      headers: errorHeaders(error),
+    });
+  }
+}
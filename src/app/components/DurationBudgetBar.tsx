@@ -0,0 +1,93 @@
+/**
+ * @file DurationBudgetBar.tsx
+ * @description
+ * Horizontal bar showing how the run of show's sections share the talk's time
+ * budget: one segment per section, a marker at the target length, and a summary
+ * of how far the plan is over or under.
+ *
+ * @remarks
+ * - The bar spans the longer of the plan and the target, so running over is
+ *   visible as segments past the marker; sections that end past it are red.
+ * - Sections whose duration could not be read are listed, since they count as 0.
+ * - Status comes from `Pacing.checkBudget` (the same tolerance the generation
+ *   route enforces).
+ */
+
+import { Pacing, type DurationBudget } from "@/app/services/pacing";
+import type { RunOfShow } from "@/app/page";
+
+interface DurationBudgetBarProps {
+  sections: RunOfShow["sections"];
+  budget: DurationBudget;
+}
+
+const SEGMENT_COLORS = ["bg-primary-500", "bg-primary-300"];
+
+export function DurationBudgetBar({
+  sections,
+  budget,
+}: DurationBudgetBarProps) {
+  const scale = Math.max(budget.plannedSeconds, budget.targetSeconds, 1);
+  const percent = (seconds: number) => `${(seconds / scale) * 100}%`;
+
+  let start = 0;
+  const segments = sections.map((section, index) => {
+    const seconds = Pacing.durationSeconds(section.duration);
+    const segment = { index, section, start, seconds };
+    start += seconds;
+    return segment;
+  });
+
+  const summary =
+    budget.status === "within"
+      ? "within budget"
+      : `${Pacing.formatClock(budget.driftSeconds)} ${budget.status}`;
+
+  return (
+    <div className="mb-4">
+      <div
+        className="relative h-3 rounded-full bg-gray-100 overflow-hidden"
+        role="img"
+        aria-label={`Planned ${Pacing.formatDuration(
+          budget.plannedSeconds
+        )} of ${Pacing.formatDuration(budget.targetSeconds)}, ${summary}`}
+      >
+        {segments.map(({ index, section, start, seconds }) => (
+          <div
+            key={index}
+            className={`absolute inset-y-0 border-r border-white ${
+              start + seconds > budget.targetSeconds
+                ? "bg-red-400"
+                : SEGMENT_COLORS[index % SEGMENT_COLORS.length]
+            }`}
+            style={{ left: percent(start), width: percent(seconds) }}
+            title={`${index + 1}. ${section.title} (${section.duration})`}
+          />
+        ))}
+        <div
+          className="absolute inset-y-0 w-0.5 bg-gray-900"
+          style={{
+            left: `min(${percent(budget.targetSeconds)}, calc(100% - 2px))`,
+          }}
+          title={`Target: ${Pacing.formatDuration(budget.targetSeconds)}`}
+        />
+      </div>
+      <p
+        className={`mt-1 text-sm ${
+          budget.status === "within" ? "text-gray-500" : "text-amber-600"
+        }`}
+      >
+        Planned {Pacing.formatClock(budget.plannedSeconds)} of{" "}
+        {Pacing.formatClock(budget.targetSeconds)} target · {summary}
+        {budget.unreadable.length > 0 && (
+          <span className="text-amber-600">
+            {" "}
+            · unreadable duration in section
+            {budget.unreadable.length === 1 ? "" : "s"}{" "}
+            {budget.unreadable.map((index) => index + 1).join(", ")}
+          </span>
+        )}
+      </p>
+    </div>
+  );
+}
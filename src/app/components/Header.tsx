@@ -5,6 +5,7 @@
  *
  * This component is a stateless function component that renders:
  * - Application branding (title + optional logo/identifier)
+ * - A link to the saved presentation library
  * - A primary navigation link to the creator’s website
  *
  * It is intended to be displayed on every page as part of the global layout.
@@ -17,7 +18,8 @@
  * - To add more nav links, extend the `<nav>` section with additional `<a>` tags or extracted components.
  */
 
-import { ExternalLink } from "lucide-react";
+import Link from "next/link";
+import { ExternalLink, Library } from "lucide-react";
 
 export function Header() {
   return (
@@ -25,14 +27,24 @@ export function Header() {
       <div className="mx-auto max-w-7xl px-4 sm:px-6 lg:px-8">
         <div className="flex justify-between items-center py-4">
           <div className="flex items-center space-x-3">
-            <div className="flex items-center space-x-2 text-primary-600">
+            <Link
+              href="/"
+              className="flex items-center space-x-2 text-primary-600"
+            >
               <span className="text-xl font-bold text-gray-900">
                 Repo Presenter
               </span>
-            </div>
+            </Link>
           </div>
 
           <nav className="flex items-center space-x-6">
+            <Link
+              href="/library"
+              className="text-gray-600 hover:text-gray-900 text-sm font-medium flex items-center space-x-1"
+            >
+              <Library className="h-4 w-4" />
+              <span>Library</span>
+            </Link>
             <a
               href="https://moonhighway.com"
               target="_blank"
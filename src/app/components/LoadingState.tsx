@@ -3,19 +3,44 @@
  * @description
  * Full-screen overlay displayed while the application is generating
  * a presentation. Uses a semi-transparent backdrop to obscure the
- * page and a centered modal with a spinning icon for visual feedback.
-
+ * page and a centered modal that lists the real progress stages reported
+ * by the server (analysis, prompting, generation).
  *
  * @remarks
  * - The overlay uses `fixed` positioning and covers the entire viewport (`inset-0`).
  * - Tailwind `z-50` ensures it sits above other elements, including modals.
- * - The spinner is provided by the `Sparkles` icon from `lucide-react` and animated with `animate-spin`.
- * - Accessibility consideration: This component does not yet include `role="alert"` or ARIA attributes; consider adding for screen reader support.
+ * - Stages come from the route's server-sent `stage` events; completed stages show a
+ *   check mark, the current one a spinning `Sparkles` icon.
+ * - The overlay is dismissed by the parent as soon as the first section streams in.
+ * - Accessibility: the stage list is an `aria-live` region so progress is announced.
  */
 
-import { Sparkles } from "lucide-react";
+import { Sparkles, CheckCircle2, Circle } from "lucide-react";
+import type { GenerationStage } from "@/app/page";
+
+interface LoadingStateProps {
+  /** Current server-reported stage; defaults to the first stage. */
+  stage?: GenerationStage | null;
+  /** Optional detail message for the current stage. */
+  message?: string;
+}
+
+/** Ordered stages with user-facing labels. */
+const stages: Array<{ value: GenerationStage; label: string }> = [
+  { value: "analyzing", label: "Analyzing repository" },
+  { value: "prompting", label: "Preparing the prompt" },
+  { value: "generating", label: "Generating presentation" },
+];
+
+export function LoadingState({
+  stage,
+  message,
+}: LoadingStateProps) {
+  const currentIndex = Math.max(
+    0,
+    stages.findIndex((s) => s.value === stage)
+  );
 
-export function LoadingState() {
   return (
     <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
       <div className="bg-white rounded-lg shadow-xl p-8 max-w-md w-full mx-4">
@@ -27,15 +52,40 @@ export function LoadingState() {
           <h3 className="text-lg font-semibold text-gray-900">
             Generating Your Presentation
           </h3>
-          <p className="text-gray-600 text-sm mt-2">
-            Claude is analyzing your repository and creating
-            your presentation guide...
-          </p>
+          {message && (
+            <p className="text-gray-600 text-sm mt-2">
+              {message}...
+            </p>
+          )}
         </div>
+
+        {/* Stage progress */}
+        <ol className="space-y-3" aria-live="polite">
+          {stages.map((s, index) => (
+            <li
+              key={s.value}
+              className={`flex items-center text-sm ${
+                index <= currentIndex
+                  ? "text-gray-900"
+                  : "text-gray-400"
+              }`}
+            >
+              {index < currentIndex ? (
+                <CheckCircle2 className="h-5 w-5 mr-3 text-primary-600" />
+              ) : index === currentIndex ? (
+                <Sparkles className="h-5 w-5 mr-3 text-primary-600 animate-pulse" />
+              ) : (
+                <Circle className="h-5 w-5 mr-3" />
+              )}
+              {s.label}
+            </li>
+          ))}
+        </ol>
+
         {/* Timing note */}
         <div className="mt-6">
           <p className="text-xs text-gray-500 text-center mt-2">
-            This usually takes 30-60 seconds
+            Sections appear as soon as they are written
           </p>
         </div>
       </div>
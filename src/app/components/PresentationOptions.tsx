@@ -6,6 +6,9 @@
  * Allows the user to:
  * - Select a target audience (affects content tone & depth)
  * - Choose a time constraint (affects length & level of detail)
+ * - Create, edit and delete custom audience and time profiles
+ * - Pick the language model that writes the run of show, when the deployment
+ *   offers any (see `/api/models`)
  * - Toggle optional features (e.g., Q&A preparation)
  *
  * Typically rendered as part of a larger form or wizard that
@@ -22,74 +25,60 @@
  * ```
  *
  * @remarks
- * - Options are drawn from local arrays `audienceOptions` and `timeOptions`.
+ * - Options are the profiles passed in by the parent: the built-ins plus custom
+ *   profiles stored server-side. Custom profiles show edit/delete controls; saving
+ *   and deleting are delegated to the parent (`onSaveProfile` / `onDeleteProfile`).
+ * - Selecting a profile also records its label and length in the config (see
+ *   `Profiles.select`).
  * - Tailwind classes provide both the active state (ring, border, bg) and
  *   disabled state (opacity, cursor).
- * - This component is purely presentational; business logic lives in its parent.
+ * - This component is presentational apart from the open form; business logic lives
+ *   in its parent.
  */
 
-import { Users, Clock, MessageCircle } from "lucide-react";
-import type {
-  PresentationConfig,
-  AudienceType,
-  TimeConstraint,
-} from "@/app/page";
+import { useState } from "react";
+import {
+  Users,
+  Clock,
+  Cpu,
+  MessageCircle,
+  Plus,
+  Pencil,
+  Trash2,
+} from "lucide-react";
+import { ProfileForm } from "@/app/components/ProfileForm";
+import {
+  Profiles,
+  type AudienceProfile,
+  type NewProfile,
+  type Profile,
+  type TimeProfile,
+} from "@/app/services/profiles";
+import type { ModelOption, PresentationConfig } from "@/app/page";
 
 interface PresentationOptionsProps {
   /** Current presentation configuration values. */
   config: PresentationConfig;
   /** Callback invoked with a merged configuration when any option changes. */
   onChange: (config: PresentationConfig) => void;
+  /** Audience profiles to offer, built-ins first. */
+  audiences: AudienceProfile[];
+  /** Time profiles to offer, built-ins first. */
+  timeProfiles: TimeProfile[];
+  /** Create (no `id`) or update a custom profile; rejects with a user-facing error. */
+  onSaveProfile?: (input: NewProfile, id?: string) => Promise<void>;
+  /** Delete a custom profile; rejects with a user-facing error. */
+  onDeleteProfile?: (profile: Profile) => Promise<void>;
+  /** Models the deployment offers; the picker is hidden while this is empty. */
+  models?: ModelOption[];
+  /** Catalog id used when the config names no model. */
+  defaultModel?: string;
   /** If true, disables all interactive controls. */
   disabled?: boolean;
 }
 
-/** Predefined audience types with user-facing labels and descriptions. */
-const audienceOptions: Array<{
-  value: AudienceType;
-  label: string;
-  description: string;
-}> = [
-  {
-    value: "conference",
-    label: "Conference Talk",
-    description:
-      "Technical presentation for developer audience",
-  },
-  {
-    value: "internal",
-    label: "Internal Demo",
-    description:
-      "Team demonstration or standup presentation",
-  },
-  {
-    value: "client",
-    label: "Client Presentation",
-    description: "Business-focused demo for stakeholders",
-  },
-  {
-    value: "interview",
-    label: "Technical Interview",
-    description: "Code walkthrough for job interviews",
-  },
-  {
-    value: "workshop",
-    label: "Workshop",
-    description:
-      "Hands-on learning session with interactive components",
-  },
-];
-
-/** Predefined time constraints with human-readable labels. */
-const timeOptions: Array<{
-  value: TimeConstraint;
-  label: string;
-}> = [
-  { value: "5min", label: "5 minutes" },
-  { value: "15min", label: "15 minutes" },
-  { value: "30min", label: "30 minutes" },
-  { value: "1hour", label: "1 hour" },
-];
+/** The open create/edit form, if any. */
+type EditingProfile = { kind: Profile["kind"]; profile?: Profile };
 
 /**
  * Renders a form-like set of controls for selecting presentation parameters.
@@ -101,14 +90,110 @@ const timeOptions: Array<{
 export function PresentationOptions({
   config,
   onChange,
+  audiences,
+  timeProfiles,
+  onSaveProfile,
+  onDeleteProfile,
+  models = [],
+  defaultModel,
   disabled,
 }: PresentationOptionsProps) {
+  const [editing, setEditing] = useState<EditingProfile | null>(null);
+  const [profileError, setProfileError] = useState<string | null>(null);
+
   const updateConfig = (
     updates: Partial<PresentationConfig>
   ) => {
     onChange({ ...config, ...updates });
   };
 
+  const saveProfile = async (input: NewProfile) => {
+    await onSaveProfile?.(input, editing?.profile?.id);
+    setEditing(null);
+  };
+
+  const deleteProfile = async (profile: Profile) => {
+    if (!window.confirm(`Delete the "${profile.label}" profile?`)) return;
+    setProfileError(null);
+    try {
+      await onDeleteProfile?.(profile);
+      if (editing?.profile?.id === profile.id) setEditing(null);
+    } catch (err) {
+      setProfileError(
+        err instanceof Error ? err.message : "Failed to delete profile"
+      );
+    }
+  };
+
+  const optionClass = (selected: boolean) => `
+    relative cursor-pointer rounded-lg border focus:outline-none
+    ${
+      selected
+        ? "border-primary-600 ring-2 ring-primary-600 bg-primary-50"
+        : "border-gray-300 bg-white hover:border-gray-400"
+    }
+    ${disabled ? "opacity-50 cursor-not-allowed" : ""}
+  `;
+
+  /** Edit/delete icons for a custom profile card. */
+  const customControls = (profile: Profile) =>
+    !profile.builtIn &&
+    onSaveProfile &&
+    onDeleteProfile && (
+      <span className="absolute top-1 right-1 flex">
+        <button
+          type="button"
+          onClick={(e) => {
+            e.preventDefault();
+            setEditing({ kind: profile.kind, profile });
+          }}
+          disabled={disabled}
+          className="p-1 text-gray-400 hover:text-gray-700"
+          title={`Edit "${profile.label}"`}
+        >
+          <Pencil className="h-3 w-3" />
+        </button>
+        <button
+          type="button"
+          onClick={(e) => {
+            e.preventDefault();
+            deleteProfile(profile);
+          }}
+          disabled={disabled}
+          className="p-1 text-gray-400 hover:text-red-600"
+          title={`Delete "${profile.label}"`}
+        >
+          <Trash2 className="h-3 w-3" />
+        </button>
+      </span>
+    );
+
+  /** Dashed card that opens the create form. */
+  const addButton = (kind: Profile["kind"], label: string) =>
+    onSaveProfile && (
+      <button
+        type="button"
+        onClick={() => setEditing({ kind })}
+        disabled={disabled}
+        className="rounded-lg border border-dashed border-gray-300 p-3 text-sm text-gray-500 hover:border-gray-400 hover:text-gray-700 flex items-center justify-center disabled:opacity-50"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        {label}
+      </button>
+    );
+
+  const form = (kind: Profile["kind"]) =>
+    editing?.kind === kind && (
+      <ProfileForm
+        // Remount when switching between profiles so fields reset.
+        key={editing.profile?.id ?? "new"}
+        kind={kind}
+        profile={editing.profile}
+        onSubmit={saveProfile}
+        onCancel={() => setEditing(null)}
+      />
+    );
+
   return (
     <div className="space-y-8">
       <h3 className="text-lg font-semibold text-gray-900 flex items-center">
@@ -116,54 +201,48 @@ export function PresentationOptions({
         Presentation Configuration
       </h3>
 
+      {profileError && (
+        <p className="text-sm text-red-600">{profileError}</p>
+      )}
+
       {/* Audience Selection */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-3">
           Target Audience
         </label>
         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
-          {audienceOptions.map((option) => (
+          {audiences.map((profile) => (
             <label
-              key={option.value}
-              className={`
-                relative cursor-pointer rounded-lg border p-4 focus:outline-none
-                ${
-                  config.audience === option.value
-                    ? "border-primary-600 ring-2 ring-primary-600 bg-primary-50"
-                    : "border-gray-300 bg-white hover:border-gray-400"
-                }
-                ${
-                  disabled
-                    ? "opacity-50 cursor-not-allowed"
-                    : ""
-                }
-              `}
+              key={profile.id}
+              className={`${optionClass(
+                config.audience === profile.id
+              )} p-4`}
             >
               <input
                 type="radio"
                 name="audience"
-                value={option.value}
-                checked={config.audience === option.value}
-                onChange={(e) =>
-                  updateConfig({
-                    audience: e.target
-                      .value as AudienceType,
-                  })
+                value={profile.id}
+                checked={config.audience === profile.id}
+                onChange={() =>
+                  onChange(Profiles.select(config, profile))
                 }
                 disabled={disabled}
                 className="sr-only"
               />
-              <div>
+              <div className="pr-10">
                 <div className="text-sm font-medium text-gray-900">
-                  {option.label}
+                  {profile.label}
                 </div>
                 <div className="text-xs text-gray-500 mt-1">
-                  {option.description}
+                  {profile.description || profile.focusAreas}
                 </div>
               </div>
+              {customControls(profile)}
             </label>
           ))}
+          {addButton("audience", "New audience")}
         </div>
+        {form("audience")}
       </div>
 
       {/* Time Constraint */}
@@ -173,47 +252,70 @@ export function PresentationOptions({
           Time Constraint
         </label>
         <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
-          {timeOptions.map((option) => (
+          {timeProfiles.map((profile) => (
             <label
-              key={option.value}
-              className={`
-                relative cursor-pointer rounded-lg border p-3 text-center focus:outline-none
-                ${
-                  config.timeConstraint === option.value
-                    ? "border-primary-600 ring-2 ring-primary-600 bg-primary-50"
-                    : "border-gray-300 bg-white hover:border-gray-400"
-                }
-                ${
-                  disabled
-                    ? "opacity-50 cursor-not-allowed"
-                    : ""
-                }
-              `}
+              key={profile.id}
+              className={`${optionClass(
+                config.timeConstraint === profile.id
+              )} p-3 text-center`}
             >
               <input
                 type="radio"
                 name="timeConstraint"
-                value={option.value}
-                checked={
-                  config.timeConstraint === option.value
-                }
-                onChange={(e) =>
-                  updateConfig({
-                    timeConstraint: e.target
-                      .value as TimeConstraint,
-                  })
+                value={profile.id}
+                checked={config.timeConstraint === profile.id}
+                onChange={() =>
+                  onChange(Profiles.select(config, profile))
                 }
                 disabled={disabled}
                 className="sr-only"
               />
               <div className="text-sm font-medium text-gray-900">
-                {option.label}
+                {profile.label}
               </div>
+              {!profile.builtIn && (
+                <div className="text-xs text-gray-500">
+                  {profile.minutes} min
+                </div>
+              )}
+              {customControls(profile)}
             </label>
           ))}
+          {addButton("time", "Custom length")}
         </div>
+        {form("time")}
       </div>
 
+      {/* Model */}
+      {models.length > 0 && (
+        <div>
+          <label
+            htmlFor="model"
+            className="block text-sm font-medium text-gray-700 mb-3 flex items-center"
+          >
+            <Cpu className="h-4 w-4 mr-2" />
+            Model
+          </label>
+          <select
+            id="model"
+            value={config.model?.id ?? defaultModel ?? models[0].id}
+            onChange={(e) =>
+              updateConfig({
+                model: { ...config.model, id: e.target.value },
+              })
+            }
+            disabled={disabled}
+            className="input"
+          >
+            {models.map((model) => (
+              <option key={model.id} value={model.id}>
+                {model.model} ({model.providerLabel})
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
       {/* Additional Options */}
       <div>
         <label className="block text-sm font-medium text-gray-700 mb-3">
@@ -0,0 +1,314 @@
+/**
+ * @file PresenterMode.tsx
+ * @description
+ * Full-screen presenter view for delivering a run of show. Steps through the
+ * sections one at a time with a countdown derived from each section's `duration`,
+ * the current presenter notes and key points, and a preview of the next section.
+ *
+ * @remarks
+ * - Tracks time spent per section, so going back to a section resumes its clock.
+ * - Projects the finish time against the configured `timeConstraint` and flags
+ *   when the presenter is running over or under (see `Pacing.project`).
+ * - Keyboard: → / Space / PageDown next, ← / PageUp previous, Home / End jump,
+ *   P pause/resume, R restart the clock, Esc exit.
+ * - Requests browser fullscreen on open (falls back to a fixed overlay).
+ */
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import {
+  ChevronLeft,
+  ChevronRight,
+  Pause,
+  Play,
+  RotateCcw,
+  X,
+  Clock,
+} from "lucide-react";
+import type { RunOfShow, PresentationConfig } from "@/app/page";
+import { Pacing } from "@/app/services/pacing";
+
+interface PresenterModeProps {
+  runOfShow: RunOfShow;
+  config: PresentationConfig;
+  onExit: () => void;
+}
+
+/** Clock resolution; short enough that the display never visibly lags. */
+const TICK_MS = 250;
+
+export function PresenterMode({
+  runOfShow,
+  config,
+  onExit,
+}: PresenterModeProps) {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const [index, setIndex] = useState(0);
+  const [isRunning, setIsRunning] = useState(true);
+  /** Milliseconds spent on each section. */
+  const [spent, setSpent] = useState<number[]>(() =>
+    runOfShow.sections.map(() => 0)
+  );
+
+  const sectionCount = runOfShow.sections.length;
+  const section = runOfShow.sections[index];
+  const nextSection = runOfShow.sections[index + 1];
+
+  // Advance the current section's clock while running.
+  useEffect(() => {
+    if (!isRunning) return;
+    let last = Date.now();
+    const timer = setInterval(() => {
+      const now = Date.now();
+      const delta = now - last;
+      last = now;
+      setSpent((prev) =>
+        prev.map((ms, i) => (i === index ? ms + delta : ms))
+      );
+    }, TICK_MS);
+    return () => clearInterval(timer);
+  }, [isRunning, index]);
+
+  const goTo = useCallback(
+    (target: number) =>
+      setIndex(Math.min(Math.max(target, 0), sectionCount - 1)),
+    [sectionCount]
+  );
+
+  const exit = useCallback(() => {
+    if (document.fullscreenElement) {
+      document.exitFullscreen().catch(() => {});
+    }
+    onExit();
+  }, [onExit]);
+
+  useEffect(() => {
+    const handleKey = (event: KeyboardEvent) => {
+      switch (event.key) {
+        case "ArrowRight":
+        case "PageDown":
+        case " ":
+          goTo(index + 1);
+          break;
+        case "ArrowLeft":
+        case "PageUp":
+          goTo(index - 1);
+          break;
+        case "Home":
+          goTo(0);
+          break;
+        case "End":
+          goTo(sectionCount - 1);
+          break;
+        case "p":
+        case "P":
+          setIsRunning((running) => !running);
+          break;
+        case "r":
+        case "R":
+          setSpent(runOfShow.sections.map(() => 0));
+          break;
+        case "Escape":
+          exit();
+          break;
+        default:
+          return;
+      }
+      event.preventDefault();
+    };
+
+    window.addEventListener("keydown", handleKey);
+    return () => window.removeEventListener("keydown", handleKey);
+  }, [index, sectionCount, goTo, exit, runOfShow.sections]);
+
+  // Go fullscreen on open; leaving fullscreen with the browser's own Esc is fine.
+  useEffect(() => {
+    containerRef.current?.requestFullscreen?.().catch(() => {});
+  }, []);
+
+  const sectionSeconds = Pacing.durationSeconds(section.duration);
+  const sectionElapsed = spent[index] / 1000;
+  const totalElapsed = spent.reduce((total, ms) => total + ms, 0) / 1000;
+  const remaining = sectionSeconds - sectionElapsed;
+  const isOvertime = remaining < 0;
+
+  const projection = Pacing.project(
+    runOfShow,
+    config,
+    index,
+    totalElapsed,
+    sectionElapsed
+  );
+  const pacingLabel =
+    projection.status === "over"
+      ? `Running over by ${Pacing.formatClock(projection.driftSeconds)}`
+      : projection.status === "under"
+        ? `Running under by ${Pacing.formatClock(projection.driftSeconds)}`
+        : "On track";
+  const pacingClass =
+    projection.status === "over"
+      ? "bg-red-500/20 text-red-300 border-red-500/40"
+      : projection.status === "under"
+        ? "bg-yellow-500/20 text-yellow-200 border-yellow-500/40"
+        : "bg-green-500/20 text-green-300 border-green-500/40";
+
+  return (
+    <div
+      ref={containerRef}
+      className="fixed inset-0 z-50 bg-gray-950 text-white flex flex-col"
+      role="dialog"
+      aria-modal="true"
+      aria-label="Presenter mode"
+    >
+      {/* Top bar: position, overall clock and pacing */}
+      <div className="flex items-center justify-between px-8 py-4 border-b border-gray-800">
+        <div className="text-sm text-gray-400">
+          Section {index + 1} of {sectionCount} · {runOfShow.title}
+        </div>
+        <div className="flex items-center gap-4 text-sm">
+          <span className="flex items-center text-gray-300">
+            <Clock className="h-4 w-4 mr-1" />
+            {Pacing.formatClock(totalElapsed)} /{" "}
+            {Pacing.formatClock(projection.targetSeconds)}
+          </span>
+          <span
+            className={`px-3 py-1 rounded-full border ${pacingClass}`}
+            aria-live="polite"
+          >
+            {pacingLabel}
+          </span>
+          <button
+            onClick={exit}
+            className="p-2 rounded hover:bg-gray-800"
+            title="Exit presenter mode (Esc)"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+      </div>
+
+      {/* Main: countdown + current section, notes on the side */}
+      <div className="flex-1 grid grid-cols-1 lg:grid-cols-3 gap-8 px-8 py-6 overflow-y-auto">
+        <div className="lg:col-span-2 flex flex-col">
+          <div
+            className={`font-mono text-7xl font-bold tabular-nums ${
+              isOvertime ? "text-red-400" : "text-white"
+            }`}
+            aria-label="Section time remaining"
+          >
+            {isOvertime && "+"}
+            {Pacing.formatClock(remaining)}
+          </div>
+          <div className="text-sm text-gray-400 mt-1">
+            {isOvertime
+              ? `Over the ${section.duration} planned for this section`
+              : `of ${section.duration}`}
+            {!isRunning && " · paused"}
+          </div>
+
+          <h1 className="text-4xl font-bold mt-8 mb-4">
+            {section.title}
+          </h1>
+          <p className="text-lg text-gray-300 leading-relaxed mb-6">
+            {section.content}
+          </p>
+          {section.keyPoints.length > 0 && (
+            <ul className="space-y-2">
+              {section.keyPoints.map((point, pointIndex) => (
+                <li
+                  key={pointIndex}
+                  className="text-xl text-gray-100 flex items-start"
+                >
+                  <span className="text-primary-400 mr-3">•</span>
+                  {point}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="flex flex-col gap-6">
+          <div className="bg-gray-900 rounded-lg p-5 border border-gray-800">
+            <h2 className="text-sm font-semibold text-yellow-300 mb-3">
+              📝 Presenter Notes
+            </h2>
+            {section.presenterNotes.length > 0 ? (
+              <ul className="space-y-3">
+                {section.presenterNotes.map((note, noteIndex) => (
+                  <li
+                    key={noteIndex}
+                    className="text-gray-200 leading-relaxed"
+                  >
+                    {note}
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500 text-sm">
+                No notes for this section.
+              </p>
+            )}
+          </div>
+
+          <div className="bg-gray-900 rounded-lg p-5 border border-gray-800">
+            <h2 className="text-sm font-semibold text-gray-400 mb-2">
+              Up next
+            </h2>
+            {nextSection ? (
+              <p className="text-gray-100">
+                {nextSection.title}{" "}
+                <span className="text-gray-500">
+                  ({nextSection.duration})
+                </span>
+              </p>
+            ) : (
+              <p className="text-gray-300">{runOfShow.closingNotes}</p>
+            )}
+          </div>
+        </div>
+      </div>
+
+      {/* Controls */}
+      <div className="flex items-center justify-between px-8 py-4 border-t border-gray-800">
+        <div className="text-xs text-gray-500">
+          ← → navigate · P pause · R restart clock · Esc exit
+        </div>
+        <div className="flex items-center gap-2">
+          <button
+            onClick={() => goTo(index - 1)}
+            disabled={index === 0}
+            className="p-2 rounded hover:bg-gray-800 disabled:opacity-30"
+            title="Previous section"
+          >
+            <ChevronLeft className="h-6 w-6" />
+          </button>
+          <button
+            onClick={() => setIsRunning((running) => !running)}
+            className="p-2 rounded hover:bg-gray-800"
+            title={isRunning ? "Pause (P)" : "Resume (P)"}
+          >
+            {isRunning ? (
+              <Pause className="h-6 w-6" />
+            ) : (
+              <Play className="h-6 w-6" />
+            )}
+          </button>
+          <button
+            onClick={() => setSpent(runOfShow.sections.map(() => 0))}
+            className="p-2 rounded hover:bg-gray-800"
+            title="Restart clock (R)"
+          >
+            <RotateCcw className="h-5 w-5" />
+          </button>
+          <button
+            onClick={() => goTo(index + 1)}
+            disabled={index === sectionCount - 1}
+            className="p-2 rounded hover:bg-gray-800 disabled:opacity-30"
+            title="Next section"
+          >
+            <ChevronRight className="h-6 w-6" />
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+/**
+ * @file ProfileForm.tsx
+ * @description
+ * Create/edit form for a custom audience or time-constraint profile, shown inline
+ * in `PresentationOptions`.
+ *
+ * @remarks
+ * - Audience profiles: name, short description, audience context, focus areas and
+ *   optional extra instructions. Time profiles: name, length in minutes and
+ *   optional guidance (the closest built-in's guidance is used when left empty).
+ * - Saving is delegated to `onSubmit`; a rejection is shown inside the form.
+ */
+
+import { useState } from "react";
+import {
+  Profiles,
+  type NewProfile,
+  type Profile,
+} from "@/app/services/profiles";
+
+interface ProfileFormProps {
+  kind: Profile["kind"];
+  /** The profile being edited; omitted when creating one. */
+  profile?: Profile;
+  onSubmit: (input: NewProfile) => Promise<void>;
+  onCancel: () => void;
+}
+
+export function ProfileForm({
+  kind,
+  profile,
+  onSubmit,
+  onCancel,
+}: ProfileFormProps) {
+  const audience = profile?.kind === "audience" ? profile : undefined;
+  const time = profile?.kind === "time" ? profile : undefined;
+
+  const [label, setLabel] = useState(profile?.label ?? "");
+  const [description, setDescription] = useState(
+    audience?.description ?? ""
+  );
+  const [context, setContext] = useState(audience?.context ?? "");
+  const [focusAreas, setFocusAreas] = useState(audience?.focusAreas ?? "");
+  const [instructions, setInstructions] = useState(
+    audience?.instructions ?? ""
+  );
+  const [minutes, setMinutes] = useState(String(time?.minutes ?? 10));
+  const [guidance, setGuidance] = useState(time?.guidance ?? "");
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const minuteCount = Number(minutes);
+  const minutesValid =
+    Number.isInteger(minuteCount) &&
+    minuteCount >= Profiles.MIN_MINUTES &&
+    minuteCount <= Profiles.MAX_MINUTES;
+  const canSave =
+    label.trim() !== "" &&
+    (kind === "audience"
+      ? context.trim() !== "" && focusAreas.trim() !== ""
+      : minutesValid);
+
+  const submit = async () => {
+    setIsSaving(true);
+    setError(null);
+    try {
+      await onSubmit(
+        kind === "audience"
+          ? { kind, label, description, context, focusAreas, instructions }
+          : { kind, label, minutes: minuteCount, guidance }
+      );
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save profile");
+      setIsSaving(false);
+    }
+  };
+
+  const field = (
+    name: string,
+    value: string,
+    onChange: (value: string) => void,
+    options: { placeholder?: string; multiline?: boolean; optional?: boolean } = {}
+  ) => (
+    <label className="block">
+      <span className="text-xs font-medium text-gray-600">
+        {name}
+        {options.optional && (
+          <span className="text-gray-400"> (optional)</span>
+        )}
+      </span>
+      {options.multiline ? (
+        <textarea
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={options.placeholder}
+          maxLength={Profiles.MAX_TEXT_LENGTH}
+          rows={2}
+          className="input mt-1"
+        />
+      ) : (
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={options.placeholder}
+          maxLength={Profiles.MAX_TEXT_LENGTH}
+          className="input mt-1"
+        />
+      )}
+    </label>
+  );
+
+  return (
+    <form
+      className="mt-3 p-4 rounded-lg border border-gray-200 bg-gray-50 space-y-3"
+      onSubmit={(e) => {
+        e.preventDefault();
+        if (canSave) submit();
+      }}
+    >
+      {kind === "audience" ? (
+        <>
+          {field("Name", label, setLabel, {
+            placeholder: "Security review board",
+          })}
+          {field("Short description", description, setDescription, {
+            placeholder: "Threat-focused walkthrough for security reviewers",
+            optional: true,
+          })}
+          {field("Audience context", context, setContext, {
+            placeholder:
+              "security review board assessing attack surface, data handling and dependency risk",
+            multiline: true,
+          })}
+          {field("Focus areas", focusAreas, setFocusAreas, {
+            placeholder:
+              "authentication, input validation, secrets handling, dependency hygiene",
+            multiline: true,
+          })}
+          {field("Extra instructions", instructions, setInstructions, {
+            placeholder: "Call out every external network call",
+            multiline: true,
+            optional: true,
+          })}
+        </>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-3">
+            <div className="sm:col-span-2">
+              {field("Name", label, setLabel, {
+                placeholder: "10-minute meetup slot",
+              })}
+            </div>
+            <label className="block">
+              <span className="text-xs font-medium text-gray-600">
+                Minutes
+              </span>
+              <input
+                type="number"
+                min={Profiles.MIN_MINUTES}
+                max={Profiles.MAX_MINUTES}
+                step={1}
+                value={minutes}
+                onChange={(e) => setMinutes(e.target.value)}
+                className="input mt-1"
+              />
+            </label>
+          </div>
+          {field("Guidance", guidance, setGuidance, {
+            placeholder: minutesValid
+              ? Profiles.defaultGuidance(minuteCount)
+              : undefined,
+            multiline: true,
+            optional: true,
+          })}
+        </>
+      )}
+
+      {error && <p className="text-sm text-red-600">{error}</p>}
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          disabled={isSaving}
+          className="btn-secondary"
+        >
+          Cancel
+        </button>
+        <button
+          type="submit"
+          disabled={!canSave || isSaving}
+          className="btn-primary"
+        >
+          {isSaving ? "Saving..." : profile ? "Save changes" : "Create profile"}
+        </button>
+      </div>
+    </form>
+  );
+}
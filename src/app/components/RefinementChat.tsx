@@ -0,0 +1,340 @@
+/**
+ * @file RefinementChat.tsx
+ * @description
+ * Chat panel for refining a whole run of show with plain-language requests such as
+ * "cut this to 10 minutes" or "make it friendlier for juniors".
+ *
+ * @remarks
+ * - Each request goes to the parent's `onRefine` (backed by `/api/refine-runofshow`)
+ *   together with the earlier turns, so later requests build on earlier ones.
+ * - Revisions are applied through `onChange`; every reply shows what changed
+ *   (`RunOfShowDiff`) and the latest one can be undone while the run of show has
+ *   not been edited since. Undoing it makes the turn before it undoable.
+ * - Chat state is local; the parent remounts the panel (via `key`) for a new
+ *   presentation.
+ */
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  MessageSquare,
+  Send,
+  Undo2,
+  Loader2,
+  ChevronDown,
+  ChevronRight,
+  AlertTriangle,
+} from "lucide-react";
+import { RunOfShowDiff } from "@/app/services/runOfShowDiff";
+import type {
+  RefinementTurn,
+  RunOfShow,
+  VersionSource,
+} from "@/app/page";
+
+interface ChatTurn {
+  id: number;
+  instruction: string;
+  status: "pending" | "applied" | "undone" | "failed";
+  summary?: string;
+  error?: string;
+  before: RunOfShow;
+  after?: RunOfShow;
+}
+
+interface RefinementChatProps {
+  runOfShow: RunOfShow;
+  /** Requests a revision; rejects with a user-facing error. */
+  onRefine: (
+    instruction: string,
+    history: RefinementTurn[]
+  ) => Promise<{ runOfShow: RunOfShow; summary: string }>;
+  /** Applies a revision ("refinement") or an undo ("restore") as a new version. */
+  onChange: (
+    runOfShow: RunOfShow,
+    source: VersionSource,
+    note: string
+  ) => void;
+  disabled?: boolean;
+}
+
+const SUGGESTIONS = [
+  "Cut this to 10 minutes",
+  "Make it friendlier for juniors",
+  "Add a live demo section",
+];
+
+const MAX_INSTRUCTION_LENGTH = 500;
+
+export function RefinementChat({
+  runOfShow,
+  onRefine,
+  onChange,
+  disabled = false,
+}: RefinementChatProps) {
+  const [turns, setTurns] = useState<ChatTurn[]>([]);
+  const [draft, setDraft] = useState("");
+  const [expandedTurn, setExpandedTurn] = useState<number | null>(null);
+  const nextId = useRef(1);
+  const bottomRef = useRef<HTMLDivElement>(null);
+
+  const isPending = turns.some((turn) => turn.status === "pending");
+
+  // The most recent applied turn, undoable while nothing else has changed since.
+  const undoable = [...turns]
+    .reverse()
+    .find((turn) => turn.status === "applied");
+  const canUndo = undoable?.after === runOfShow;
+
+  useEffect(() => {
+    bottomRef.current?.scrollIntoView({ behavior: "smooth", block: "nearest" });
+  }, [turns.length]);
+
+  const updateTurn = (id: number, changes: Partial<ChatTurn>) =>
+    setTurns((current) =>
+      current.map((turn) => (turn.id === id ? { ...turn, ...changes } : turn))
+    );
+
+  const send = async (text: string) => {
+    const instruction = text.trim();
+    if (!instruction || isPending || disabled) return;
+
+    const history: RefinementTurn[] = turns
+      .filter((turn) => turn.status === "applied")
+      .map((turn) => ({
+        instruction: turn.instruction,
+        summary: turn.summary ?? "",
+      }));
+    const id = nextId.current++;
+    setTurns((current) => [
+      ...current,
+      { id, instruction, status: "pending", before: runOfShow },
+    ]);
+    setDraft("");
+
+    try {
+      const result = await onRefine(instruction, history);
+      updateTurn(id, {
+        status: "applied",
+        summary: result.summary,
+        after: result.runOfShow,
+      });
+      onChange(result.runOfShow, "refinement", instruction);
+    } catch (err) {
+      updateTurn(id, {
+        status: "failed",
+        error: err instanceof Error ? err.message : "Refinement failed",
+      });
+    }
+  };
+
+  const undo = () => {
+    if (!undoable || !canUndo) return;
+    updateTurn(undoable.id, { status: "undone" });
+    onChange(undoable.before, "restore", `Undid “${undoable.instruction}”`);
+  };
+
+  return (
+    <div className="card p-4 flex flex-col max-h-[calc(100vh-4rem)]">
+      <div className="flex items-center mb-3">
+        <MessageSquare className="h-5 w-5 text-primary-600 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Refine</h3>
+      </div>
+
+      <div className="flex-1 overflow-y-auto space-y-3 min-h-24">
+        {turns.length === 0 && (
+          <div className="text-sm text-gray-500 space-y-2">
+            <p>
+              Ask for changes to the whole run of show. Each revision can be
+              reviewed and undone.
+            </p>
+            <div className="flex flex-wrap gap-2">
+              {SUGGESTIONS.map((suggestion) => (
+                <button
+                  key={suggestion}
+                  onClick={() => send(suggestion)}
+                  disabled={disabled}
+                  className="px-2 py-1 text-xs rounded-full border border-gray-300 text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+                >
+                  {suggestion}
+                </button>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {turns.map((turn) => (
+          <div key={turn.id} className="space-y-2">
+            <div className="ml-6 px-3 py-2 rounded-lg bg-primary-50 text-sm text-gray-900">
+              {turn.instruction}
+            </div>
+
+            {turn.status === "pending" && (
+              <div className="mr-6 px-3 py-2 text-sm text-gray-500 flex items-center">
+                <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                Revising the run of show...
+              </div>
+            )}
+
+            {turn.status === "failed" && (
+              <div className="mr-6 px-3 py-2 rounded-lg bg-red-50 border border-red-200 text-sm text-red-700 flex items-start">
+                <AlertTriangle className="h-4 w-4 mr-2 mt-0.5 flex-shrink-0" />
+                <span>{turn.error}</span>
+              </div>
+            )}
+
+            {(turn.status === "applied" || turn.status === "undone") &&
+              turn.after && (
+                <div className="mr-6 px-3 py-2 rounded-lg bg-gray-50 border border-gray-200 text-sm">
+                  <p
+                    className={
+                      turn.status === "undone"
+                        ? "text-gray-400 line-through"
+                        : "text-gray-800"
+                    }
+                  >
+                    {turn.summary}
+                  </p>
+                  <div className="mt-2 flex items-center gap-3">
+                    <button
+                      onClick={() =>
+                        setExpandedTurn(
+                          expandedTurn === turn.id ? null : turn.id
+                        )
+                      }
+                      className="text-xs text-primary-600 hover:text-primary-700 flex items-center"
+                    >
+                      {expandedTurn === turn.id ? (
+                        <ChevronDown className="h-3 w-3 mr-1" />
+                      ) : (
+                        <ChevronRight className="h-3 w-3 mr-1" />
+                      )}
+                      Changes
+                    </button>
+                    {turn === undoable && (
+                      <button
+                        onClick={undo}
+                        disabled={!canUndo || isPending}
+                        title={
+                          canUndo
+                            ? "Restore the version before this change"
+                            : "The run of show was edited after this change"
+                        }
+                        className="text-xs text-gray-600 hover:text-gray-900 flex items-center disabled:opacity-50"
+                      >
+                        <Undo2 className="h-3 w-3 mr-1" />
+                        Undo
+                      </button>
+                    )}
+                    {turn.status === "undone" && (
+                      <span className="text-xs text-gray-400">Undone</span>
+                    )}
+                  </div>
+                  {expandedTurn === turn.id && (
+                    <ChangeList before={turn.before} after={turn.after} />
+                  )}
+                </div>
+              )}
+          </div>
+        ))}
+        <div ref={bottomRef} />
+      </div>
+
+      <form
+        className="mt-3 flex items-end gap-2"
+        onSubmit={(e) => {
+          e.preventDefault();
+          send(draft);
+        }}
+      >
+        <textarea
+          value={draft}
+          onChange={(e) => setDraft(e.target.value)}
+          onKeyDown={(e) => {
+            // Enter sends; Shift+Enter adds a line break.
+            if (e.key === "Enter" && !e.shiftKey) {
+              e.preventDefault();
+              send(draft);
+            }
+          }}
+          rows={2}
+          maxLength={MAX_INSTRUCTION_LENGTH}
+          disabled={disabled}
+          placeholder="e.g. cut this to 10 minutes"
+          className="input flex-1 resize-none"
+          aria-label="Refinement request"
+        />
+        <button
+          type="submit"
+          disabled={!draft.trim() || isPending || disabled}
+          className="btn-primary px-3"
+          title="Send"
+        >
+          <Send className="h-4 w-4" />
+        </button>
+      </form>
+    </div>
+  );
+}
+
+/** Section-level summary of what a revision changed. */
+function ChangeList({
+  before,
+  after,
+}: {
+  before: RunOfShow;
+  after: RunOfShow;
+}) {
+  const changes = useMemo(
+    () => RunOfShowDiff.diff(before, after),
+    [before, after]
+  );
+
+  if (changes.unchanged) {
+    return <p className="mt-2 text-xs text-gray-500">No changes.</p>;
+  }
+
+  return (
+    <ul className="mt-2 space-y-1 text-xs">
+      {changes.fields.length > 0 && (
+        <li className="text-amber-700">
+          ~ Updated {changes.fields.map(fieldLabel).join(", ")}
+        </li>
+      )}
+      {changes.sections.map((change, index) => {
+        if (change.status === "unchanged") return null;
+        if (change.status === "added") {
+          return (
+            <li key={index} className="text-green-700">
+              + {change.after!.title} ({change.after!.duration})
+            </li>
+          );
+        }
+        if (change.status === "removed") {
+          return (
+            <li key={index} className="text-red-700 line-through">
+              − {change.before!.title} ({change.before!.duration})
+            </li>
+          );
+        }
+        const { before: old, after: updated } = change;
+        const details = [
+          change.fields.includes("title") && `was “${old!.title}”`,
+          change.fields.includes("duration") &&
+            `${old!.duration} → ${updated!.duration}`,
+          ...change.fields
+            .filter((field) => field !== "title" && field !== "duration")
+            .map(fieldLabel),
+        ].filter(Boolean);
+        return (
+          <li key={index} className="text-amber-700">
+            ~ {updated!.title}: {details.join("; ")}
+          </li>
+        );
+      })}
+    </ul>
+  );
+}
+
+function fieldLabel(field: string): string {
+  return field.replace(/([A-Z])/g, " $1").toLowerCase();
+}
@@ -1,7 +1,8 @@
 /**
  * @file RepoInput.tsx
  * @description
- * Input form component for collecting a GitHub repository URL from the user.
+ * Input form component for collecting a repository URL (GitHub, GitLab, Bitbucket
+ * or a self-hosted Gitea) from the user.
  * Provides validation, user feedback, and a call-to-action to start the
  * AI-powered presentation generation process.
  *
@@ -10,17 +11,37 @@
  * - Includes a submit button that triggers the parent callback with the entered value.
  * - Shows an example placeholder to guide correct formatting.
  * - Can display an error or helper text beneath the field if provided by the parent.
+ * - Optionally accepts an uploaded archive (tar, tar.gz, tgz, zip) instead of a URL,
+ *   for code that does not live on GitHub.
+ * - When the server has GitHub sign-in configured, offers "Sign in with GitHub";
+ *   once signed in, a picker lists the repositories the user can access (private
+ *   ones included) and fills in the URL.
  * - Uses Tailwind CSS for layout, spacing, and focus/hover states.
  * - Accessibility consideration: The input has an associated `<label>` for screen readers.
  */
 
-import { Github, AlertCircle } from "lucide-react";
+import { useEffect, useState } from "react";
+import {
+  Github,
+  Gitlab,
+  GitBranch,
+  AlertCircle,
+  Lock,
+  LogOut,
+  Upload,
+  X,
+} from "lucide-react";
+import type { AccessibleRepository } from "@/app/services/githubAuth";
+import type { SessionUser } from "@/app/services/session";
 
 interface RepoInputProps {
   value: string;
   onChange: (value: string) => void;
   error?: string | null;
   disabled?: boolean;
+  /** Uploaded repository archive, used instead of the URL when set. */
+  archive?: File | null;
+  onArchiveChange?: (file: File | null) => void;
 }
 
 export function RepoInput({
@@ -28,20 +49,81 @@ export function RepoInput({
   onChange,
   error,
   disabled,
+  archive,
+  onArchiveChange,
 }: RepoInputProps) {
+  /** Whether sign-in is available and who is signed in; null until loaded. */
+  const [auth, setAuth] = useState<{
+    enabled: boolean;
+    user: SessionUser | null;
+  } | null>(null);
+  const [repositories, setRepositories] = useState<
+    AccessibleRepository[] | null
+  >(null);
+  const [repositoriesError, setRepositoriesError] = useState<
+    string | null
+  >(null);
+  const login = auth?.user?.login;
+
+  useEffect(() => {
+    fetch("/api/auth/session")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => data && setAuth(data))
+      .catch((err) => console.error("Failed to load session:", err));
+  }, []);
+
+  // List the signed-in user's repositories for the picker.
+  useEffect(() => {
+    setRepositories(null);
+    setRepositoriesError(null);
+    if (!login) return;
+
+    fetch("/api/github/repos")
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setRepositories(data.repositories);
+      })
+      .catch((err) =>
+        setRepositoriesError(
+          err instanceof Error && err.message
+            ? err.message
+            : "Failed to load your repositories"
+        )
+      );
+  }, [login]);
+
+  /** Clear the session cookie and forget the repository list. */
+  const handleSignOut = async () => {
+    await fetch("/api/auth/session", { method: "DELETE" }).catch((err) =>
+      console.error("Failed to sign out:", err)
+    );
+    setAuth((current) => current && { ...current, user: null });
+  };
+
   /**
-   * Validates whether a given string is a properly formatted GitHub repository URL.
-   * Pattern enforces:
-   * - Must start with "https://github.com/"
-   * - Must contain exactly two path segments after domain (owner/repo)
+   * Validates whether a given string looks like a hosted repository URL.
+   * The host itself is checked server-side, since self-hosted GitLab/Gitea
+   * instances are configured there. Pattern enforces:
+   * - Must start with "https://" followed by a host (optional port)
+   * - Must contain at least two path segments (owner/repo, or group/.../project)
    * - Allows letters, numbers, underscores, dashes, and dots
    */
-  const isValidGitHubUrl = (url: string) => {
-    const githubUrlPattern =
-      /^https:\/\/github\.com\/[\w\-\.]+\/[\w\-\.]+\/?$/;
-    return githubUrlPattern.test(url.trim());
+  const isValidRepoUrl = (url: string) => {
+    const repoUrlPattern =
+      /^https:\/\/[\w\-\.]+(:\d+)?(\/[\w\-\.]+){2,}\/?$/;
+    return repoUrlPattern.test(url.trim());
   };
 
+  /** Icon matching the URL's host, so users can see which provider is used. */
+  const HostIcon = /^https:\/\/(www\.)?github\.com\//.test(value)
+    ? Github
+    : /^https:\/\/[^/]*gitlab/.test(value)
+    ? Gitlab
+    : value
+    ? GitBranch
+    : Github;
+
   /**
    * Updates the parent component whenever the user types in the input field.
    * Strips no characters — parent handles trimming if needed.
@@ -56,10 +138,10 @@ export function RepoInput({
    * Determines if validation feedback should be shown.
    * True if:
    * - User has typed something
-   * - Input fails `isValidGitHubUrl` check
+   * - Input fails `isValidRepoUrl` check
    */
   const showValidation =
-    value.length > 0 && !isValidGitHubUrl(value);
+    !archive && value.length > 0 && !isValidRepoUrl(value);
 
   return (
     <div>
@@ -68,13 +150,13 @@ export function RepoInput({
         htmlFor="repo-url"
         className="block text-sm font-medium text-gray-700 mb-2"
       >
-        GitHub Repository URL
+        Repository URL
       </label>
 
       <div className="relative">
-        {/* Left-aligned GitHub icon inside the input */}
+        {/* Left-aligned provider icon inside the input */}
         <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
-          <Github className="h-5 w-5 text-gray-400" />
+          <HostIcon className="h-5 w-5 text-gray-400" />
         </div>
 
         {/* Main input element for the repository URL */}
@@ -115,7 +197,8 @@ export function RepoInput({
       {showValidation && (
         <p className="mt-2 text-sm text-red-600 flex items-center">
           <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
-          Please enter a valid GitHub repository URL
+          Please enter a valid repository URL
+          (https://host/owner/repo)
         </p>
       )}
 
@@ -133,11 +216,115 @@ export function RepoInput({
       {/* Helper text shown when no errors are present */}
       {!showValidation && !error && (
         <p className="mt-2 text-sm text-gray-500">
-          Enter the URL of any public GitHub repository to
-          analyze
+          Enter the URL of any public GitHub, GitLab,
+          Bitbucket or Gitea repository to analyze
+          {login && ", or pick one of your GitHub repositories"}
         </p>
       )}
 
+      {/* GitHub sign-in for private repositories, and the repository picker */}
+      {auth?.enabled && !archive && (
+        <div className="mt-3 text-sm">
+          {auth.user ? (
+            <div className="space-y-2">
+              <div className="flex items-center text-gray-600">
+                <Github className="h-4 w-4 mr-2" />
+                <span className="mr-3">
+                  Signed in as{" "}
+                  <span className="font-medium">@{auth.user.login}</span>
+                </span>
+                <button
+                  onClick={handleSignOut}
+                  disabled={disabled}
+                  className="flex items-center text-gray-400 hover:text-gray-600"
+                >
+                  <LogOut className="h-3 w-3 mr-1" />
+                  Sign out
+                </button>
+              </div>
+
+              <label htmlFor="repo-picker" className="sr-only">
+                Your repositories
+              </label>
+              <select
+                id="repo-picker"
+                value={
+                  repositories?.some((repo) => repo.url === value)
+                    ? value
+                    : ""
+                }
+                onChange={(e) => e.target.value && onChange(e.target.value)}
+                disabled={disabled || !repositories}
+                className="input"
+              >
+                <option value="">
+                  {repositories
+                    ? "Choose one of your repositories…"
+                    : "Loading your repositories…"}
+                </option>
+                {repositories?.map((repo) => (
+                  <option key={repo.fullName} value={repo.url}>
+                    {repo.fullName}
+                    {repo.private ? " (private)" : ""}
+                  </option>
+                ))}
+              </select>
+              {repositoriesError && (
+                <p className="text-red-600 flex items-center">
+                  <AlertCircle className="h-4 w-4 mr-1 flex-shrink-0" />
+                  {repositoriesError}
+                </p>
+              )}
+            </div>
+          ) : (
+            <a
+              href="/api/auth/github/login"
+              className="inline-flex items-center text-primary-600 hover:text-primary-700"
+            >
+              <Lock className="h-4 w-4 mr-2" />
+              Sign in with GitHub to analyze your private repositories
+            </a>
+          )}
+        </div>
+      )}
+
+      {/* Archive upload as an alternative to a GitHub URL */}
+      {onArchiveChange && (
+        <div className="mt-3 flex items-center text-sm text-gray-600">
+          {archive ? (
+            <>
+              <Upload className="h-4 w-4 mr-2 text-primary-600" />
+              <span className="mr-2">
+                Analyzing uploaded archive{" "}
+                <span className="font-medium">{archive.name}</span>
+              </span>
+              <button
+                onClick={() => onArchiveChange(null)}
+                disabled={disabled}
+                className="text-gray-400 hover:text-gray-600"
+                title="Remove archive"
+              >
+                <X className="h-4 w-4" />
+              </button>
+            </>
+          ) : (
+            <label className="flex items-center cursor-pointer text-primary-600 hover:text-primary-700">
+              <Upload className="h-4 w-4 mr-2" />
+              Or upload a .zip / .tar.gz archive
+              <input
+                type="file"
+                accept=".zip,.tar,.tgz,.gz"
+                disabled={disabled}
+                className="sr-only"
+                onChange={(e) =>
+                  onArchiveChange(e.target.files?.[0] ?? null)
+                }
+              />
+            </label>
+          )}
+        </div>
+      )}
+
       {/* Clickable example repository shortcuts */}
       <div className="mt-4">
         <p className="text-xs text-gray-500 mb-2">
@@ -7,15 +7,32 @@
  *
  * @remarks
  * - Sections can be toggled individually or expanded/collapsed all at once.
- * - Includes repository metadata such as language, stars, audience, duration, and generation date.
- * - Provides an export-to-Markdown function to download the entire run of show.
+ * - Includes repository metadata such as language, stars, audience, duration, analyzed
+ *   ref/commit/subdirectory, the model that wrote it, and generation date.
+ * - Exports the run of show as Markdown (client-side), or as a PowerPoint / reveal.js
+ *   slide deck rendered by `/api/export`.
  * - Displays AI-generated potential Q&A and technical preparation questions.
+ * - “Edit” makes sections editable (fields, key points, notes), with drag-to-reorder,
+ *   insert and delete; changes go to the parent via `onChange`, so exports, saving
+ *   and presenting all use the edited run of show. “Fit to target” rescales durations
+ *   onto the configured time constraint.
+ * - `DurationBudgetBar` shows each section's share of the time budget, and each
+ *   section header its time window (red when it ends past the target). A note says
+ *   when generation had to revise or rescale the durations to fit.
+ * - Each expanded section has a “Regenerate” control (with an optional direction)
+ *   that replaces just that section via the parent's `onRegenerateSection`.
+ * - “Save” stores the run of show in the presentation library (handled by the parent).
+ * - “Present” opens `PresenterMode`, a full-screen view with per-section timers.
+ * - “History” opens `VersionHistoryView` to compare earlier versions and restore one
+ *   (versions are kept by the parent).
  * - Includes “New Presentation” button to reset and start over.
+ * - While `isStreaming` is set, sections render as they arrive and export/reset are
+ *   disabled until generation completes.
  * - Uses Tailwind CSS utility classes for responsive layout and styling.
  * - Accessibility consideration: Interactive controls use semantic HTML and icons include descriptive text.
  */
 
-import { useState } from "react";
+import { useMemo, useState } from "react";
 import {
   Download,
   RotateCcw,
@@ -27,9 +44,39 @@ import {
   Star,
   GitFork,
   Calendar,
+  Cpu,
+  GitBranch,
+  Sparkles,
+  FileText,
+  Presentation,
+  Globe,
+  Play,
+  Save,
+  Check,
+  Pencil,
+  GripVertical,
+  ArrowUp,
+  ArrowDown,
+  Plus,
+  Trash2,
+  Scale,
+  RefreshCw,
+  History,
+  Database,
 } from "lucide-react";
+import { DurationBudgetBar } from "@/app/components/DurationBudgetBar";
+import { PresenterMode } from "@/app/components/PresenterMode";
+import { SectionEditor } from "@/app/components/SectionEditor";
+import { VersionHistoryView } from "@/app/components/VersionHistoryView";
+import { Pacing } from "@/app/services/pacing";
+import { Profiles } from "@/app/services/profiles";
+import { RunOfShowSchema } from "@/app/services/runOfShowSchema";
 import type {
+  CacheReport,
+  DurationBudgetReport,
+  ModelReport,
   RunOfShow,
+  RunOfShowVersion,
   PresentationConfig,
 } from "@/app/page";
 
@@ -41,10 +88,34 @@ interface RunOfShowDisplayProps {
     repoName: string;
     language: string;
     stars: number;
+    ref?: string;
+    commitSha?: string;
+    subpath?: string;
     generatedAt: string;
     config: PresentationConfig;
+    budget?: DurationBudgetReport;
+    model?: ModelReport;
+    cache?: CacheReport;
   } | null;
+  /** True while sections are still streaming in from the server. */
+  isStreaming?: boolean;
+  /** True once this run of show is in the library. */
+  isSaved?: boolean;
+  /** Persist to the library; rejects with a user-facing error. */
+  onSave?: () => Promise<void>;
+  /** Receives the edited run of show; editing is disabled when omitted. */
+  onChange?: (runOfShow: RunOfShow) => void;
+  /** Replace one section with a newly generated one; rejects with a user-facing error. */
+  onRegenerateSection?: (
+    index: number,
+    instruction?: string
+  ) => Promise<void>;
+  /** Version history, oldest first; the “History” button is hidden when omitted. */
+  versions?: RunOfShowVersion[];
+  onRestoreVersion?: (version: RunOfShowVersion) => void;
   onReset: () => void;
+  /** Generate again, bypassing the cache; offered for cached results. */
+  onGenerateFresh?: () => void;
 }
 
 export function RunOfShowDisplay({
@@ -52,8 +123,33 @@ export function RunOfShowDisplay({
   repoUrl,
   config,
   metadata,
+  isStreaming = false,
+  isSaved = false,
+  onSave,
+  onChange,
+  onRegenerateSection,
+  versions,
+  onRestoreVersion,
   onReset,
+  onGenerateFresh,
 }: RunOfShowDisplayProps) {
+  const [isPresenting, setIsPresenting] = useState(false);
+  const [isViewingHistory, setIsViewingHistory] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  /** Section whose regenerate form is open, and the one being regenerated. */
+  const [regenerateTarget, setRegenerateTarget] = useState<
+    number | null
+  >(null);
+  const [regenerating, setRegenerating] = useState<number | null>(
+    null
+  );
+  const [instruction, setInstruction] = useState("");
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [actionError, setActionError] = useState<string | null>(
+    null
+  );
   const [expandedSections, setExpandedSections] = useState<
     Set<number>
   >(new Set([0]));
@@ -86,9 +182,15 @@ export function RunOfShowDisplay({
 
 **Repository**: ${repoUrl}  
 **Language**: ${metadata?.language || "Unknown"}  
-**Audience**: ${config.audience}  
-**Duration**: ${config.timeConstraint}  
-**Generated**: ${timestamp}  
+**Audience**: ${Profiles.audienceLabel(config)}  
+**Duration**: ${Profiles.timeLabel(config)}  
+${
+  metadata?.commitSha
+    ? `**Revision**: ${metadata.ref} (${metadata.commitSha.slice(0, 7)})${
+        metadata.subpath ? ` — \`${metadata.subpath}/\`` : ""
+      }  \n`
+    : ""
+}**Generated**: ${timestamp}  
 ${metadata?.stars ? `**Stars**: ${metadata.stars} ⭐` : ""}
 
 ## Overview
@@ -142,30 +244,149 @@ ${runOfShow.closingNotes}
 ---
 *Generated by [Repo Presenter](https://.vercel.app) - Transform your repositories into compelling presentations*`;
 
-    const blob = new Blob([markdown], {
-      type: "text/markdown",
-    });
+    downloadBlob(
+      new Blob([markdown], { type: "text/markdown" }),
+      `${fileSlug}-runofshow.md`
+    );
+  };
+
+  /** Render a slide deck on the server and download it. */
+  const exportDeck = async (format: "pptx" | "reveal") => {
+    setShowExportMenu(false);
+    setActionError(null);
+    try {
+      const response = await fetch("/api/export", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, runOfShow, metadata }),
+      });
+      if (!response.ok) {
+        const data: { error?: string } = await response
+          .json()
+          .catch(() => ({}));
+        throw new Error(data.error || "Export failed");
+      }
+      downloadBlob(
+        await response.blob(),
+        `${fileSlug}.${format === "pptx" ? "pptx" : "html"}`
+      );
+    } catch (err) {
+      setActionError(
+        `Export failed: ${
+          err instanceof Error ? err.message : "unknown error"
+        }`
+      );
+    }
+  };
+
+  const handleSave = async () => {
+    if (!onSave) return;
+    setIsSaving(true);
+    setActionError(null);
+    try {
+      await onSave();
+    } catch (err) {
+      setActionError(
+        err instanceof Error ? err.message : "Failed to save presentation"
+      );
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const fileSlug = runOfShow.title
+    .replace(/[^a-z0-9]/gi, "-")
+    .toLowerCase();
+
+  const downloadBlob = (blob: Blob, filename: string) => {
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
     link.href = url;
-    link.download = `${runOfShow.title
-      .replace(/[^a-z0-9]/gi, "-")
-      .toLowerCase()}-runofshow.md`;
+    link.download = filename;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
     URL.revokeObjectURL(url);
   };
 
-  const getTotalDuration = () => {
-    return runOfShow.sections.reduce((total, section) => {
-      const minutes = parseInt(
-        section.duration.match(/\d+/)?.[0] || "0"
+  const targetSeconds = Pacing.targetSeconds(config);
+  const targetMinutes = Math.round(targetSeconds / 60);
+  const budget = useMemo(
+    () => Pacing.checkBudget(runOfShow.sections, targetSeconds),
+    [runOfShow.sections, targetSeconds]
+  );
+  // Planned time window of each section, in seconds from the start of the talk.
+  let elapsed = 0;
+  const sectionWindows = runOfShow.sections.map((section) => {
+    const start = elapsed;
+    elapsed += Pacing.durationSeconds(section.duration);
+    return { start, end: elapsed };
+  });
+
+  // Edits can leave fields empty; block export/save until they are fixed.
+  const validation = useMemo(
+    () => RunOfShowSchema.validate(runOfShow),
+    [runOfShow]
+  );
+  const isInvalid = !validation.ok;
+
+  const setSections = (sections: RunOfShow["sections"]) =>
+    onChange?.({ ...runOfShow, sections });
+
+  const updateSection = (
+    index: number,
+    section: RunOfShow["sections"][number]
+  ) =>
+    setSections(
+      runOfShow.sections.map((s, i) => (i === index ? section : s))
+    );
+
+  const moveSection = (from: number, to: number) => {
+    if (to < 0 || to >= runOfShow.sections.length || from === to) return;
+    const sections = [...runOfShow.sections];
+    const [moved] = sections.splice(from, 1);
+    sections.splice(to, 0, moved);
+    setSections(sections);
+  };
+
+  const insertSection = (at: number) =>
+    setSections([
+      ...runOfShow.sections.slice(0, at),
+      {
+        title: "New section",
+        duration: Pacing.formatMinutes(2),
+        content: "What to cover in this section.",
+        presenterNotes: [],
+        keyPoints: [],
+      },
+      ...runOfShow.sections.slice(at),
+    ]);
+
+  const deleteSection = (index: number) =>
+    setSections(runOfShow.sections.filter((_, i) => i !== index));
+
+  const regenerateSection = async (index: number) => {
+    if (!onRegenerateSection) return;
+    setRegenerating(index);
+    setActionError(null);
+    try {
+      await onRegenerateSection(index, instruction.trim() || undefined);
+      setRegenerateTarget(null);
+      setInstruction("");
+    } catch (err) {
+      setActionError(
+        `Regenerating section ${index + 1} failed: ${
+          err instanceof Error ? err.message : "unknown error"
+        }`
       );
-      return total + minutes;
-    }, 0);
+    } finally {
+      setRegenerating(null);
+    }
   };
 
+  const fitToTarget = () =>
+    setSections(Pacing.fitDurations(runOfShow.sections, targetSeconds));
+
   const formatDate = (dateString: string) => {
     try {
       return new Date(dateString).toLocaleDateString(
@@ -185,6 +406,24 @@ ${runOfShow.closingNotes}
 
   return (
     <div className="max-w-4xl mx-auto animate-fade-in">
+      {isPresenting && (
+        <PresenterMode
+          runOfShow={runOfShow}
+          config={config}
+          onExit={() => setIsPresenting(false)}
+        />
+      )}
+      {isViewingHistory && versions && onRestoreVersion && (
+        <VersionHistoryView
+          versions={versions}
+          onRestore={(version) => {
+            onRestoreVersion(version);
+            setIsViewingHistory(false);
+          }}
+          onClose={() => setIsViewingHistory(false)}
+        />
+      )}
+
       {/* Header */}
       <div className="card p-6 mb-8">
         <div className="flex items-start justify-between">
@@ -200,11 +439,11 @@ ${runOfShow.closingNotes}
             <div className="flex flex-wrap items-center gap-4 text-sm text-gray-500">
               <div className="flex items-center">
                 <Users className="h-4 w-4 mr-1" />
-                {config.audience}
+                {Profiles.audienceLabel(config)}
               </div>
               <div className="flex items-center">
                 <Clock className="h-4 w-4 mr-1" />
-                {config.timeConstraint}
+                {Profiles.timeLabel(config)}
               </div>
 
               {metadata?.stars && (
@@ -213,27 +452,144 @@ ${runOfShow.closingNotes}
                   {metadata.stars.toLocaleString()}
                 </div>
               )}
+              {metadata?.commitSha && (
+                <div
+                  className="flex items-center"
+                  title={metadata.commitSha}
+                >
+                  <GitBranch className="h-4 w-4 mr-1" />
+                  {metadata.ref}@{metadata.commitSha.slice(0, 7)}
+                  {metadata.subpath && ` · ${metadata.subpath}/`}
+                </div>
+              )}
+              {metadata?.model && (
+                <div
+                  className="flex items-center"
+                  title={`${metadata.model.id} · temperature ${metadata.model.temperature} · up to ${metadata.model.maxTokens} tokens`}
+                >
+                  <Cpu className="h-4 w-4 mr-1" />
+                  {metadata.model.model}
+                </div>
+              )}
               {metadata?.generatedAt && (
                 <div className="flex items-center">
                   <Calendar className="h-4 w-4 mr-1" />
                   {formatDate(metadata.generatedAt)}
                 </div>
               )}
+              {metadata?.cache?.generation === "hit" && (
+                <div
+                  className="flex items-center"
+                  title="This run of show was generated earlier for the same repository and options"
+                >
+                  <Database className="h-4 w-4 mr-1" />
+                  Cached result
+                  {onGenerateFresh && !isStreaming && (
+                    <button
+                      onClick={onGenerateFresh}
+                      className="ml-2 text-primary-600 hover:text-primary-700 underline"
+                    >
+                      Generate fresh
+                    </button>
+                  )}
+                </div>
+              )}
             </div>
           </div>
 
           {/* Actions */}
           <div className="flex items-center space-x-3 ml-6">
+            {onSave && (
+              <button
+                onClick={handleSave}
+                disabled={
+                  isStreaming || isSaving || isSaved || isInvalid
+                }
+                className="btn-secondary flex items-center"
+                title={
+                  isSaved
+                    ? "Saved to your library"
+                    : "Save to your library"
+                }
+              >
+                {isSaved ? (
+                  <Check className="h-4 w-4 mr-2" />
+                ) : (
+                  <Save className="h-4 w-4 mr-2" />
+                )}
+                {isSaved ? "Saved" : isSaving ? "Saving..." : "Save"}
+              </button>
+            )}
             <button
-              onClick={exportToMarkdown}
+              onClick={() => setIsPresenting(true)}
+              disabled={isStreaming || isInvalid}
               className="btn-secondary flex items-center"
-              title="Export as Markdown"
+              title="Deliver with presenter view and timers"
             >
-              <Download className="h-4 w-4 mr-2" />
-              Export
+              <Play className="h-4 w-4 mr-2" />
+              Present
             </button>
+            {versions && onRestoreVersion && (
+              <button
+                onClick={() => setIsViewingHistory(true)}
+                disabled={isStreaming || versions.length === 0}
+                className="btn-secondary flex items-center"
+                title="Compare and restore earlier versions"
+              >
+                <History className="h-4 w-4 mr-2" />
+                History ({versions.length})
+              </button>
+            )}
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu((open) => !open)}
+                disabled={isStreaming || isInvalid}
+                className="btn-secondary flex items-center"
+                title="Export presentation"
+                aria-haspopup="menu"
+                aria-expanded={showExportMenu}
+              >
+                <Download className="h-4 w-4 mr-2" />
+                Export
+              </button>
+              {showExportMenu && (
+                <div
+                  role="menu"
+                  className="absolute right-0 mt-2 w-56 bg-white rounded-lg shadow-lg border border-gray-200 py-1 z-10"
+                >
+                  <button
+                    role="menuitem"
+                    onClick={() => {
+                      setShowExportMenu(false);
+                      exportToMarkdown();
+                    }}
+                    className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    Markdown (.md)
+                  </button>
+                  <button
+                    role="menuitem"
+                    onClick={() => exportDeck("pptx")}
+                    className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <Presentation className="h-4 w-4 mr-2" />
+                    PowerPoint (.pptx)
+                  </button>
+                  <button
+                    role="menuitem"
+                    onClick={() => exportDeck("reveal")}
+                    className="w-full flex items-center px-4 py-2 text-sm text-gray-700 hover:bg-gray-50"
+                  >
+                    <Globe className="h-4 w-4 mr-2" />
+                    reveal.js slides (.html)
+                  </button>
+                </div>
+              )}
+            </div>
             <button
               onClick={onReset}
+              disabled={isStreaming}
               className="btn-primary flex items-center"
               title="Create new presentation"
             >
@@ -244,13 +600,57 @@ ${runOfShow.closingNotes}
         </div>
       </div>
 
+      {actionError && (
+        <div
+          role="alert"
+          className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700"
+        >
+          {actionError}
+        </div>
+      )}
+
       {/* Section Controls */}
       <div className="flex justify-between items-center mb-4">
-        <h2 className="text-lg font-semibold text-gray-900">
-          Presentation Structure (
-          {runOfShow.sections.length} sections)
-        </h2>
+        <div>
+          <h2 className="text-lg font-semibold text-gray-900">
+            Presentation Structure (
+            {runOfShow.sections.length} sections)
+          </h2>
+          {metadata?.budget && metadata.budget.adjustment !== "none" && (
+            <p className="text-sm text-gray-500">
+              The first draft planned{" "}
+              {Pacing.formatDuration(metadata.budget.generatedSeconds)};{" "}
+              {metadata.budget.adjustment === "revised"
+                ? "the model revised it"
+                : "its durations were rescaled"}{" "}
+              to fit {Pacing.formatDuration(metadata.budget.targetSeconds)}.
+            </p>
+          )}
+        </div>
         <div className="flex space-x-2">
+          {isEditing && (
+            <button
+              onClick={fitToTarget}
+              className="text-sm text-gray-600 hover:text-gray-700 px-3 py-1 rounded border border-gray-200 hover:bg-gray-50 transition-colors flex items-center"
+              title="Rescale section durations to the target time"
+            >
+              <Scale className="h-4 w-4 mr-1" />
+              Fit to {targetMinutes} min
+            </button>
+          )}
+          {onChange && !isStreaming && (
+            <button
+              onClick={() => setIsEditing((editing) => !editing)}
+              className="text-sm text-primary-600 hover:text-primary-700 px-3 py-1 rounded border border-primary-200 hover:bg-primary-50 transition-colors flex items-center"
+            >
+              {isEditing ? (
+                <Check className="h-4 w-4 mr-1" />
+              ) : (
+                <Pencil className="h-4 w-4 mr-1" />
+              )}
+              {isEditing ? "Done" : "Edit"}
+            </button>
+          )}
           <button
             onClick={expandAllSections}
             className="text-sm text-primary-600 hover:text-primary-700 px-3 py-1 rounded border border-primary-200 hover:bg-primary-50 transition-colors"
@@ -266,10 +666,104 @@ ${runOfShow.closingNotes}
         </div>
       </div>
 
+      {!isStreaming && (
+        <DurationBudgetBar sections={runOfShow.sections} budget={budget} />
+      )}
+
+      {isInvalid && (
+        <div className="mb-4 p-4 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">
+          <p className="font-medium mb-1">
+            Fix these fields before saving or exporting:
+          </p>
+          <ul className="list-disc pl-5">
+            {validation.issues.slice(0, 5).map((issue) => (
+              <li key={issue.path}>
+                {issue.path}: {issue.message}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
       {/* Presentation Sections */}
       <div className="space-y-4 mb-8">
         {runOfShow.sections.map((section, index) => {
           const isExpanded = expandedSections.has(index);
+          if (isEditing) {
+            return (
+              <div
+                key={index}
+                className={`card p-6 ${
+                  dragIndex === index ? "opacity-50" : ""
+                }`}
+                onDragOver={(e) => {
+                  if (dragIndex !== null) e.preventDefault();
+                }}
+                onDrop={(e) => {
+                  e.preventDefault();
+                  if (dragIndex !== null) moveSection(dragIndex, index);
+                  setDragIndex(null);
+                }}
+              >
+                <div
+                  className="flex items-center justify-between mb-4 cursor-move"
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = "move";
+                    setDragIndex(index);
+                  }}
+                  onDragEnd={() => setDragIndex(null)}
+                >
+                  <div className="flex items-center space-x-3">
+                    <GripVertical
+                      className="h-5 w-5 text-gray-400"
+                      aria-hidden="true"
+                    />
+                    <div className="flex-shrink-0 w-8 h-8 bg-primary-100 text-primary-600 rounded-full flex items-center justify-center text-sm font-semibold">
+                      {index + 1}
+                    </div>
+                  </div>
+                  <div className="flex items-center space-x-1 text-gray-500">
+                    <button
+                      onClick={() => moveSection(index, index - 1)}
+                      disabled={index === 0}
+                      className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                      title="Move up"
+                    >
+                      <ArrowUp className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => moveSection(index, index + 1)}
+                      disabled={index === runOfShow.sections.length - 1}
+                      className="p-1 rounded hover:bg-gray-100 disabled:opacity-30"
+                      title="Move down"
+                    >
+                      <ArrowDown className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => insertSection(index + 1)}
+                      className="p-1 rounded hover:bg-gray-100"
+                      title="Insert a section below"
+                    >
+                      <Plus className="h-4 w-4" />
+                    </button>
+                    <button
+                      onClick={() => deleteSection(index)}
+                      disabled={runOfShow.sections.length === 1}
+                      className="p-1 rounded hover:bg-red-50 hover:text-red-600 disabled:opacity-30"
+                      title="Delete section"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </button>
+                  </div>
+                </div>
+                <SectionEditor
+                  section={section}
+                  onChange={(updated) => updateSection(index, updated)}
+                />
+              </div>
+            );
+          }
           return (
             <div
               key={index}
@@ -290,6 +784,26 @@ ${runOfShow.closingNotes}
                     </h3>
                     <p className="text-sm text-gray-500">
                       {section.duration}
+                      {!isStreaming &&
+                        (budget.unreadable.includes(index) ? (
+                          <span className="text-amber-600">
+                            {" "}
+                            · not a recognizable duration
+                          </span>
+                        ) : (
+                          <span
+                            className={
+                              sectionWindows[index].end > targetSeconds
+                                ? "text-red-600"
+                                : "text-gray-400"
+                            }
+                          >
+                            {" "}
+                            ·{" "}
+                            {Pacing.formatClock(sectionWindows[index].start)}–
+                            {Pacing.formatClock(sectionWindows[index].end)}
+                          </span>
+                        ))}
                     </p>
                   </div>
                 </div>
@@ -360,12 +874,92 @@ ${runOfShow.closingNotes}
                         </ul>
                       </div>
                     )}
+
+                    {/* Regenerate */}
+                    {onRegenerateSection &&
+                      !isStreaming &&
+                      (regenerateTarget === index ? (
+                        <form
+                          className="flex flex-col sm:flex-row gap-2"
+                          onSubmit={(e) => {
+                            e.preventDefault();
+                            regenerateSection(index);
+                          }}
+                        >
+                          <input
+                            type="text"
+                            value={instruction}
+                            onChange={(e) =>
+                              setInstruction(e.target.value)
+                            }
+                            placeholder="Optional direction, e.g. more code, less business"
+                            maxLength={500}
+                            disabled={regenerating !== null}
+                            className="input flex-1"
+                            aria-label="Direction for the regenerated section"
+                          />
+                          <button
+                            type="submit"
+                            disabled={regenerating !== null}
+                            className="btn-primary flex items-center justify-center"
+                          >
+                            <RefreshCw
+                              className={`h-4 w-4 mr-2 ${
+                                regenerating === index
+                                  ? "animate-spin"
+                                  : ""
+                              }`}
+                            />
+                            {regenerating === index
+                              ? "Regenerating..."
+                              : "Regenerate"}
+                          </button>
+                          <button
+                            type="button"
+                            onClick={() => setRegenerateTarget(null)}
+                            disabled={regenerating !== null}
+                            className="btn-secondary"
+                          >
+                            Cancel
+                          </button>
+                        </form>
+                      ) : (
+                        <button
+                          onClick={() => {
+                            setRegenerateTarget(index);
+                            setInstruction("");
+                          }}
+                          disabled={regenerating !== null}
+                          className="text-sm text-primary-600 hover:text-primary-700 flex items-center disabled:opacity-50"
+                        >
+                          <RefreshCw className="h-4 w-4 mr-1" />
+                          Regenerate this section
+                        </button>
+                      ))}
                   </div>
                 </div>
               )}
             </div>
           );
         })}
+        {isEditing && (
+          <button
+            onClick={() => insertSection(runOfShow.sections.length)}
+            className="w-full p-4 border-2 border-dashed border-gray-300 rounded-lg text-sm text-gray-600 hover:border-primary-300 hover:text-primary-600 flex items-center justify-center"
+          >
+            <Plus className="h-4 w-4 mr-2" />
+            Add section
+          </button>
+        )}
+        {isStreaming && (
+          <div
+            className="card p-4 flex items-center text-sm text-gray-600"
+            aria-live="polite"
+          >
+            <Sparkles className="h-4 w-4 mr-2 text-primary-600 animate-spin" />
+            Writing the next section...
+          </div>
+        )}
       </div>
 
       {/* Q&A and Additional Notes */}
@@ -432,18 +1026,20 @@ ${runOfShow.closingNotes}
         </div>
       )}
 
-      {/* Repository Link */}
-      <div className="mt-8 text-center animate-slide-up">
-        <a
-          href={repoUrl}
-          target="_blank"
-          rel="noopener noreferrer"
-          className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 transition-colors"
-        >
-          <GitFork className="h-4 w-4 mr-1" />
-          View Repository
-        </a>
-      </div>
+      {/* Repository Link (absent for uploaded archives) */}
+      {repoUrl && (
+        <div className="mt-8 text-center animate-slide-up">
+          <a
+            href={repoUrl}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="inline-flex items-center text-sm text-gray-500 hover:text-gray-700 transition-colors"
+          >
+            <GitFork className="h-4 w-4 mr-1" />
+            View Repository
+          </a>
+        </div>
+      )}
     </div>
   );
 }
@@ -0,0 +1,144 @@
+/**
+ * @file SectionEditor.tsx
+ * @description
+ * Edit form for one run-of-show section: title, duration, content, and the
+ * `keyPoints` / `presenterNotes` lists with add and remove controls.
+ *
+ * @remarks
+ * - Fully controlled: every keystroke calls `onChange` with a new section object.
+ * - Ordering and deletion of whole sections are handled by the parent
+ *   (`RunOfShowDisplay`); this component only edits fields.
+ * - The duration field shows how it was read (see `Pacing.parseDuration`), so a
+ *   typo that would count as zero minutes is visible while editing.
+ */
+
+import { Plus, X } from "lucide-react";
+import { Pacing } from "@/app/services/pacing";
+import type { RunOfShow } from "@/app/page";
+
+type Section = RunOfShow["sections"][number];
+
+interface SectionEditorProps {
+  section: Section;
+  onChange: (section: Section) => void;
+}
+
+export function SectionEditor({ section, onChange }: SectionEditorProps) {
+  const update = (changes: Partial<Section>) =>
+    onChange({ ...section, ...changes });
+  const duration = Pacing.parseDuration(section.duration);
+
+  return (
+    <div className="space-y-4">
+      <div className="grid grid-cols-1 sm:grid-cols-4 gap-3">
+        <label className="sm:col-span-3 block">
+          <span className="text-xs font-medium text-gray-600">Title</span>
+          <input
+            type="text"
+            value={section.title}
+            onChange={(e) => update({ title: e.target.value })}
+            className="input mt-1"
+          />
+        </label>
+        <label className="block">
+          <span className="text-xs font-medium text-gray-600">
+            Duration
+          </span>
+          <input
+            type="text"
+            value={section.duration}
+            onChange={(e) => update({ duration: e.target.value })}
+            placeholder="3 minutes"
+            className="input mt-1"
+          />
+          <span
+            className={`mt-1 block text-xs ${
+              duration ? "text-gray-500" : "text-amber-600"
+            }`}
+          >
+            {!duration
+              ? "Not a recognizable duration"
+              : duration.minSeconds === duration.maxSeconds
+                ? `Counts as ${Pacing.formatClock(duration.minSeconds)}`
+                : `Counts as ${Pacing.formatClock(
+                    (duration.minSeconds + duration.maxSeconds) / 2
+                  )} (middle of the range)`}
+          </span>
+        </label>
+      </div>
+
+      <label className="block">
+        <span className="text-xs font-medium text-gray-600">Content</span>
+        <textarea
+          value={section.content}
+          onChange={(e) => update({ content: e.target.value })}
+          rows={3}
+          className="input mt-1"
+        />
+      </label>
+
+      <ListEditor
+        label="Key Points"
+        items={section.keyPoints}
+        onChange={(keyPoints) => update({ keyPoints })}
+      />
+      <ListEditor
+        label="Presenter Notes"
+        items={section.presenterNotes}
+        onChange={(presenterNotes) => update({ presenterNotes })}
+      />
+    </div>
+  );
+}
+
+/** Editable list of strings with add/remove controls. */
+function ListEditor({
+  label,
+  items,
+  onChange,
+}: {
+  label: string;
+  items: string[];
+  onChange: (items: string[]) => void;
+}) {
+  return (
+    <div>
+      <span className="text-xs font-medium text-gray-600">{label}</span>
+      <ul className="space-y-2 mt-1">
+        {items.map((item, index) => (
+          <li key={index} className="flex items-center gap-2">
+            <input
+              type="text"
+              value={item}
+              onChange={(e) =>
+                onChange(
+                  items.map((value, i) =>
+                    i === index ? e.target.value : value
+                  )
+                )
+              }
+              className="input"
+              aria-label={`${label} ${index + 1}`}
+            />
+            <button
+              type="button"
+              onClick={() => onChange(items.filter((_, i) => i !== index))}
+              className="p-1 text-gray-400 hover:text-red-600"
+              title={`Remove from ${label.toLowerCase()}`}
+            >
+              <X className="h-4 w-4" />
+            </button>
+          </li>
+        ))}
+      </ul>
+      <button
+        type="button"
+        onClick={() => onChange([...items, ""])}
+        className="mt-2 text-sm text-primary-600 hover:text-primary-700 flex items-center"
+      >
+        <Plus className="h-4 w-4 mr-1" />
+        Add {label.toLowerCase().replace(/s$/, "")}
+      </button>
+    </div>
+  );
+}
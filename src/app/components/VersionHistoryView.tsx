@@ -0,0 +1,393 @@
+/**
+ * @file VersionHistoryView.tsx
+ * @description
+ * Full-screen view of a presentation's version history: every version with what
+ * produced it (generation, manual edit, regeneration, refinement, restore), a
+ * side-by-side diff of any two versions, and one-click restore.
+ *
+ * @remarks
+ * - The diff is computed by `RunOfShowDiff`: top-level fields, then sections aligned
+ *   by title, with key points and presenter notes compared bullet by bullet.
+ * - Restoring does not rewrite history; the parent records it as a new "restore"
+ *   version, so a restore can itself be undone by restoring again.
+ * - Esc closes the view.
+ */
+
+import { useEffect, useMemo, useState } from "react";
+import { History, RotateCcw, X } from "lucide-react";
+import {
+  RunOfShowDiff,
+  type ListChange,
+} from "@/app/services/runOfShowDiff";
+import { VersionHistory } from "@/app/services/versionHistory";
+import type { RunOfShow, RunOfShowVersion } from "@/app/page";
+
+type Section = RunOfShow["sections"][number];
+
+interface VersionHistoryViewProps {
+  /** Oldest first; the last version is the current run of show. */
+  versions: RunOfShowVersion[];
+  onRestore: (version: RunOfShowVersion) => void;
+  onClose: () => void;
+}
+
+const SOURCE_STYLES: Record<RunOfShowVersion["source"], string> = {
+  generation: "bg-primary-100 text-primary-800",
+  edit: "bg-blue-100 text-blue-800",
+  regeneration: "bg-purple-100 text-purple-800",
+  refinement: "bg-amber-100 text-amber-800",
+  restore: "bg-gray-100 text-gray-700",
+};
+
+const TOP_LEVEL_LABELS: Record<
+  Exclude<keyof RunOfShow, "sections">,
+  string
+> = {
+  title: "Title",
+  overview: "Overview",
+  qaPredictions: "Q&A predictions",
+  techQuestions: "Technical questions",
+  closingNotes: "Closing notes",
+};
+
+export function VersionHistoryView({
+  versions,
+  onRestore,
+  onClose,
+}: VersionHistoryViewProps) {
+  const latest = versions[versions.length - 1];
+  // Compare the selected version against the one before it by default.
+  const [selected, setSelected] = useState(latest.number);
+  const [base, setBase] = useState(
+    versions[versions.length - 2]?.number ?? latest.number
+  );
+
+  const find = (number: number) =>
+    versions.find((version) => version.number === number) ?? latest;
+  const right = find(selected);
+  const left = find(base);
+
+  const changes = useMemo(
+    () => RunOfShowDiff.diff(left.runOfShow, right.runOfShow),
+    [left, right]
+  );
+
+  useEffect(() => {
+    const onKey = (e: KeyboardEvent) => {
+      if (e.key === "Escape") onClose();
+    };
+    window.addEventListener("keydown", onKey);
+    return () => window.removeEventListener("keydown", onKey);
+  }, [onClose]);
+
+  const select = (version: RunOfShowVersion) => {
+    setSelected(version.number);
+    const index = versions.indexOf(version);
+    setBase(versions[Math.max(0, index - 1)].number);
+  };
+
+  return (
+    <div
+      className="fixed inset-0 z-50 bg-gray-50 flex flex-col"
+      role="dialog"
+      aria-label="Version history"
+    >
+      <div className="flex items-center justify-between px-6 py-4 bg-white border-b border-gray-200">
+        <div className="flex items-center">
+          <History className="h-5 w-5 text-primary-600 mr-2" />
+          <h2 className="text-lg font-semibold text-gray-900">
+            Version history
+          </h2>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-2 text-gray-500 hover:text-gray-900"
+          title="Close (Esc)"
+        >
+          <X className="h-5 w-5" />
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Version list, newest first */}
+        <ol className="w-72 flex-shrink-0 overflow-y-auto border-r border-gray-200 bg-white">
+          {[...versions].reverse().map((version) => (
+            <li key={version.number}>
+              <button
+                onClick={() => select(version)}
+                className={`w-full text-left px-4 py-3 border-b border-gray-100 hover:bg-gray-50 ${
+                  version.number === selected ? "bg-primary-50" : ""
+                }`}
+              >
+                <div className="flex items-center justify-between">
+                  <span className="text-sm font-medium text-gray-900">
+                    Version {version.number}
+                    {version === latest && (
+                      <span className="ml-1 text-xs text-gray-500">
+                        (current)
+                      </span>
+                    )}
+                  </span>
+                  <span
+                    className={`px-2 py-0.5 rounded-full text-xs ${
+                      SOURCE_STYLES[version.source]
+                    }`}
+                  >
+                    {VersionHistory.SOURCE_LABELS[version.source]}
+                  </span>
+                </div>
+                {version.note && (
+                  <p className="mt-1 text-xs text-gray-600 line-clamp-2">
+                    {version.note}
+                  </p>
+                )}
+                <p className="mt-1 text-xs text-gray-400">
+                  {new Date(version.createdAt).toLocaleString()}
+                </p>
+              </button>
+            </li>
+          ))}
+        </ol>
+
+        {/* Side-by-side diff */}
+        <div className="flex-1 overflow-y-auto p-6">
+          <div className="flex flex-wrap items-center justify-between gap-3 mb-4">
+            <label className="flex items-center text-sm text-gray-600">
+              Compare with
+              <select
+                value={base}
+                onChange={(e) => setBase(Number(e.target.value))}
+                className="input ml-2 w-auto"
+              >
+                {versions.map((version) => (
+                  <option key={version.number} value={version.number}>
+                    Version {version.number} ·{" "}
+                    {VersionHistory.SOURCE_LABELS[version.source]}
+                  </option>
+                ))}
+              </select>
+            </label>
+            <button
+              onClick={() => onRestore(right)}
+              disabled={right === latest}
+              className="btn-primary flex items-center"
+              title={
+                right === latest
+                  ? "This is the current version"
+                  : `Make version ${right.number} the current version`
+              }
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              Restore version {right.number}
+            </button>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 mb-2 text-sm font-semibold text-gray-700">
+            <div>Version {left.number}</div>
+            <div>Version {right.number}</div>
+          </div>
+
+          {changes.unchanged ? (
+            <p className="text-sm text-gray-500">
+              These versions are identical.
+            </p>
+          ) : (
+            <div className="space-y-3">
+              {changes.fields.map((field) => (
+                <FieldRow
+                  key={field}
+                  label={TOP_LEVEL_LABELS[field]}
+                  before={left.runOfShow[field]}
+                  after={right.runOfShow[field]}
+                />
+              ))}
+              {changes.sections.map((change, index) => (
+                <div
+                  key={index}
+                  className={`grid grid-cols-2 gap-4 ${
+                    change.status === "unchanged" ? "opacity-60" : ""
+                  }`}
+                >
+                  <SectionCell
+                    section={change.before}
+                    other={change.after}
+                    side="before"
+                    highlight={change.status !== "unchanged"}
+                  />
+                  <SectionCell
+                    section={change.after}
+                    other={change.before}
+                    side="after"
+                    highlight={change.status !== "unchanged"}
+                  />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+/** A changed top-level field, old value on the left and new on the right. */
+function FieldRow({
+  label,
+  before,
+  after,
+}: {
+  label: string;
+  before?: string | string[];
+  after?: string | string[];
+}) {
+  const render = (value?: string | string[]) =>
+    Array.isArray(value) ? (
+      <ul className="list-disc pl-4">
+        {value.map((item, i) => (
+          <li key={i}>{item}</li>
+        ))}
+      </ul>
+    ) : (
+      <p>{value ?? <span className="italic text-gray-400">None</span>}</p>
+    );
+
+  return (
+    <div className="grid grid-cols-2 gap-4 text-sm">
+      <div className="card p-3 bg-red-50/50">
+        <div className="text-xs font-medium text-gray-500 mb-1">{label}</div>
+        {render(before)}
+      </div>
+      <div className="card p-3 bg-green-50/50">
+        <div className="text-xs font-medium text-gray-500 mb-1">{label}</div>
+        {render(after)}
+      </div>
+    </div>
+  );
+}
+
+/** One side of a section row; bullets are marked against the other side. */
+function SectionCell({
+  section,
+  other,
+  side,
+  highlight,
+}: {
+  section?: Section;
+  other?: Section;
+  side: "before" | "after";
+  highlight: boolean;
+}) {
+  if (!section) {
+    return (
+      <div className="rounded-lg border border-dashed border-gray-300 p-3 text-sm italic text-gray-400">
+        {side === "before" ? "Not in this version" : "Removed"}
+      </div>
+    );
+  }
+
+  const changed = (field: keyof Section) =>
+    highlight && other !== undefined && section[field] !== other[field];
+  const mark = side === "before" ? "bg-red-100" : "bg-green-100";
+
+  return (
+    <div
+      className={`card p-3 text-sm ${
+        highlight && !other
+          ? side === "before"
+            ? "bg-red-50"
+            : "bg-green-50"
+          : ""
+      }`}
+    >
+      <div className="flex items-start justify-between gap-2">
+        <h4
+          className={`font-semibold text-gray-900 ${
+            changed("title") ? mark : ""
+          }`}
+        >
+          {section.title}
+        </h4>
+        <span
+          className={`text-xs text-gray-500 whitespace-nowrap ${
+            changed("duration") ? mark : ""
+          }`}
+        >
+          {section.duration}
+        </span>
+      </div>
+      {highlight && (
+        <>
+          <p
+            className={`mt-1 text-gray-700 ${
+              changed("content") ? mark : ""
+            }`}
+          >
+            {section.content}
+          </p>
+          <BulletDiff
+            label="Key points"
+            items={section.keyPoints}
+            other={other?.keyPoints}
+            side={side}
+          />
+          <BulletDiff
+            label="Presenter notes"
+            items={section.presenterNotes}
+            other={other?.presenterNotes}
+            side={side}
+          />
+        </>
+      )}
+    </div>
+  );
+}
+
+/**
+ * A section's bullets with the ones missing from the other version highlighted:
+ * removed (left) or added (right).
+ */
+function BulletDiff({
+  label,
+  items,
+  other,
+  side,
+}: {
+  label: string;
+  items: string[];
+  other?: string[];
+  side: "before" | "after";
+}) {
+  if (items.length === 0) return null;
+
+  const changes: ListChange[] = other
+    ? side === "before"
+      ? RunOfShowDiff.diffList(items, other).filter(
+          (change) => change.status !== "added"
+        )
+      : RunOfShowDiff.diffList(other, items).filter(
+          (change) => change.status !== "removed"
+        )
+    : items.map((text) => ({ status: "unchanged", text }));
+
+  return (
+    <div className="mt-2">
+      <div className="text-xs font-medium text-gray-500">{label}</div>
+      <ul className="mt-1 space-y-0.5">
+        {changes.map((change, i) => (
+          <li
+            key={i}
+            className={`pl-2 border-l-2 ${
+              change.status === "removed"
+                ? "border-red-400 bg-red-50 line-through text-red-800"
+                : change.status === "added"
+                  ? "border-green-400 bg-green-50 text-green-800"
+                  : "border-transparent text-gray-600"
+            }`}
+          >
+            {change.text}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
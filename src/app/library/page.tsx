@@ -0,0 +1,196 @@
+/**
+ * @file page.tsx
+ * @description
+ * Library page: browse, search, reopen and delete saved presentations.
+ *
+ * @remarks
+ * - Lists summaries from `GET /api/presentations`, re-querying (debounced) as the
+ *   search text changes.
+ * - "Open" links to the home page with `?presentation=<id>`, which loads the full
+ *   record and shows it in `RunOfShowDisplay`.
+ * - Deletes are confirmed, then removed from the list without a refetch.
+ */
+
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import {
+  Search,
+  Trash2,
+  FolderOpen,
+  Users,
+  Clock,
+  Calendar,
+  AlertTriangle,
+} from "lucide-react";
+import { Header } from "@/app/components/Header";
+import { Profiles } from "@/app/services/profiles";
+import type { PresentationSummary } from "@/app/services/storage/types";
+
+/** Delay before re-querying after the search text changes. */
+const SEARCH_DEBOUNCE_MS = 250;
+
+export default function LibraryPage() {
+  const [query, setQuery] = useState("");
+  const [presentations, setPresentations] = useState<
+    PresentationSummary[]
+  >([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    const controller = new AbortController();
+    const timer = setTimeout(async () => {
+      setIsLoading(true);
+      try {
+        const params = query.trim()
+          ? `?q=${encodeURIComponent(query.trim())}`
+          : "";
+        const response = await fetch(`/api/presentations${params}`, {
+          signal: controller.signal,
+        });
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+        setPresentations(data.presentations);
+        setError(null);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        setError(
+          err instanceof Error && err.message
+            ? err.message
+            : "Failed to load saved presentations"
+        );
+      } finally {
+        if (!controller.signal.aborted) setIsLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const handleDelete = async (presentation: PresentationSummary) => {
+    if (!window.confirm(`Delete "${presentation.title}"?`)) return;
+    try {
+      const response = await fetch(
+        `/api/presentations/${presentation.id}`,
+        { method: "DELETE" }
+      );
+      if (!response.ok && response.status !== 404) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error);
+      }
+      setPresentations((prev) =>
+        prev.filter((p) => p.id !== presentation.id)
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error && err.message
+          ? err.message
+          : "Failed to delete presentation"
+      );
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
+      <Header />
+
+      <main className="mx-auto max-w-4xl px-4 py-8 sm:px-6 lg:px-8">
+        <div className="flex items-center justify-between mb-6">
+          <h1 className="text-2xl font-bold text-gray-900">
+            Saved Presentations
+          </h1>
+          <Link href="/" className="btn-primary">
+            New Presentation
+          </Link>
+        </div>
+
+        <div className="relative mb-6">
+          <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+          <input
+            type="search"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search by title, repository or section"
+            className="input pl-9"
+            aria-label="Search saved presentations"
+          />
+        </div>
+
+        {error && (
+          <div className="mb-6 p-4 bg-red-50 border border-red-200 rounded-lg flex items-start">
+            <AlertTriangle className="h-5 w-5 text-red-400 mt-0.5 mr-3 flex-shrink-0" />
+            <p className="text-sm text-red-700">{error}</p>
+          </div>
+        )}
+
+        {!isLoading && presentations.length === 0 && !error && (
+          <div className="card p-8 text-center text-gray-500">
+            {query.trim()
+              ? "No saved presentations match your search."
+              : "No saved presentations yet. Generate one and click Save."}
+          </div>
+        )}
+
+        <ul className="space-y-4">
+          {presentations.map((presentation) => (
+            <li key={presentation.id} className="card p-5">
+              <div className="flex items-start justify-between gap-4">
+                <div className="min-w-0">
+                  <h2 className="text-lg font-semibold text-gray-900 truncate">
+                    {presentation.title}
+                  </h2>
+                  <p className="text-sm text-gray-500 truncate">
+                    {presentation.repoName || presentation.repoUrl}
+                    {" · "}
+                    {presentation.sectionCount} sections
+                  </p>
+                  <p className="text-sm text-gray-600 mt-2 line-clamp-2">
+                    {presentation.overview}
+                  </p>
+                  <div className="flex flex-wrap items-center gap-4 mt-3 text-xs text-gray-500">
+                    <span className="flex items-center">
+                      <Users className="h-3 w-3 mr-1" />
+                      {Profiles.audienceLabel(presentation.config)}
+                    </span>
+                    <span className="flex items-center">
+                      <Clock className="h-3 w-3 mr-1" />
+                      {Profiles.timeLabel(presentation.config)}
+                    </span>
+                    <span className="flex items-center">
+                      <Calendar className="h-3 w-3 mr-1" />
+                      {new Date(
+                        presentation.updatedAt
+                      ).toLocaleDateString()}
+                    </span>
+                  </div>
+                </div>
+
+                <div className="flex items-center space-x-2 flex-shrink-0">
+                  <Link
+                    href={`/?presentation=${presentation.id}`}
+                    className="btn-secondary flex items-center"
+                  >
+                    <FolderOpen className="h-4 w-4 mr-2" />
+                    Open
+                  </Link>
+                  <button
+                    onClick={() => handleDelete(presentation)}
+                    className="p-2 rounded text-gray-400 hover:text-red-600 hover:bg-red-50"
+                    title="Delete presentation"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      </main>
+    </div>
+  );
+}
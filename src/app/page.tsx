@@ -12,6 +12,22 @@
  *   data, and API call status.
  * - Handles user input, validates repository URL format, and triggers the backend
  *   API (`/api/generate-runofshow`) to produce presentation content.
+ * - An uploaded archive, when present, is sent as multipart form data instead of the URL.
+ * - Requests a server-sent event stream: shows real progress stages, then renders
+ *   `RunOfShowDisplay` section by section while generation is still running.
+ * - Holds the (possibly edited) run of show; edits from `RunOfShowDisplay` mark it
+ *   unsaved, and saving an already-saved presentation updates it in place.
+ * - Regenerates a single section through `/api/regenerate-section`, reusing the
+ *   server's cached analysis (`metadata.analysisId`).
+ * - Shows `RefinementChat` beside the finished run of show; chat requests revise
+ *   the whole outline through `/api/refine-runofshow`.
+ * - Records a version for every generation, edit, regeneration, refinement and
+ *   restore (`VersionHistory`); the history is saved with the presentation.
+ * - Loads audience/time profiles (`/api/profiles`) for `PresentationOptions` and
+ *   creates, edits and deletes custom ones, and the models for its model picker
+ *   (`/api/models`).
+ * - Saves results to the presentation library (`/api/presentations`) and reopens a
+ *   saved one when loaded with `?presentation=<id>` (linked from `/library`).
  * - Implements loading indicators, error messaging, and reset functionality.
  * - Responsive design with Tailwind utility classes, including animated transitions
  *   for a polished UX.
@@ -22,7 +38,7 @@
 
 "use client";
 
-import { useState, useCallback } from "react";
+import { useState, useCallback, useEffect, useRef } from "react";
 import {
   Github,
   Presentation,
@@ -34,24 +50,78 @@ import { RepoInput } from "@/app/components/RepoInput";
 import { PresentationOptions } from "@/app/components/PresentationOptions";
 import { RunOfShowDisplay } from "@/app/components/RunOfShowDisplay";
 import { LoadingState } from "@/app/components/LoadingState";
+import { RefinementChat } from "@/app/components/RefinementChat";
+import {
+  EVENT_STREAM_CONTENT_TYPE,
+  readEventStream,
+} from "@/app/services/eventStream";
+import { VersionHistory } from "@/app/services/versionHistory";
+import {
+  BUILT_IN_AUDIENCES,
+  BUILT_IN_TIME_PROFILES,
+  Profiles,
+  type AudienceProfile,
+  type NewProfile,
+  type Profile,
+  type TimeProfile,
+} from "@/app/services/profiles";
+import type { SchemaIssue } from "@/app/services/runOfShowSchema";
+import type { PresentationRecord } from "@/app/services/storage/types";
 
-export type AudienceType =
-  | "conference"
-  | "internal"
-  | "client"
-  | "interview"
-  | "workshop";
-export type TimeConstraint =
-  | "5min"
-  | "15min"
-  | "30min"
-  | "1hour";
+/**
+ * Id of an audience profile: a built-in ("conference", "internal", "client",
+ * "interview", "workshop") or a custom profile (see `services/profiles`).
+ */
+export type AudienceType = string;
+/** Id of a time profile: a built-in ("5min", "15min", "30min", "1hour") or a custom one. */
+export type TimeConstraint = string;
 
 export interface PresentationConfig {
   audience: AudienceType;
   timeConstraint: TimeConstraint;
+  /**
+   * Snapshot of the selected profiles, so the config still reads correctly after a
+   * custom profile changes or is deleted. Optional for the built-ins.
+   */
+  audienceLabel?: string;
+  timeLabel?: string;
+  durationMinutes?: number;
   includeQA: boolean;
   includeLiveDemo: boolean;
+  /** Language model to write with; the deployment's default when omitted. */
+  model?: ModelSelection;
+}
+
+/**
+ * A requested model and sampling settings (see `services/llm`). Fields left out
+ * fall back to the deployment defaults (`LLM_MODEL`, `LLM_TEMPERATURE`,
+ * `LLM_MAX_TOKENS`).
+ */
+export interface ModelSelection {
+  /** Catalog id, e.g. "anthropic:claude-sonnet-4-20250514" or "openai:llama3.1". */
+  id?: string;
+  /** 0–1; lower is more deterministic. */
+  temperature?: number;
+  /** Upper bound on the length of each reply, in tokens. */
+  maxTokens?: number;
+}
+
+/** A model the deployment offers in the model picker (`GET /api/models`). */
+export interface ModelOption {
+  /** `<provider>:<model>`; what {@link ModelSelection.id} refers to. */
+  id: string;
+  provider: string;
+  providerLabel: string;
+  model: string;
+}
+
+/** The model a run of show was written with, after defaults were applied. */
+export interface ModelReport {
+  id: string;
+  provider: string;
+  model: string;
+  temperature: number;
+  maxTokens: number;
 }
 
 export interface RunOfShow {
@@ -69,74 +139,401 @@ export interface RunOfShow {
   closingNotes: string;
 }
 
-interface ApiResponse {
+/** Facts about the analyzed repository returned alongside a run of show. */
+export interface RunOfShowMetadata {
+  repoName: string;
+  language: string;
+  stars: number;
+  /** Provider id ("github", "gitlab", ...) or "local" / "archive". */
+  source?: string;
+  /** Branch/tag/SHA analyzed, the commit it resolved to, and subdirectory. */
+  ref?: string;
+  commitSha?: string;
+  subpath?: string;
+  /** Server-side cache key of the repository analysis (expires; see analysisCache). */
+  analysisId?: string;
+  generatedAt: string;
+  config: PresentationConfig;
+  /** How the section durations were fitted to the target length after generation. */
+  budget?: DurationBudgetReport;
+  /** What repository content made it into the prompt's token budget. */
+  context?: ContextReport;
+  /** Whether the analysis and the run of show came from the response cache. */
+  cache?: CacheReport;
+  /** Where the time of this request went. */
+  timings?: TimingReport;
+  /** The model and settings that wrote the run of show. */
+  model?: ModelReport;
+}
+
+/** Result of checking a generated run of show against its time slot (see `durationBudget`). */
+export interface DurationBudgetReport {
+  /** Sum of the section durations the model first returned, in seconds. */
+  generatedSeconds: number;
+  targetSeconds: number;
+  /**
+   * "none" when it already fit; "revised" when the model rewrote it to fit;
+   * "rescaled" when the durations were scaled proportionally.
+   */
+  adjustment: "none" | "revised" | "rescaled";
+}
+
+/**
+ * "hit": served from the cache; "miss": computed and stored; "refresh": recomputed
+ * on request (`refresh: true`); "off": not cached (local directories, archives).
+ */
+export type CacheStatus = "hit" | "miss" | "refresh" | "off";
+
+/** Cache outcome per stage of a generation (see `services/cache`). */
+export interface CacheReport {
+  analysis: CacheStatus;
+  generation: CacheStatus;
+}
+
+/** Wall time of one generation request, in milliseconds. */
+export interface TimingReport {
+  totalMs: number;
+  /** Repository analysis, including cache lookups. */
+  analysisMs: number;
+  /** Prompt building, generation, repairs and duration fitting (near zero when cached). */
+  generationMs: number;
+  /** GitHub fetch breakdown; absent for other sources and cached analyses. */
+  fetch?: FetchTimings;
+}
+
+/** How an analysis's API requests were spent (see `fetchScheduler`). */
+export interface FetchTimings {
+  totalMs: number;
+  /** Wall time per analysis stage; stages that run in parallel overlap. */
+  stages: { name: string; ms: number }[];
+  requests: number;
+  /** Maximum requests in flight. */
+  concurrency: number;
+  /** GitHub's core API quota after the analysis. */
+  rateLimit?: RateLimitInfo;
+}
+
+/** An API quota as reported by GitHub's `x-ratelimit-*` headers. */
+export interface RateLimitInfo {
+  resource: string;
+  limit: number;
+  remaining: number;
+  used: number;
+  /** ISO 8601 time at which `remaining` resets to `limit`. */
+  resetAt: string;
+}
+
+/** Part of the repository analysis in the prompt, packed in this order (see `contextPacker`). */
+export type ContextSection =
+  | "quality"
+  | "timeline"
+  | "dependencies"
+  | "architecture"
+  | "structure"
+  | "readme"
+  | "keyFiles";
+
+/** How one candidate (a key file, the README, a rendered section) was packed. */
+export interface ContextItemReport {
+  section: ContextSection;
+  /** File path for key files; the section name otherwise. */
+  id: string;
+  /** Estimated tokens of the original content. */
+  originalTokens: number;
+  /** Estimated tokens in the prompt (0 when dropped). */
+  tokens: number;
+  /** "truncated" cuts the end; "summarized" keeps an outline (headings or declarations). */
+  mode: "full" | "truncated" | "summarized" | "dropped";
+}
+
+/** Result of packing the repository analysis into the prompt's token budget. */
+export interface ContextReport {
+  budgetTokens: number;
+  usedTokens: number;
+  /** Per section: its share of the budget plus what earlier sections left unused. */
+  sections: Array<{
+    section: ContextSection;
+    budgetTokens: number;
+    usedTokens: number;
+  }>;
+  items: ContextItemReport[];
+}
+
+/** What produced a version of a run of show. */
+export type VersionSource =
+  | "generation"
+  | "edit"
+  | "regeneration"
+  | "refinement"
+  | "restore";
+
+/** One entry in a presentation's version history (see `VersionHistory`). */
+export interface RunOfShowVersion {
+  /** 1-based and increasing; stays stable when old versions are dropped. */
+  number: number;
+  source: VersionSource;
+  /** What changed, e.g. the refinement request or the regenerated section. */
+  note?: string;
+  createdAt: string;
   runOfShow: RunOfShow;
-  metadata?: {
-    repoName: string;
-    language: string;
-    stars: number;
-    generatedAt: string;
-    config: PresentationConfig;
-  };
+}
+
+/** An earlier exchange in the refinement chat, sent back as conversation context. */
+export interface RefinementTurn {
+  instruction: string;
+  summary: string;
+}
+
+/** Server-reported progress while a run of show is being generated. */
+export type GenerationStage =
+  | "analyzing"
+  | "prompting"
+  | "generating";
+
+/** Selected until the user picks another profile, or when a selected one is deleted. */
+const DEFAULT_AUDIENCE = "conference";
+const DEFAULT_TIME_PROFILE = "15min";
+
+/** Starting point for a run of show that is still streaming in. */
+const EMPTY_RUN_OF_SHOW: RunOfShow = {
+  title: "",
+  overview: "",
+  sections: [],
+  closingNotes: "",
+};
+
+/** Error text for a failed response, listing the first schema issues if any. */
+function describeError(data: {
+  error?: string;
+  issues?: SchemaIssue[];
+}): string | undefined {
+  if (!data.issues?.length) return data.error;
+  const shown = data.issues
+    .slice(0, 3)
+    .map((issue) => `${issue.path}: ${issue.message}`)
+    .join("; ");
+  return `${data.error} — ${shown}${
+    data.issues.length > 3 ? "; ..." : ""
+  }`;
 }
 
 export default function HomePage() {
   const [repoUrl, setRepoUrl] = useState("");
+  const [archive, setArchive] = useState<File | null>(null);
+  const [ref, setRef] = useState("");
+  const [subpath, setSubpath] = useState("");
   const [config, setConfig] = useState<PresentationConfig>({
-    audience: "conference",
-    timeConstraint: "15min",
+    audience: DEFAULT_AUDIENCE,
+    timeConstraint: DEFAULT_TIME_PROFILE,
     includeQA: true,
     includeLiveDemo: true,
   });
+  /** Built-ins until the custom profiles have loaded. */
+  const [audiences, setAudiences] =
+    useState<AudienceProfile[]>(BUILT_IN_AUDIENCES);
+  const [timeProfiles, setTimeProfiles] = useState<TimeProfile[]>(
+    BUILT_IN_TIME_PROFILES
+  );
+  const [models, setModels] = useState<ModelOption[]>([]);
+  const [defaultModel, setDefaultModel] = useState<string | undefined>();
   const [runOfShow, setRunOfShow] =
     useState<RunOfShow | null>(null);
-  const [metadata, setMetadata] = useState<
-    ApiResponse["metadata"] | null
-  >(null);
+  const [metadata, setMetadata] =
+    useState<RunOfShowMetadata | null>(null);
+  const [streamed, setStreamed] = useState<RunOfShow | null>(
+    null
+  );
+  const [stage, setStage] = useState<GenerationStage | null>(
+    null
+  );
+  const [stageMessage, setStageMessage] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  /** Library id of the displayed run of show, once saved or reopened. */
+  const [savedId, setSavedId] = useState<string | null>(null);
+  /** True when the displayed run of show has edits that are not saved. */
+  const [isDirty, setIsDirty] = useState(false);
+  /** Every version of the displayed run of show, oldest first. */
+  const [versions, setVersions] = useState<RunOfShowVersion[]>([]);
+  /** Repository and config of the last completed generation. */
+  const lastRequestKey = useRef<string | null>(null);
+
+  // Offer custom profiles alongside the built-ins.
+  useEffect(() => {
+    fetch("/api/profiles")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setAudiences(data.audiences);
+        setTimeProfiles(data.timeProfiles);
+      })
+      .catch((err) => console.error("Failed to load profiles:", err));
+  }, []);
+
+  // Offer the deployment's models in the model picker.
+  useEffect(() => {
+    fetch("/api/models")
+      .then((response) => (response.ok ? response.json() : null))
+      .then((data) => {
+        if (!data) return;
+        setModels(data.models);
+        setDefaultModel(data.defaults?.id);
+      })
+      .catch((err) => console.error("Failed to load models:", err));
+  }, []);
+
+  // Show why a GitHub sign-in failed, then drop it from the address bar.
+  useEffect(() => {
+    const url = new URL(window.location.href);
+    const authError = url.searchParams.get("authError");
+    if (!authError) return;
+    setError(authError);
+    url.searchParams.delete("authError");
+    window.history.replaceState(null, "", url);
+  }, []);
+
+  // Reopen a saved presentation linked from the library.
+  useEffect(() => {
+    const id = new URLSearchParams(window.location.search).get(
+      "presentation"
+    );
+    if (!id) return;
+
+    (async () => {
+      try {
+        const response = await fetch(
+          `/api/presentations/${encodeURIComponent(id)}`
+        );
+        const data = await response.json();
+        if (!response.ok) throw new Error(data.error);
+
+        const saved: PresentationRecord = data.presentation;
+        setRunOfShow(saved.runOfShow);
+        // Presentations saved before history existed start with one version.
+        setVersions(
+          saved.versions?.length
+            ? saved.versions
+            : VersionHistory.start(
+                saved.runOfShow,
+                "generation",
+                saved.metadata?.generatedAt ?? saved.createdAt
+              )
+        );
+        setMetadata(saved.metadata);
+        setConfig(saved.config);
+        setRepoUrl(saved.repoUrl);
+        setSavedId(saved.id);
+      } catch (err) {
+        setError(
+          err instanceof Error && err.message
+            ? err.message
+            : "Failed to open saved presentation"
+        );
+      }
+    })();
+  }, []);
 
-  const handleGenerate = useCallback(async () => {
-    if (!repoUrl.trim()) {
-      setError("Please enter a GitHub repository URL");
+  /**
+   * Generate a run of show. Generations are cached server-side, so asking again
+   * for the same repository and config (or `fresh`) bypasses the cache.
+   */
+  const handleGenerate = useCallback(async (fresh = false) => {
+    if (!repoUrl.trim() && !archive) {
+      setError("Please enter a repository URL");
       return;
     }
+    const requestKey = JSON.stringify({
+      repoUrl: repoUrl.trim(),
+      ref: ref.trim(),
+      subpath: subpath.trim(),
+      archive: archive && [archive.name, archive.size, archive.lastModified],
+      config,
+    });
+    const refresh = fresh || requestKey === lastRequestKey.current;
 
     setIsLoading(true);
     setError(null);
+    setSavedId(null);
+    setIsDirty(false);
+    setStage("analyzing");
+    setStreamed(null);
 
     try {
+      let body: BodyInit;
+      const headers: Record<string, string> = {
+        Accept: EVENT_STREAM_CONTENT_TYPE,
+      };
+      if (archive) {
+        const form = new FormData();
+        form.append("archive", archive);
+        form.append("config", JSON.stringify(config));
+        if (refresh) form.append("refresh", "true");
+        body = form;
+      } else {
+        headers["Content-Type"] = "application/json";
+        body = JSON.stringify({
+          repoUrl: repoUrl.trim(),
+          ref: ref.trim() || undefined,
+          subpath: subpath.trim() || undefined,
+          refresh: refresh || undefined,
+          config,
+        });
+      }
+
       const response = await fetch(
         "/api/generate-runofshow",
-        {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            repoUrl: repoUrl.trim(),
-            config,
-          }),
-        }
+        { method: "POST", headers, body }
       );
 
-      const data: ApiResponse | { error: string } =
-        await response.json();
-
-      if (!response.ok) {
+      if (!response.ok || !response.body) {
+        const data: { error?: string; issues?: SchemaIssue[] } =
+          await response.json().catch(() => ({}));
         throw new Error(
-          "error" in data
-            ? data.error
-            : `HTTP ${response.status}: ${response.statusText}`
+          describeError(data) ||
+            `HTTP ${response.status}: ${response.statusText}`
         );
       }
 
-      if ("runOfShow" in data) {
-        setRunOfShow(data.runOfShow);
-        setMetadata(data.metadata || null);
-      } else {
+      let completed = false;
+      await readEventStream(response.body, (event) => {
+        switch (event.event) {
+          case "stage":
+            setStage(event.data.stage);
+            setStageMessage(event.data.message);
+            break;
+          case "field":
+            setStreamed((prev) => ({
+              ...(prev ?? EMPTY_RUN_OF_SHOW),
+              [event.data.key]: event.data.value,
+            }));
+            break;
+          case "section":
+            setStreamed((prev) => {
+              const current = prev ?? EMPTY_RUN_OF_SHOW;
+              return {
+                ...current,
+                sections: [
+                  ...current.sections,
+                  event.data.section,
+                ],
+              };
+            });
+            break;
+          case "complete":
+            completed = true;
+            lastRequestKey.current = requestKey;
+            setRunOfShow(event.data.runOfShow);
+            setVersions(VersionHistory.start(event.data.runOfShow));
+            setMetadata(event.data.metadata);
+            break;
+          case "error":
+            throw new Error(describeError(event.data));
+        }
+      });
+
+      if (!completed) {
         throw new Error(
-          "Invalid response format from server"
+          "The connection closed before generation finished"
         );
       }
     } catch (err) {
@@ -149,15 +546,156 @@ export default function HomePage() {
       setError(errorMessage);
     } finally {
       setIsLoading(false);
+      setStage(null);
+      setStreamed(null);
     }
-  }, [repoUrl, config]);
+  }, [repoUrl, archive, ref, subpath, config]);
+
+  /** Make `next` the current run of show and record it as a new version. */
+  const commitRunOfShow = useCallback(
+    (next: RunOfShow, source: VersionSource, note?: string) => {
+      setRunOfShow(next);
+      setVersions((current) =>
+        VersionHistory.append(current, next, source, note)
+      );
+      setIsDirty(true);
+    },
+    []
+  );
+
+  const handleRunOfShowChange = useCallback(
+    (next: RunOfShow) => commitRunOfShow(next, "edit"),
+    [commitRunOfShow]
+  );
+
+  const handleRestoreVersion = useCallback(
+    (version: RunOfShowVersion) =>
+      commitRunOfShow(
+        version.runOfShow,
+        "restore",
+        `Restored version ${version.number}`
+      ),
+    [commitRunOfShow]
+  );
+
+  /** Replace one section with a regenerated one; errors propagate to `RunOfShowDisplay`. */
+  const handleRegenerateSection = useCallback(
+    async (index: number, instruction?: string) => {
+      if (!runOfShow) return;
+      const response = await fetch("/api/regenerate-section", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          runOfShow,
+          sectionIndex: index,
+          instruction,
+          config,
+          metadata,
+          repoUrl: archive ? undefined : repoUrl.trim() || undefined,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeError(data) || "Failed to regenerate section"
+        );
+      }
+
+      commitRunOfShow(
+        {
+          ...runOfShow,
+          sections: runOfShow.sections.map((section, i) =>
+            i === index ? data.section : section
+          ),
+        },
+        "regeneration",
+        `Section ${index + 1}, “${runOfShow.sections[index].title}”${
+          instruction ? `: ${instruction}` : ""
+        }`
+      );
+      if (metadata && data.analysisId !== metadata.analysisId) {
+        setMetadata({ ...metadata, analysisId: data.analysisId });
+      }
+    },
+    [runOfShow, config, metadata, archive, repoUrl, commitRunOfShow]
+  );
+
+  /** Ask for a revised run of show; `RefinementChat` applies it and handles errors. */
+  const handleRefine = useCallback(
+    async (instruction: string, history: RefinementTurn[]) => {
+      if (!runOfShow) throw new Error("Nothing to refine yet");
+      const response = await fetch("/api/refine-runofshow", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          runOfShow,
+          instruction,
+          history,
+          config,
+          metadata,
+          repoUrl: archive ? undefined : repoUrl.trim() || undefined,
+        }),
+      });
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(
+          describeError(data) || "Failed to refine the run of show"
+        );
+      }
+
+      if (metadata && data.analysisId !== metadata.analysisId) {
+        setMetadata({ ...metadata, analysisId: data.analysisId });
+      }
+      return {
+        runOfShow: data.runOfShow as RunOfShow,
+        summary: data.summary as string,
+      };
+    },
+    [runOfShow, config, metadata, archive, repoUrl]
+  );
 
   const handleReset = useCallback(() => {
+    setIsDirty(false);
     setRunOfShow(null);
+    setVersions([]);
     setMetadata(null);
     setError(null);
+    setSavedId(null);
+    // Drop `?presentation=` so a reload starts fresh.
+    window.history.replaceState(null, "", window.location.pathname);
   }, []);
 
+  /** Save to the library; errors propagate to `RunOfShowDisplay`. */
+  const handleSave = useCallback(async () => {
+    if (!runOfShow) return;
+    const response = await fetch(
+      savedId ? `/api/presentations/${savedId}` : "/api/presentations",
+      {
+        method: savedId ? "PUT" : "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          repoUrl: archive ? "" : repoUrl.trim(),
+          runOfShow,
+          metadata,
+          config,
+          versions,
+        }),
+      }
+    );
+    const data = await response.json().catch(() => ({}));
+    if (!response.ok) {
+      throw new Error(data.error || "Failed to save presentation");
+    }
+
+    setSavedId(data.presentation.id);
+    setIsDirty(false);
+    window.history.replaceState(
+      null,
+      "",
+      `?presentation=${data.presentation.id}`
+    );
+  }, [runOfShow, metadata, config, repoUrl, archive, savedId, versions]);
+
   const handleConfigChange = useCallback(
     (newConfig: PresentationConfig) => {
       setConfig(newConfig);
@@ -165,12 +703,79 @@ export default function HomePage() {
     []
   );
 
+  /** Create or update a custom profile; errors propagate to `PresentationOptions`. */
+  const handleSaveProfile = useCallback(
+    async (input: NewProfile, id?: string) => {
+      const response = await fetch(
+        id ? `/api/profiles/${id}` : "/api/profiles",
+        {
+          method: id ? "PUT" : "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(input),
+        }
+      );
+      const data = await response.json().catch(() => ({}));
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to save profile");
+      }
+
+      const profile: Profile = data.profile;
+      const upsert = <T extends Profile>(list: T[]) =>
+        id
+          ? list.map((p) => (p.id === id ? (profile as T) : p))
+          : [...list, profile as T];
+      if (profile.kind === "audience") setAudiences(upsert);
+      else setTimeProfiles(upsert);
+
+      // New profiles are selected; edits refresh the selection's snapshot.
+      setConfig((current) =>
+        !id ||
+        current.audience === profile.id ||
+        current.timeConstraint === profile.id
+          ? Profiles.select(current, profile)
+          : current
+      );
+    },
+    []
+  );
+
+  /** Delete a custom profile; a selected one falls back to the default. */
+  const handleDeleteProfile = useCallback(async (profile: Profile) => {
+    const response = await fetch(`/api/profiles/${profile.id}`, {
+      method: "DELETE",
+    });
+    if (!response.ok) {
+      const data = await response.json().catch(() => ({}));
+      throw new Error(data.error || "Failed to delete profile");
+    }
+
+    if (profile.kind === "audience") {
+      setAudiences((list) => list.filter((p) => p.id !== profile.id));
+    } else {
+      setTimeProfiles((list) => list.filter((p) => p.id !== profile.id));
+    }
+    setConfig((current) => {
+      const fallback =
+        current.audience === profile.id
+          ? Profiles.builtIn(DEFAULT_AUDIENCE)
+          : current.timeConstraint === profile.id
+            ? Profiles.builtIn(DEFAULT_TIME_PROFILE)
+            : undefined;
+      return fallback ? Profiles.select(current, fallback) : current;
+    });
+  }, []);
+
+  // Show the final result, or the partial one once its first section arrives.
+  const displayed =
+    runOfShow ??
+    (streamed && streamed.sections.length > 0 ? streamed : null);
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100">
       <Header />
 
       <main className="mx-auto max-w-7xl px-4 py-8 sm:px-6 lg:px-8">
-        {!runOfShow ? (
+        {!displayed ? (
           <>
             {/* Hero Section */}
             <div className="text-center mb-12 animate-fade-in">
@@ -201,20 +806,72 @@ export default function HomePage() {
                   onChange={setRepoUrl}
                   error={error}
                   disabled={isLoading}
+                  archive={archive}
+                  onArchiveChange={setArchive}
                 />
 
+                {/* Optional ref/subdirectory (also parsed from /tree/ URLs) */}
+                {!archive && (
+                  <div className="mt-4 grid grid-cols-1 md:grid-cols-2 gap-4">
+                    <div>
+                      <label
+                        htmlFor="repo-ref"
+                        className="block text-sm font-medium text-gray-700 mb-2"
+                      >
+                        Branch, tag or commit{" "}
+                        <span className="text-gray-400">(optional)</span>
+                      </label>
+                      <input
+                        id="repo-ref"
+                        type="text"
+                        value={ref}
+                        onChange={(e) => setRef(e.target.value)}
+                        disabled={isLoading}
+                        placeholder="default branch"
+                        className="input"
+                      />
+                    </div>
+                    <div>
+                      <label
+                        htmlFor="repo-subpath"
+                        className="block text-sm font-medium text-gray-700 mb-2"
+                      >
+                        Subdirectory{" "}
+                        <span className="text-gray-400">(optional)</span>
+                      </label>
+                      <input
+                        id="repo-subpath"
+                        type="text"
+                        value={subpath}
+                        onChange={(e) => setSubpath(e.target.value)}
+                        disabled={isLoading}
+                        placeholder="packages/core"
+                        className="input"
+                      />
+                    </div>
+                  </div>
+                )}
+
                 <div className="mt-8">
                   <PresentationOptions
                     config={config}
                     onChange={handleConfigChange}
+                    audiences={audiences}
+                    timeProfiles={timeProfiles}
+                    onSaveProfile={handleSaveProfile}
+                    onDeleteProfile={handleDeleteProfile}
+                    models={models}
+                    defaultModel={defaultModel}
                     disabled={isLoading}
                   />
                 </div>
 
                 <div className="mt-8 flex justify-center">
                   <button
-                    onClick={handleGenerate}
-                    disabled={isLoading || !repoUrl.trim()}
+                    onClick={() => handleGenerate()}
+                    disabled={
+                      isLoading || (!repoUrl.trim() && !archive)
+                    }
                     className="btn-primary px-8 py-3 text-base font-semibold disabled:opacity-50 disabled:cursor-not-allowed"
                   >
                     {isLoading ? (
@@ -256,16 +913,42 @@ export default function HomePage() {
               </div>
             </div>
 
-            {isLoading && <LoadingState />}
+            {isLoading && (
+              <LoadingState
+                stage={stage}
+                message={stageMessage}
+              />
+            )}
           </>
         ) : (
-          <RunOfShowDisplay
-            runOfShow={runOfShow}
-            repoUrl={repoUrl}
-            config={config}
-            metadata={metadata}
-            onReset={handleReset}
-          />
+          <div className="grid grid-cols-1 xl:grid-cols-[minmax(0,1fr)_22rem] gap-6 items-start">
+            <RunOfShowDisplay
+              runOfShow={displayed}
+              isStreaming={!runOfShow}
+              repoUrl={repoUrl}
+              config={config}
+              metadata={metadata}
+              isSaved={savedId !== null && !isDirty}
+              onSave={handleSave}
+              onChange={handleRunOfShowChange}
+              onRegenerateSection={handleRegenerateSection}
+              versions={runOfShow ? versions : undefined}
+              onRestoreVersion={handleRestoreVersion}
+              onReset={handleReset}
+              onGenerateFresh={() => handleGenerate(true)}
+            />
+            {runOfShow && (
+              <div className="xl:sticky xl:top-8">
+                <RefinementChat
+                  // A new generation or reopened presentation starts a new chat.
+                  key={metadata?.generatedAt}
+                  runOfShow={runOfShow}
+                  onRefine={handleRefine}
+                  onChange={commitRunOfShow}
+                />
+              </div>
+            )}
+          </div>
         )}
       </main>
     </div>
@@ -0,0 +1,47 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import {
+  errorBody,
+  errorHeaders,
+  errorStatus,
+  ValidationError,
+} from "../apiErrors";
+import {
+  GitHubNotFoundError,
+  GitHubRateLimitError,
+} from "../githubClient";
+import { ModelSelectionError } from "../llm";
+import { UnknownProfileError } from "../profiles";
+import { ProviderHttpError, RevisionNotFoundError } from "../providers";
+
+describe("errorStatus", () => {
+  it("maps each known failure to its status", () => {
+    expect(errorStatus(new ValidationError("bad"))).toBe(400);
+    expect(errorStatus(new UnknownProfileError("time", "gone"))).toBe(400);
+    expect(errorStatus(new ModelSelectionError("no such model"))).toBe(400);
+    expect(errorStatus(new RevisionNotFoundError("no such ref"))).toBe(404);
+    expect(errorStatus(new GitHubNotFoundError())).toBe(404);
+    expect(errorStatus(new ProviderHttpError("forbidden", 401))).toBe(403);
+    expect(errorStatus(new ProviderHttpError("down", 503))).toBe(502);
+    expect(errorStatus(new Error("boom"))).toBe(500);
+  });
+});
+
+describe("GitHub rate limits", () => {
+  afterEach(() => vi.useRealTimers());
+
+  it("report when to retry in the body and headers", () => {
+    vi.useFakeTimers({ now: new Date("2026-01-01T00:00:00Z") });
+    const error = new GitHubRateLimitError(
+      "rate limited",
+      new Date("2026-01-01T00:01:30Z")
+    );
+
+    expect(errorStatus(error)).toBe(429);
+    expect(errorBody(error)).toEqual({
+      error: "rate limited",
+      resetAt: "2026-01-01T00:01:30.000Z",
+    });
+    expect(errorHeaders(error)).toEqual({ "Retry-After": "90" });
+    expect(errorHeaders(new Error("boom"))).toBeUndefined();
+  });
+});
@@ -0,0 +1,187 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import {
+  GitHubClient,
+  GitHubNetworkError,
+  GitHubNotFoundError,
+  GitHubRateLimitError,
+} from "../githubClient";
+
+interface ScriptedResponse {
+  status: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+}
+
+/** A `fetch` that answers each request with the next scripted response. */
+function scriptedFetch(responses: ScriptedResponse[]) {
+  const requests: string[] = [];
+  const fetchImpl: typeof fetch = async (input) => {
+    requests.push(input instanceof Request ? input.url : String(input));
+    const next = responses.shift();
+    if (!next) throw new Error("Unexpected request");
+    return new Response(JSON.stringify(next.body ?? {}), {
+      status: next.status,
+      headers: { "content-type": "application/json", ...next.headers },
+    });
+  };
+  return { fetch: fetchImpl, requests };
+}
+
+const NOW = new Date("2026-01-01T12:00:00Z");
+const RESET_EPOCH = String(NOW.getTime() / 1000 + 600);
+
+describe("GitHubClient", () => {
+  let sleeps: number[];
+
+  beforeEach(() => {
+    // Only the clock is faked; sleeping advances it instead of waiting.
+    vi.useFakeTimers({ toFake: ["Date"], now: NOW });
+    sleeps = [];
+    vi.spyOn(
+      GitHubClient as unknown as { sleep: (ms: number) => Promise<void> },
+      "sleep"
+    ).mockImplementation(async (ms) => {
+      sleeps.push(ms);
+      vi.setSystemTime(Date.now() + ms);
+    });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  const getRepo = (client: GitHubClient) =>
+    client.octokit.repos.get({ owner: "acme", repo: "widget" });
+
+  it("retries server errors with exponential backoff", async () => {
+    const { fetch, requests } = scriptedFetch([
+      { status: 502 },
+      { status: 503 },
+      { status: 200, body: { full_name: "acme/widget" } },
+    ]);
+
+    const { data } = await getRepo(new GitHubClient(undefined, fetch));
+
+    expect(data.full_name).toBe("acme/widget");
+    expect(requests).toHaveLength(3);
+    expect(sleeps).toHaveLength(2);
+    expect(sleeps[0]).toBeGreaterThanOrEqual(500);
+    expect(sleeps[0]).toBeLessThanOrEqual(750);
+    expect(sleeps[1]).toBeGreaterThanOrEqual(1000);
+    expect(sleeps[1]).toBeLessThanOrEqual(1500);
+  });
+
+  it("fails with a network error once the retries run out", async () => {
+    const { fetch, requests } = scriptedFetch(
+      Array.from({ length: GitHubClient.MAX_RETRIES + 1 }, () => ({
+        status: 503,
+      }))
+    );
+
+    const failure = getRepo(new GitHubClient(undefined, fetch));
+
+    await expect(failure).rejects.toBeInstanceOf(GitHubNetworkError);
+    await expect(failure).rejects.toMatchObject({ status: 503 });
+    expect(requests).toHaveLength(GitHubClient.MAX_RETRIES + 1);
+  });
+
+  it("does not retry a missing repository", async () => {
+    const { fetch, requests } = scriptedFetch([
+      { status: 404, body: { message: "Not Found" } },
+    ]);
+
+    await expect(
+      getRepo(new GitHubClient(undefined, fetch))
+    ).rejects.toBeInstanceOf(GitHubNotFoundError);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("pauses for a secondary rate limit's retry-after", async () => {
+    const { fetch, requests } = scriptedFetch([
+      {
+        status: 403,
+        body: { message: "You have exceeded a secondary rate limit." },
+        headers: { "retry-after": "2" },
+      },
+      { status: 200, body: { full_name: "acme/widget" } },
+    ]);
+    const client = new GitHubClient("token", fetch);
+
+    const { data } = await getRepo(client);
+
+    expect(data.full_name).toBe("acme/widget");
+    expect(requests).toHaveLength(2);
+    expect(sleeps).toEqual([2000]);
+  });
+
+  it("fails a secondary rate limit that would wait too long", async () => {
+    const { fetch, requests } = scriptedFetch([
+      {
+        status: 429,
+        body: { message: "Too many requests" },
+        headers: { "retry-after": "120" },
+      },
+    ]);
+
+    const failure = getRepo(new GitHubClient("token", fetch));
+
+    await expect(failure).rejects.toBeInstanceOf(GitHubRateLimitError);
+    await expect(failure).rejects.toMatchObject({
+      resetAt: new Date(NOW.getTime() + 120_000),
+    });
+    expect(requests).toHaveLength(1);
+    expect(sleeps).toEqual([]);
+  });
+
+  it("does not retry an exhausted quota", async () => {
+    const { fetch, requests } = scriptedFetch([
+      {
+        status: 403,
+        body: { message: "API rate limit exceeded" },
+        headers: {
+          "x-ratelimit-limit": "60",
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": RESET_EPOCH,
+        },
+      },
+    ]);
+
+    const failure = getRepo(new GitHubClient(undefined, fetch));
+
+    await expect(failure).rejects.toBeInstanceOf(GitHubRateLimitError);
+    await expect(failure).rejects.toThrow(/60 requests per hour/);
+    expect(requests).toHaveLength(1);
+  });
+
+  it("fails fast once a response reports the quota used up", async () => {
+    const { fetch, requests } = scriptedFetch([
+      {
+        status: 200,
+        body: { full_name: "acme/widget" },
+        headers: {
+          "x-ratelimit-limit": "5000",
+          "x-ratelimit-remaining": "0",
+          "x-ratelimit-reset": RESET_EPOCH,
+        },
+      },
+      { status: 200, body: { full_name: "acme/widget" } },
+    ]);
+    const client = new GitHubClient("token", fetch);
+
+    await getRepo(client);
+    const failure = getRepo(client);
+
+    await expect(failure).rejects.toBeInstanceOf(GitHubRateLimitError);
+    await expect(failure).rejects.toMatchObject({
+      resetAt: new Date(Number(RESET_EPOCH) * 1000),
+    });
+    expect(requests).toHaveLength(1);
+    expect(client.rateLimit()).toMatchObject({ limit: 5000, remaining: 0 });
+
+    // Requests resume after the reset.
+    vi.setSystemTime(Number(RESET_EPOCH) * 1000 + 1000);
+    await expect(getRepo(client)).resolves.toMatchObject({ status: 200 });
+    expect(requests).toHaveLength(2);
+  });
+});
@@ -0,0 +1,75 @@
+import { describe, expect, it } from "vitest";
+import {
+  RunOfShowStreamParser,
+  type StreamedRunOfShowPart,
+} from "../incrementalJson";
+
+const section = (title: string) => ({
+  title,
+  duration: "5 minutes",
+  content: "See {braces}, [brackets] and \"quotes\" \\ here.",
+  presenterNotes: ["Note with } and ]"],
+  keyPoints: [],
+});
+
+const document = {
+  title: 'The "Widget" {tour}',
+  overview: "Escapes: \\\" and \n newlines",
+  sections: [section("Intro"), section("Deep dive")],
+  closingNotes: "Thanks",
+};
+
+/** Feed `text` in chunks of `size` and collect every emitted part. */
+function parseInChunks(text: string, size: number): StreamedRunOfShowPart[] {
+  const parser = new RunOfShowStreamParser();
+  const parts: StreamedRunOfShowPart[] = [];
+  for (let start = 0; start < text.length; start += size) {
+    parts.push(...parser.push(text.slice(start, start + size)));
+  }
+  return parts;
+}
+
+describe("RunOfShowStreamParser", () => {
+  const text = "```json\n" + JSON.stringify(document, null, 2) + "\n```";
+  const expected: StreamedRunOfShowPart[] = [
+    { type: "field", key: "title", value: document.title },
+    { type: "field", key: "overview", value: document.overview },
+    { type: "section", index: 0, section: document.sections[0] },
+    { type: "section", index: 1, section: document.sections[1] },
+  ];
+
+  it("emits fields and sections whatever the chunk size", () => {
+    for (const size of [1, 2, 3, 7, 64, text.length]) {
+      expect(parseInChunks(text, size)).toEqual(expected);
+    }
+  });
+
+  it("emits a section only once it is complete", () => {
+    const parser = new RunOfShowStreamParser();
+    const json = JSON.stringify(document);
+    const firstSectionEnd =
+      json.indexOf(JSON.stringify(document.sections[0])) +
+      JSON.stringify(document.sections[0]).length;
+
+    const early = parser.push(json.slice(0, firstSectionEnd - 1));
+    expect(early.filter((part) => part.type === "section")).toEqual([]);
+
+    expect(parser.push(json.slice(firstSectionEnd - 1, firstSectionEnd))).toEqual(
+      [{ type: "section", index: 0, section: document.sections[0] }]
+    );
+  });
+
+  it("ignores keys named like fields inside sections", () => {
+    const parts = parseInChunks(
+      JSON.stringify({
+        sections: [{ ...section("Nested"), overview: "not top-level" }],
+        title: "Top",
+      }),
+      5
+    );
+
+    expect(parts.filter((part) => part.type === "field")).toEqual([
+      { type: "field", key: "title", value: "Top" },
+    ]);
+  });
+});
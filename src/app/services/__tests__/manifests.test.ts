@@ -0,0 +1,53 @@
+import { describe, expect, it } from "vitest";
+import { Manifests } from "../manifests";
+
+describe("Manifests.parse pom.xml", () => {
+  it("takes coordinates from <project>, not from a dependency", () => {
+    const manifest = Manifests.parse(
+      "pom.xml",
+      `<?xml version="1.0"?>
+      <project xmlns="http://maven.apache.org/POM/4.0.0">
+        <modelVersion>4.0.0</modelVersion>
+        <dependencies>
+          <dependency>
+            <groupId>g</groupId>
+            <artifactId>testing</artifactId>
+            <version>1.0</version>
+            <scope>test</scope>
+          </dependency>
+        </dependencies>
+        <artifactId>a</artifactId>
+        <version>2.3.0</version>
+      </project>`
+    );
+
+    expect(manifest).toMatchObject({
+      name: "a",
+      version: "2.3.0",
+      dependencies: {},
+      devDependencies: { "g:testing": "1.0" },
+    });
+  });
+
+  it("inherits the groupId and version from <parent>", () => {
+    const manifest = Manifests.parse(
+      "service/pom.xml",
+      `<project>
+        <parent>
+          <groupId>com.acme</groupId>
+          <artifactId>platform</artifactId>
+          <version>5.1</version>
+        </parent>
+        <artifactId>billing</artifactId>
+        <developers>
+          <developer><name>Ada</name></developer>
+        </developers>
+      </project>`
+    );
+
+    expect(manifest).toMatchObject({
+      name: "com.acme:billing",
+      version: "5.1",
+    });
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, expect, it } from "vitest";
+import { Pacing } from "../pacing";
+
+const section = (duration: string) => ({
+  title: "Section",
+  duration,
+  content: "",
+  presenterNotes: [],
+  keyPoints: [],
+});
+
+const total = (sections: Array<{ duration: string }>) =>
+  sections.reduce((sum, s) => sum + Pacing.durationSeconds(s.duration), 0);
+
+describe("Pacing.fitDurations", () => {
+  it("rescales proportionally in whole minutes", () => {
+    const fitted = Pacing.fitDurations(
+      [section("10 minutes"), section("5 minutes"), section("5 minutes")],
+      600
+    );
+
+    expect(fitted.map((s) => s.duration)).toEqual([
+      "5 minutes",
+      "3 minutes",
+      "2 minutes",
+    ]);
+    expect(total(fitted)).toBe(600);
+  });
+
+  it("takes back the minimum-step padding from the longest sections", () => {
+    const fitted = Pacing.fitDurations(
+      [
+        section("20 minutes"),
+        ...Array.from({ length: 11 }, () => section("1 minute")),
+      ],
+      300
+    );
+
+    expect(total(fitted)).toBe(300);
+    expect(Pacing.durationSeconds(fitted[0].duration)).toBeGreaterThan(
+      Pacing.durationSeconds(fitted[1].duration)
+    );
+  });
+
+  it("stays within the target when even quarter minutes do not fit", () => {
+    const fitted = Pacing.fitDurations(
+      Array.from({ length: 25 }, () => section("2 minutes")),
+      300
+    );
+
+    expect(total(fitted)).toBe(300);
+    expect(fitted[0].duration).toBe("12 seconds");
+  });
+});
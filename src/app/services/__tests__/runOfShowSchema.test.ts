@@ -0,0 +1,62 @@
+import { describe, expect, it } from "vitest";
+import { RunOfShowSchema } from "../runOfShowSchema";
+
+const runOfShow = {
+  title: "Widget",
+  overview: "A tour of the widget.",
+  sections: [
+    {
+      title: "Intro",
+      duration: "5 minutes",
+      content: "What it does.",
+      presenterNotes: ["Say hello"],
+      keyPoints: ["It renders widgets"],
+    },
+  ],
+  closingNotes: "Thanks!",
+};
+
+describe("RunOfShowSchema.parse", () => {
+  it("skips braces in prose before the JSON object", () => {
+    const result = RunOfShowSchema.parse(
+      `Summary: changed {x} stuff\n${JSON.stringify(runOfShow)}`
+    );
+
+    expect(result).toEqual({ ok: true, value: runOfShow });
+  });
+
+  it("does not mistake an object nested in malformed JSON for the reply", () => {
+    const result = RunOfShowSchema.parse(
+      `{"title": "Widget", "sections": [${JSON.stringify(
+        runOfShow.sections[0]
+      )},]}`
+    );
+
+    expect(result.ok).toBe(false);
+    expect(!result.ok && result.issues[0].message).toMatch(/^invalid JSON/);
+  });
+
+  it("reports a reply cut off mid-object as truncated", () => {
+    const json = JSON.stringify({
+      ...runOfShow,
+      sections: [runOfShow.sections[0], runOfShow.sections[0]],
+    });
+    const result = RunOfShowSchema.parse(
+      json.slice(0, json.lastIndexOf('"title"') + 12)
+    );
+
+    expect(result).toEqual({
+      ok: false,
+      issues: [
+        { path: "$", message: "response JSON is incomplete (truncated?)" },
+      ],
+    });
+  });
+
+  it("reports a reply without any JSON object", () => {
+    expect(RunOfShowSchema.parse("Sorry, I cannot help with that.")).toEqual({
+      ok: false,
+      issues: [{ path: "$", message: "response does not contain a JSON object" }],
+    });
+  });
+});
@@ -0,0 +1,84 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { NextRequest, NextResponse } from "next/server";
+import { Session, type SessionData } from "../session";
+
+const SECRET = "a".repeat(Session.MIN_SECRET_LENGTH);
+
+function session(overrides: Partial<SessionData> = {}): SessionData {
+  return {
+    github: { token: "gho_token", id: 42, login: "octocat" },
+    expiresAt: Date.now() + 60_000,
+    ...overrides,
+  };
+}
+
+/** Seal `data` through `Session.write` and return the cookie value. */
+function seal(data: SessionData): string {
+  const response = NextResponse.json({});
+  Session.write(response, data);
+  const value = response.cookies.get(Session.COOKIE)?.value;
+  if (!value) throw new Error("session cookie not set");
+  return value;
+}
+
+function requestWith(cookie: string): NextRequest {
+  return new NextRequest("http://localhost/api/presentations", {
+    headers: { cookie: `${Session.COOKIE}=${cookie}` },
+  });
+}
+
+describe("Session", () => {
+  beforeEach(() => {
+    vi.stubEnv("SESSION_SECRET", SECRET);
+    vi.stubEnv("GITHUB_CLIENT_ID", "client-id");
+    vi.stubEnv("GITHUB_CLIENT_SECRET", "client-secret");
+  });
+
+  afterEach(() => vi.unstubAllEnvs());
+
+  it("opens the cookie it sealed", () => {
+    const request = requestWith(seal(session()));
+
+    expect(Session.read(request)?.github).toEqual(session().github);
+    expect(Session.owner(request)).toBe("github:42");
+    expect(Session.githubToken(request)).toBe("gho_token");
+  });
+
+  it("reads a tampered cookie as signed out", () => {
+    const [iv, tag, ciphertext] = seal(session()).split(".");
+    const flipped = Buffer.from(ciphertext, "base64url");
+    flipped[0] ^= 1;
+    const request = requestWith(
+      [iv, tag, flipped.toString("base64url")].join(".")
+    );
+
+    expect(Session.read(request)).toBeNull();
+    expect(Session.owner(request)).toBeNull();
+    expect(Session.read(requestWith("not-a-session"))).toBeNull();
+  });
+
+  it("reads a cookie sealed with another secret as signed out", () => {
+    const cookie = seal(session());
+    vi.stubEnv("SESSION_SECRET", "b".repeat(Session.MIN_SECRET_LENGTH));
+
+    expect(Session.read(requestWith(cookie))).toBeNull();
+  });
+
+  it("ignores expired sessions and sessions without a user id", () => {
+    const expired = seal(session({ expiresAt: Date.now() - 1 }));
+    const legacy = seal({
+      ...session(),
+      github: { token: "gho_token", login: "octocat" },
+    } as unknown as SessionData);
+
+    expect(Session.read(requestWith(expired))).toBeNull();
+    expect(Session.read(requestWith(legacy))).toBeNull();
+  });
+
+  it("reads every cookie as signed out when sign-in is not configured", () => {
+    const cookie = seal(session());
+    vi.stubEnv("GITHUB_CLIENT_SECRET", "");
+
+    expect(Session.read(requestWith(cookie))).toBeNull();
+  });
+});
@@ -0,0 +1,93 @@
+/**
+ * @file analysisCache.ts
+ * @description
+ * In-memory cache of recent repository analyses, so follow-up requests (such as
+ * regenerating one section) can reuse the exact context a run of show was
+ * generated from without analyzing the repository again.
+ *
+ * @remarks
+ * - Entries are keyed by an opaque id returned to the client in
+ *   `RunOfShowMetadata.analysisId`.
+ * - Least-recently-used eviction past MAX_ENTRIES; entries expire after TTL_MS.
+ * - Per server process: ids do not survive restarts, so callers must be ready to
+ *   re-analyze on a miss; `loadAnalysis` does that for hosted repositories.
+ */
+
+import { randomUUID } from "crypto";
+import { resolveProvider, type ProviderCredentials } from "./providers";
+import type { RepoAnalysis } from "./github";
+import type { RunOfShowMetadata } from "@/app/page";
+
+export class AnalysisCache {
+  static readonly TTL_MS = 60 * 60 * 1000;
+  static readonly MAX_ENTRIES = 50;
+
+  private readonly entries = new Map<
+    string,
+    { analysis: RepoAnalysis; expiresAt: number }
+  >();
+
+  /** Store an analysis and return its id. */
+  put(analysis: RepoAnalysis): string {
+    const id = randomUUID();
+    this.entries.set(id, {
+      analysis,
+      expiresAt: Date.now() + AnalysisCache.TTL_MS,
+    });
+
+    // Maps iterate in insertion order, so the first key is least recently used.
+    while (this.entries.size > AnalysisCache.MAX_ENTRIES) {
+      this.entries.delete(this.entries.keys().next().value!);
+    }
+    return id;
+  }
+
+  get(id: string): RepoAnalysis | null {
+    const entry = this.entries.get(id);
+    if (!entry) return null;
+    if (entry.expiresAt < Date.now()) {
+      this.entries.delete(id);
+      return null;
+    }
+    // Re-insert to mark as most recently used.
+    this.entries.delete(id);
+    this.entries.set(id, entry);
+    return entry.analysis;
+  }
+}
+
+/** Process-wide cache shared by the generation routes. */
+export const analysisCache = new AnalysisCache();
+
+/**
+ * The analysis a run of show was generated from: cached by `metadata.analysisId`,
+ * or rebuilt from a hosted repository at the recorded commit (as the signed-in
+ * user, given their `credentials`). Null when neither is possible (expired local
+ * directories and uploaded archives).
+ */
+export async function loadAnalysis(
+  metadata: RunOfShowMetadata | null,
+  repoUrl: string,
+  credentials: ProviderCredentials = {}
+): Promise<{ analysis: RepoAnalysis; analysisId: string } | null> {
+  const cached = metadata?.analysisId
+    ? analysisCache.get(metadata.analysisId)
+    : null;
+  if (cached && metadata?.analysisId) {
+    return { analysis: cached, analysisId: metadata.analysisId };
+  }
+
+  if (!repoUrl) return null;
+
+  const analysis = await resolveProvider(
+    repoUrl,
+    credentials
+  ).analyzeRepository(
+    repoUrl,
+    {
+      ref: metadata?.commitSha ?? metadata?.ref,
+      subpath: metadata?.subpath,
+    }
+  );
+  return { analysis, analysisId: analysisCache.put(analysis) };
+}
@@ -0,0 +1,106 @@
+/**
+ * @file apiErrors.ts
+ * @description
+ * How the generation routes (`/api/generate-runofshow`, `/api/regenerate-section`,
+ * `/api/refine-runofshow`) answer a failure: one status mapping and one body
+ * shape, so the same error reads the same from every route.
+ *
+ * @remarks
+ * - Messages are passed through as-is; services throw client-safe messages and
+ *   never include secrets.
+ * - Server-side only.
+ */
+
+import { ArchiveLimitError } from "./local";
+import { InvalidOutputError } from "./llm/completion";
+import { ModelSelectionError } from "./llm";
+import {
+  GitHubApiError,
+  GitHubRateLimitError,
+  githubErrorStatus,
+} from "./githubClient";
+import { UnknownProfileError } from "./profiles";
+import {
+  providerErrorStatus,
+  ProviderHttpError,
+  RevisionNotFoundError,
+} from "./providers";
+import type { SchemaIssue } from "./runOfShowSchema";
+
+/**
+ * Minimal typed error for request validation failures.
+ * @public
+ */
+export class ValidationError extends Error {
+  /** @param message - Human-readable reason for the validation failure. */
+  constructor(message: string) {
+    super(message);
+    this.name = "ValidationError";
+  }
+}
+
+/** Client-safe error message. */
+export function errorMessage(error: unknown): string {
+  return error instanceof Error
+    ? error.message
+    : "An unexpected error occurred";
+}
+
+/**
+ * Client-safe error body; includes schema issues for invalid model output and
+ * the reset time for GitHub rate limits.
+ */
+export function errorBody(error: unknown): {
+  error: string;
+  issues?: SchemaIssue[];
+  attempts?: number;
+  resetAt?: string;
+} {
+  if (error instanceof InvalidOutputError) {
+    return {
+      error: errorMessage(error),
+      issues: error.issues,
+      attempts: error.attempts,
+    };
+  }
+  if (error instanceof GitHubRateLimitError) {
+    return {
+      error: errorMessage(error),
+      resetAt: error.resetAt.toISOString(),
+    };
+  }
+  return { error: errorMessage(error) };
+}
+
+/**
+ * HTTP status for an error: 400 for validation failures (including unknown
+ * profiles and models, and archives past the content limits), 404 for a
+ * missing branch, tag, commit or subdirectory, 502 for unusable model output,
+ * the GitHub mapping for GitHub failures (see `githubErrorStatus`) and the
+ * same statuses for GitLab, Bitbucket and Gitea (see `providerErrorStatus`),
+ * otherwise 500.
+ */
+export function errorStatus(error: unknown): number {
+  if (error instanceof ValidationError) return 400;
+  if (error instanceof UnknownProfileError) return 400;
+  if (error instanceof ModelSelectionError) return 400;
+  if (error instanceof ArchiveLimitError) return 400;
+  if (error instanceof RevisionNotFoundError) return 404;
+  if (error instanceof InvalidOutputError) return 502;
+  if (error instanceof GitHubApiError) return githubErrorStatus(error);
+  if (error instanceof ProviderHttpError) return providerErrorStatus(error);
+  return 500;
+}
+
+/** Response headers for an error: `Retry-After` for GitHub rate limits. */
+export function errorHeaders(
+  error: unknown
+): Record<string, string> | undefined {
+  if (!(error instanceof GitHubRateLimitError)) return undefined;
+  // Whole seconds until the limit resets.
+  const seconds = Math.max(
+    1,
+    Math.ceil((error.resetAt.getTime() - Date.now()) / 1000)
+  );
+  return { "Retry-After": String(seconds) };
+}
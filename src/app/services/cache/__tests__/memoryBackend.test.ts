@@ -0,0 +1,39 @@
+import { describe, expect, it } from "vitest";
+import { MemoryCacheBackend } from "../memoryBackend";
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe("MemoryCacheBackend", () => {
+  it("evicts the least recently used entries past the byte limit", async () => {
+    // Each value serializes to 12 bytes: a quoted 10-character string.
+    const cache = new MemoryCacheBackend(100, 30);
+    await cache.set("a", "a".repeat(10), HOUR_MS);
+    await cache.set("b", "b".repeat(10), HOUR_MS);
+    await cache.get("a");
+    await cache.set("c", "c".repeat(10), HOUR_MS);
+
+    expect(await cache.get("b")).toBeNull();
+    expect((await cache.get("a"))?.value).toBe("a".repeat(10));
+    expect((await cache.get("c"))?.value).toBe("c".repeat(10));
+  });
+
+  it("does not cache a value larger than the byte limit", async () => {
+    const cache = new MemoryCacheBackend(100, 30);
+    await cache.set("small", "s", HOUR_MS);
+    const entry = await cache.set("large", "l".repeat(40), HOUR_MS);
+
+    expect(entry.value).toBe("l".repeat(40));
+    expect(await cache.get("large")).toBeNull();
+    expect((await cache.get("small"))?.value).toBe("s");
+  });
+
+  it("evicts past the entry limit", async () => {
+    const cache = new MemoryCacheBackend(2);
+    await cache.set("a", 1, HOUR_MS);
+    await cache.set("b", 2, HOUR_MS);
+    await cache.set("c", 3, HOUR_MS);
+
+    expect(await cache.get("a")).toBeNull();
+    expect((await cache.get("c"))?.value).toBe(3);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * @file conditionalRequests.ts
+ * @description
+ * A `fetch` for Octokit that revalidates GET requests with ETags: the last response
+ * for a URL is cached with its `ETag`, the next request sends `If-None-Match`, and a
+ * `304 Not Modified` is answered from the cache. GitHub does not count 304s
+ * against the rate limit, which matters most without a `GITHUB_TOKEN`.
+ *
+ * @remarks
+ * - Works below Octokit, so a revalidated response looks like a plain 200 to it
+ *   (and is not logged as a failed request).
+ * - Entries are scoped by a fingerprint of the token, so a response fetched with
+ *   one user's credentials is never served to another.
+ * - Bodies larger than MAX_BODY_LENGTH are not cached (large trees and files are
+ *   better served by the analysis cache).
+ */
+
+import { createHash } from "crypto";
+import { CACHE_TTL_MS, getCache } from "./index";
+
+/** What is kept of a response to replay it on a 304. */
+interface CachedResponse {
+  etag: string;
+  body: string;
+  /** Only the headers callers read (content type and pagination links). */
+  headers: Record<string, string>;
+}
+
+const MAX_BODY_LENGTH = 1_000_000;
+const REPLAYED_HEADERS = ["content-type", "link"];
+
+/**
+ * Wrap `fetchImpl` so GET requests made with `token` are revalidated with ETags.
+ * Pass the result as Octokit's `request.fetch`.
+ */
+export function conditionalFetch(
+  token: string | undefined,
+  fetchImpl: typeof fetch = fetch
+): typeof fetch {
+  const scope = createHash("sha256")
+    .update(token ?? "")
+    .digest("hex")
+    .slice(0, 16);
+
+  return async (input, init) => {
+    const method = (init?.method ?? "GET").toUpperCase();
+    if (method !== "GET") return fetchImpl(input, init);
+
+    const url = input instanceof Request ? input.url : input.toString();
+    const key = `conditional:${scope}:${url}`;
+    const cached = await getCache()
+      .get<CachedResponse>(key)
+      .catch(() => null);
+
+    const headers = new Headers(init?.headers);
+    if (cached) headers.set("if-none-match", cached.value.etag);
+    const response = await fetchImpl(input, { ...init, headers });
+
+    if (response.status === 304 && cached) {
+      return new Response(cached.value.body, {
+        status: 200,
+        headers: { ...cached.value.headers, etag: cached.value.etag },
+      });
+    }
+
+    const etag = response.headers.get("etag");
+    if (!response.ok || !etag) return response;
+
+    const body = await response.text();
+    if (body.length <= MAX_BODY_LENGTH) {
+      const replayed: Record<string, string> = {};
+      for (const name of REPLAYED_HEADERS) {
+        const value = response.headers.get(name);
+        if (value) replayed[name] = value;
+      }
+      await getCache()
+        .set<CachedResponse>(
+          key,
+          { etag, body, headers: replayed },
+          CACHE_TTL_MS.conditional
+        )
+        .catch(() => {});
+    }
+    return new Response(body, {
+      status: response.status,
+      statusText: response.statusText,
+      headers: response.headers,
+    });
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * @file fileBackend.ts
+ * @description
+ * Cache backend that keeps one JSON file per entry in a directory, so cached
+ * analyses and generations survive restarts and can be shared by processes on the
+ * same disk.
+ *
+ * @remarks
+ * - Filenames are the SHA-256 of the key, so any key is a safe filename.
+ * - Writes land atomically (temp file, then rename); a concurrent reader sees the
+ *   old entry or the new one, never a partial file.
+ * - Expired entries are deleted when read. Nothing sweeps entries that are never
+ *   read again; clear the directory to reclaim that space.
+ */
+
+import { createHash } from "crypto";
+import { promises as fs } from "fs";
+import path from "path";
+import type { CacheBackend, CacheEntry } from "./types";
+
+export class FileCacheBackend implements CacheBackend {
+  constructor(private readonly directory: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const filePath = this.pathFor(key);
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await fs.readFile(filePath, "utf8"));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") {
+        console.warn(`Ignoring unreadable cache entry ${filePath}:`, error);
+      }
+      return null;
+    }
+
+    if (entry.expiresAt < Date.now()) {
+      await this.delete(key);
+      return null;
+    }
+    return entry;
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<CacheEntry<T>> {
+    const entry: CacheEntry<T> = {
+      value,
+      storedAt: new Date().toISOString(),
+      expiresAt: Date.now() + ttlMs,
+    };
+    const filePath = this.pathFor(key);
+    const tempPath = `${filePath}.${process.pid}.${Date.now()}.tmp`;
+    await fs.mkdir(this.directory, { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(entry));
+    await fs.rename(tempPath, filePath);
+    return entry;
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.unlink(this.pathFor(key)).catch((error) => {
+      if (error.code !== "ENOENT") throw error;
+    });
+  }
+
+  private pathFor(key: string): string {
+    return path.join(
+      this.directory,
+      `${createHash("sha256").update(key).digest("hex")}.json`
+    );
+  }
+}
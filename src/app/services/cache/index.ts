@@ -0,0 +1,141 @@
+/**
+ * @file index.ts
+ * @description
+ * Response cache for repository analyses and generations. Routes and providers
+ * call {@link getCache} (or the helpers below) and never construct a backend
+ * directly.
+ *
+ * @remarks
+ * - `CACHE_BACKEND` selects the backend: "memory" (default; per process, LRU) or
+ *   "file" (one JSON file per entry in `CACHE_DIR`, default `.data/cache`).
+ * - Analyses are keyed by provider, owner/repo, commit SHA and subpath, so a new
+ *   commit is a new key; generations by a hash of the analysis, the resolved
+ *   config (profiles included), the model and its settings, and
+ *   `PromptGenerator.VERSION`.
+ * - Entries expire after CACHE_TTL_MS; `refresh` skips the read but still stores the
+ *   fresh result.
+ * - GitHub requests are revalidated with ETags (see `conditionalRequests`), so a
+ *   new commit's analysis still skips unchanged metadata.
+ */
+
+import { createHash } from "crypto";
+import path from "path";
+import { FileCacheBackend } from "./fileBackend";
+import { MemoryCacheBackend } from "./memoryBackend";
+import type { CacheBackend, CacheEntry } from "./types";
+import type { RepoAnalysis } from "../github";
+import type { ResolvedRevision } from "../providers/revision";
+import type { ResolvedConfig } from "../profiles";
+import type { SelectedModel } from "../llm";
+import type { CacheStatus } from "@/app/page";
+
+export type { CacheBackend, CacheEntry } from "./types";
+export { FileCacheBackend, MemoryCacheBackend };
+
+/** How long each kind of entry lives, in milliseconds. */
+export const CACHE_TTL_MS = {
+  /** Pinned to a commit, but stars, history and README links still drift. */
+  analysis: 24 * 60 * 60 * 1000,
+  generation: 7 * 24 * 60 * 60 * 1000,
+  /** ETag-validated responses are checked with GitHub on every use. */
+  conditional: 7 * 24 * 60 * 60 * 1000,
+};
+
+let cache: CacheBackend | null = null;
+
+/** The configured backend, created once per server process. */
+export function getCache(): CacheBackend {
+  cache ??=
+    process.env.CACHE_BACKEND === "file"
+      ? new FileCacheBackend(
+          process.env.CACHE_DIR || path.join(process.cwd(), ".data", "cache")
+        )
+      : new MemoryCacheBackend();
+  return cache;
+}
+
+/** SHA-256 of a value's JSON. */
+export function hashOf(value: unknown): string {
+  return createHash("sha256").update(JSON.stringify(value)).digest("hex");
+}
+
+/**
+ * The cached value for `key`, or the result of `compute` (which is then stored).
+ * A failing cache read or write is logged and treated as a miss.
+ */
+export async function remember<T>(
+  key: string,
+  ttlMs: number,
+  compute: () => Promise<T>,
+  options: { refresh?: boolean } = {}
+): Promise<{ entry: CacheEntry<T>; status: CacheStatus }> {
+  if (!options.refresh) {
+    const cached = await getCache()
+      .get<T>(key)
+      .catch((error) => {
+        console.warn(`Cache read failed for ${key}:`, error);
+        return null;
+      });
+    if (cached) return { entry: cached, status: "hit" };
+  }
+
+  const value = await compute();
+  const entry = await getCache()
+    .set(key, value, ttlMs)
+    .catch((error) => {
+      console.warn(`Cache write failed for ${key}:`, error);
+      return {
+        value,
+        storedAt: new Date().toISOString(),
+        expiresAt: Date.now(),
+      };
+    });
+  return { entry, status: options.refresh ? "refresh" : "miss" };
+}
+
+/**
+ * Analyze a hosted repository at a resolved commit, or reuse the analysis cached
+ * for that commit. A reused analysis carries `cache.status: "hit"` and the time it
+ * was computed.
+ */
+export async function rememberAnalysis(
+  target: {
+    provider: string;
+    owner: string;
+    repo: string;
+    revision: ResolvedRevision;
+  },
+  options: { refresh?: boolean } | undefined,
+  analyze: () => Promise<RepoAnalysis>
+): Promise<RepoAnalysis> {
+  const { provider, owner, repo, revision } = target;
+  const { entry, status } = await remember(
+    `analysis:${provider}:${owner}/${repo}@${revision.commitSha}:${revision.subpath}`,
+    CACHE_TTL_MS.analysis,
+    analyze,
+    options
+  );
+  return { ...entry.value, cache: { status, analyzedAt: entry.storedAt } };
+}
+
+/**
+ * Key of a generation: the analysis content (without its cache info and fetch
+ * timings), the resolved config, the model with its settings and the prompt
+ * version. The config's model selection is replaced by the settings it resolved
+ * to, so a request spelling out the defaults shares the cached generation.
+ */
+export function generationCacheKey(
+  analysis: RepoAnalysis,
+  config: ResolvedConfig,
+  model: Pick<SelectedModel, "id" | "settings">,
+  promptVersion: number
+): string {
+  return `generation:v${promptVersion}:${hashOf({
+    ...analysis,
+    cache: undefined,
+    timings: undefined,
+  })}:${hashOf({ ...config, model: undefined })}:${hashOf({
+    id: model.id,
+    ...model.settings,
+  })}`;
+}
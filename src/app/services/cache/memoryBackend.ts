@@ -0,0 +1,81 @@
+/**
+ * @file memoryBackend.ts
+ * @description
+ * Per-process cache backend with least-recently-used eviction.
+ *
+ * @remarks
+ * - Values are stored serialized, so callers can never mutate a cached value
+ *   through a reference they were handed, just as with the filesystem backend.
+ * - Expired entries are dropped when read; eviction keeps at most `maxEntries`
+ *   and at most `maxBytes` of serialized JSON (counted as `json.length`), since a
+ *   single analysis or GitHub response can be close to a megabyte. A value larger
+ *   than `maxBytes` on its own is not cached.
+ */
+
+import type { CacheBackend, CacheEntry } from "./types";
+
+export class MemoryCacheBackend implements CacheBackend {
+  static readonly DEFAULT_MAX_ENTRIES = 500;
+  static readonly DEFAULT_MAX_BYTES = 256 * 1024 * 1024;
+
+  private readonly entries = new Map<
+    string,
+    { json: string; storedAt: string; expiresAt: number }
+  >();
+  private totalBytes = 0;
+
+  constructor(
+    private readonly maxEntries = MemoryCacheBackend.DEFAULT_MAX_ENTRIES,
+    private readonly maxBytes = MemoryCacheBackend.DEFAULT_MAX_BYTES
+  ) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | null> {
+    const entry = this.entries.get(key);
+    if (!entry) return null;
+    if (entry.expiresAt < Date.now()) {
+      this.remove(key);
+      return null;
+    }
+    // Re-insert to mark as most recently used.
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    return {
+      value: JSON.parse(entry.json) as T,
+      storedAt: entry.storedAt,
+      expiresAt: entry.expiresAt,
+    };
+  }
+
+  async set<T>(key: string, value: T, ttlMs: number): Promise<CacheEntry<T>> {
+    const entry = {
+      json: JSON.stringify(value),
+      storedAt: new Date().toISOString(),
+      expiresAt: Date.now() + ttlMs,
+    };
+    this.remove(key);
+    if (entry.json.length <= this.maxBytes) {
+      this.entries.set(key, entry);
+      this.totalBytes += entry.json.length;
+    }
+
+    // Maps iterate in insertion order, so the first key is least recently used.
+    while (
+      this.entries.size > this.maxEntries ||
+      this.totalBytes > this.maxBytes
+    ) {
+      this.remove(this.entries.keys().next().value!);
+    }
+    return { value, storedAt: entry.storedAt, expiresAt: entry.expiresAt };
+  }
+
+  async delete(key: string): Promise<void> {
+    this.remove(key);
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.totalBytes -= entry.json.length;
+    this.entries.delete(key);
+  }
+}
@@ -0,0 +1,22 @@
+/**
+ * @file types.ts
+ * @description
+ * Contract for the response cache's storage. Callers depend only on
+ * {@link CacheBackend}, so the in-memory and filesystem backends (or a shared
+ * store such as Redis) are interchangeable.
+ */
+
+/** A stored value with its timestamps (ISO 8601 / epoch milliseconds). */
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: string;
+  expiresAt: number;
+}
+
+export interface CacheBackend {
+  /** The live entry for `key`, or `null` when missing or expired. */
+  get<T>(key: string): Promise<CacheEntry<T> | null>;
+  /** Store a JSON-serializable value for `ttlMs` milliseconds. */
+  set<T>(key: string, value: T, ttlMs: number): Promise<CacheEntry<T>>;
+  delete(key: string): Promise<void>;
+}
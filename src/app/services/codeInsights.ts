@@ -0,0 +1,660 @@
+/**
+ * @file codeInsights.ts
+ * @description
+ * Code-intelligence stage run at the end of repository analysis. For TypeScript and
+ * JavaScript it reads the project's source modules, lists their exported symbols,
+ * builds the import graph between them, and summarizes the architecture: hub
+ * modules, dependencies between directories, the most used external packages and
+ * circular imports. The result is `RepoAnalysis.architecture`, rendered into the
+ * prompt by `PromptGenerator`, so the model no longer has to guess the structure
+ * from a few truncated entrypoints.
+ *
+ * @remarks
+ * - Parsing is a lightweight lexer plus patterns (comments and template literals are
+ *   skipped), not a full compiler: it covers ES module and CommonJS syntax, which is
+ *   what the summary needs, and never fails the analysis on odd code.
+ * - Relative imports are resolved like a bundler (extensions, `index` files, `.js`
+ *   specifiers pointing at `.ts` sources); `paths`/`baseUrl` from a root
+ *   `tsconfig.json` or `jsconfig.json` resolve aliases such as `@/`.
+ * - At most MAX_MODULES files are read, preferring source directories and shallow
+ *   paths over tests and deep files; counts of skipped modules are reported.
+ * - Works from any file listing plus a reader, so every analyzer (GitHub, the other
+ *   hosts, local directories and archives) gets the same stage.
+ */
+
+import path from "path";
+import { FileTree, type TreeEntry } from "./fileTree";
+
+/** An exported name and what kind of declaration it is. */
+export interface ExportedSymbol {
+  name: string;
+  kind:
+    | "function"
+    | "class"
+    | "variable"
+    | "type"
+    | "enum"
+    | "namespace"
+    | "default"
+    | "re-export";
+}
+
+/** One analyzed source module. */
+export interface ModuleInsight {
+  path: string;
+  exports: ExportedSymbol[];
+  /** Repository modules this module imports (resolved paths). */
+  imports: string[];
+  /** The subset of `imports` used only for types (`import type`), erased at runtime. */
+  typeImports: string[];
+  /** Package names this module imports from outside the repository. */
+  packages: string[];
+  /** Number of analyzed modules that import this one. */
+  importedBy: number;
+}
+
+/** Structured architecture summary of a TypeScript/JavaScript codebase. */
+export interface ArchitectureSummary {
+  /** Modules read and parsed. */
+  modulesAnalyzed: number;
+  /** TypeScript/JavaScript modules left out to stay within MAX_MODULES. */
+  modulesSkipped: number;
+  /** Every analyzed module, most imported first. */
+  modules: ModuleInsight[];
+  /** Modules many others depend on, most imported first. */
+  hubs: ModuleInsight[];
+  /** Imports between directories (e.g. components → services), most first. */
+  directoryDependencies: Array<{ from: string; to: string; imports: number }>;
+  /** External packages by number of importing modules, most first. */
+  packages: Array<{ name: string; importers: number }>;
+  /** Groups of modules that import each other at runtime (type-only imports excluded). */
+  cycles: string[][];
+}
+
+/**
+ * Reads a repository file as UTF-8; `null` when it is missing or unreadable.
+ * Rejects only when the host fails (e.g. a rate limit), which stops the analysis
+ * instead of caching it without the file.
+ */
+export type FileReader = (filePath: string) => Promise<string | null>;
+
+/** `paths` aliases and `baseUrl` from a root tsconfig/jsconfig. */
+interface PathAliases {
+  baseUrl?: string;
+  paths: Array<{ prefix: string; suffix: string; targets: string[] }>;
+}
+
+export class CodeInsights {
+  /** Most modules read per repository. */
+  static readonly MAX_MODULES = 60;
+  /** Larger files are usually generated or bundled code. */
+  static readonly MAX_MODULE_SIZE = 100000;
+  /** Files read at a time. */
+  private static readonly READ_CONCURRENCY = 6;
+
+  static readonly MAX_HUBS = 8;
+  private static readonly MIN_HUB_IMPORTERS = 2;
+  private static readonly MAX_DIRECTORY_EDGES = 12;
+  private static readonly MAX_PACKAGES = 15;
+  private static readonly MAX_CYCLES = 5;
+  /** Directories are grouped at this depth ("src/app/services"). */
+  private static readonly GROUP_DEPTH = 3;
+
+  private static readonly MODULE_FILE =
+    /\.(ts|tsx|mts|cts|js|jsx|mjs|cjs)$/i;
+  private static readonly RESOLVE_EXTENSIONS = [
+    ".ts",
+    ".tsx",
+    ".mts",
+    ".cts",
+    ".js",
+    ".jsx",
+    ".mjs",
+    ".cjs",
+  ];
+  private static readonly SECONDARY_MODULE =
+    /(^|\/)(__tests__|__mocks__|tests?|spec|fixtures|__fixtures__|examples?|e2e|stories)\/|\.(test|spec|stories)\.[a-z]+$/i;
+
+  /**
+   * Analyze the TypeScript/JavaScript modules in `entries`.
+   * Returns `undefined` when the repository has none.
+   *
+   * @param entries - The repository's file listing (already scoped to a subpath).
+   * @param read - Reads a file by its path in `entries`.
+   */
+  static async analyze(
+    entries: TreeEntry[],
+    read: FileReader
+  ): Promise<ArchitectureSummary | undefined> {
+    const candidates = this.selectModules(entries);
+    if (candidates.length === 0) return undefined;
+
+    const selected = candidates.slice(0, this.MAX_MODULES);
+    const sources = await this.readAll(
+      selected.map((entry) => entry.path),
+      read
+    );
+    if (sources.size === 0) return undefined;
+
+    const files = new Set(
+      entries
+        .filter((entry) => entry.type === "file")
+        .map((entry) => entry.path)
+    );
+    const aliases = await this.readAliases(files, read);
+
+    const modules: ModuleInsight[] = [];
+    for (const [modulePath, source] of sources) {
+      const parsed = this.parseModule(source);
+      // A module counts as type-only if every import of it is type-only.
+      const imports = new Map<string, boolean>();
+      const packages = new Set<string>();
+      for (const { specifier, typeOnly } of parsed.imports) {
+        const resolved = this.resolve(modulePath, specifier, files, aliases);
+        if (resolved) {
+          if (resolved !== modulePath) {
+            imports.set(resolved, (imports.get(resolved) ?? true) && typeOnly);
+          }
+        } else if (!specifier.startsWith(".")) {
+          packages.add(this.packageName(specifier));
+        }
+      }
+      modules.push({
+        path: modulePath,
+        exports: parsed.exports,
+        imports: [...imports.keys()].sort(),
+        typeImports: [...imports]
+          .filter(([, typeOnly]) => typeOnly)
+          .map(([imported]) => imported)
+          .sort(),
+        packages: [...packages].sort(),
+        importedBy: 0,
+      });
+    }
+
+    const byPath = new Map(modules.map((mod) => [mod.path, mod]));
+    for (const mod of modules) {
+      for (const imported of mod.imports) {
+        const target = byPath.get(imported);
+        if (target) target.importedBy++;
+      }
+    }
+    modules.sort(
+      (a, b) =>
+        b.importedBy - a.importedBy ||
+        b.imports.length - a.imports.length ||
+        a.path.localeCompare(b.path)
+    );
+
+    return {
+      modulesAnalyzed: modules.length,
+      modulesSkipped: candidates.length - selected.length,
+      modules,
+      hubs: modules
+        .filter((mod) => mod.importedBy >= this.MIN_HUB_IMPORTERS)
+        .slice(0, this.MAX_HUBS),
+      directoryDependencies: this.directoryDependencies(modules),
+      packages: this.countPackages(modules),
+      cycles: this.findCycles(modules),
+    };
+  }
+
+  /**
+   * Exported symbols and import specifiers of one module's source.
+   * Covers `import`/`export ... from`, dynamic `import()`, `require()`,
+   * declarations, `export { ... }`, `export default` and CommonJS exports.
+   * Imports are type-only for `import type`, `export type ... from` and
+   * `import { type A, type B }`.
+   */
+  static parseModule(source: string): {
+    exports: ExportedSymbol[];
+    imports: Array<{ specifier: string; typeOnly: boolean }>;
+  } {
+    const code = this.stripComments(source);
+    // Specifier -> type-only; a single value import makes it a value import.
+    const imports = new Map<string, boolean>();
+    const exports = new Map<string, ExportedSymbol>();
+    const addExport = (name: string, kind: ExportedSymbol["kind"]) => {
+      if (!exports.has(name)) exports.set(name, { name, kind });
+    };
+
+    const addImport = (specifier: string, typeOnly: boolean) =>
+      imports.set(specifier, (imports.get(specifier) ?? true) && typeOnly);
+    const isTypeClause = (keyword?: string, clause = "") =>
+      Boolean(keyword) ||
+      (/^\{[^}]*\}$/.test(clause.trim()) &&
+        clause
+          .replace(/[{}]/g, "")
+          .split(",")
+          .filter((item) => item.trim())
+          .every((item) => /^\s*type\s/.test(item)));
+
+    for (const match of code.matchAll(
+      /\b(import|export)\s+(type\s+)?((?:[\w$*{}\s,]+?)\s+from\s*|\*(?:\s+as\s+[\w$]+)?\s*from\s*|\{[^}]*\}\s*from\s*)?["']([^"'\n]+)["']/g
+    )) {
+      // `export "x"` is not valid; only re-exports with `from` count.
+      if (match[1] === "export" && !match[3]) continue;
+      const clause = match[3]?.replace(/\s*from\s*$/, "");
+      addImport(match[4], isTypeClause(match[2], clause));
+    }
+    for (const match of code.matchAll(
+      /\b(?:import|require)\s*\(\s*["']([^"'\n]+)["']\s*\)/g
+    )) {
+      addImport(match[1], false);
+    }
+
+    const kinds: Record<string, ExportedSymbol["kind"]> = {
+      function: "function",
+      class: "class",
+      const: "variable",
+      let: "variable",
+      var: "variable",
+      interface: "type",
+      type: "type",
+      enum: "enum",
+      namespace: "namespace",
+      module: "namespace",
+    };
+    for (const match of code.matchAll(
+      /\bexport\s+(default\s+)?(?:declare\s+)?(?:abstract\s+)?(?:async\s+)?(function\*?|class|const|let|var|interface|type|enum|namespace|module)\s+([A-Za-z_$][\w$]*)/g
+    )) {
+      const kind = kinds[match[2].replace("*", "")];
+      addExport(match[3], match[1] ? "default" : kind);
+    }
+    if (/\bexport\s+default\s+(?!(?:abstract\s+)?(?:async\s+)?(?:function|class)\s+[A-Za-z_$])/.test(code)) {
+      addExport("default", "default");
+    }
+
+    for (const match of code.matchAll(
+      /\bexport\s+(type\s+)?\{([^}]*)\}(\s*from\s*["'][^"'\n]+["'])?/g
+    )) {
+      for (const item of match[2].split(",")) {
+        const isType = Boolean(match[1]) || /^\s*type\s/.test(item);
+        const name = item
+          .trim()
+          .replace(/^type\s+/, "")
+          .split(/\s+as\s+/)
+          .pop()
+          ?.trim();
+        if (!name || !/^[A-Za-z_$][\w$]*$/.test(name)) continue;
+        addExport(
+          name,
+          match[3] ? "re-export" : isType ? "type" : "variable"
+        );
+      }
+    }
+    for (const match of code.matchAll(
+      /\bexport\s+\*\s+(?:as\s+([\w$]+)\s+)?from\s*["']([^"'\n]+)["']/g
+    )) {
+      addExport(match[1] ?? `* from ${match[2]}`, "re-export");
+    }
+
+    if (/\bmodule\.exports\s*=/.test(code)) {
+      addExport("mod.exports", "default");
+    }
+    for (const match of code.matchAll(
+      /\b(?:module\.)?exports\.([A-Za-z_$][\w$]*)\s*=/g
+    )) {
+      addExport(match[1], "variable");
+    }
+
+    return {
+      exports: [...exports.values()],
+      imports: [...imports].map(([specifier, typeOnly]) => ({
+        specifier,
+        typeOnly,
+      })),
+    };
+  }
+
+  /**
+   * TypeScript/JavaScript files worth analyzing, best first: source directories
+   * and shallow paths before tests, examples and deep files. Declaration files,
+   * minified bundles and ignored directories are left out.
+   */
+  private static selectModules(entries: TreeEntry[]): TreeEntry[] {
+    return entries
+      .filter(
+        (entry) =>
+          entry.type === "file" &&
+          this.MODULE_FILE.test(entry.path) &&
+          !/\.d\.[mc]?ts$|\.min\.js$/i.test(entry.path) &&
+          (entry.size === undefined ||
+            (entry.size > 0 && entry.size <= this.MAX_MODULE_SIZE)) &&
+          !FileTree.isIgnoredPath(entry.path)
+      )
+      .map((entry) => ({
+        entry,
+        secondary: this.SECONDARY_MODULE.test(entry.path),
+        depth: entry.path.split("/").length,
+      }))
+      .sort(
+        (a, b) =>
+          Number(a.secondary) - Number(b.secondary) ||
+          a.depth - b.depth ||
+          a.entry.path.localeCompare(b.entry.path)
+      )
+      .map(({ entry }) => entry);
+  }
+
+  /** Read `paths` a few at a time; unreadable files are skipped. */
+  private static async readAll(
+    paths: string[],
+    read: FileReader
+  ): Promise<Map<string, string>> {
+    const sources = new Map<string, string>();
+    for (let i = 0; i < paths.length; i += this.READ_CONCURRENCY) {
+      const batch = paths.slice(i, i + this.READ_CONCURRENCY);
+      const contents = await Promise.all(
+        batch.map((filePath) => read(filePath))
+      );
+      batch.forEach((filePath, index) => {
+        const content = contents[index];
+        if (content !== null && content.length <= this.MAX_MODULE_SIZE) {
+          sources.set(filePath, content);
+        }
+      });
+    }
+    return sources;
+  }
+
+  /** `baseUrl` and `paths` from a root tsconfig.json or jsconfig.json, if any. */
+  private static async readAliases(
+    files: Set<string>,
+    read: FileReader
+  ): Promise<PathAliases> {
+    const configFile = ["tsconfig.json", "jsconfig.json"].find((file) =>
+      files.has(file)
+    );
+    const content = configFile
+      ? await read(configFile)
+      : null;
+    if (!content) return { paths: [] };
+
+    try {
+      // tsconfig allows comments and trailing commas.
+      const config = JSON.parse(
+        this.stripComments(content, { keepTemplates: true }).replace(
+          /,(\s*[}\]])/g,
+          "$1"
+        )
+      );
+      const options = config?.compilerOptions ?? {};
+      const baseUrl =
+        typeof options.baseUrl === "string"
+          ? path.posix.normalize(options.baseUrl)
+          : undefined;
+      const paths = Object.entries(
+        (options.paths ?? {}) as Record<string, unknown>
+      ).flatMap(([pattern, targets]) => {
+        if (!Array.isArray(targets)) return [];
+        const [prefix, suffix = ""] = pattern.split("*");
+        return [
+          {
+            prefix,
+            suffix,
+            targets: targets
+              .filter((target): target is string => typeof target === "string")
+              .map((target) => path.posix.join(baseUrl ?? ".", target)),
+          },
+        ];
+      });
+      return { baseUrl, paths };
+    } catch {
+      return { paths: [] };
+    }
+  }
+
+  /**
+   * Resolve an import specifier to a file in the repository, or `null` for
+   * external packages (and relative imports of files that are not there).
+   */
+  private static resolve(
+    from: string,
+    specifier: string,
+    files: Set<string>,
+    aliases: PathAliases
+  ): string | null {
+    if (specifier.startsWith(".")) {
+      return this.resolveFile(
+        path.posix.join(path.posix.dirname(from), specifier),
+        files
+      );
+    }
+
+    for (const alias of aliases.paths) {
+      if (
+        !specifier.startsWith(alias.prefix) ||
+        !specifier.endsWith(alias.suffix) ||
+        specifier.length < alias.prefix.length + alias.suffix.length
+      ) {
+        continue;
+      }
+      const wildcard = specifier.slice(
+        alias.prefix.length,
+        specifier.length - alias.suffix.length
+      );
+      for (const target of alias.targets) {
+        const resolved = this.resolveFile(
+          target.replace("*", wildcard),
+          files
+        );
+        if (resolved) return resolved;
+      }
+    }
+
+    return aliases.baseUrl
+      ? this.resolveFile(path.posix.join(aliases.baseUrl, specifier), files)
+      : null;
+  }
+
+  /** The file an extensionless or `.js` import path refers to, bundler-style. */
+  private static resolveFile(
+    target: string,
+    files: Set<string>
+  ): string | null {
+    const base = path.posix.normalize(target).replace(/^\.\//, "");
+    if (base.startsWith("..")) return null;
+
+    const stem = base.replace(/\.[mc]?jsx?$/, "");
+    const candidates = [
+      base,
+      ...this.RESOLVE_EXTENSIONS.map((ext) => stem + ext),
+      ...this.RESOLVE_EXTENSIONS.map((ext) => `${base}/index${ext}`),
+    ];
+    return (
+      candidates.find(
+        (candidate) =>
+          this.MODULE_FILE.test(candidate) && files.has(candidate)
+      ) ?? null
+    );
+  }
+
+  /** "react-dom/client" → "react-dom", "@scope/pkg/x" → "@scope/pkg", "node:fs" → "fs". */
+  private static packageName(specifier: string): string {
+    const parts = specifier.replace(/^node:/, "").split("/");
+    return specifier.startsWith("@")
+      ? parts.slice(0, 2).join("/")
+      : parts[0];
+  }
+
+  private static directoryOf(modulePath: string): string {
+    const dirs = modulePath.split("/").slice(0, -1);
+    return dirs.slice(0, this.GROUP_DEPTH).join("/") || ".";
+  }
+
+  /** Imports between directory groups, counted per importing module. */
+  private static directoryDependencies(
+    modules: ModuleInsight[]
+  ): ArchitectureSummary["directoryDependencies"] {
+    const counts = new Map<string, number>();
+    for (const mod of modules) {
+      const from = this.directoryOf(mod.path);
+      for (const imported of mod.imports) {
+        const to = this.directoryOf(imported);
+        if (from === to) continue;
+        const key = `${from}\n${to}`;
+        counts.set(key, (counts.get(key) ?? 0) + 1);
+      }
+    }
+    return [...counts]
+      .map(([key, imports]) => {
+        const [from, to] = key.split("\n");
+        return { from, to, imports };
+      })
+      .sort(
+        (a, b) =>
+          b.imports - a.imports ||
+          a.from.localeCompare(b.from) ||
+          a.to.localeCompare(b.to)
+      )
+      .slice(0, this.MAX_DIRECTORY_EDGES);
+  }
+
+  private static countPackages(
+    modules: ModuleInsight[]
+  ): ArchitectureSummary["packages"] {
+    const counts = new Map<string, number>();
+    for (const mod of modules) {
+      for (const name of mod.packages) {
+        counts.set(name, (counts.get(name) ?? 0) + 1);
+      }
+    }
+    return [...counts]
+      .map(([name, importers]) => ({ name, importers }))
+      .sort(
+        (a, b) => b.importers - a.importers || a.name.localeCompare(b.name)
+      )
+      .slice(0, this.MAX_PACKAGES);
+  }
+
+  /**
+   * Strongly connected components of the import graph with more than one module
+   * (Tarjan's algorithm), largest first.
+   */
+  private static findCycles(modules: ModuleInsight[]): string[][] {
+    const graph = new Map(
+      modules.map((mod) => [
+        mod.path,
+        mod.imports.filter(
+          (imported) => !mod.typeImports.includes(imported)
+        ),
+      ])
+    );
+    const index = new Map<string, number>();
+    const lowLink = new Map<string, number>();
+    const stack: string[] = [];
+    const onStack = new Set<string>();
+    const components: string[][] = [];
+    let counter = 0;
+
+    const visit = (node: string) => {
+      index.set(node, counter);
+      lowLink.set(node, counter);
+      counter++;
+      stack.push(node);
+      onStack.add(node);
+
+      for (const next of graph.get(node) ?? []) {
+        if (!graph.has(next)) continue;
+        if (!index.has(next)) {
+          visit(next);
+          lowLink.set(node, Math.min(lowLink.get(node)!, lowLink.get(next)!));
+        } else if (onStack.has(next)) {
+          lowLink.set(node, Math.min(lowLink.get(node)!, index.get(next)!));
+        }
+      }
+
+      if (lowLink.get(node) === index.get(node)) {
+        const component: string[] = [];
+        let member: string;
+        do {
+          member = stack.pop()!;
+          onStack.delete(member);
+          component.push(member);
+        } while (member !== node);
+        if (component.length > 1) components.push(component.sort());
+      }
+    };
+
+    for (const node of graph.keys()) {
+      if (!index.has(node)) visit(node);
+    }
+    return components
+      .sort((a, b) => b.length - a.length)
+      .slice(0, this.MAX_CYCLES);
+  }
+
+  /**
+   * `source` with comments removed (newlines kept) and, unless `keepTemplates`,
+   * template literals emptied, so patterns do not match inside them. Strings and
+   * regular expression literals are copied as they are.
+   */
+  private static stripComments(
+    source: string,
+    { keepTemplates = false } = {}
+  ): string {
+    let out = "";
+    let i = 0;
+    // Last significant character, to tell a regex literal from division.
+    let previous = "";
+
+    while (i < source.length) {
+      const char = source[i];
+      const next = source[i + 1];
+
+      if (char === "/" && next === "/") {
+        while (i < source.length && source[i] !== "\n") i++;
+        continue;
+      }
+      if (char === "/" && next === "*") {
+        const end = source.indexOf("*/", i + 2);
+        const comment = source.slice(i, end === -1 ? undefined : end + 2);
+        out += comment.replace(/[^\n]/g, " ");
+        i += comment.length;
+        continue;
+      }
+      if (char === '"' || char === "'" || char === "`") {
+        let j = i + 1;
+        while (j < source.length && source[j] !== char) {
+          if (source[j] === "\\") j++;
+          else if (source[j] === "\n" && char !== "`") break;
+          j++;
+        }
+        const literal = source.slice(i, j + 1);
+        out +=
+          char === "`" && !keepTemplates
+            ? `\`${literal.replace(/[^\n]/g, "")}\``
+            : literal;
+        i = j + 1;
+        previous = char;
+        continue;
+      }
+      if (
+        char === "/" &&
+        (previous === "" ||
+          /[(,=:[!&|?{};+\-*%<>~^]/.test(previous) ||
+          /\b(return|typeof|case|else|in|of|void|yield|await)\s*$/.test(out))
+      ) {
+        let j = i + 1;
+        let inClass = false;
+        while (j < source.length && source[j] !== "\n") {
+          if (source[j] === "\\") j++;
+          else if (source[j] === "[") inClass = true;
+          else if (source[j] === "]") inClass = false;
+          else if (source[j] === "/" && !inClass) break;
+          j++;
+        }
+        out += source.slice(i, j + 1);
+        i = j + 1;
+        previous = "/";
+        continue;
+      }
+
+      out += char;
+      if (!/\s/.test(char)) previous = char;
+      i++;
+    }
+    return out;
+  }
+}
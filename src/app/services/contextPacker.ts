@@ -0,0 +1,246 @@
+/**
+ * @file contextPacker.ts
+ * @description
+ * Fits repository content into the prompt by token budget instead of fixed
+ * character cuts. Each prompt section (README, file structure, key files, code
+ * architecture, dependencies, quality, timeline) gets a share of the budget;
+ * candidates are packed by relevance, and content that does not fit is truncated
+ * or summarized, or dropped when even a summary would not fit.
+ *
+ * @remarks
+ * - Tokens are estimated at ~4 characters each; close enough for budgeting
+ *   without shipping a tokenizer.
+ * - Sections are packed in `SECTION_SHARES` order and budget a section leaves
+ *   unused carries over to the next, so key files (last) absorb whatever the
+ *   smaller sections did not need.
+ * - Within a section, no single candidate may take more than MAX_ITEM_SHARE of it
+ *   (or its fair share of what is left) unless it is the last one, so one large
+ *   file cannot crowd out the others.
+ * - Summaries are structural, not model-generated: Markdown keeps the text up to
+ *   the budget plus the headings of what was cut; code keeps its head plus the
+ *   declaration lines of the rest.
+ * - Pure; the resulting {@link ContextReport} is returned in response metadata.
+ */
+
+import type {
+  ContextItemReport,
+  ContextReport,
+  ContextSection,
+} from "@/app/page";
+
+/** One piece of content competing for a section's budget. */
+export interface ContextCandidate {
+  section: ContextSection;
+  /** Identifies the candidate in the report (file path, or the section name). */
+  id: string;
+  text: string;
+  /** Higher is packed first within its section. */
+  relevance: number;
+  /** How to shrink the text when it does not fit. */
+  shrink: "truncate" | "markdown" | "code";
+}
+
+/** Packed text per section, in relevance order, with the report. */
+export interface PackedContext {
+  sections: Record<ContextSection, string[]>;
+  report: ContextReport;
+}
+
+export class ContextPacker {
+  static readonly DEFAULT_BUDGET_TOKENS = 24000;
+
+  /** Share of the budget per section, in packing order. */
+  static readonly SECTION_SHARES: Record<ContextSection, number> = {
+    quality: 0.04,
+    timeline: 0.05,
+    dependencies: 0.06,
+    architecture: 0.08,
+    structure: 0.12,
+    readme: 0.2,
+    keyFiles: 0.45,
+  };
+
+  /** Below this, a shrunk candidate is not worth including. */
+  static readonly MIN_ITEM_TOKENS = 150;
+  private static readonly MAX_ITEM_SHARE = 0.35;
+  private static readonly CHARS_PER_TOKEN = 4;
+
+  /** Lines that declare something worth keeping in a code outline. */
+  private static readonly DECLARATION =
+    /^\s*(export\s|public\s|protected\s|pub(\(\w+\))?\s|def\s|async\s+def\s|class\s|interface\s|type\s+\w+(<.*>)?\s*=|struct\s|enum\s|trait\s|impl\b|func\s|fn\s|function\s|module\.exports|@\w+|(app|router)\.(get|post|put|delete|use)\()/;
+
+  static estimateTokens(text: string): number {
+    return Math.ceil(text.length / this.CHARS_PER_TOKEN);
+  }
+
+  /** Pack `candidates` into `budgetTokens`, section by section. */
+  static pack(
+    candidates: ContextCandidate[],
+    budgetTokens = this.DEFAULT_BUDGET_TOKENS,
+  ): PackedContext {
+    const sections = {} as Record<ContextSection, string[]>;
+    const report: ContextReport = {
+      budgetTokens,
+      usedTokens: 0,
+      sections: [],
+      items: [],
+    };
+    let carry = 0;
+
+    for (const [section, share] of Object.entries(this.SECTION_SHARES) as Array<
+      [ContextSection, number]
+    >) {
+      const budget = Math.floor(budgetTokens * share) + carry;
+      const queue = candidates
+        .filter((candidate) => candidate.section === section)
+        .sort((a, b) => b.relevance - a.relevance);
+      let remaining = budget;
+      sections[section] = [];
+
+      queue.forEach((candidate, index) => {
+        const originalTokens = this.estimateTokens(candidate.text);
+        const itemsLeft = queue.length - index;
+        const allowance =
+          itemsLeft === 1
+            ? remaining
+            : Math.min(
+                remaining,
+                Math.max(
+                  Math.floor(remaining / itemsLeft),
+                  Math.floor(budget * this.MAX_ITEM_SHARE),
+                ),
+              );
+
+        let item: ContextItemReport;
+        if (originalTokens <= allowance) {
+          sections[section].push(candidate.text);
+          item = {
+            section,
+            id: candidate.id,
+            originalTokens,
+            tokens: originalTokens,
+            mode: "full",
+          };
+        } else if (allowance >= this.MIN_ITEM_TOKENS) {
+          const shrunk = this.shrink(candidate, allowance);
+          sections[section].push(shrunk.text);
+          item = {
+            section,
+            id: candidate.id,
+            originalTokens,
+            tokens: this.estimateTokens(shrunk.text),
+            mode: shrunk.mode,
+          };
+        } else {
+          item = {
+            section,
+            id: candidate.id,
+            originalTokens,
+            tokens: 0,
+            mode: "dropped",
+          };
+        }
+
+        remaining -= item.tokens;
+        report.items.push(item);
+      });
+
+      report.sections.push({
+        section,
+        budgetTokens: budget,
+        usedTokens: budget - remaining,
+      });
+      report.usedTokens += budget - remaining;
+      carry = remaining;
+    }
+
+    return { sections, report };
+  }
+
+  /** Shrink a candidate to at most `maxTokens` with its preferred strategy. */
+  private static shrink(
+    candidate: ContextCandidate,
+    maxTokens: number,
+  ): { text: string; mode: "truncated" | "summarized" } {
+    const summary =
+      candidate.shrink === "markdown"
+        ? this.summarizeMarkdown(candidate.text, maxTokens)
+        : candidate.shrink === "code"
+          ? this.summarizeCode(candidate.text, maxTokens)
+          : null;
+    return summary !== null
+      ? { text: this.truncate(summary, maxTokens), mode: "summarized" }
+      : { text: this.truncate(candidate.text, maxTokens), mode: "truncated" };
+  }
+
+  /**
+   * Cut `text` at a line boundary so it fits `maxTokens`, noting how much was cut.
+   * Returns `text` unchanged if it already fits.
+   */
+  static truncate(text: string, maxTokens: number): string {
+    if (this.estimateTokens(text) <= maxTokens) return text;
+    const marker = (omitted: number) =>
+      `\n[... truncated, about ${omitted} more tokens]`;
+    const limit =
+      maxTokens * this.CHARS_PER_TOKEN -
+      marker(this.estimateTokens(text)).length;
+    if (limit <= 0) return "";
+
+    const newline = text.lastIndexOf("\n", limit);
+    const cut = newline > limit / 2 ? newline : limit;
+    return `${text.slice(0, cut)}${marker(this.estimateTokens(text.slice(cut)))}`;
+  }
+
+  /**
+   * Keep the Markdown up to the budget, ending at a paragraph, and list the
+   * headings of the sections that were cut. `null` if there are none to list.
+   */
+  private static summarizeMarkdown(
+    text: string,
+    maxTokens: number,
+  ): string | null {
+    const headings = [...text.matchAll(/^#{1,6}\s+(.+?)\s*#*\s*$/gm)];
+    const reserve = Math.min(
+      Math.floor(maxTokens / 3),
+      this.estimateTokens(headings.map((heading) => heading[1]).join(", ")) +
+        20,
+    );
+    const limit = (maxTokens - reserve) * this.CHARS_PER_TOKEN;
+    const paragraph = text.lastIndexOf("\n\n", limit);
+    const cut = paragraph > limit / 2 ? paragraph : limit;
+
+    const omitted = headings
+      .filter((heading) => heading.index! >= cut)
+      .map((heading) => heading[1]);
+    if (omitted.length === 0) return null;
+    return `${text.slice(0, cut).trimEnd()}\n\n[Sections not included: ${omitted.join(", ")}]`;
+  }
+
+  /**
+   * Keep the head of a source file and an outline (declaration lines, with line
+   * numbers) of the rest. `null` if the rest declares nothing.
+   */
+  private static summarizeCode(text: string, maxTokens: number): string | null {
+    const lines = text.split("\n");
+    const headLimit = Math.floor(maxTokens * 0.4) * this.CHARS_PER_TOKEN;
+    let headLength = 0;
+    let head = 0;
+    while (head < lines.length && headLength + lines[head].length < headLimit) {
+      headLength += lines[head].length + 1;
+      head++;
+    }
+
+    const outline = lines
+      .slice(head)
+      .map((line, index) => ({ line, number: head + index + 1 }))
+      .filter(({ line }) => this.DECLARATION.test(line))
+      .map(({ line, number }) => `${number}: ${line.trim()}`);
+    if (outline.length === 0) return null;
+
+    return [
+      ...lines.slice(0, head),
+      `[... ${lines.length - head} more lines; declarations below:]`,
+      ...outline,
+    ].join("\n");
+  }
+}
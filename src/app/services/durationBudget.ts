@@ -0,0 +1,89 @@
+/**
+ * @file durationBudget.ts
+ * @description
+ * Keeps a freshly generated run of show within its time slot. Models often return
+ * sections whose durations add up to well over (or under) the requested length;
+ * `enforceDurationBudget` measures the plan with `Pacing.checkBudget` and, when it
+ * misses the target by more than the tolerance, asks the model that wrote it once
+ * to trim (or expand) it. If the revision still misses, the durations are rescaled
+ * proportionally with `Pacing.fitDurations`.
+ *
+ * @remarks
+ * - Calls the provider of the selected model (see `services/llm`); never import
+ *   this from client code.
+ * - A failed revision (invalid output or an API error) is logged and falls back to
+ *   rescaling, so enforcement never fails a generation that already succeeded.
+ * - Only generation is enforced: refinements may change the length on purpose, and
+ *   section regeneration keeps the section's slot.
+ */
+
+import { completeValidated } from "./llm/completion";
+import type { SelectedModel } from "./llm";
+import { Pacing, type DurationBudget } from "./pacing";
+import { PromptGenerator } from "./prompts";
+import { RunOfShowSchema } from "./runOfShowSchema";
+import type { DurationBudgetReport, RunOfShow } from "@/app/page";
+
+/** The plan misses the target or has durations that cannot be counted. */
+function needsAdjustment(budget: DurationBudget): boolean {
+  return budget.status !== "within" || budget.unreadable.length > 0;
+}
+
+/**
+ * Bring `runOfShow` onto `targetSeconds` if it misses by more than the tolerance.
+ *
+ * @param model - The model that wrote `runOfShow`; it also writes the revision.
+ * @param prompt - The generation prompt `runOfShow` was produced from; the
+ *   revision request continues that conversation.
+ * @returns The run of show to return to the client and a report of what was done.
+ */
+export async function enforceDurationBudget(
+  model: SelectedModel,
+  prompt: string,
+  runOfShow: RunOfShow,
+  targetSeconds: number
+): Promise<{ runOfShow: RunOfShow; budget: DurationBudgetReport }> {
+  const initial = Pacing.checkBudget(runOfShow.sections, targetSeconds);
+  const report = (
+    adjustment: DurationBudgetReport["adjustment"]
+  ): DurationBudgetReport => ({
+    generatedSeconds: initial.plannedSeconds,
+    targetSeconds,
+    adjustment,
+  });
+
+  if (!needsAdjustment(initial)) {
+    return { runOfShow, budget: report("none") };
+  }
+
+  try {
+    const revised = await completeValidated(
+      model,
+      [
+        { role: "user", content: prompt },
+        { role: "assistant", content: JSON.stringify(runOfShow, null, 2) },
+        {
+          role: "user",
+          content: PromptGenerator.generateDurationFix(initial),
+        },
+      ],
+      (reply) => RunOfShowSchema.parse(reply)
+    );
+    if (
+      !needsAdjustment(Pacing.checkBudget(revised.sections, targetSeconds))
+    ) {
+      return { runOfShow: revised, budget: report("revised") };
+    }
+    runOfShow = revised;
+  } catch (error) {
+    console.warn("Duration revision failed; rescaling instead:", error);
+  }
+
+  return {
+    runOfShow: {
+      ...runOfShow,
+      sections: Pacing.fitDurations(runOfShow.sections, targetSeconds),
+    },
+    budget: report("rescaled"),
+  };
+}
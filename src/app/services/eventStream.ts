@@ -0,0 +1,97 @@
+/**
+ * @file eventStream.ts
+ * @description
+ * Server-sent event helpers shared by the generation route (encoding) and the
+ * browser (decoding a `fetch` response body).
+ *
+ * @remarks
+ * - Events are JSON-encoded in a single `data:` line, named via `event:`.
+ * - Decoding works with `fetch` + `ReadableStream` rather than `EventSource`,
+ *   because generation is a POST request.
+ * - No Node-only APIs: safe to import from client components.
+ */
+
+import type {
+  GenerationStage,
+  RunOfShow,
+  RunOfShowMetadata,
+} from "@/app/page";
+import type { SchemaIssue } from "./runOfShowSchema";
+
+/** Every event the generation stream can emit. */
+export type GenerationEvent =
+  | { event: "stage"; data: { stage: GenerationStage; message: string } }
+  | {
+      event: "field";
+      data: { key: "title" | "overview"; value: string };
+    }
+  | {
+      event: "section";
+      data: { index: number; section: RunOfShow["sections"][number] };
+    }
+  | {
+      event: "complete";
+      data: { runOfShow: RunOfShow; metadata: RunOfShowMetadata };
+    }
+  | {
+      event: "error";
+      data: {
+        error: string;
+        status: number;
+        /** Schema failures when the model's output could not be repaired. */
+        issues?: SchemaIssue[];
+        attempts?: number;
+        /** When a GitHub rate limit resets (ISO 8601), for 429s. */
+        resetAt?: string;
+      };
+    };
+
+/** Content type for server-sent event responses. */
+export const EVENT_STREAM_CONTENT_TYPE = "text/event-stream";
+
+/** Serialize one event into SSE wire format. */
+export function encodeEvent({ event, data }: GenerationEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+}
+
+/**
+ * Read a `text/event-stream` response body, invoking `onEvent` for each event.
+ * Resolves when the stream ends.
+ */
+export async function readEventStream(
+  body: ReadableStream<Uint8Array>,
+  onEvent: (event: GenerationEvent) => void
+): Promise<void> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  let buffer = "";
+
+  const dispatch = (frame: string) => {
+    let event = "message";
+    const dataLines: string[] = [];
+    for (const line of frame.split("\n")) {
+      if (line.startsWith("event:")) event = line.slice(6).trim();
+      else if (line.startsWith("data:"))
+        dataLines.push(line.slice(5).trimStart());
+    }
+    if (dataLines.length === 0) return;
+    onEvent({
+      event,
+      data: JSON.parse(dataLines.join("\n")),
+    } as GenerationEvent);
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+
+    let boundary: number;
+    while ((boundary = buffer.indexOf("\n\n")) !== -1) {
+      dispatch(buffer.slice(0, boundary));
+      buffer = buffer.slice(boundary + 2);
+    }
+  }
+
+  if (buffer.trim()) dispatch(buffer);
+}
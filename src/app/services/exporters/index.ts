@@ -0,0 +1,44 @@
+/**
+ * @file index.ts
+ * @description
+ * Registry of server-side deck exporters, keyed by the `format` accepted by
+ * `/api/export`.
+ */
+
+import type { RunOfShow, RunOfShowMetadata } from "@/app/page";
+import { PptxExporter } from "./pptx";
+import { RevealExporter } from "./reveal";
+import { SlideDeckBuilder } from "./slides";
+
+export type ExportFormat = "pptx" | "reveal";
+
+interface DeckExporter {
+  contentType: string;
+  /** File extension, without the dot. */
+  extension: string;
+  render(
+    runOfShow: RunOfShow,
+    metadata?: RunOfShowMetadata | null
+  ): Promise<Buffer | string>;
+}
+
+export const EXPORTERS: Record<ExportFormat, DeckExporter> = {
+  pptx: {
+    contentType: PptxExporter.CONTENT_TYPE,
+    extension: "pptx",
+    render: (runOfShow, metadata) =>
+      PptxExporter.export(SlideDeckBuilder.build(runOfShow, metadata)),
+  },
+  reveal: {
+    contentType: RevealExporter.CONTENT_TYPE,
+    extension: "html",
+    render: (runOfShow, metadata) =>
+      RevealExporter.export(SlideDeckBuilder.build(runOfShow, metadata)),
+  },
+};
+
+export function isExportFormat(value: unknown): value is ExportFormat {
+  return typeof value === "string" && value in EXPORTERS;
+}
+
+export { SlideDeckBuilder, type Slide, type SlideDeck } from "./slides";
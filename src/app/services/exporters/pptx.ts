@@ -0,0 +1,112 @@
+/**
+ * @file pptx.ts
+ * @description
+ * Renders a `SlideDeck` as a PowerPoint (.pptx) file using PptxGenJS.
+ *
+ * @remarks
+ * - Uses the 16:9 `LAYOUT_WIDE` layout with plain text boxes, so the deck opens
+ *   cleanly in PowerPoint, Keynote and Google Slides and is easy to restyle.
+ * - Speaker notes are written with `addNotes` (visible in presenter view).
+ * - Server-side only: returns a Node `Buffer`.
+ */
+
+import PptxGenJS from "pptxgenjs";
+import type { Slide, SlideDeck } from "./slides";
+
+const COLORS = {
+  title: "111827",
+  text: "374151",
+  muted: "6B7280",
+  accent: "2563EB",
+} as const;
+
+export class PptxExporter {
+  static readonly CONTENT_TYPE =
+    "application/vnd.openxmlformats-officedocument.presentationml.presentation";
+
+  static async export(deck: SlideDeck): Promise<Buffer> {
+    const pptx = new PptxGenJS();
+    pptx.layout = "LAYOUT_WIDE";
+    pptx.title = deck.title;
+    pptx.subject = deck.subject;
+
+    for (const slide of deck.slides) {
+      this.addSlide(pptx, slide);
+    }
+
+    const data = await pptx.write({ outputType: "nodebuffer" });
+    return data as Buffer;
+  }
+
+  private static addSlide(pptx: PptxGenJS, slide: Slide) {
+    const page = pptx.addSlide();
+    const centered = slide.kind === "title" || slide.kind === "closing";
+
+    if (centered) {
+      page.addText(slide.title, {
+        x: 0.75,
+        y: 2.2,
+        w: 11.8,
+        h: 1.4,
+        fontSize: 36,
+        bold: true,
+        color: COLORS.title,
+        align: "center",
+      });
+      if (slide.subtitle) {
+        page.addText(slide.subtitle, {
+          x: 1.5,
+          y: 3.8,
+          w: 10.3,
+          h: 1.6,
+          fontSize: 18,
+          color: COLORS.muted,
+          align: "center",
+          valign: "top",
+        });
+      }
+    } else {
+      page.addText(slide.title, {
+        x: 0.6,
+        y: 0.4,
+        w: 12.1,
+        h: 0.9,
+        fontSize: 28,
+        bold: true,
+        color: slide.kind === "appendix" ? COLORS.muted : COLORS.title,
+      });
+      if (slide.subtitle) {
+        page.addText(slide.subtitle, {
+          x: 0.6,
+          y: 1.25,
+          w: 12.1,
+          h: 0.4,
+          fontSize: 14,
+          color: COLORS.accent,
+        });
+      }
+      if (slide.bullets.length > 0) {
+        page.addText(
+          slide.bullets.map((bullet) => ({
+            text: bullet,
+            options: { bullet: true, breakLine: true },
+          })),
+          {
+            x: 0.8,
+            y: 1.9,
+            w: 11.7,
+            h: 5,
+            fontSize: 20,
+            color: COLORS.text,
+            valign: "top",
+            paraSpaceAfter: 10,
+          }
+        );
+      }
+    }
+
+    if (slide.notes.length > 0) {
+      page.addNotes(slide.notes.join("\n\n"));
+    }
+  }
+}
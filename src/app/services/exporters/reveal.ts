@@ -0,0 +1,117 @@
+/**
+ * @file reveal.ts
+ * @description
+ * Renders a `SlideDeck` as a single self-contained reveal.js HTML file.
+ *
+ * @remarks
+ * - reveal.js core, its theme and the notes plugin are inlined from
+ *   `node_modules`, so the file works offline and can be emailed or hosted as-is.
+ * - Speaker notes go in `<aside class="notes">`; press `S` for the speaker view.
+ * - All deck text is HTML-escaped.
+ * - Server-side only (reads assets from disk).
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import type { Slide, SlideDeck } from "./slides";
+
+export class RevealExporter {
+  static readonly CONTENT_TYPE = "text/html; charset=utf-8";
+  private static readonly THEME = "white.css";
+
+  private static assets?: Promise<{
+    css: string;
+    theme: string;
+    script: string;
+    notes: string;
+  }>;
+
+  static async export(deck: SlideDeck): Promise<string> {
+    const { css, theme, script, notes } = await this.loadAssets();
+    const slides = deck.slides
+      .map((slide) => this.renderSlide(slide))
+      .join("\n");
+
+    return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${this.escape(deck.title)}</title>
+<style>${css}</style>
+<style>${theme}</style>
+<style>.reveal .subtitle{color:#6b7280;font-size:0.6em}.reveal .appendix h2{color:#6b7280}.reveal ul{font-size:0.8em}</style>
+</head>
+<body>
+<div class="reveal">
+<div class="slides">
+${slides}
+</div>
+</div>
+<script>${this.inlineScript(script)}</script>
+<script>${this.inlineScript(notes)}</script>
+<script>Reveal.initialize({ hash: true, plugins: [RevealNotes] });</script>
+</body>
+</html>
+`;
+  }
+
+  private static renderSlide(slide: Slide): string {
+    const heading =
+      slide.kind === "title" || slide.kind === "closing"
+        ? `<h1>${this.escape(slide.title)}</h1>`
+        : `<h2>${this.escape(slide.title)}</h2>`;
+    const subtitle = slide.subtitle
+      ? `<p class="subtitle">${this.escape(slide.subtitle)}</p>`
+      : "";
+    const bullets =
+      slide.bullets.length > 0
+        ? `<ul>${slide.bullets
+            .map((bullet) => `<li>${this.escape(bullet)}</li>`)
+            .join("")}</ul>`
+        : "";
+    const notes =
+      slide.notes.length > 0
+        ? `<aside class="notes">${slide.notes
+            .map((note) => `<p>${this.escape(note)}</p>`)
+            .join("")}</aside>`
+        : "";
+
+    return `<section class="${slide.kind}">${heading}${subtitle}${bullets}${notes}</section>`;
+  }
+
+  /** Read (once) the reveal.js files that get inlined into every deck. */
+  private static loadAssets() {
+    this.assets ??= (async () => {
+      const dist = path.join(
+        process.cwd(),
+        "node_modules",
+        "reveal.js",
+        "dist"
+      );
+      const read = (file: string) =>
+        fs.readFile(path.join(dist, file), "utf8");
+      const [css, theme, script, notes] = await Promise.all([
+        read("reveal.css"),
+        read(path.join("theme", this.THEME)),
+        read("reveal.js"),
+        read(path.join("plugin", "notes.js")),
+      ]);
+      return { css, theme, script, notes };
+    })();
+    return this.assets;
+  }
+
+  /** Keep inlined scripts from terminating their own `<script>` element. */
+  private static inlineScript(source: string): string {
+    return source.replace(/<\/script/gi, "<\\/script");
+  }
+
+  private static escape(text: string): string {
+    return text
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
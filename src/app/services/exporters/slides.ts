@@ -0,0 +1,118 @@
+/**
+ * @file slides.ts
+ * @description
+ * Format-independent slide model shared by the deck exporters. Turns a
+ * `RunOfShow` into an ordered list of slides that the PPTX and reveal.js
+ * exporters render one-to-one.
+ *
+ * @remarks
+ * - Title + overview become the title slide.
+ * - Each section becomes one or more slides: `keyPoints` are bullets (split into
+ *   continuation slides past MAX_BULLETS), `presenterNotes` are speaker notes.
+ * - Q&A predictions and technical questions become appendix slides.
+ * - Closing notes are speaker notes on the final slide.
+ */
+
+import { Profiles } from "../profiles";
+import type { RunOfShow, RunOfShowMetadata } from "@/app/page";
+
+export interface Slide {
+  kind: "title" | "section" | "appendix" | "closing";
+  title: string;
+  /** Short line under the title (overview, duration, ...). */
+  subtitle?: string;
+  bullets: string[];
+  /** Speaker notes, one paragraph per entry. */
+  notes: string[];
+}
+
+export interface SlideDeck {
+  title: string;
+  /** Shown as the deck author/subject where the format supports it. */
+  subject: string;
+  slides: Slide[];
+}
+
+export class SlideDeckBuilder {
+  /** Bullets per slide before a section continues on the next slide. */
+  static readonly MAX_BULLETS = 5;
+
+  static build(
+    runOfShow: RunOfShow,
+    metadata?: RunOfShowMetadata | null
+  ): SlideDeck {
+    const slides: Slide[] = [
+      {
+        kind: "title",
+        title: runOfShow.title,
+        subtitle: runOfShow.overview,
+        bullets: [],
+        notes: [
+          metadata?.repoName &&
+            `Repository: ${metadata.repoName} (${metadata.language})`,
+          metadata?.config &&
+            `Audience: ${Profiles.audienceLabel(metadata.config)}, ${Profiles.timeLabel(metadata.config)}`,
+        ].filter((note): note is string => Boolean(note)),
+      },
+    ];
+
+    runOfShow.sections.forEach((section, index) => {
+      const chunks = this.chunk(section.keyPoints);
+      chunks.forEach((bullets, part) => {
+        slides.push({
+          kind: "section",
+          title:
+            part === 0
+              ? `${index + 1}. ${section.title}`
+              : `${index + 1}. ${section.title} (cont.)`,
+          subtitle: part === 0 ? section.duration : undefined,
+          // Without key points, the section description carries the slide.
+          bullets: bullets.length > 0 ? bullets : [section.content],
+          notes:
+            part === 0
+              ? [section.content, ...section.presenterNotes]
+              : [],
+        });
+      });
+    });
+
+    const appendix: Array<[string, string[] | undefined]> = [
+      ["Appendix: Potential Q&A", runOfShow.qaPredictions],
+      ["Appendix: Technical Questions", runOfShow.techQuestions],
+    ];
+    for (const [title, questions] of appendix) {
+      if (!questions?.length) continue;
+      this.chunk(questions).forEach((bullets, part) => {
+        slides.push({
+          kind: "appendix",
+          title: part === 0 ? title : `${title} (cont.)`,
+          bullets,
+          notes: [],
+        });
+      });
+    }
+
+    slides.push({
+      kind: "closing",
+      title: "Thank you",
+      subtitle: runOfShow.title,
+      bullets: [],
+      notes: [runOfShow.closingNotes],
+    });
+
+    return {
+      title: runOfShow.title,
+      subject: metadata?.repoName ?? runOfShow.title,
+      slides,
+    };
+  }
+
+  /** Split items into slide-sized groups; always returns at least one group. */
+  private static chunk(items: string[]): string[][] {
+    const chunks: string[][] = [];
+    for (let i = 0; i < items.length; i += this.MAX_BULLETS) {
+      chunks.push(items.slice(i, i + this.MAX_BULLETS));
+    }
+    return chunks.length > 0 ? chunks : [[]];
+  }
+}
@@ -0,0 +1,74 @@
+/**
+ * @file fetchScheduler.ts
+ * @description
+ * Runs an analysis's API requests with bounded concurrency and records where the
+ * time went.
+ *
+ * @remarks
+ * - At most `concurrency` requests are in flight; the rest wait in FIFO order.
+ * - Retries and rate-limit waits happen inside each request (see `GitHubClient`),
+ *   so a request that is backing off keeps its slot and slows the analysis down.
+ * - One scheduler per analysis, so its timings describe that analysis only.
+ */
+
+import type { FetchTimings } from "@/app/page";
+
+export class FetchScheduler {
+  static readonly DEFAULT_CONCURRENCY = 6;
+
+  private active = 0;
+  private readonly queue: Array<() => void> = [];
+  private readonly startedAt = Date.now();
+  private readonly stages: FetchTimings["stages"] = [];
+  private requests = 0;
+
+  constructor(
+    private readonly concurrency = FetchScheduler.DEFAULT_CONCURRENCY
+  ) {}
+
+  /** Run one request when a slot is free. */
+  async run<T>(request: () => Promise<T>): Promise<T> {
+    await this.acquire();
+    this.requests++;
+    try {
+      return await request();
+    } finally {
+      this.release();
+    }
+  }
+
+  /** Time `task` as a named stage; stages may overlap when run in parallel. */
+  async stage<T>(name: string, task: () => Promise<T>): Promise<T> {
+    const started = Date.now();
+    try {
+      return await task();
+    } finally {
+      this.stages.push({ name, ms: Date.now() - started });
+    }
+  }
+
+  /** Counters and stage durations so far. */
+  timings(): FetchTimings {
+    return {
+      totalMs: Date.now() - this.startedAt,
+      stages: [...this.stages],
+      requests: this.requests,
+      concurrency: this.concurrency,
+    };
+  }
+
+  private async acquire(): Promise<void> {
+    if (this.active < this.concurrency) {
+      this.active++;
+      return;
+    }
+    // `release` hands its slot straight to the next waiter.
+    await new Promise<void>((resolve) => this.queue.push(resolve));
+  }
+
+  private release(): void {
+    const next = this.queue.shift();
+    if (next) next();
+    else this.active--;
+  }
+}
@@ -0,0 +1,323 @@
+/**
+ * @file fileTree.ts
+ * @description
+ * Builds a hierarchical view of a repository from a flat list of paths and ranks
+ * files by how useful they are for explaining the codebase.
+ *
+ * @remarks
+ * - Input is a flat list of `{ path, type, size }` entries, as returned by the
+ *   recursive Git Trees API (or any other source that can list files).
+ * - Directories aggregate the total size and file count of everything beneath them.
+ *   Sizes are omitted from rendered lines when the source does not report them.
+ * - `render` produces indented, depth-limited lines suitable for a prompt.
+ * - `rankKeyFiles` scores files anywhere in the tree (not just the root) using
+ *   filename, location, and depth heuristics.
+ * - Side effects: none; all functions are pure.
+ */
+
+/** A single file or directory in a flat repository listing. */
+export interface TreeEntry {
+  path: string;
+  type: "file" | "dir";
+  /** Size in bytes (0 for directories); omitted when the source does not report sizes. */
+  size?: number;
+}
+
+/** A node in the hierarchical repository tree. */
+export interface FileTreeNode {
+  name: string;
+  path: string;
+  type: "file" | "dir";
+  /** File size, or the summed size of all files beneath a directory. */
+  size: number;
+  /** 1 for files, or the number of files beneath a directory. */
+  fileCount: number;
+  children?: FileTreeNode[];
+}
+
+export class FileTree {
+  /** Directories that are never useful for understanding a project. */
+  private static readonly IGNORED_DIRS = new Set([
+    "node_modules",
+    ".git",
+    "dist",
+    "build",
+    "out",
+    "coverage",
+    "vendor",
+    ".next",
+    "__pycache__",
+    "target",
+  ]);
+
+  /** Directories that usually hold the interesting source code. */
+  private static readonly SOURCE_DIRS = new Set([
+    "src",
+    "lib",
+    "app",
+    "pkg",
+    "cmd",
+    "internal",
+    "core",
+    "server",
+  ]);
+
+  /** Directories that hold tests, fixtures or examples rather than core code. */
+  private static readonly SECONDARY_DIRS = new Set([
+    "test",
+    "tests",
+    "__tests__",
+    "spec",
+    "fixtures",
+    "__fixtures__",
+    "examples",
+    "example",
+    "docs",
+    "scripts",
+  ]);
+
+  private static readonly SOURCE_EXTENSIONS =
+    /\.(js|jsx|ts|tsx|mjs|cjs|py|go|rs|java|kt|rb|php|cs|swift|c|cc|cpp|h)$/i;
+
+  private static readonly ENTRYPOINT_NAMES =
+    /^(index|main|app|server|cli|lib|mod|__init__|router|routes?)\.[a-z]+$/i;
+
+  /** Files that are never worth sending to the model. */
+  private static readonly EXCLUDED_FILES =
+    /(\.min\.(js|css)|\.map|\.lock|-lock\.json|\.snap|\.svg|\.png|\.jpe?g|\.gif|\.ico|\.woff2?)$/i;
+
+  /** Maximum directory depth rendered before subtrees are collapsed. */
+  private static readonly MAX_RENDER_DEPTH = 3;
+  /** Maximum number of rendered lines. */
+  private static readonly MAX_RENDER_LINES = 200;
+
+  /**
+   * Determine if a filename matches common "key" file patterns.
+   */
+  static isKeyFile(filename: string): boolean {
+    const keyPatterns = [
+      /^(index|main|app|server)\.(js|ts|jsx|tsx|py|go|rs|java)$/i,
+      /\.(config|conf)\.(js|ts|json|yaml|yml|toml)$/i,
+      /^(dockerfile|makefile|rakefile)$/i,
+      /^(changelog|contributing|license|authors|contributors)\.(md|txt|rst)$/i,
+      /^(package\.json|requirements\.txt|go\.mod|cargo\.toml|gemfile|composer\.json)$/i,
+    ];
+
+    return keyPatterns.some((pattern) =>
+      pattern.test(filename)
+    );
+  }
+
+  /** True for paths inside dependency, build-output or VCS directories. */
+  static isIgnoredPath(path: string): boolean {
+    return path
+      .split("/")
+      .some((segment) => FileTree.IGNORED_DIRS.has(segment));
+  }
+
+  /**
+   * Build a hierarchical tree from a flat list of entries.
+   * Intermediate directories missing from the listing are created on demand.
+   */
+  static build(entries: TreeEntry[]): FileTreeNode {
+    const root: FileTreeNode = {
+      name: "",
+      path: "",
+      type: "dir",
+      size: 0,
+      fileCount: 0,
+      children: [],
+    };
+    const dirs = new Map<string, FileTreeNode>([["", root]]);
+
+    const ensureDir = (dirPath: string): FileTreeNode => {
+      const existing = dirs.get(dirPath);
+      if (existing) return existing;
+
+      const slash = dirPath.lastIndexOf("/");
+      const parent = ensureDir(
+        slash === -1 ? "" : dirPath.slice(0, slash)
+      );
+      const node: FileTreeNode = {
+        name: dirPath.slice(slash + 1),
+        path: dirPath,
+        type: "dir",
+        size: 0,
+        fileCount: 0,
+        children: [],
+      };
+      parent.children!.push(node);
+      dirs.set(dirPath, node);
+      return node;
+    };
+
+    for (const entry of entries) {
+      if (entry.type === "dir") {
+        ensureDir(entry.path);
+        continue;
+      }
+
+      const slash = entry.path.lastIndexOf("/");
+      const parent = ensureDir(
+        slash === -1 ? "" : entry.path.slice(0, slash)
+      );
+      parent.children!.push({
+        name: entry.path.slice(slash + 1),
+        path: entry.path,
+        type: "file",
+        size: entry.size ?? 0,
+        fileCount: 1,
+      });
+    }
+
+    FileTree.aggregate(root);
+    return root;
+  }
+
+  /**
+   * Render the tree as indented lines with directory sizes and file counts.
+   * Subtrees below `MAX_RENDER_DEPTH` (and ignored directories) are collapsed
+   * into a single summary line.
+   */
+  static render(root: FileTreeNode): string[] {
+    const lines: string[] = [];
+    let omitted = 0;
+
+    const visit = (node: FileTreeNode, depth: number) => {
+      for (const child of node.children ?? []) {
+        if (lines.length >= FileTree.MAX_RENDER_LINES) {
+          omitted += child.fileCount;
+          continue;
+        }
+
+        const indent = "  ".repeat(depth);
+        if (child.type === "file") {
+          lines.push(
+            `${indent}file: ${child.name}${
+              child.size ? ` (${FileTree.formatSize(child.size)})` : ""
+            }`
+          );
+          continue;
+        }
+
+        lines.push(
+          `${indent}dir: ${child.name}/ (${child.fileCount} files${
+            child.size ? `, ${FileTree.formatSize(child.size)}` : ""
+          })`
+        );
+        if (
+          depth + 1 < FileTree.MAX_RENDER_DEPTH &&
+          !FileTree.IGNORED_DIRS.has(child.name)
+        ) {
+          visit(child, depth + 1);
+        }
+      }
+    };
+
+    visit(root, 0);
+
+    if (omitted > 0) {
+      lines.push(`... ${omitted} more files not shown`);
+    }
+    return lines;
+  }
+
+  /**
+   * Rank files anywhere in the tree by how much they reveal about the project
+   * and return the best `limit` candidates under `maxSize` bytes.
+   */
+  static rankKeyFiles(
+    entries: TreeEntry[],
+    limit: number,
+    maxSize: number
+  ): TreeEntry[] {
+    return entries
+      .filter(
+        (entry) =>
+          entry.type === "file" &&
+          (entry.size === undefined ||
+            (entry.size > 0 && entry.size < maxSize)) &&
+          !FileTree.EXCLUDED_FILES.test(entry.path) &&
+          !FileTree.isIgnoredPath(entry.path)
+      )
+      .map((entry) => ({
+        entry,
+        score: FileTree.scoreFile(entry.path),
+      }))
+      .filter(({ score }) => score > 0)
+      .sort(
+        (a, b) =>
+          b.score - a.score ||
+          a.entry.path.localeCompare(b.entry.path)
+      )
+      .slice(0, limit)
+      .map(({ entry }) => entry);
+  }
+
+  /**
+   * Heuristic score for a single file path. Higher is more relevant.
+   * - Known key filenames and entrypoints score highest.
+   * - Files under conventional source directories get a boost.
+   * - Tests, fixtures and docs are penalized; deeper files score lower.
+   */
+  private static scoreFile(path: string): number {
+    const segments = path.split("/");
+    const filename = segments[segments.length - 1];
+    const dirs = segments.slice(0, -1);
+    let score = 0;
+
+    if (FileTree.isKeyFile(filename)) score += 10;
+    if (FileTree.ENTRYPOINT_NAMES.test(filename)) score += 6;
+    if (FileTree.SOURCE_EXTENSIONS.test(filename)) score += 3;
+    if (dirs.some((dir) => FileTree.SOURCE_DIRS.has(dir)))
+      score += 3;
+
+    // Manifests of nested packages describe monorepo members.
+    if (
+      dirs.length > 0 &&
+      /^(package\.json|cargo\.toml|go\.mod|pyproject\.toml)$/i.test(
+        filename
+      )
+    ) {
+      score += 4;
+    }
+
+    if (
+      dirs.some((dir) =>
+        FileTree.SECONDARY_DIRS.has(dir.toLowerCase())
+      ) ||
+      /\.(test|spec)\.[a-z]+$/i.test(filename)
+    ) {
+      score -= 8;
+    }
+
+    score -= dirs.length;
+    return score;
+  }
+
+  /** Recursively sum sizes/counts and sort directories before files. */
+  private static aggregate(node: FileTreeNode): void {
+    if (!node.children) return;
+
+    node.size = 0;
+    node.fileCount = 0;
+    for (const child of node.children) {
+      FileTree.aggregate(child);
+      node.size += child.size;
+      node.fileCount += child.fileCount;
+    }
+
+    node.children.sort((a, b) => {
+      if (a.type !== b.type) return a.type === "dir" ? -1 : 1;
+      return a.name.localeCompare(b.name);
+    });
+  }
+
+  /** Human-readable size (bytes, KB, MB). */
+  private static formatSize(bytes: number): string {
+    if (bytes < 1024) return `${bytes}B`;
+    if (bytes < 1024 * 1024)
+      return `${(bytes / 1024).toFixed(1)}KB`;
+    return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+  }
+}
@@ -5,36 +5,110 @@
  * Handles authentication, metadata retrieval, README/config file parsing, and key file analysis.
  *
  * @remarks
- * - Uses `@octokit/rest` to interact with the GitHub API.
+ * - Uses `@octokit/rest` through `GitHubClient`, which retries transient failures,
+ *   tracks the rate-limit quota and throws typed errors (not found, forbidden,
+ *   rate limited, network).
  * - Authenticates requests via a Personal Access Token (PAT) from `process.env.GITHUB_TOKEN`.
- * - Supports fetching repository metadata, topics, README content, package/config files,
- *   and identifying key project files.
- * - Includes error handling for 404 (not found) and 403 (forbidden / rate-limited) responses.
- * - Limits size of fetched content to prevent excessive API usage and memory consumption.
+ * - Supports fetching repository metadata, topics, README content, package manifests
+ *   (every ecosystem present, see `Manifests`), and identifying key project files.
+ * - Reads the full file listing in one call via the recursive Git Trees API and ranks
+ *   key files from anywhere in the tree (see `FileTree`). The README is picked from
+ *   that listing instead of probing filename variants.
+ * - Issues independent requests in parallel through a per-analysis `FetchScheduler`
+ *   (bounded concurrency) and reports its timings and the remaining quota as
+ *   `timings`; each file is read at most once per analysis.
+ * - Detects tests, CI workflows, linters and type checking (`Quality`) as `quality`.
+ * - Finishes with the code-intelligence stage (`CodeInsights`): exports, import graph
+ *   and hub modules of the TypeScript/JavaScript sources, as `architecture`.
+ * - Fetches the project's history (first commit, commit activity, contributors,
+ *   releases/tags, merged PRs) as `history`; each part is best-effort.
+ * - Implements `RepoSourceProvider`; other hosts live in `./providers`.
+ * - Accepts an injectable token/`fetch` so it can run against recorded fixtures.
+ * - Missing files read as `null`; other read failures are logged, and an exhausted
+ *   quota aborts the analysis with the reset time.
+ * - Limits size of fetched content to prevent excessive API usage and memory consumption;
+ *   fitting it into the prompt is left to `ContextPacker`.
  */
 
-import { Octokit } from "@octokit/rest";
+import type { Octokit } from "@octokit/rest";
+import {
+  CodeInsights,
+  type ArchitectureSummary,
+} from "./codeInsights";
+import { Manifests, type Manifest } from "./manifests";
+import { History, type ProjectHistory } from "./history";
+import { Quality, type QualityReport } from "./quality";
+import { FetchScheduler } from "./fetchScheduler";
+import {
+  FileTree,
+  type FileTreeNode,
+  type TreeEntry,
+} from "./fileTree";
+import type {
+  AnalyzeOptions,
+  ParsedRepoUrl,
+  ProviderOptions,
+  RepoSourceProvider,
+} from "./providers/types";
+import {
+  mergeTargets,
+  resolveRevision,
+  scopeEntries,
+  joinSubpath,
+  targetFromSegments,
+  type RepoTarget,
+  type ResolvedRevision,
+} from "./providers/revision";
+import { rememberAnalysis } from "./cache";
+import {
+  GitHubApiError,
+  GitHubClient,
+  GitHubNotFoundError,
+} from "./githubClient";
+import type { CacheStatus, FetchTimings } from "@/app/page";
 
-// Initialize Octokit client with authentication from environment variable.
+// Default client with authentication from environment variable.
 // If `GITHUB_TOKEN` is not set, requests will be unauthenticated with stricter rate limits.
-const octokit = new Octokit({
-  auth: process.env.GITHUB_TOKEN,
-});
+const defaultClient = new GitHubClient(process.env.GITHUB_TOKEN);
+
+/** One analysis's repository, commit and request scheduler. */
+interface FetchContext {
+  owner: string;
+  repo: string;
+  revision: ResolvedRevision;
+  scheduler: FetchScheduler;
+}
 
 // Structured result of repository analysis
 export interface RepoAnalysis {
   name: string;
+  /** Ref, commit and subdirectory analyzed (hosted providers only). */
+  revision?: ResolvedRevision;
   description: string;
   language: string;
   topics: string[];
   readme: string;
-  packageJson?: any;
+  /** Every package manifest found (root first), parsed into one model. */
+  manifests: Manifest[];
+  /** Rendered, depth-limited tree lines with directory sizes and file counts. */
   fileStructure: string[];
+  /** Full hierarchical tree of the repository. */
+  fileTree: FileTreeNode;
   keyFiles: Array<{
     path: string;
     content: string;
     type: string;
   }>;
+  /** Test frameworks and counts, CI workflows, linters and type checking. */
+  quality: QualityReport;
+  /** Exports, import graph and hub modules; absent without TypeScript/JavaScript sources. */
+  architecture?: ArchitectureSummary;
+  /** Commits, contributors, releases and merged PRs; GitHub only, absent if none could be fetched. */
+  history?: ProjectHistory;
+  /** Set by the response cache for hosted repositories: whether this was reused, and when it was computed. */
+  cache?: { status: CacheStatus; analyzedAt: string };
+  /** How the GitHub requests of this analysis were spent (GitHub only). */
+  timings?: FetchTimings;
   stats: {
     stars: number;
     forks: number;
@@ -42,9 +116,30 @@ export interface RepoAnalysis {
   };
 }
 
-export class GitHubAnalyzer {
+export class GitHubAnalyzer implements RepoSourceProvider {
+  readonly id = "github";
+  readonly label = "GitHub";
+
+  private readonly client: GitHubClient;
+  private readonly octokit: Octokit;
+
+  /**
+   * @param options - Optional token and `fetch` override; without them the shared,
+   *   environment-configured client is used.
+   */
+  constructor(options: ProviderOptions = {}) {
+    this.client =
+      options.token || options.fetch
+        ? new GitHubClient(
+            options.token ?? process.env.GITHUB_TOKEN,
+            options.fetch
+          )
+        : defaultClient;
+    this.octokit = this.client.octokit;
+  }
+
   // Common README filename variants to search for
-  private static readonly README_FILES = [
+  static readonly README_FILES = [
     "README.md",
     "readme.md",
     "README.rst",
@@ -52,30 +147,19 @@ export class GitHubAnalyzer {
     "README",
   ];
 
-  // Common configuration/manifest files to search for
-  private static readonly CONFIG_FILES = [
-    "package.json",
-    "pyproject.toml",
-    "Cargo.toml",
-    "go.mod",
-    "pom.xml",
-  ];
-
-  // Limits to prevent excessive data retrieval
-  private static readonly MAX_FILE_SIZE = 50000;
-  private static readonly MAX_CONTENT_SIZE = 3000;
-  private static readonly MAX_README_SIZE = 5000;
+  // Limits to prevent excessive data retrieval (shared with LocalRepoAnalyzer).
+  // How much of it reaches the prompt is decided by `ContextPacker`.
+  static readonly MAX_FILE_SIZE = 50000;
+  static readonly MAX_KEY_FILES = 12;
 
   /**
-   * Parse a GitHub repository URL into its owner and repo name.
-   * Supports optional `.git` suffix and trailing path segments.
+   * Parse a GitHub repository URL into its owner, repo name and optional target.
+   * Supports optional `.git` suffix, and `/tree/<ref>/<path>` or
+   * `/blob/<ref>/<file>` segments for a specific ref and subdirectory.
    */
-  static parseRepoUrl(repoUrl: string): {
-    owner: string;
-    repo: string;
-  } {
+  static parseRepoUrl(repoUrl: string): ParsedRepoUrl {
     const githubUrlRegex =
-      /github\.com\/([^\/]+)\/([^\/]+)(?:\.git)?(?:\/.*)?$/;
+      /github\.com\/([^\/]+)\/([^\/?#]+?)(?:\.git)?(?:\/(?:(tree|blob)\/([^?#]+?)|[^?#]*?))?\/?(?:[?#].*)?$/;
     const match = repoUrl.match(githubUrlRegex);
 
     if (!match) {
@@ -84,25 +168,34 @@ export class GitHubAnalyzer {
       );
     }
 
-    const [, owner, repo] = match;
-    return { owner, repo: repo.replace(/\.git$/, "") };
+    const [, owner, repo, kind, refPath] = match;
+    return {
+      owner,
+      repo,
+      target: refPath
+        ? targetFromSegments(
+            refPath.split("/").filter(Boolean),
+            kind === "blob"
+          )
+        : {},
+    };
+  }
+
+  /** True for github.com URLs. */
+  matches(url: URL): boolean {
+    return url.host === "github.com" || url.host === "www.github.com";
+  }
+
+  /** Instance form of {@link GitHubAnalyzer.parseRepoUrl} for the provider contract. */
+  parseRepoUrl(repoUrl: string): ParsedRepoUrl {
+    return GitHubAnalyzer.parseRepoUrl(repoUrl);
   }
 
   /**
    * Determine if a filename matches common "key" file patterns.
    */
   static isKeyFile(filename: string): boolean {
-    const keyPatterns = [
-      /^(index|main|app|server)\.(js|ts|jsx|tsx|py|go|rs|java)$/i,
-      /\.(config|conf)\.(js|ts|json|yaml|yml|toml)$/i,
-      /^(dockerfile|makefile|rakefile)$/i,
-      /^(changelog|contributing|license|authors|contributors)\.(md|txt|rst)$/i,
-      /^(package\.json|requirements\.txt|go\.mod|cargo\.toml|gemfile|composer\.json)$/i,
-    ];
-
-    return keyPatterns.some((pattern) =>
-      pattern.test(filename)
-    );
+    return FileTree.isKeyFile(filename);
   }
 
   /**
@@ -126,47 +219,66 @@ export class GitHubAnalyzer {
   /**
    * Orchestrate full repository analysis:
    * - Fetch metadata
-   * - Fetch README
-   * - Fetch configuration file(s)
-   * - Analyze file structure & collect key files
+   * - Resolve the requested ref to a commit SHA
+   * - Fetch the recursive tree, and in parallel the project history (`History`)
+   * - From the tree, in parallel: README, key files, every package manifest
+   *   (`Manifests`) and then tests/CI/linters (`Quality`), and exports and the
+   *   import graph (`CodeInsights`)
+   *
+   * Every read is pinned to the resolved commit and scoped to the subpath, and
+   * goes through one `FetchScheduler`. The result is cached per commit;
+   * `options.refresh` re-analyzes regardless.
    */
   async analyzeRepository(
-    repoUrl: string
+    repoUrl: string,
+    target?: RepoTarget,
+    options?: AnalyzeOptions
   ): Promise<RepoAnalysis> {
-    const { owner, repo } =
-      GitHubAnalyzer.parseRepoUrl(repoUrl);
+    const parsed = GitHubAnalyzer.parseRepoUrl(repoUrl);
+    const { owner, repo } = parsed;
+    const scheduler = new FetchScheduler();
 
     try {
-      const repoData = await this.fetchRepositoryData(
-        owner,
-        repo
+      const repoData = await scheduler.stage("metadata", () =>
+        this.fetchRepositoryData(owner, repo, scheduler)
       );
-      const readme = await this.fetchReadme(owner, repo);
-      const packageJson = await this.fetchConfigFile(
-        owner,
-        repo
+      const revision = await scheduler.stage("revision", () =>
+        resolveRevision(
+          mergeTargets(parsed.target, target),
+          repoData.default_branch,
+          (ref) => this.resolveCommit(owner, repo, ref, scheduler)
+        )
+      );
+      return await rememberAnalysis(
+        { provider: this.id, owner, repo, revision },
+        options,
+        async () => {
+          const ctx: FetchContext = { owner, repo, revision, scheduler };
+          const [files, history] = await Promise.all([
+            this.analyzeFiles(ctx),
+            scheduler.stage("history", () => this.fetchHistory(ctx)),
+          ]);
+
+          return {
+            name: repoData.name,
+            revision,
+            description: repoData.description || "",
+            language: repoData.language || "Unknown",
+            topics: repoData.topics || [],
+            ...files,
+            history,
+            stats: {
+              stars: repoData.stargazers_count,
+              forks: repoData.forks_count,
+              size: repoData.size,
+            },
+            timings: {
+              ...scheduler.timings(),
+              rateLimit: this.client.rateLimit(),
+            },
+          };
+        }
       );
-      const { fileStructure, keyFiles } =
-        await this.analyzeFileStructure(owner, repo);
-
-      return {
-        name: repoData.name,
-        description: repoData.description || "",
-        language: repoData.language || "Unknown",
-        topics: repoData.topics || [],
-        readme: readme.slice(
-          0,
-          GitHubAnalyzer.MAX_README_SIZE
-        ),
-        packageJson,
-        fileStructure,
-        keyFiles,
-        stats: {
-          stars: repoData.stargazers_count,
-          forks: repoData.forks_count,
-          size: repoData.size,
-        },
-      };
     } catch (error) {
       console.error("Error analyzing repository:", error);
       throw error instanceof Error
@@ -177,170 +289,401 @@ export class GitHubAnalyzer {
 
   /**
    * Fetch repository metadata (name, description, language, topics, stats).
-   * Throws descriptive errors for common HTTP error codes.
+   * @throws {GitHubNotFoundError} If the repository does not exist or is invisible.
+   * @throws {GitHubApiError} For other failures (forbidden, rate limited, network).
    */
   private async fetchRepositoryData(
     owner: string,
-    repo: string
+    repo: string,
+    scheduler: FetchScheduler
   ) {
-    const { data } = await octokit.repos
-      .get({ owner, repo })
+    const { data } = await scheduler
+      .run(() => this.octokit.repos.get({ owner, repo }))
       .catch((error) => {
-        if (error.status === 404) {
-          throw new Error(
-            "Repository not found. Please check that the repository exists and is public."
-          );
-        }
-        if (error.status === 403) {
-          throw new Error(
-            "Access forbidden. The repository may be private or you may have hit rate limits."
+        if (error instanceof GitHubNotFoundError) {
+          // GitHub answers 404 rather than 403 for private repositories.
+          throw new GitHubNotFoundError(
+            "Repository not found. Please check the URL; private repositories are visible only after signing in with a GitHub account that can access them."
           );
         }
-        throw new Error(
-          `Failed to access repository: ${error.message}`
+        if (error instanceof GitHubApiError) throw error;
+        throw new GitHubApiError(
+          `Failed to access repository: ${error.message}`,
+          error.status
         );
       });
     return data;
   }
 
   /**
-   * Attempt to retrieve README content from common filename variants.
-   * Returns an empty string if no README is found.
+   * Resolve a branch, tag or SHA to a commit SHA.
+   * Returns `null` if GitHub does not recognize the ref.
    */
-  private async fetchReadme(
+  private async resolveCommit(
     owner: string,
-    repo: string
-  ): Promise<string> {
-    for (const readmeFile of GitHubAnalyzer.README_FILES) {
-      try {
-        const { data } = await octokit.repos.getContent({
-          owner,
-          repo,
-          path: readmeFile,
-        });
-        if ("content" in data) {
-          return Buffer.from(
-            data.content,
-            "base64"
-          ).toString("utf-8");
-        }
-      } catch {
-        continue;
-      }
+    repo: string,
+    ref: string,
+    scheduler: FetchScheduler
+  ): Promise<string | null> {
+    try {
+      const { data } = await scheduler.run(() =>
+        this.octokit.repos.getCommit({ owner, repo, ref })
+      );
+      return data.sha;
+    } catch (error) {
+      if (error instanceof GitHubNotFoundError) return null;
+      if ((error as { status?: number }).status === 422) return null;
+      throw error;
     }
-    return "";
   }
 
   /**
-   * Attempt to retrieve a primary configuration/manifest file.
-   * Returns parsed JSON for package.json, otherwise raw content with type metadata.
+   * Retrieve the full recursive tree at the resolved commit and scope it to the
+   * subpath, then read everything that depends on it in parallel. Files read by
+   * several stages (e.g. `package.json`) are fetched once.
    */
-  private async fetchConfigFile(
-    owner: string,
-    repo: string
-  ) {
-    for (const configFile of GitHubAnalyzer.CONFIG_FILES) {
-      try {
-        const { data } = await octokit.repos.getContent({
-          owner,
-          repo,
-          path: configFile,
-        });
-        if ("content" in data) {
-          const content = Buffer.from(
-            data.content,
-            "base64"
-          ).toString("utf-8");
-          return configFile === "package.json"
-            ? JSON.parse(content)
-            : { type: configFile, content };
-        }
-      } catch {
-        continue;
+  private async analyzeFiles(ctx: FetchContext) {
+    const { scheduler } = ctx;
+    const entries = await scheduler.stage("tree", () => this.fetchTree(ctx));
+    const fileTree = FileTree.build(entries);
+    const fileStructure = FileTree.render(fileTree);
+
+    const reads = new Map<string, Promise<string | null>>();
+    const read = (filePath: string) => {
+      if (!reads.has(filePath)) {
+        reads.set(filePath, this.readFile(ctx, filePath));
       }
-    }
-    return null;
+      return reads.get(filePath)!;
+    };
+
+    const [readme, keyFiles, [manifests, quality], architecture] =
+      await Promise.all([
+        scheduler.stage("readme", () => {
+          const readmeFile = GitHubAnalyzer.findReadme(entries);
+          return readmeFile ? read(readmeFile) : Promise.resolve(null);
+        }),
+        scheduler.stage("key files", () =>
+          this.fetchKeyFiles(entries, read)
+        ),
+        scheduler.stage("manifests and quality", async () => {
+          const manifests = await Manifests.collect(entries, read);
+          return [
+            manifests,
+            await Quality.analyze(entries, manifests, read),
+          ] as const;
+        }),
+        scheduler.stage("architecture", () =>
+          CodeInsights.analyze(entries, read)
+        ),
+      ]);
+
+    return {
+      readme: (readme ?? "").slice(0, GitHubAnalyzer.MAX_FILE_SIZE),
+      manifests,
+      fileStructure,
+      fileTree,
+      keyFiles,
+      quality,
+      architecture,
+    };
   }
 
   /**
-   * Retrieve repository root contents, list file structure, and fetch key files.
-   * Limits the number of items analyzed to prevent excessive API usage.
+   * The README at the top of the (scoped) listing: the first of README_FILES
+   * present, else any `README.*` regardless of case. `null` if there is none.
    */
-  private async analyzeFileStructure(
-    owner: string,
-    repo: string
-  ) {
-    const { data: contents } =
-      await octokit.repos.getContent({
+  static findReadme(entries: TreeEntry[]): string | null {
+    const topLevel = entries
+      .filter((entry) => entry.type === "file" && !entry.path.includes("/"))
+      .map((entry) => entry.path);
+    return (
+      GitHubAnalyzer.README_FILES.find((name) => topLevel.includes(name)) ??
+      topLevel.find((name) => /^readme(\.[a-z]+)?$/i.test(name)) ??
+      null
+    );
+  }
+
+  /** Recursive listing at the resolved commit, scoped to the subpath. */
+  private async fetchTree(ctx: FetchContext): Promise<TreeEntry[]> {
+    const { owner, repo, revision, scheduler } = ctx;
+    const { data } = await scheduler.run(() =>
+      this.octokit.git.getTree({
         owner,
         repo,
-        path: "",
-      });
-
-    const fileStructure: string[] = [];
-    const keyFiles: Array<{
-      path: string;
-      content: string;
-      type: string;
-    }> = [];
-
-    if (!Array.isArray(contents))
-      return { fileStructure, keyFiles };
-
-    // Sort directories before files, alphabetically, and limit to 30 entries
-    const sortedContents = contents
-      .sort((a, b) => {
-        if (a.type !== b.type)
-          return a.type === "dir" ? -1 : 1;
-        return a.name.localeCompare(b.name);
+        tree_sha: revision.commitSha,
+        recursive: "true",
       })
-      .slice(0, 30);
+    );
 
-    for (const item of sortedContents) {
-      fileStructure.push(
-        `${item.type}: ${item.name}${
-          item.type === "dir" ? "/" : ""
-        }`
+    if (data.truncated) {
+      console.warn(
+        `Tree for ${owner}/${repo} was truncated by GitHub; analysis is partial.`
       );
+    }
 
-      // Only retrieve small-enough key files
-      if (
-        item.type === "file" &&
-        GitHubAnalyzer.isKeyFile(item.name) &&
-        item.size &&
-        item.size < GitHubAnalyzer.MAX_FILE_SIZE &&
-        item.size > 0
-      ) {
-        try {
-          const { data: fileData } =
-            await octokit.repos.getContent({
-              owner,
-              repo,
-              path: item.name,
-            });
-          if ("content" in fileData) {
-            const content = Buffer.from(
-              fileData.content,
-              "base64"
-            ).toString("utf-8");
-            keyFiles.push({
-              path: item.name,
-              content: content.slice(
-                0,
-                GitHubAnalyzer.MAX_CONTENT_SIZE
-              ),
-              type: GitHubAnalyzer.getFileType(item.name),
-            });
-          }
-        } catch (error) {
-          console.warn(
-            `Failed to retrieve ${item.name}:`,
-            error
-          );
-        }
-      }
+    return scopeEntries(
+      data.tree
+        .filter(
+          (item) =>
+            item.path &&
+            (item.type === "blob" || item.type === "tree")
+        )
+        .map((item) => ({
+          path: item.path!,
+          type: item.type === "tree" ? "dir" : "file",
+          size: item.size ?? 0,
+        })),
+      revision.subpath
+    );
+  }
+
+  /** Fetch the highest-ranked key files in parallel, keeping their rank order. */
+  private async fetchKeyFiles(
+    entries: TreeEntry[],
+    read: (filePath: string) => Promise<string | null>
+  ): Promise<RepoAnalysis["keyFiles"]> {
+    const candidates = FileTree.rankKeyFiles(
+      entries,
+      GitHubAnalyzer.MAX_KEY_FILES,
+      GitHubAnalyzer.MAX_FILE_SIZE
+    );
+    const contents = await Promise.all(
+      candidates.map((item) => read(item.path))
+    );
+
+    return candidates.flatMap((item, index) => {
+      const content = contents[index];
+      return content === null
+        ? []
+        : [
+            {
+              path: item.path,
+              content: content.slice(0, GitHubAnalyzer.MAX_FILE_SIZE),
+              type: GitHubAnalyzer.getFileType(item.path),
+            },
+          ];
+    });
+  }
+
+  /**
+   * Fetch the project history. Each part is requested independently; one that
+   * fails (or whose statistics GitHub is still computing) is left empty.
+   * Returns `undefined` if nothing could be fetched.
+   */
+  private async fetchHistory(
+    ctx: FetchContext
+  ): Promise<ProjectHistory | undefined> {
+    const { owner, repo, scheduler } = ctx;
+    const optional = <T>(part: string, request: Promise<T>, fallback: T) =>
+      request.catch((error) => {
+        console.warn(`Failed to fetch ${part}:`, error);
+        return fallback;
+      });
+
+    const [origin, activity, contributors, releases, mergedPullRequests] =
+      await Promise.all([
+        optional(
+          "first commit",
+          this.fetchFirstCommit(ctx),
+          {}
+        ),
+        optional(
+          "commit activity",
+          scheduler
+            .run(() =>
+              this.octokit.repos.getCommitActivityStats({ owner, repo })
+            )
+            // 202 (statistics still being computed) comes back without an array.
+            .then(({ data }) =>
+              Array.isArray(data) ? History.monthlyActivity(data) : []
+            ),
+          []
+        ),
+        optional(
+          "contributors",
+          scheduler
+            .run(() =>
+              this.octokit.repos.listContributors({
+                owner,
+                repo,
+                per_page: History.MAX_CONTRIBUTORS + 5,
+              })
+            )
+            .then(({ data }) =>
+              (data ?? [])
+                .filter(
+                  (contributor) =>
+                    contributor.login &&
+                    contributor.type !== "Bot" &&
+                    !contributor.login.endsWith("[bot]")
+                )
+                .slice(0, History.MAX_CONTRIBUTORS)
+                .map((contributor) => ({
+                  login: contributor.login!,
+                  commits: contributor.contributions,
+                }))
+            ),
+          []
+        ),
+        optional("releases", this.fetchReleases(ctx), []),
+        optional(
+          "merged pull requests",
+          scheduler
+            .run(() =>
+              this.octokit.pulls.list({
+                owner,
+                repo,
+                state: "closed",
+                sort: "updated",
+                direction: "desc",
+                per_page: 50,
+              })
+            )
+            .then(({ data }) =>
+              data
+                .filter((pull) => pull.merged_at)
+                .sort((a, b) => b.merged_at!.localeCompare(a.merged_at!))
+                .slice(0, History.MAX_PULL_REQUESTS)
+                .map((pull) => ({
+                  number: pull.number,
+                  title: pull.title,
+                  mergedAt: pull.merged_at!,
+                  author: pull.user?.login,
+                }))
+            ),
+          []
+        ),
+      ]);
+
+    const history: ProjectHistory = {
+      ...origin,
+      activity,
+      contributors,
+      releases,
+      mergedPullRequests,
+    };
+    return History.isEmpty(history) ? undefined : history;
+  }
+
+  /**
+   * Date of the first commit and the number of commits reachable from the
+   * analyzed one, from the last page of a one-commit-per-page listing.
+   */
+  private async fetchFirstCommit(
+    ctx: FetchContext
+  ): Promise<Pick<ProjectHistory, "firstCommitAt" | "totalCommits">> {
+    const { owner, repo, revision, scheduler } = ctx;
+    const params = {
+      owner,
+      repo,
+      sha: revision.commitSha,
+      path: revision.subpath || undefined,
+      per_page: 1,
+    };
+    const { data, headers } = await scheduler.run(() =>
+      this.octokit.repos.listCommits(params)
+    );
+    const last = headers.link?.match(/<([^>]+)>;\s*rel="last"/)?.[1];
+    const pages = last ? Number(new URL(last).searchParams.get("page")) : 1;
+    const oldest = last
+      ? (
+          await scheduler.run(() =>
+            this.octokit.repos.listCommits({ ...params, page: pages })
+          )
+        ).data
+      : data;
+    const commit = oldest[oldest.length - 1]?.commit;
+
+    return {
+      firstCommitAt: commit?.committer?.date ?? commit?.author?.date,
+      totalCommits: data.length === 0 ? 0 : pages,
+    };
+  }
+
+  /**
+   * Published releases, newest first. Projects without releases fall back to their
+   * tags, dated by the tagged commit for the newest few.
+   */
+  private async fetchReleases(
+    ctx: FetchContext
+  ): Promise<ProjectHistory["releases"]> {
+    const { owner, repo, scheduler } = ctx;
+    const { data: releases } = await scheduler.run(() =>
+      this.octokit.repos.listReleases({
+        owner,
+        repo,
+        per_page: History.MAX_RELEASES,
+      })
+    );
+    const published = releases.filter((release) => !release.draft);
+    if (published.length > 0) {
+      return published.map((release) => ({
+        tag: release.tag_name,
+        name:
+          release.name && release.name !== release.tag_name
+            ? release.name
+            : undefined,
+        date: release.published_at ?? release.created_at,
+        prerelease: release.prerelease,
+      }));
     }
 
-    return { fileStructure, keyFiles };
+    const { data: tags } = await scheduler.run(() =>
+      this.octokit.repos.listTags({
+        owner,
+        repo,
+        per_page: History.MAX_RELEASES,
+      })
+    );
+    return Promise.all(
+      tags.map(async (tag, index) => ({
+        tag: tag.name,
+        date:
+          index < History.MAX_DATED_TAGS
+            ? await scheduler
+                .run(() =>
+                  this.octokit.git.getCommit({
+                    owner,
+                    repo,
+                    commit_sha: tag.commit.sha,
+                  })
+                )
+                .then(({ data }) => data.committer.date)
+                .catch(() => undefined)
+            : undefined,
+      }))
+    );
+  }
+
+  /**
+   * Read one file at the resolved commit as UTF-8.
+   * Returns `null` if it is missing, not a file, or unreadable (logged).
+   * @throws {GitHubApiError} When GitHub refuses or fails the read (rate limited,
+   *   forbidden, unreachable); the analysis stops instead of being cached
+   *   without the file.
+   */
+  private async readFile(
+    ctx: FetchContext,
+    filePath: string
+  ): Promise<string | null> {
+    const { owner, repo, revision, scheduler } = ctx;
+    try {
+      const { data } = await scheduler.run(() =>
+        this.octokit.repos.getContent({
+          owner,
+          repo,
+          path: joinSubpath(revision.subpath, filePath),
+          ref: revision.commitSha,
+        })
+      );
+      return "content" in data
+        ? Buffer.from(data.content, "base64").toString("utf-8")
+        : null;
+    } catch (error) {
+      if (error instanceof GitHubNotFoundError) return null;
+      if (error instanceof GitHubApiError) throw error;
+      console.warn(`Failed to retrieve ${filePath}:`, error);
+      return null;
+    }
   }
 }
@@ -0,0 +1,130 @@
+/**
+ * @file githubAuth.ts
+ * @description
+ * GitHub sign-in (OAuth web flow) and the signed-in user's repositories.
+ *
+ * @remarks
+ * - Works with an OAuth App (`repo` scope, so private repositories are readable) or
+ *   a GitHub App, whose user tokens are limited to the repositories it is installed
+ *   on and expire after a few hours.
+ * - The redirect URI is `<origin>/api/auth/github/callback`; register it as the
+ *   app's callback URL.
+ * - Uses `GitHubClient`, so listing repositories gets the same retries and typed
+ *   errors as analysis.
+ */
+
+import { GitHubClient } from "./githubClient";
+import { Session, type SessionData } from "./session";
+
+/** A repository the signed-in user can pick in `RepoInput`. */
+export interface AccessibleRepository {
+  fullName: string;
+  url: string;
+  private: boolean;
+  description?: string;
+  defaultBranch: string;
+  pushedAt?: string;
+}
+
+export class GitHubAuth {
+  static readonly AUTHORIZE_URL = "https://github.com/login/oauth/authorize";
+  static readonly TOKEN_URL = "https://github.com/login/oauth/access_token";
+  /** Read access to private repositories and the user's profile (OAuth Apps). */
+  static readonly SCOPES = "repo read:user";
+  static readonly MAX_REPOSITORIES = 200;
+
+  /** Where GitHub sends the user back after authorizing. */
+  static redirectUri(origin: string): string {
+    return `${origin}/api/auth/github/callback`;
+  }
+
+  /** The GitHub page asking the user to authorize the app. */
+  static authorizeUrl(state: string, origin: string): string {
+    const params = new URLSearchParams({
+      client_id: process.env.GITHUB_CLIENT_ID ?? "",
+      redirect_uri: this.redirectUri(origin),
+      scope: this.SCOPES,
+      state,
+      allow_signup: "false",
+    });
+    return `${this.AUTHORIZE_URL}?${params}`;
+  }
+
+  /**
+   * Exchange the callback `code` for a user token and build the session.
+   * @throws {Error} If GitHub rejects the code or the token cannot read the user.
+   */
+  static async signIn(code: string, origin: string): Promise<SessionData> {
+    const response = await fetch(this.TOKEN_URL, {
+      method: "POST",
+      headers: {
+        Accept: "application/json",
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify({
+        client_id: process.env.GITHUB_CLIENT_ID,
+        client_secret: process.env.GITHUB_CLIENT_SECRET,
+        code,
+        redirect_uri: this.redirectUri(origin),
+      }),
+    });
+    const grant = (await response.json().catch(() => ({}))) as {
+      access_token?: string;
+      expires_in?: number;
+      error_description?: string;
+    };
+    if (!response.ok || !grant.access_token) {
+      throw new Error(
+        `GitHub sign-in failed: ${
+          grant.error_description ?? `HTTP ${response.status}`
+        }`
+      );
+    }
+
+    const { data: user } = await new GitHubClient(
+      grant.access_token
+    ).octokit.users.getAuthenticated();
+    const maxAgeMs = Session.MAX_AGE_SECONDS * 1000;
+
+    return {
+      github: {
+        token: grant.access_token,
+        id: user.id,
+        login: user.login,
+        name: user.name ?? undefined,
+        avatarUrl: user.avatar_url,
+      },
+      expiresAt:
+        Date.now() +
+        Math.min(maxAgeMs, (grant.expires_in ?? Infinity) * 1000),
+    };
+  }
+
+  /** Repositories the token can read, most recently pushed first. */
+  static async listRepositories(
+    token: string
+  ): Promise<AccessibleRepository[]> {
+    const { octokit } = new GitHubClient(token);
+    let fetched = 0;
+    const repositories = await octokit.paginate(
+      octokit.repos.listForAuthenticatedUser,
+      { sort: "pushed", per_page: 100 },
+      (response, done) => {
+        fetched += response.data.length;
+        if (fetched >= this.MAX_REPOSITORIES) done();
+        return response.data;
+      }
+    );
+
+    return repositories
+      .slice(0, this.MAX_REPOSITORIES)
+      .map((repo) => ({
+        fullName: repo.full_name,
+        url: repo.html_url,
+        private: repo.private,
+        description: repo.description ?? undefined,
+        defaultBranch: repo.default_branch,
+        pushedAt: repo.pushed_at ?? undefined,
+      }));
+  }
+}
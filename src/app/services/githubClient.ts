@@ -0,0 +1,299 @@
+/**
+ * @file githubClient.ts
+ * @description
+ * Octokit client used by `GitHubAnalyzer`: retries transient failures, tracks the
+ * REST quota from the `x-ratelimit-*` headers, and turns failures into typed
+ * errors the routes can map to HTTP statuses.
+ *
+ * @remarks
+ * - 5xx responses and network failures are retried with exponential backoff and
+ *   jitter; secondary rate limits wait for `retry-after` (or back off). Waits longer
+ *   than MAX_WAIT_MS fail instead of stalling the request.
+ * - A secondary rate limit pauses every request of this client, since the limit
+ *   applies to the whole token.
+ * - Once the core quota is exhausted, requests fail fast with
+ *   {@link GitHubRateLimitError} until the reset time instead of spending calls.
+ * - GET requests are revalidated with ETags (see `cache/conditionalRequests`).
+ */
+
+import { Octokit } from "@octokit/rest";
+import type { RateLimitInfo } from "@/app/page";
+import { conditionalFetch } from "./cache/conditionalRequests";
+
+/** Failure talking to GitHub; `status` is GitHub's HTTP status, if any. */
+export class GitHubApiError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "GitHubApiError";
+  }
+}
+
+/** The repository, ref or file does not exist (or is invisible to the token). */
+export class GitHubNotFoundError extends GitHubApiError {
+  constructor(message = "Not found on GitHub.") {
+    super(message, 404);
+    this.name = "GitHubNotFoundError";
+  }
+}
+
+/** GitHub refused access: a private repository or an invalid token. */
+export class GitHubForbiddenError extends GitHubApiError {
+  constructor(message: string, status = 403) {
+    super(message, status);
+    this.name = "GitHubForbiddenError";
+  }
+}
+
+/** The token's quota is used up, or a secondary rate limit did not clear. */
+export class GitHubRateLimitError extends GitHubApiError {
+  constructor(
+    message: string,
+    /** When requests may be made again. */
+    readonly resetAt: Date,
+    readonly rateLimit?: RateLimitInfo,
+    status = 403
+  ) {
+    super(message, status);
+    this.name = "GitHubRateLimitError";
+  }
+}
+
+/** GitHub could not be reached, or kept failing with 5xx responses. */
+export class GitHubNetworkError extends GitHubApiError {
+  constructor(message: string, status?: number) {
+    super(message, status);
+    this.name = "GitHubNetworkError";
+  }
+}
+
+/**
+ * HTTP status for an API route to answer with: 404 not found, 403 forbidden,
+ * 429 rate limited, 502 for network failures and anything else upstream.
+ */
+export function githubErrorStatus(error: GitHubApiError): number {
+  if (error instanceof GitHubNotFoundError) return 404;
+  if (error instanceof GitHubForbiddenError) return 403;
+  if (error instanceof GitHubRateLimitError) return 429;
+  return 502;
+}
+
+/** Octokit's error shape, as far as this module reads it. */
+interface OctokitFailure {
+  status?: number;
+  message?: string;
+  response?: { headers?: Record<string, string | number | undefined> };
+}
+
+type Headers = Record<string, string | number | undefined>;
+
+export class GitHubClient {
+  static readonly MAX_RETRIES = 3;
+  static readonly BASE_BACKOFF_MS = 500;
+  /** Longer waits fail the request instead of stalling the analysis. */
+  static readonly MAX_WAIT_MS = 60_000;
+
+  readonly octokit: Octokit;
+  private quota?: RateLimitInfo;
+  private pausedUntil = 0;
+
+  constructor(
+    private readonly token: string | undefined,
+    fetchImpl?: typeof fetch
+  ) {
+    this.octokit = new Octokit({
+      auth: token,
+      request: { fetch: conditionalFetch(token, fetchImpl) },
+    });
+    this.octokit.hook.wrap("request", (request, options) =>
+      this.send(async () => request(options))
+    );
+  }
+
+  /** The core quota as of the last response, if any response has been seen. */
+  rateLimit(): RateLimitInfo | undefined {
+    return this.quota && { ...this.quota };
+  }
+
+  /** Parse the `x-ratelimit-*` headers of a response. */
+  static readRateLimit(headers: Headers | undefined): RateLimitInfo | null {
+    const limit = Number(headers?.["x-ratelimit-limit"]);
+    const remaining = Number(headers?.["x-ratelimit-remaining"]);
+    const reset = Number(headers?.["x-ratelimit-reset"]);
+    if (![limit, remaining, reset].every(Number.isFinite)) return null;
+    return {
+      resource: String(headers?.["x-ratelimit-resource"] ?? "core"),
+      limit,
+      remaining,
+      used: Number(headers?.["x-ratelimit-used"]) || limit - remaining,
+      resetAt: new Date(reset * 1000).toISOString(),
+    };
+  }
+
+  /** "in 12 minutes (14:05 UTC)" style description of a reset time. */
+  static describeReset(resetAt: Date): string {
+    const minutes = Math.max(
+      1,
+      Math.ceil((resetAt.getTime() - Date.now()) / 60_000)
+    );
+    const time = resetAt.toISOString().slice(11, 16);
+    return `in ${minutes} minute${minutes === 1 ? "" : "s"} (${time} UTC)`;
+  }
+
+  /** Run one request with retries, quota tracking and typed errors. */
+  private async send<T extends { headers: Headers }>(
+    request: () => Promise<T>
+  ): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+      this.checkQuota();
+      while (this.pausedUntil > Date.now()) {
+        await GitHubClient.sleep(this.pausedUntil - Date.now());
+      }
+
+      try {
+        const response = await request();
+        this.recordQuota(response.headers);
+        return response;
+      } catch (error) {
+        const failure = error as OctokitFailure;
+        this.recordQuota(failure.response?.headers);
+
+        const delay = this.retryDelay(failure, attempt);
+        if (delay === null) throw this.toTypedError(failure);
+        if (
+          attempt >= GitHubClient.MAX_RETRIES ||
+          delay > GitHubClient.MAX_WAIT_MS
+        ) {
+          throw this.toTypedError(failure, new Date(Date.now() + delay));
+        }
+        if (GitHubClient.isRateLimited(failure)) {
+          this.pausedUntil = Math.max(this.pausedUntil, Date.now() + delay);
+        } else {
+          await GitHubClient.sleep(delay);
+        }
+      }
+    }
+  }
+
+  /**
+   * Milliseconds before retrying, or `null` if the failure is not transient:
+   * 5xx and network errors back off exponentially with jitter, secondary rate
+   * limits wait for `retry-after`. An exhausted primary quota is not retried.
+   */
+  private retryDelay(failure: OctokitFailure, attempt: number): number | null {
+    const backoff =
+      GitHubClient.BASE_BACKOFF_MS * 2 ** attempt * (1 + Math.random() / 2);
+
+    if (failure.status === undefined || failure.status >= 500) {
+      return backoff;
+    }
+    if (!GitHubClient.isRateLimited(failure)) return null;
+    if (
+      GitHubClient.readRateLimit(failure.response?.headers)?.remaining === 0
+    ) {
+      return null;
+    }
+
+    const retryAfter = Number(failure.response?.headers?.["retry-after"]);
+    return Number.isFinite(retryAfter) && retryAfter > 0
+      ? retryAfter * 1000
+      : backoff;
+  }
+
+  /** Fail fast while the core quota is known to be exhausted. */
+  private checkQuota(): void {
+    if (!this.quota || this.quota.remaining > 0) return;
+    const resetAt = new Date(this.quota.resetAt);
+    if (resetAt.getTime() <= Date.now()) {
+      this.quota = undefined;
+      return;
+    }
+    throw this.quotaError(resetAt);
+  }
+
+  private recordQuota(headers: Headers | undefined): void {
+    const info = GitHubClient.readRateLimit(headers);
+    if (info && info.resource === "core") this.quota = info;
+  }
+
+  private quotaError(resetAt: Date): GitHubRateLimitError {
+    const limit = this.quota?.limit;
+    return new GitHubRateLimitError(
+      `GitHub API rate limit exceeded${
+        limit ? ` (${limit} requests per hour)` : ""
+      }. The quota resets ${GitHubClient.describeReset(resetAt)}.${
+        this.token ? "" : " Set GITHUB_TOKEN to raise the limit."
+      }`,
+      resetAt,
+      this.rateLimit()
+    );
+  }
+
+  /**
+   * Map an Octokit failure to a typed error. Statuses this module does not
+   * classify (e.g. 409, 422) are returned unchanged for callers to inspect.
+   */
+  private toTypedError(failure: OctokitFailure, retryAt?: Date): unknown {
+    const { status, message } = failure;
+
+    // Octokit reports a failed `fetch` as a 500 without a response.
+    if (status === undefined || !failure.response) {
+      return new GitHubNetworkError(
+        `Could not reach GitHub: ${message ?? "network error"}`
+      );
+    }
+    if (status >= 500) {
+      return new GitHubNetworkError(
+        `GitHub is not responding (HTTP ${status}). Please try again shortly.`,
+        status
+      );
+    }
+    if (GitHubClient.isRateLimited(failure)) {
+      const quota = GitHubClient.readRateLimit(failure.response?.headers);
+      if (quota?.remaining === 0) {
+        return this.quotaError(new Date(quota.resetAt));
+      }
+      const resetAt =
+        retryAt ?? new Date(Date.now() + GitHubClient.MAX_WAIT_MS);
+      return new GitHubRateLimitError(
+        `GitHub's secondary rate limit was hit. Try again ${GitHubClient.describeReset(
+          resetAt
+        )}.`,
+        resetAt,
+        this.rateLimit(),
+        status
+      );
+    }
+    if (status === 404) return new GitHubNotFoundError();
+    if (status === 401) {
+      return new GitHubForbiddenError(
+        "GitHub rejected the access token. Check that it is valid and not expired.",
+        401
+      );
+    }
+    if (status === 403) {
+      return new GitHubForbiddenError(
+        "Access forbidden. The repository may be private or restricted; use a token with access to it."
+      );
+    }
+    return failure;
+  }
+
+  /** 429, or a 403 that GitHub marks as a (primary or secondary) rate limit. */
+  private static isRateLimited(failure: OctokitFailure): boolean {
+    if (failure.status === 429) return true;
+    if (failure.status !== 403) return false;
+    const headers = failure.response?.headers;
+    return (
+      headers?.["retry-after"] !== undefined ||
+      String(headers?.["x-ratelimit-remaining"]) === "0" ||
+      /rate limit/i.test(failure.message ?? "")
+    );
+  }
+
+  private static sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,120 @@
+/**
+ * @file history.ts
+ * @description
+ * The project's history as storytelling input: first commit, commit activity,
+ * top contributors, the release/tag timeline and recently merged pull requests.
+ * Gives the "Journey" part of a talk something concrete to narrate.
+ *
+ * @remarks
+ * - Fetched by `GitHubAnalyzer` (other providers leave `RepoAnalysis.history`
+ *   unset). Every part is best-effort: a failed or still-computing API call leaves
+ *   that part empty instead of failing the analysis.
+ * - Helpers here are pure, so the shaping can be exercised without the network.
+ */
+
+/** Commits in one calendar month ("YYYY-MM"). */
+export interface MonthlyActivity {
+  month: string;
+  commits: number;
+}
+
+export interface Contributor {
+  login: string;
+  commits: number;
+}
+
+/** A published release, or a tag when the project publishes no releases. */
+export interface ReleaseEvent {
+  tag: string;
+  /** Release title, when it differs from the tag. */
+  name?: string;
+  /** ISO 8601 publication (or tagged commit) date, when known. */
+  date?: string;
+  prerelease?: boolean;
+}
+
+export interface MergedPullRequest {
+  number: number;
+  title: string;
+  mergedAt: string;
+  author?: string;
+}
+
+export interface ProjectHistory {
+  /** ISO 8601 date of the first commit reachable from the analyzed one. */
+  firstCommitAt?: string;
+  /** Commits reachable from the analyzed one (scoped to the subpath, if any). */
+  totalCommits?: number;
+  /** Commits per month over the last year, oldest first. */
+  activity: MonthlyActivity[];
+  /** Most active contributors, by commit count. */
+  contributors: Contributor[];
+  /** Newest first. */
+  releases: ReleaseEvent[];
+  /** Most recently merged first. */
+  mergedPullRequests: MergedPullRequest[];
+}
+
+export class History {
+  static readonly MAX_CONTRIBUTORS = 10;
+  static readonly MAX_RELEASES = 15;
+  static readonly MAX_PULL_REQUESTS = 10;
+  /** Tags (when there are no releases) are dated one API call each; only the newest few. */
+  static readonly MAX_DATED_TAGS = 5;
+
+  /**
+   * Sum weekly commit totals (weeks keyed by their start as Unix seconds, as the
+   * GitHub statistics API reports them) into calendar months, oldest first.
+   * Leading months without commits are dropped.
+   */
+  static monthlyActivity(
+    weeks: Array<{ week: number; total: number }>
+  ): MonthlyActivity[] {
+    const months = new Map<string, number>();
+    for (const { week, total } of [...weeks].sort((a, b) => a.week - b.week)) {
+      const month = new Date(week * 1000).toISOString().slice(0, 7);
+      months.set(month, (months.get(month) ?? 0) + total);
+    }
+    const activity = [...months].map(([month, commits]) => ({
+      month,
+      commits,
+    }));
+    const first = activity.findIndex((entry) => entry.commits > 0);
+    return first === -1 ? [] : activity.slice(first);
+  }
+
+  /**
+   * Compare the last three months with the three before them: "rising",
+   * "falling" or "steady" (within 25%). `null` without enough data.
+   */
+  static trend(
+    activity: MonthlyActivity[]
+  ): "rising" | "falling" | "steady" | null {
+    if (activity.length < 6) return null;
+    const sum = (entries: MonthlyActivity[]) =>
+      entries.reduce((total, entry) => total + entry.commits, 0);
+    const recent = sum(activity.slice(-3));
+    const previous = sum(activity.slice(-6, -3));
+    if (recent === 0 && previous === 0) return null;
+    if (recent > previous * 1.25) return "rising";
+    if (recent < previous * 0.75) return "falling";
+    return "steady";
+  }
+
+  /** True when no part of the history could be fetched. */
+  static isEmpty(history: ProjectHistory): boolean {
+    return (
+      !history.firstCommitAt &&
+      history.totalCommits === undefined &&
+      history.activity.length === 0 &&
+      history.contributors.length === 0 &&
+      history.releases.length === 0 &&
+      history.mergedPullRequests.length === 0
+    );
+  }
+
+  /** "YYYY-MM-DD" for an ISO 8601 timestamp. */
+  static day(timestamp: string): string {
+    return timestamp.slice(0, 10);
+  }
+}
@@ -0,0 +1,154 @@
+/**
+ * @file incrementalJson.ts
+ * @description
+ * Incremental parser for a streamed run-of-show JSON document. Fed raw text as it
+ * arrives from the model, it emits top-level `title`/`overview` strings and each
+ * `sections[]` entry as soon as that value is complete.
+ *
+ * @remarks
+ * - Scans characters once, tracking nesting depth and string/escape state, so the
+ *   cost is linear in the total response length.
+ * - Anything before the first `{` (code fences, stray prose) is skipped.
+ * - Only completed values are parsed; the final, validated document still comes
+ *   from parsing the full text at the end of the stream.
+ */
+
+import type { RunOfShow } from "@/app/page";
+
+/** A value that became complete during a call to {@link RunOfShowStreamParser.push}. */
+export type StreamedRunOfShowPart =
+  | { type: "field"; key: "title" | "overview"; value: string }
+  | {
+      type: "section";
+      index: number;
+      section: RunOfShow["sections"][number];
+    };
+
+export class RunOfShowStreamParser {
+  private text = "";
+  private position = 0;
+  private started = false;
+  private depth = 0;
+  private inString = false;
+  private escaped = false;
+  private stringStart = -1;
+  /** At depth 1: true after `:` (a value follows), false after `{` or `,` (a key follows). */
+  private expectValue = false;
+  private currentKey = "";
+  private inSections = false;
+  private sectionStart = -1;
+  private sectionCount = 0;
+
+  /** Append a chunk of model output and return any newly completed parts. */
+  push(chunk: string): StreamedRunOfShowPart[] {
+    this.text += chunk;
+    const parts: StreamedRunOfShowPart[] = [];
+
+    for (; this.position < this.text.length; this.position++) {
+      const char = this.text[this.position];
+
+      if (!this.started) {
+        if (char === "{") {
+          this.started = true;
+          this.depth = 1;
+        }
+        continue;
+      }
+
+      if (this.inString) {
+        if (this.escaped) {
+          this.escaped = false;
+        } else if (char === "\\") {
+          this.escaped = true;
+        } else if (char === '"') {
+          this.inString = false;
+          this.onStringEnd(parts);
+        }
+        continue;
+      }
+
+      switch (char) {
+        case '"':
+          this.inString = true;
+          this.stringStart = this.position;
+          break;
+        case ":":
+          if (this.depth === 1) this.expectValue = true;
+          break;
+        case ",":
+          if (this.depth === 1) this.expectValue = false;
+          break;
+        case "[":
+          if (
+            this.depth === 1 &&
+            this.expectValue &&
+            this.currentKey === "sections"
+          ) {
+            this.inSections = true;
+          }
+          this.depth++;
+          break;
+        case "{":
+          if (this.inSections && this.depth === 2) {
+            this.sectionStart = this.position;
+          }
+          this.depth++;
+          break;
+        case "}":
+          this.depth--;
+          if (
+            this.inSections &&
+            this.depth === 2 &&
+            this.sectionStart !== -1
+          ) {
+            this.emitSection(parts);
+          }
+          break;
+        case "]":
+          this.depth--;
+          if (this.inSections && this.depth === 1) {
+            this.inSections = false;
+          }
+          break;
+      }
+    }
+
+    return parts;
+  }
+
+  /** Classify a just-closed string at depth 1 as a key or a field value. */
+  private onStringEnd(parts: StreamedRunOfShowPart[]) {
+    if (this.depth !== 1) return;
+
+    const raw = this.text.slice(this.stringStart, this.position + 1);
+    let value: string;
+    try {
+      value = JSON.parse(raw);
+    } catch {
+      return;
+    }
+
+    if (!this.expectValue) {
+      this.currentKey = value;
+    } else if (
+      this.currentKey === "title" ||
+      this.currentKey === "overview"
+    ) {
+      parts.push({ type: "field", key: this.currentKey, value });
+    }
+  }
+
+  private emitSection(parts: StreamedRunOfShowPart[]) {
+    const raw = this.text.slice(this.sectionStart, this.position + 1);
+    this.sectionStart = -1;
+    try {
+      parts.push({
+        type: "section",
+        index: this.sectionCount++,
+        section: JSON.parse(raw),
+      });
+    } catch {
+      // Malformed section; the final full-document parse will report it.
+    }
+  }
+}
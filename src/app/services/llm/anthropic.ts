@@ -0,0 +1,70 @@
+/**
+ * @file anthropic.ts
+ * @description
+ * Claude through the Anthropic Messages API.
+ *
+ * @remarks
+ * - Requires `ANTHROPIC_API_KEY`; the key must be injected at deploy time and
+ *   never shipped to the client.
+ * - Offered models come from `ANTHROPIC_MODELS` (comma-separated), defaulting to
+ *   {@link AnthropicProvider.DEFAULT_MODELS}.
+ */
+
+import Anthropic from "@anthropic-ai/sdk";
+import type { ChatMessage, LLMProvider, ModelSettings } from "./types";
+
+export interface AnthropicProviderOptions {
+  apiKey?: string;
+  models?: string[];
+}
+
+export class AnthropicProvider implements LLMProvider {
+  static readonly DEFAULT_MODELS = ["claude-sonnet-4-20250514"];
+
+  readonly id = "anthropic";
+  readonly label = "Anthropic";
+  readonly models: string[];
+  private readonly client: Anthropic;
+
+  constructor(options: AnthropicProviderOptions = {}) {
+    this.client = new Anthropic({ apiKey: options.apiKey });
+    this.models = options.models?.length
+      ? options.models
+      : AnthropicProvider.DEFAULT_MODELS;
+  }
+
+  async complete(
+    messages: ChatMessage[],
+    settings: ModelSettings
+  ): Promise<string> {
+    const response = await this.client.messages.create({
+      model: settings.model,
+      max_tokens: settings.maxTokens,
+      temperature: settings.temperature,
+      messages,
+    });
+
+    const content = response.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Unexpected response type from Claude");
+    }
+    return content.text;
+  }
+
+  async stream(
+    messages: ChatMessage[],
+    settings: ModelSettings,
+    onText: (delta: string) => void
+  ): Promise<string> {
+    const stream = this.client.messages
+      .stream({
+        model: settings.model,
+        max_tokens: settings.maxTokens,
+        temperature: settings.temperature,
+        messages,
+      })
+      .on("text", onText);
+
+    return stream.finalText();
+  }
+}
@@ -0,0 +1,128 @@
+/**
+ * @file completion.ts
+ * @description
+ * Server-side completion helpers shared by the generation routes: plain and
+ * streamed completions, and schema-validated completions (single prompts or
+ * multi-turn conversations) with automatic repair turns.
+ *
+ * @remarks
+ * - Every helper takes the {@link SelectedModel} picked for the request (see
+ *   `resolveModel`); never import this from client code.
+ * - Validation failures are fed back to the model as a follow-up turn (see
+ *   `PromptGenerator.generateRepair`) up to MAX_REPAIR_ATTEMPTS times, then
+ *   surface as {@link InvalidOutputError} (mapped to 502 by the routes).
+ */
+
+import { PromptGenerator } from "../prompts";
+import type { SchemaIssue, SchemaResult } from "../runOfShowSchema";
+import type { ChatMessage, SelectedModel } from "./types";
+
+/** Follow-up turns allowed for the model to fix output that fails schema validation. */
+export const MAX_REPAIR_ATTEMPTS = 2;
+
+/**
+ * The model's output still failed schema validation after all repair attempts.
+ * Surfaced as 502 Bad Gateway, since the upstream model produced the bad data.
+ * @public
+ */
+export class InvalidOutputError extends Error {
+  /**
+   * @param issues - Validation failures from the final attempt.
+   * @param attempts - Total generation attempts, including repairs.
+   */
+  constructor(
+    readonly issues: SchemaIssue[],
+    readonly attempts: number
+  ) {
+    super(
+      `The model returned invalid output after ${attempts} attempts (${issues.length} validation issue${
+        issues.length === 1 ? "" : "s"
+      })`
+    );
+    this.name = "InvalidOutputError";
+  }
+}
+
+/**
+ * Sends a conversation to the model and returns the text reply.
+ * @throws {Error} If the provider fails or the reply is non-text.
+ */
+export function completeMessages(
+  model: SelectedModel,
+  messages: ChatMessage[]
+): Promise<string> {
+  return model.provider.complete(messages, model.settings);
+}
+
+/**
+ * Streams a completion, forwarding each text delta as it arrives.
+ *
+ * @param prompt - A complete, self-contained prompt string.
+ * @param onText - Called with every text delta.
+ * @returns The full response text once the stream finishes.
+ */
+export function streamCompletion(
+  model: SelectedModel,
+  prompt: string,
+  onText: (delta: string) => void
+): Promise<string> {
+  return model.provider.stream(
+    [{ role: "user", content: prompt }],
+    model.settings,
+    onText
+  );
+}
+
+/**
+ * Completes `prompt` and validates the reply with `parse`. On failure, continues
+ * the conversation with the list of issues and asks the model for a corrected
+ * document, up to {@link MAX_REPAIR_ATTEMPTS} times.
+ *
+ * @param prompt - The original generation prompt, or a whole conversation ending
+ *   with a user turn (for follow-ups over an existing run of show).
+ * @param parse - Extracts and validates the expected value from reply text.
+ * @param firstReply - The model's reply to `prompt`, if it was already obtained
+ *   (e.g. by streaming); otherwise it is requested here.
+ * @throws {InvalidOutputError} With the remaining issues when repairs are exhausted.
+ */
+export async function completeValidated<T>(
+  model: SelectedModel,
+  prompt: string | ChatMessage[],
+  parse: (text: string) => SchemaResult<T>,
+  firstReply?: string
+): Promise<T> {
+  const messages: ChatMessage[] =
+    typeof prompt === "string"
+      ? [{ role: "user", content: prompt }]
+      : [...prompt];
+  let text = firstReply ?? (await completeMessages(model, messages));
+  let result = parse(text);
+
+  for (
+    let attempt = 1;
+    !result.ok && attempt <= MAX_REPAIR_ATTEMPTS;
+    attempt++
+  ) {
+    console.warn(
+      `Model output failed validation (${result.issues.length} issues); repair attempt ${attempt}`
+    );
+    messages.push(
+      // The API rejects empty assistant turns.
+      { role: "assistant", content: text.trim() || "(empty response)" },
+      {
+        role: "user",
+        content: PromptGenerator.generateRepair(result.issues),
+      }
+    );
+    text = await completeMessages(model, messages);
+    result = parse(text);
+  }
+
+  if (!result.ok) {
+    throw new InvalidOutputError(
+      result.issues,
+      MAX_REPAIR_ATTEMPTS + 1
+    );
+  }
+  return result.value;
+}
@@ -0,0 +1,76 @@
+/**
+ * @file fixture.ts
+ * @description
+ * Deterministic replies for tests and demos: every conversation is answered from
+ * a fixture instead of a model, so generation can run offline and repeatably.
+ *
+ * @remarks
+ * - Enabled by `LLM_FIXTURE_FILE`, a JSON {@link Fixtures} file.
+ * - Replies are looked up by {@link FixtureProvider.keyOf} the conversation.
+ *   Conversations without a recorded reply get `fallback`, or fail with an error
+ *   naming the key, so the missing fixture can be added.
+ * - Settings are ignored; streaming emits the reply in fixed-size chunks.
+ */
+
+import { readFileSync } from "fs";
+import { hashOf } from "../cache";
+import type { ChatMessage, LLMProvider, ModelSettings } from "./types";
+
+/** Recorded replies, keyed by {@link FixtureProvider.keyOf}. */
+export interface Fixtures {
+  replies?: Record<string, string>;
+  /** Reply to any conversation without a recorded one. */
+  fallback?: string;
+}
+
+export class FixtureProvider implements LLMProvider {
+  static readonly STREAM_CHUNK_SIZE = 64;
+
+  readonly id = "fixture";
+  readonly label = "Fixture";
+  readonly models = ["fixture"];
+
+  constructor(private readonly fixtures: Fixtures) {}
+
+  /**
+   * Load fixtures from a JSON file.
+   * @throws {Error} If the file cannot be read or parsed.
+   */
+  static fromFile(file: string): FixtureProvider {
+    return new FixtureProvider(
+      JSON.parse(readFileSync(file, "utf8")) as Fixtures
+    );
+  }
+
+  /** Key of a conversation in {@link Fixtures.replies}. */
+  static keyOf(messages: ChatMessage[]): string {
+    return hashOf(
+      messages.map(({ role, content }) => ({ role, content }))
+    ).slice(0, 16);
+  }
+
+  async complete(messages: ChatMessage[]): Promise<string> {
+    const key = FixtureProvider.keyOf(messages);
+    const reply = this.fixtures.replies?.[key] ?? this.fixtures.fallback;
+    if (reply === undefined) {
+      throw new Error(`No fixture reply for conversation ${key}`);
+    }
+    return reply;
+  }
+
+  async stream(
+    messages: ChatMessage[],
+    _settings: ModelSettings,
+    onText: (delta: string) => void
+  ): Promise<string> {
+    const reply = await this.complete(messages);
+    for (
+      let start = 0;
+      start < reply.length;
+      start += FixtureProvider.STREAM_CHUNK_SIZE
+    ) {
+      onText(reply.slice(start, start + FixtureProvider.STREAM_CHUNK_SIZE));
+    }
+    return reply;
+  }
+}
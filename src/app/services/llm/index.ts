@@ -0,0 +1,193 @@
+/**
+ * @file index.ts
+ * @description
+ * Registry of language model providers, and the model picked for a request.
+ *
+ * @remarks
+ * - A provider is offered when it is configured: Anthropic with
+ *   `ANTHROPIC_API_KEY`, OpenAI-compatible servers with `OPENAI_BASE_URL`, and
+ *   recorded fixtures with `LLM_FIXTURE_FILE`. Each provider's file lists its
+ *   other variables.
+ * - Deployment defaults: `LLM_MODEL` (a catalog id; otherwise the first offered
+ *   model), `LLM_TEMPERATURE` (0.7) and `LLM_MAX_TOKENS` (4000). A request may
+ *   override each of them through `config.model` (see {@link resolveModel}).
+ * - Server-side only; the browser gets the catalog from `GET /api/models`.
+ */
+
+import type { ModelOption, ModelReport, ModelSelection } from "@/app/page";
+import { AnthropicProvider } from "./anthropic";
+import { FixtureProvider } from "./fixture";
+import { OpenAICompatibleProvider } from "./openaiCompatible";
+import type { LLMProvider, SelectedModel } from "./types";
+
+export type {
+  ChatMessage,
+  LLMProvider,
+  ModelSettings,
+  SelectedModel,
+} from "./types";
+export { AnthropicProvider, FixtureProvider, OpenAICompatibleProvider };
+
+/** Accepted range of per-request overrides. */
+export const MODEL_LIMITS = {
+  temperature: { min: 0, max: 1 },
+  maxTokens: { min: 256, max: 32_000 },
+};
+
+/** A request asked for a model or setting this deployment does not offer. */
+export class ModelSelectionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ModelSelectionError";
+  }
+}
+
+/** Parse a comma-separated list from the environment. */
+function listFromEnv(value: string | undefined): string[] {
+  return (value ?? "")
+    .split(",")
+    .map((item) => item.trim())
+    .filter(Boolean);
+}
+
+function numberFromEnv(value: string | undefined, fallback: number) {
+  const parsed = Number(value);
+  return value && Number.isFinite(parsed) ? parsed : fallback;
+}
+
+let providers: LLMProvider[] | null = null;
+
+/** All configured providers, created once per server process. */
+export function getLLMProviders(): LLMProvider[] {
+  if (providers) return providers;
+
+  providers = [];
+  if (process.env.ANTHROPIC_API_KEY) {
+    providers.push(
+      new AnthropicProvider({
+        apiKey: process.env.ANTHROPIC_API_KEY,
+        models: listFromEnv(process.env.ANTHROPIC_MODELS),
+      })
+    );
+  }
+  if (process.env.OPENAI_BASE_URL) {
+    providers.push(
+      new OpenAICompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL,
+        apiKey: process.env.OPENAI_API_KEY,
+        models: listFromEnv(process.env.OPENAI_MODELS),
+      })
+    );
+  }
+  if (process.env.LLM_FIXTURE_FILE) {
+    providers.push(FixtureProvider.fromFile(process.env.LLM_FIXTURE_FILE));
+  }
+  return providers;
+}
+
+/** Every model the deployment offers, in provider order. */
+export function listModels(): ModelOption[] {
+  return getLLMProviders().flatMap((provider) =>
+    provider.models.map((model) => ({
+      id: `${provider.id}:${model}`,
+      provider: provider.id,
+      providerLabel: provider.label,
+      model,
+    }))
+  );
+}
+
+/** The deployment defaults, or `null` when no provider is configured. */
+export function modelDefaults(): Required<ModelSelection> | null {
+  const id = process.env.LLM_MODEL || listModels()[0]?.id;
+  if (!id) return null;
+  return {
+    id,
+    temperature: numberFromEnv(process.env.LLM_TEMPERATURE, 0.7),
+    maxTokens: numberFromEnv(process.env.LLM_MAX_TOKENS, 4000),
+  };
+}
+
+/** What metadata records about the model that wrote a run of show. */
+export function describeModel({
+  id,
+  provider,
+  settings,
+}: SelectedModel): ModelReport {
+  return { id, provider: provider.id, ...settings };
+}
+
+/**
+ * The provider and settings for a request: `selection` overrides the deployment
+ * defaults field by field.
+ *
+ * @throws {ModelSelectionError} If the selection names an unknown model or a
+ *   setting is out of {@link MODEL_LIMITS}.
+ * @throws {Error} If no provider is configured, or `LLM_MODEL` is not offered.
+ */
+export function resolveModel(selection: unknown = {}): SelectedModel {
+  const defaults = modelDefaults();
+  if (!defaults) {
+    // Treat missing secrets as a server misconfiguration, not user error.
+    throw new Error(
+      "Server configuration error. Please check API key setup."
+    );
+  }
+  if (!selection || typeof selection !== "object") {
+    throw new ModelSelectionError("model must be an object");
+  }
+  const { id, temperature, maxTokens } = selection as ModelSelection;
+
+  if (id !== undefined && typeof id !== "string") {
+    throw new ModelSelectionError("model.id must be a string");
+  }
+  const wanted = id ?? defaults.id;
+  const provider = getLLMProviders().find((candidate) =>
+    candidate.models.some((model) => `${candidate.id}:${model}` === wanted)
+  );
+  if (!provider) {
+    if (id === undefined) {
+      throw new Error(
+        `Server configuration error: LLM_MODEL "${defaults.id}" is not an available model.`
+      );
+    }
+    throw new ModelSelectionError(
+      `Unknown model "${id}". Available: ${listModels()
+        .map((model) => model.id)
+        .join(", ")}`
+    );
+  }
+
+  const { min: minTemperature, max: maxTemperature } =
+    MODEL_LIMITS.temperature;
+  if (
+    temperature !== undefined &&
+    (typeof temperature !== "number" ||
+      !(temperature >= minTemperature && temperature <= maxTemperature))
+  ) {
+    throw new ModelSelectionError(
+      `model.temperature must be a number from ${minTemperature} to ${maxTemperature}`
+    );
+  }
+  const { min: minTokens, max: maxTokensLimit } = MODEL_LIMITS.maxTokens;
+  if (
+    maxTokens !== undefined &&
+    (!Number.isInteger(maxTokens) ||
+      maxTokens < minTokens ||
+      maxTokens > maxTokensLimit)
+  ) {
+    throw new ModelSelectionError(
+      `model.maxTokens must be a whole number from ${minTokens} to ${maxTokensLimit}`
+    );
+  }
+
+  return {
+    id: wanted,
+    provider,
+    settings: {
+      model: wanted.slice(provider.id.length + 1),
+      temperature: temperature ?? defaults.temperature,
+      maxTokens: maxTokens ?? defaults.maxTokens,
+    },
+  };
+}
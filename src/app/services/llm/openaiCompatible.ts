@@ -0,0 +1,150 @@
+/**
+ * @file openaiCompatible.ts
+ * @description
+ * Any server that speaks the OpenAI chat completions API: local servers such as
+ * llama.cpp (`llama-server`), Ollama, vLLM or LM Studio, and hosted ones.
+ *
+ * @remarks
+ * - Enabled by `OPENAI_BASE_URL` (e.g. "http://localhost:11434/v1" for Ollama);
+ *   `OPENAI_API_KEY` is sent as a bearer token when set.
+ * - Offered models come from `OPENAI_MODELS` (comma-separated). llama.cpp serves
+ *   a single model and ignores the name, so the default is just "default".
+ * - Streaming reads the `data:` lines of the server-sent event response.
+ * - The `fetch` implementation is injectable so the provider can be exercised
+ *   against recorded responses.
+ */
+
+import type { ChatMessage, LLMProvider, ModelSettings } from "./types";
+
+export interface OpenAICompatibleProviderOptions {
+  /** API root including the version, e.g. "http://localhost:8080/v1". */
+  baseUrl: string;
+  apiKey?: string;
+  models?: string[];
+  fetch?: typeof fetch;
+}
+
+/** The parts of a chat completion (or stream chunk) this module reads. */
+interface ChatCompletion {
+  choices?: Array<{
+    message?: { content?: string | null };
+    delta?: { content?: string | null };
+  }>;
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  static readonly DEFAULT_MODELS = ["default"];
+
+  readonly id = "openai";
+  readonly label = "OpenAI-compatible";
+  readonly models: string[];
+  private readonly baseUrl: string;
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: OpenAICompatibleProviderOptions) {
+    this.baseUrl = options.baseUrl.replace(/\/+$/, "");
+    this.models = options.models?.length
+      ? options.models
+      : OpenAICompatibleProvider.DEFAULT_MODELS;
+    this.fetchImpl =
+      options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  async complete(
+    messages: ChatMessage[],
+    settings: ModelSettings
+  ): Promise<string> {
+    const response = await this.post(messages, settings, false);
+    const completion = (await response.json()) as ChatCompletion;
+    const content = completion.choices?.[0]?.message?.content;
+    if (typeof content !== "string") {
+      throw new Error("Unexpected response from the model server");
+    }
+    return content;
+  }
+
+  async stream(
+    messages: ChatMessage[],
+    settings: ModelSettings,
+    onText: (delta: string) => void
+  ): Promise<string> {
+    const response = await this.post(messages, settings, true);
+    if (!response.body) {
+      throw new Error("The model server returned an empty stream");
+    }
+
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffered = "";
+    let text = "";
+
+    for (;;) {
+      const { done, value } = await reader.read();
+      buffered += decoder.decode(value, { stream: !done });
+
+      // Handle complete lines; keep a partial last line for the next chunk.
+      const lines = buffered.split("\n");
+      buffered = done ? "" : (lines.pop() ?? "");
+      for (const line of lines) {
+        const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+        if (!data || data === "[DONE]") continue;
+        const delta = (JSON.parse(data) as ChatCompletion).choices?.[0]
+          ?.delta?.content;
+        if (delta) {
+          text += delta;
+          onText(delta);
+        }
+      }
+      if (done) return text;
+    }
+  }
+
+  /**
+   * POST a chat completion request.
+   * @throws {Error} If the server cannot be reached or answers with an error status.
+   */
+  private async post(
+    messages: ChatMessage[],
+    settings: ModelSettings,
+    stream: boolean
+  ): Promise<Response> {
+    const response = await this.fetchImpl(
+      `${this.baseUrl}/chat/completions`,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...(this.options.apiKey
+            ? { Authorization: `Bearer ${this.options.apiKey}` }
+            : {}),
+        },
+        body: JSON.stringify({
+          model: settings.model,
+          messages,
+          temperature: settings.temperature,
+          max_tokens: settings.maxTokens,
+          stream,
+        }),
+      }
+    ).catch((error) => {
+      throw new Error(
+        `Could not reach the model server at ${this.baseUrl}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    });
+
+    if (!response.ok) {
+      const detail = await response
+        .json()
+        .then((body) => body?.error?.message ?? body?.error)
+        .catch(() => null);
+      throw new Error(
+        `The model server failed (HTTP ${response.status})${
+          typeof detail === "string" && detail ? `: ${detail}` : ""
+        }`
+      );
+    }
+    return response;
+  }
+}
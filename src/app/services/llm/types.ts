@@ -0,0 +1,58 @@
+/**
+ * @file types.ts
+ * @description
+ * Contract shared by every language model provider (Anthropic, OpenAI-compatible
+ * servers, recorded fixtures). The completion helpers in `completion.ts` only talk
+ * to this interface, so the routes do not know which model writes the run of show.
+ *
+ * @remarks
+ * - Conversations are plain user/assistant turns; providers translate them to
+ *   their own wire format.
+ * - Providers are created once per server process (see `getLLMProviders`), so the
+ *   model and sampling settings are passed with every call instead.
+ */
+
+/** One turn of a conversation. */
+export interface ChatMessage {
+  role: "user" | "assistant";
+  content: string;
+}
+
+/** How to call a provider for one request. */
+export interface ModelSettings {
+  /** The provider's own model name, e.g. "claude-sonnet-4-20250514". */
+  model: string;
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface LLMProvider {
+  /** Stable identifier, e.g. "anthropic" or "openai". */
+  readonly id: string;
+  /** Human-readable provider name for messages and UI. */
+  readonly label: string;
+  /** Model names offered in the model picker. */
+  readonly models: string[];
+  /**
+   * Send a conversation ending with a user turn and return the text reply.
+   * @throws {Error} If the provider fails or replies with something other than text.
+   */
+  complete(messages: ChatMessage[], settings: ModelSettings): Promise<string>;
+  /**
+   * Like {@link LLMProvider.complete}, forwarding each text delta as it arrives.
+   * @returns The full reply once the stream finishes.
+   */
+  stream(
+    messages: ChatMessage[],
+    settings: ModelSettings,
+    onText: (delta: string) => void
+  ): Promise<string>;
+}
+
+/** A provider with the settings to call it with, as picked for one request. */
+export interface SelectedModel {
+  /** Catalog id, `<provider>:<model>`. */
+  id: string;
+  provider: LLMProvider;
+  settings: ModelSettings;
+}
@@ -0,0 +1,379 @@
+/**
+ * @file LocalRepoAnalyzer.ts
+ * @description
+ * Produces the same {@link RepoAnalysis} shape as `GitHubAnalyzer`, but from a local
+ * directory or an uploaded archive (tar, tar.gz/tgz, zip) instead of the GitHub API.
+ *
+ * @remarks
+ * - Every input is normalized into a {@link RepoFileSource}: a flat file listing
+ *   plus a lazy `read` function. `SourceAnalyzer` then runs identically for all inputs.
+ * - Honors `.gitignore` files at any depth, and always skips `.git/`.
+ * - Reuses `GitHubAnalyzer`'s `MAX_FILE_SIZE` / `MAX_KEY_FILES` limits (via
+ *   `SourceAnalyzer`) so prompts are comparable.
+ * - Archives produced by `git archive` or GitHub downloads usually wrap everything
+ *   in a single top-level folder; that prefix is stripped automatically.
+ * - No network access: the whole pipeline can run offline.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+import ignore, { type Ignore } from "ignore";
+import { Parser as TarParser } from "tar";
+import AdmZip from "adm-zip";
+import { GitHubAnalyzer, type RepoAnalysis } from "./github";
+import type { TreeEntry } from "./fileTree";
+import {
+  SourceAnalyzer,
+  type RepoFileSource,
+} from "./sourceAnalyzer";
+
+/** An uploaded archive has more entries or content than analysis accepts. */
+export class ArchiveLimitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "ArchiveLimitError";
+  }
+}
+
+/**
+ * Applies `.gitignore` rules relative to the directory that declared them,
+ * mirroring git's nested-ignore semantics.
+ */
+class GitIgnoreFilter {
+  private readonly rules: Array<{ dir: string; matcher: Ignore }> =
+    [];
+
+  /** Register the contents of a `.gitignore` found in `dir` ("" for root). */
+  add(dir: string, content: string): void {
+    this.rules.push({ dir, matcher: ignore().add(content) });
+  }
+
+  /** True if `filePath` (repo-relative, `/`-separated) is ignored. */
+  ignores(filePath: string, isDir: boolean): boolean {
+    if (filePath === ".git" || filePath.startsWith(".git/"))
+      return true;
+
+    return this.rules.some(({ dir, matcher }) => {
+      if (dir && !filePath.startsWith(`${dir}/`)) return false;
+      const relative = dir
+        ? filePath.slice(dir.length + 1)
+        : filePath;
+      return matcher.ignores(isDir ? `${relative}/` : relative);
+    });
+  }
+}
+
+export class LocalRepoAnalyzer {
+  /** Maximum accepted upload size for archives, in bytes. */
+  static readonly MAX_ARCHIVE_SIZE = 25 * 1024 * 1024;
+
+  /** Maximum number of files listed before the walk stops. */
+  private static readonly MAX_ENTRIES = 20000;
+
+  /**
+   * Limits on an archive's contents, checked while it is read so a small
+   * upload cannot unpack into an unbounded listing or stream of bytes.
+   */
+  static readonly MAX_ARCHIVE_ENTRIES = 100000;
+  static readonly MAX_EXTRACTED_SIZE = 250 * 1024 * 1024;
+
+  /**
+   * Analyze a directory on the local filesystem.
+   * @throws {Error} If the path does not exist or is not a directory.
+   */
+  async analyzeDirectory(dirPath: string): Promise<RepoAnalysis> {
+    const root = path.resolve(dirPath);
+    const stat = await fs.stat(root).catch(() => null);
+    if (!stat?.isDirectory()) {
+      throw new Error(
+        `Local path "${dirPath}" is not a readable directory.`
+      );
+    }
+
+    return this.analyzeSource(
+      await LocalRepoAnalyzer.directorySource(root)
+    );
+  }
+
+  /**
+   * Analyze an uploaded archive. Format is chosen from the filename
+   * (`.zip`, otherwise tar with optional gzip).
+   * @throws {ArchiveLimitError} If the archive holds too many entries or bytes.
+   * @throws {Error} If the archive is too large or cannot be read.
+   */
+  async analyzeArchive(
+    data: Buffer,
+    filename: string
+  ): Promise<RepoAnalysis> {
+    if (data.length > LocalRepoAnalyzer.MAX_ARCHIVE_SIZE) {
+      throw new Error(
+        `Archive exceeds the ${
+          LocalRepoAnalyzer.MAX_ARCHIVE_SIZE / (1024 * 1024)
+        }MB upload limit.`
+      );
+    }
+
+    const name = filename
+      .replace(/\.(zip|tar|tar\.gz|tgz)$/i, "")
+      .replace(/^.*[\\/]/, "");
+    const source = /\.zip$/i.test(filename)
+      ? await LocalRepoAnalyzer.zipSource(data, name)
+      : await LocalRepoAnalyzer.tarSource(data, name);
+
+    return this.analyzeSource(source);
+  }
+
+  /** Analyze any prepared {@link RepoFileSource}. */
+  async analyzeSource(
+    source: RepoFileSource
+  ): Promise<RepoAnalysis> {
+    return SourceAnalyzer.analyze(source);
+  }
+
+  /**
+   * Walk a directory depth-first, loading each `.gitignore` before its siblings
+   * so nested rules apply to the subtree that declares them.
+   */
+  static async directorySource(
+    root: string
+  ): Promise<RepoFileSource> {
+    const filter = new GitIgnoreFilter();
+    const entries: TreeEntry[] = [];
+
+    const walk = async (relativeDir: string): Promise<void> => {
+      const absoluteDir = path.join(root, relativeDir);
+      const dirents = await fs.readdir(absoluteDir, {
+        withFileTypes: true,
+      });
+
+      if (dirents.some((d) => d.isFile() && d.name === ".gitignore")) {
+        const content = await fs.readFile(
+          path.join(absoluteDir, ".gitignore"),
+          "utf-8"
+        );
+        filter.add(relativeDir, content);
+      }
+
+      for (const dirent of dirents) {
+        if (entries.length >= LocalRepoAnalyzer.MAX_ENTRIES) return;
+
+        const relativePath = relativeDir
+          ? `${relativeDir}/${dirent.name}`
+          : dirent.name;
+        if (dirent.isDirectory()) {
+          if (filter.ignores(relativePath, true)) continue;
+          entries.push({ path: relativePath, type: "dir", size: 0 });
+          await walk(relativePath);
+        } else if (dirent.isFile()) {
+          if (filter.ignores(relativePath, false)) continue;
+          const { size } = await fs.stat(
+            path.join(root, relativePath)
+          );
+          entries.push({ path: relativePath, type: "file", size });
+        }
+      }
+    };
+
+    await walk("");
+
+    return {
+      name: path.basename(root),
+      entries,
+      read: async (filePath) => {
+        const absolute = path.resolve(root, filePath);
+        if (!absolute.startsWith(root + path.sep)) return null;
+        return fs.readFile(absolute, "utf-8").catch(() => null);
+      },
+    };
+  }
+
+  /** Build a source from a zip archive; file contents are inflated lazily. */
+  static async zipSource(
+    data: Buffer,
+    name: string
+  ): Promise<RepoFileSource> {
+    const zip = new AdmZip(data);
+    const files = new Map<string, AdmZip.IZipEntry>();
+    const raw: TreeEntry[] = [];
+    const zipEntries = zip.getEntries();
+    const limitError = LocalRepoAnalyzer.archiveLimitError(
+      zipEntries.length,
+      zipEntries.reduce((total, entry) => total + entry.header.size, 0)
+    );
+    if (limitError) throw limitError;
+
+    for (const entry of zipEntries) {
+      const entryPath = entry.entryName.replace(/\/$/, "");
+      if (!entryPath) continue;
+      raw.push({
+        path: entryPath,
+        type: entry.isDirectory ? "dir" : "file",
+        size: entry.isDirectory ? 0 : entry.header.size,
+      });
+      if (!entry.isDirectory) files.set(entryPath, entry);
+    }
+
+    return LocalRepoAnalyzer.archiveSource(name, raw, async (p) => {
+      const entry = files.get(p);
+      try {
+        return entry ? entry.getData().toString("utf-8") : null;
+      } catch {
+        // A corrupt entry reads as unreadable, like any other archive file.
+        return null;
+      }
+    });
+  }
+
+  /**
+   * Build a source from a tar or gzipped tar archive. Tar is sequential, so
+   * contents of files small enough to be analyzed are buffered during parsing.
+   */
+  static async tarSource(
+    data: Buffer,
+    name: string
+  ): Promise<RepoFileSource> {
+    const raw: TreeEntry[] = [];
+    const contents = new Map<string, string>();
+    let entryCount = 0;
+    let extractedSize = 0;
+
+    await new Promise<void>((resolve, reject) => {
+      const parser = new TarParser({
+        onReadEntry: (entry) => {
+          entryCount++;
+          extractedSize += entry.size ?? 0;
+          const limitError = LocalRepoAnalyzer.archiveLimitError(
+            entryCount,
+            extractedSize
+          );
+          if (limitError) {
+            entry.resume();
+            parser.abort(limitError);
+            return;
+          }
+
+          const entryPath = entry.path.replace(/\/$/, "");
+          const isDir = entry.type === "Directory";
+          if (
+            !entryPath ||
+            (!isDir && entry.type !== "File" && entry.type !== "OldFile")
+          ) {
+            entry.resume();
+            return;
+          }
+
+          raw.push({
+            path: entryPath,
+            type: isDir ? "dir" : "file",
+            size: isDir ? 0 : entry.size,
+          });
+
+          if (
+            isDir ||
+            (entry.size >= GitHubAnalyzer.MAX_FILE_SIZE &&
+              !entryPath.endsWith(".gitignore"))
+          ) {
+            entry.resume();
+            return;
+          }
+
+          const chunks: Buffer[] = [];
+          entry.on("data", (chunk: Buffer) => chunks.push(chunk));
+          entry.on("end", () =>
+            contents.set(
+              entryPath,
+              Buffer.concat(chunks).toString("utf-8")
+            )
+          );
+        },
+      });
+      parser.on("error", reject);
+      parser.on("end", () => resolve());
+      parser.end(data);
+    }).catch((error) => {
+      if (error instanceof ArchiveLimitError) throw error;
+      throw new Error(
+        `Failed to read archive: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    });
+
+    return LocalRepoAnalyzer.archiveSource(
+      name,
+      raw,
+      async (p) => contents.get(p) ?? null
+    );
+  }
+
+  /** Why an archive is past the content limits, or `null` if it is within them. */
+  private static archiveLimitError(
+    entryCount: number,
+    extractedSize: number
+  ): ArchiveLimitError | null {
+    if (entryCount > LocalRepoAnalyzer.MAX_ARCHIVE_ENTRIES) {
+      return new ArchiveLimitError(
+        `Archive has more than ${LocalRepoAnalyzer.MAX_ARCHIVE_ENTRIES} entries.`
+      );
+    }
+    if (extractedSize > LocalRepoAnalyzer.MAX_EXTRACTED_SIZE) {
+      return new ArchiveLimitError(
+        `Archive unpacks to more than ${
+          LocalRepoAnalyzer.MAX_EXTRACTED_SIZE / (1024 * 1024)
+        }MB.`
+      );
+    }
+    return null;
+  }
+
+  /**
+   * Shared archive post-processing: strip a single wrapping folder,
+   * then apply every `.gitignore` found in the archive.
+   */
+  private static async archiveSource(
+    name: string,
+    raw: TreeEntry[],
+    readRaw: (rawPath: string) => Promise<string | null>
+  ): Promise<RepoFileSource> {
+    const topLevel = new Set(raw.map((e) => e.path.split("/")[0]));
+    const prefix =
+      topLevel.size === 1 &&
+      raw.some((e) => e.path.includes("/"))
+        ? `${[...topLevel][0]}/`
+        : "";
+
+    const entries = raw
+      .filter((e) => e.path.startsWith(prefix) && e.path !== prefix)
+      .map((e) => ({ ...e, path: e.path.slice(prefix.length) }));
+
+    const filter = new GitIgnoreFilter();
+    for (const entry of entries) {
+      if (entry.path === ".gitignore" || entry.path.endsWith("/.gitignore")) {
+        const content = await readRaw(prefix + entry.path);
+        if (content !== null) {
+          filter.add(
+            entry.path.slice(0, -".gitignore".length).replace(/\/$/, ""),
+            content
+          );
+        }
+      }
+    }
+
+    return {
+      name: prefix ? prefix.slice(0, -1) : name,
+      entries: entries
+        .filter(
+          (e) =>
+            !e.path.split("/").some(
+              (_, i, parts) =>
+                filter.ignores(
+                  parts.slice(0, i + 1).join("/"),
+                  i < parts.length - 1 || e.type === "dir"
+                )
+            )
+        )
+        .slice(0, LocalRepoAnalyzer.MAX_ENTRIES),
+      read: (filePath) => readRaw(prefix + filePath),
+    };
+  }
+}
@@ -0,0 +1,796 @@
+/**
+ * @file manifests.ts
+ * @description
+ * Finds and parses a repository's package manifests into one normalized model:
+ * `{ ecosystem, name, version, dependencies, devDependencies, scripts }`. Covers
+ * npm (`package.json`), Python (`pyproject.toml`, `requirements.txt`), Rust
+ * (`Cargo.toml`), Go (`go.mod`), Maven (`pom.xml`), Gradle (`build.gradle`,
+ * `build.gradle.kts`), Ruby (`Gemfile`) and PHP (`composer.json`).
+ *
+ * @remarks
+ * - Every manifest present is collected, not just the first: the analyzed root's
+ *   manifests come first, then those of nested packages (monorepo members), up to
+ *   MAX_MANIFESTS.
+ * - Parsers are deliberately small (a minimal TOML reader, patterns for XML, Ruby
+ *   and Gradle) and lenient: unreadable sections are skipped, and a manifest that
+ *   cannot be parsed at all is left out rather than failing the analysis.
+ * - Dependency versions are kept as written ("^1.2", ">=2,<3", "1.0"); "" means the
+ *   manifest does not pin one. Test- and development-only dependencies go to
+ *   `devDependencies`.
+ */
+
+import { FileTree, type TreeEntry } from "./fileTree";
+import type { FileReader } from "./codeInsights";
+
+export type Ecosystem =
+  | "npm"
+  | "python"
+  | "rust"
+  | "go"
+  | "maven"
+  | "gradle"
+  | "ruby"
+  | "php";
+
+/** A parsed package manifest. */
+export interface Manifest {
+  /** Path of the manifest, relative to the analyzed root. */
+  file: string;
+  ecosystem: Ecosystem;
+  name?: string;
+  version?: string;
+  description?: string;
+  keywords?: string[];
+  /** Package name to version constraint ("" when unpinned). */
+  dependencies: Record<string, string>;
+  devDependencies: Record<string, string>;
+  /** Named commands or entry points (npm/composer scripts, Python console scripts). */
+  scripts: Record<string, string>;
+}
+
+type ManifestFields = Omit<Manifest, "file" | "ecosystem">;
+
+type TomlTable = Record<string, unknown>;
+
+export class Manifests {
+  /** Manifest filenames, in the order they are listed for a directory. */
+  static readonly FILES = [
+    "package.json",
+    "pyproject.toml",
+    "requirements.txt",
+    "Cargo.toml",
+    "go.mod",
+    "pom.xml",
+    "build.gradle",
+    "build.gradle.kts",
+    "Gemfile",
+    "composer.json",
+  ];
+
+  static readonly MAX_MANIFESTS = 10;
+  /** Nested manifests deeper than this (e.g. "packages/app/package.json" is 3) are ignored. */
+  private static readonly MAX_DEPTH = 3;
+
+  private static readonly ECOSYSTEMS: Record<string, Ecosystem> = {
+    "package.json": "npm",
+    "pyproject.toml": "python",
+    "requirements.txt": "python",
+    "Cargo.toml": "rust",
+    "go.mod": "go",
+    "pom.xml": "maven",
+    "build.gradle": "gradle",
+    "build.gradle.kts": "gradle",
+    Gemfile: "ruby",
+    "composer.json": "php",
+  };
+
+  /**
+   * Find, read and parse every manifest in `entries`: root manifests first, then
+   * nested ones by depth. Unreadable or unparseable files are skipped.
+   */
+  static async collect(
+    entries: TreeEntry[],
+    read: FileReader
+  ): Promise<Manifest[]> {
+    const candidates = entries
+      .filter((entry) => {
+        if (entry.type !== "file") return false;
+        const segments = entry.path.split("/");
+        return (
+          segments.length <= this.MAX_DEPTH &&
+          this.FILES.includes(segments[segments.length - 1]) &&
+          !FileTree.isIgnoredPath(entry.path) &&
+          !/(^|\/)(test|tests|fixtures|examples?|docs)\//i.test(entry.path)
+        );
+      })
+      .map((entry) => entry.path)
+      .sort((a, b) => {
+        const depth = a.split("/").length - b.split("/").length;
+        const dir = (file: string) => file.slice(0, file.lastIndexOf("/") + 1);
+        const order = (file: string) =>
+          this.FILES.indexOf(file.slice(file.lastIndexOf("/") + 1));
+        return (
+          depth ||
+          dir(a).localeCompare(dir(b)) ||
+          order(a) - order(b)
+        );
+      })
+      .slice(0, this.MAX_MANIFESTS);
+
+    const contents = await Promise.all(
+      candidates.map((file) => read(file))
+    );
+    return candidates.flatMap((file, index) => {
+      const content = contents[index];
+      const manifest = content === null ? null : this.parse(file, content);
+      return manifest ? [manifest] : [];
+    });
+  }
+
+  /**
+   * Parse one manifest by its filename. Returns `null` for unknown files and for
+   * content that cannot be parsed.
+   */
+  static parse(file: string, content: string): Manifest | null {
+    const filename = file.slice(file.lastIndexOf("/") + 1);
+    const ecosystem = this.ECOSYSTEMS[filename];
+    if (!ecosystem) return null;
+
+    try {
+      const fields = this.parseFields(filename, content);
+      return fields ? { file, ecosystem, ...fields } : null;
+    } catch (error) {
+      console.warn(`Failed to parse ${file}:`, error);
+      return null;
+    }
+  }
+
+  /** The manifest that describes the analyzed root: the first root-level one with a name. */
+  static primary(manifests: Manifest[]): Manifest | undefined {
+    return manifests.find(
+      (manifest) => !manifest.file.includes("/") && manifest.name
+    );
+  }
+
+  private static parseFields(
+    filename: string,
+    content: string
+  ): ManifestFields | null {
+    switch (filename) {
+      case "package.json":
+        return this.parsePackageJson(content);
+      case "composer.json":
+        return this.parseComposerJson(content);
+      case "pyproject.toml":
+        return this.parsePyproject(content);
+      case "requirements.txt":
+        return this.parseRequirements(content);
+      case "Cargo.toml":
+        return this.parseCargo(content);
+      case "go.mod":
+        return this.parseGoMod(content);
+      case "pom.xml":
+        return this.parsePom(content);
+      case "build.gradle":
+      case "build.gradle.kts":
+        return this.parseGradle(content);
+      case "Gemfile":
+        return this.parseGemfile(content);
+      default:
+        return null;
+    }
+  }
+
+  private static parsePackageJson(content: string): ManifestFields {
+    const data = JSON.parse(content);
+    return {
+      name: this.text(data.name),
+      version: this.text(data.version),
+      description: this.text(data.description),
+      keywords: this.textList(data.keywords),
+      dependencies: {
+        ...this.textRecord(data.peerDependencies),
+        ...this.textRecord(data.optionalDependencies),
+        ...this.textRecord(data.dependencies),
+      },
+      devDependencies: this.textRecord(data.devDependencies),
+      scripts: this.textRecord(data.scripts),
+    };
+  }
+
+  private static parseComposerJson(content: string): ManifestFields {
+    const data = JSON.parse(content);
+    const scripts: Record<string, string> = {};
+    for (const [name, value] of Object.entries(
+      (data.scripts ?? {}) as Record<string, unknown>
+    )) {
+      const commands = Array.isArray(value) ? value : [value];
+      scripts[name] = commands
+        .filter((command) => typeof command === "string")
+        .join(" && ");
+    }
+    return {
+      name: this.text(data.name),
+      version: this.text(data.version),
+      description: this.text(data.description),
+      keywords: this.textList(data.keywords),
+      dependencies: this.textRecord(data.require),
+      devDependencies: this.textRecord(data["require-dev"]),
+      scripts,
+    };
+  }
+
+  /** PEP 621 `[project]`, with Poetry's `[tool.poetry]` as a fallback. */
+  private static parsePyproject(content: string): ManifestFields {
+    const toml = this.parseToml(content);
+    const project = this.table(toml.project);
+    const poetry = this.table(this.table(toml.tool).poetry);
+
+    const dependencies = this.requirementList(project.dependencies);
+    const devDependencies: Record<string, string> = {};
+    for (const group of [
+      ...Object.values(this.table(project["optional-dependencies"])),
+      ...Object.values(this.table(toml["dependency-groups"])),
+    ]) {
+      Object.assign(devDependencies, this.requirementList(group));
+    }
+
+    for (const [name, spec] of Object.entries(
+      this.table(poetry.dependencies)
+    )) {
+      if (name !== "python") dependencies[name] = this.dependencySpec(spec);
+    }
+    const poetryGroups = [
+      this.table(poetry["dev-dependencies"]),
+      ...Object.values(this.table(poetry.group)).map((group) =>
+        this.table(this.table(group).dependencies)
+      ),
+    ];
+    for (const group of poetryGroups) {
+      for (const [name, spec] of Object.entries(group)) {
+        devDependencies[name] = this.dependencySpec(spec);
+      }
+    }
+
+    return {
+      name: this.text(project.name) ?? this.text(poetry.name),
+      version: this.text(project.version) ?? this.text(poetry.version),
+      description:
+        this.text(project.description) ?? this.text(poetry.description),
+      keywords: this.textList(project.keywords ?? poetry.keywords),
+      dependencies,
+      devDependencies,
+      scripts: {
+        ...this.textRecord(poetry.scripts),
+        ...this.textRecord(project.scripts),
+      },
+    };
+  }
+
+  /** One PEP 508 requirement per line; options, includes and comments are skipped. */
+  private static parseRequirements(content: string): ManifestFields {
+    const lines = content
+      .split(/\r?\n/)
+      .map((line) => line.replace(/(^|\s)#.*$/, "").trim())
+      .filter((line) => line && !line.startsWith("-"));
+    return {
+      dependencies: this.requirementList(lines),
+      devDependencies: {},
+      scripts: {},
+    };
+  }
+
+  private static parseCargo(content: string): ManifestFields {
+    const toml = this.parseToml(content);
+    const pkg = this.table(toml.package);
+    const specs = (value: unknown) =>
+      Object.fromEntries(
+        Object.entries(this.table(value)).map(([name, spec]) => [
+          name,
+          this.dependencySpec(spec),
+        ])
+      );
+
+    return {
+      name: this.text(pkg.name),
+      version: this.text(pkg.version),
+      description: this.text(pkg.description),
+      keywords: this.textList(pkg.keywords),
+      dependencies: specs(toml.dependencies),
+      devDependencies: {
+        ...specs(toml["build-dependencies"]),
+        ...specs(toml["dev-dependencies"]),
+      },
+      scripts: {},
+    };
+  }
+
+  /** `module`, and direct `require`s (block or single-line); indirect ones are left out. */
+  private static parseGoMod(content: string): ManifestFields {
+    const dependencies: Record<string, string> = {};
+    const requirement = (line: string) => {
+      if (/\/\/\s*indirect/.test(line)) return;
+      const [name, version] = line.replace(/\/\/.*$/, "").trim().split(/\s+/);
+      if (name && version) dependencies[name] = version;
+    };
+
+    for (const block of content.matchAll(/^require\s*\(([\s\S]*?)^\)/gm)) {
+      block[1].split("\n").forEach(requirement);
+    }
+    for (const line of content.matchAll(/^require\s+([^(\s].*)$/gm)) {
+      requirement(line[1]);
+    }
+
+    // Modules are versioned by tag, not in go.mod; report the Go toolchain instead.
+    const goVersion = content.match(/^go\s+(\S+)/m)?.[1];
+    return {
+      name: content.match(/^module\s+(\S+)/m)?.[1],
+      version: goVersion && `go ${goVersion}`,
+      dependencies,
+      devDependencies: {},
+      scripts: {},
+    };
+  }
+
+  /** Project coordinates and `<dependencies>`; test-scoped ones are dev dependencies. */
+  private static parsePom(content: string): ManifestFields {
+    const xml = content.replace(/<!--[\s\S]*?-->/g, "");
+    const tag = (source: string, name: string) =>
+      source.match(new RegExp(`<${name}>\\s*([^<]*?)\\s*</${name}>`))?.[1];
+
+    // Coordinates are direct children of <project>, inherited from <parent>.
+    const project = this.xmlChildren(
+      xml.match(/<project\b[^>]*>([\s\S]*)<\/project>/)?.[1] ?? xml
+    );
+    const parent = this.xmlChildren(project.get("parent") ?? "");
+    const leaf = (children: Map<string, string>, name: string) => {
+      const value = children.get(name)?.trim();
+      return value && !value.includes("<") ? value : undefined;
+    };
+
+    const dependencies: Record<string, string> = {};
+    const devDependencies: Record<string, string> = {};
+    const managed = xml.replace(
+      /<dependencyManagement>[\s\S]*?<\/dependencyManagement>/g,
+      ""
+    );
+    for (const block of managed.matchAll(
+      /<dependency>([\s\S]*?)<\/dependency>/g
+    )) {
+      const groupId = tag(block[1], "groupId");
+      const artifactId = tag(block[1], "artifactId");
+      if (!artifactId) continue;
+      const name = groupId ? `${groupId}:${artifactId}` : artifactId;
+      const target =
+        tag(block[1], "scope") === "test" ? devDependencies : dependencies;
+      target[name] = tag(block[1], "version") ?? "";
+    }
+
+    const groupId = leaf(project, "groupId") ?? leaf(parent, "groupId");
+    const artifactId = leaf(project, "artifactId");
+    return {
+      name:
+        leaf(project, "name") ??
+        (artifactId && groupId ? `${groupId}:${artifactId}` : artifactId),
+      version: leaf(project, "version") ?? leaf(parent, "version"),
+      description: leaf(project, "description"),
+      dependencies,
+      devDependencies,
+      scripts: {},
+    };
+  }
+
+  /**
+   * Inner XML of each direct child element of `body`, first occurrence per name.
+   * Enough for POM coordinates; CDATA sections are not handled.
+   */
+  private static xmlChildren(body: string): Map<string, string> {
+    const children = new Map<string, string>();
+    let depth = 0;
+    let open: { name: string; start: number } | null = null;
+    for (const match of body.matchAll(/<(\/?)([\w.:-]+)[^>]*?(\/?)>/g)) {
+      const [element, closing, name, selfClosing] = match;
+      if (selfClosing) continue;
+      if (!closing) {
+        if (depth === 0) open = { name, start: match.index + element.length };
+        depth++;
+      } else if (--depth === 0 && open) {
+        if (!children.has(open.name)) {
+          children.set(open.name, body.slice(open.start, match.index));
+        }
+        open = null;
+      }
+    }
+    return children;
+  }
+
+  /**
+   * Groovy and Kotlin DSL: "group:name:version" strings, map notation and version
+   * catalog accessors (`libs.x.y`). Test configurations are dev dependencies.
+   */
+  private static parseGradle(content: string): ManifestFields {
+    const code = content
+      .replace(/\/\*[\s\S]*?\*\//g, "")
+      .replace(/(^|\s)\/\/.*$/gm, "$1");
+    const dependencies: Record<string, string> = {};
+    const devDependencies: Record<string, string> = {};
+    const configurations =
+      "implementation|api|compile|compileOnly|runtimeOnly|kapt|ksp|annotationProcessor|testImplementation|testCompileOnly|testRuntimeOnly|androidTestImplementation|debugImplementation";
+    const add = (configuration: string, name: string, version = "") => {
+      const target = /^(test|androidTest|debug)/.test(configuration)
+        ? devDependencies
+        : dependencies;
+      target[name] = version;
+    };
+
+    for (const match of code.matchAll(
+      new RegExp(
+        `\\b(${configurations})\\s*\\(?\\s*(?:(?:platform|enforcedPlatform)\\s*\\(\\s*)?["']([^"':\\s]+):([^"':\\s]+)(?::([^"'\\s]+))?["']`,
+        "g"
+      )
+    )) {
+      add(match[1], `${match[2]}:${match[3]}`, match[4]);
+    }
+    for (const match of code.matchAll(
+      new RegExp(
+        `\\b(${configurations})\\s*\\(?\\s*group\\s*[:=]\\s*["']([^"']+)["']\\s*,\\s*name\\s*[:=]\\s*["']([^"']+)["'](?:\\s*,\\s*version\\s*[:=]\\s*["']([^"']+)["'])?`,
+        "g"
+      )
+    )) {
+      add(match[1], `${match[2]}:${match[3]}`, match[4]);
+    }
+    for (const match of code.matchAll(
+      new RegExp(`\\b(${configurations})\\s*\\(?\\s*(libs\\.[\\w.]+)`, "g")
+    )) {
+      add(match[1], match[2]);
+    }
+
+    const assignment = (key: string) =>
+      code.match(new RegExp(`^\\s*${key}\\s*=\\s*["']([^"']+)["']`, "m"))?.[1];
+    return {
+      name: assignment("group"),
+      version: assignment("version"),
+      description: assignment("description"),
+      dependencies,
+      devDependencies,
+      scripts: {},
+    };
+  }
+
+  /** `gem` lines; gems in development/test groups (block or `group:` option) are dev dependencies. */
+  private static parseGemfile(content: string): ManifestFields {
+    const dependencies: Record<string, string> = {};
+    const devDependencies: Record<string, string> = {};
+    // One entry per open `do` block: whether it is a development/test group.
+    const blocks: boolean[] = [];
+    const isDevGroup = (groups: string) =>
+      /:?\b(development|test)\b/.test(groups);
+
+    for (const raw of content.split(/\r?\n/)) {
+      const line = raw.replace(/(^|\s)#.*$/, "").trim();
+      if (!line) continue;
+
+      const group = line.match(/^group\s+(.+?)\s+do\b/);
+      if (group) {
+        blocks.push(isDevGroup(group[1]));
+        continue;
+      }
+      if (/\bdo(\s*\|[^|]*\|)?$/.test(line)) {
+        blocks.push(blocks[blocks.length - 1] ?? false);
+        continue;
+      }
+      if (line === "end") {
+        blocks.pop();
+        continue;
+      }
+
+      const gem = line.match(/^gem\s+["']([^"']+)["']\s*(.*)$/);
+      if (!gem) continue;
+      const versions = [...gem[2].matchAll(/(?:^|,)\s*["']([^"']+)["']/g)].map(
+        (match) => match[1]
+      );
+      const inlineGroup = gem[2].match(/\bgroups?:\s*(\[[^\]]*\]|:\w+)/);
+      const dev =
+        blocks.includes(true) ||
+        (inlineGroup !== null && isDevGroup(inlineGroup[1]));
+      (dev ? devDependencies : dependencies)[gem[1]] = versions.join(", ");
+    }
+
+    return { dependencies, devDependencies, scripts: {} };
+  }
+
+  /** PEP 508 strings ("requests[socks]>=2.0; python_version<'3.8'") to name → constraint. */
+  private static requirementList(value: unknown): Record<string, string> {
+    const requirements: Record<string, string> = {};
+    for (const line of this.textList(value) ?? []) {
+      const match = line.match(
+        /^\s*([A-Za-z0-9][A-Za-z0-9._-]*)\s*(?:\[[^\]]*\])?\s*([^;]*)/
+      );
+      if (!match) continue;
+      const spec = match[2].trim().replace(/^\((.*)\)$/, "$1");
+      requirements[match[1]] = spec.startsWith("@") ? "url" : spec;
+    }
+    return requirements;
+  }
+
+  /** A Cargo/Poetry dependency: a version string, or a table with a version, path or git source. */
+  private static dependencySpec(spec: unknown): string {
+    if (typeof spec === "string") return spec;
+    const table = this.table(spec);
+    if (typeof table.version === "string") return table.version;
+    if (table.workspace === true) return "workspace";
+    if (typeof table.path === "string") return "path";
+    if (typeof table.git === "string") return "git";
+    return "";
+  }
+
+  private static text(value: unknown): string | undefined {
+    return typeof value === "string" && value.trim() ? value.trim() : undefined;
+  }
+
+  private static textList(value: unknown): string[] | undefined {
+    return Array.isArray(value)
+      ? value.filter((item): item is string => typeof item === "string")
+      : undefined;
+  }
+
+  private static textRecord(value: unknown): Record<string, string> {
+    return Object.fromEntries(
+      Object.entries(this.table(value)).filter(
+        (entry): entry is [string, string] => typeof entry[1] === "string"
+      )
+    );
+  }
+
+  private static table(value: unknown): TomlTable {
+    return typeof value === "object" && value !== null && !Array.isArray(value)
+      ? (value as TomlTable)
+      : {};
+  }
+
+  /**
+   * Minimal TOML reader: tables, arrays of tables, dotted and quoted keys, strings
+   * (basic, literal and multi-line), numbers, booleans, arrays and inline tables.
+   * Anything else (dates, exotic escapes) is kept as its raw text.
+   */
+  static parseToml(content: string): TomlTable {
+    const root: TomlTable = {};
+    let current = root;
+
+    for (const statement of this.tomlStatements(content)) {
+      const arrayTable = statement.match(/^\[\[\s*(.+?)\s*\]\]$/);
+      const table = statement.match(/^\[\s*(.+?)\s*\]$/);
+      if (arrayTable) {
+        const keys = this.tomlKeys(arrayTable[1]);
+        const parent = this.tomlTableAt(root, keys.slice(0, -1));
+        const last = keys[keys.length - 1];
+        const list = Array.isArray(parent[last])
+          ? (parent[last] as TomlTable[])
+          : (parent[last] = []);
+        current = {};
+        (list as TomlTable[]).push(current);
+        continue;
+      }
+      if (table) {
+        current = this.tomlTableAt(root, this.tomlKeys(table[1]));
+        continue;
+      }
+
+      const equals = this.indexOutsideStrings(statement, "=");
+      if (equals === -1) continue;
+      const keys = this.tomlKeys(statement.slice(0, equals));
+      const parent = this.tomlTableAt(current, keys.slice(0, -1));
+      parent[keys[keys.length - 1]] = new TomlValueReader(
+        statement.slice(equals + 1).trim()
+      ).read();
+    }
+    return root;
+  }
+
+  /**
+   * Split TOML into statements: comments removed, and lines joined while an array,
+   * inline table or multi-line string is still open.
+   */
+  private static tomlStatements(content: string): string[] {
+    const statements: string[] = [];
+    let buffer = "";
+    let depth = 0;
+    let multiline: string | null = null;
+
+    for (const line of content.split(/\r?\n/)) {
+      let text = "";
+      for (let i = 0; i < line.length; i++) {
+        const char = line[i];
+        if (multiline) {
+          if (line.startsWith(multiline, i)) {
+            text += multiline;
+            i += 2;
+            multiline = null;
+          } else {
+            text += char;
+          }
+          continue;
+        }
+        if (line.startsWith('"""', i) || line.startsWith("'''", i)) {
+          multiline = line.slice(i, i + 3);
+          text += multiline;
+          i += 2;
+          continue;
+        }
+        if (char === '"' || char === "'") {
+          let j = i + 1;
+          while (j < line.length && line[j] !== char) {
+            if (char === '"' && line[j] === "\\") j++;
+            j++;
+          }
+          text += line.slice(i, j + 1);
+          i = j;
+          continue;
+        }
+        if (char === "#") break;
+        if (char === "[" || char === "{") depth++;
+        if (char === "]" || char === "}") depth--;
+        text += char;
+      }
+
+      buffer += buffer ? `\n${text}` : text;
+      // Table headers are brackets too, but close on the same line.
+      if (depth <= 0 && !multiline) {
+        if (buffer.trim()) statements.push(buffer.trim());
+        buffer = "";
+        depth = 0;
+      }
+    }
+    if (buffer.trim()) statements.push(buffer.trim());
+    return statements;
+  }
+
+  /** `a."b.c".d` → ["a", "b.c", "d"]. */
+  private static tomlKeys(text: string): string[] {
+    const keys: string[] = [];
+    let rest = text.trim();
+    while (rest) {
+      const quoted = rest.match(/^(["'])(.*?)\1\s*(?:\.\s*|$)/);
+      if (quoted) {
+        keys.push(quoted[2]);
+        rest = rest.slice(quoted[0].length);
+        continue;
+      }
+      const bare = rest.match(/^([^.\s]+)\s*(?:\.\s*|$)/);
+      if (!bare) break;
+      keys.push(bare[1]);
+      rest = rest.slice(bare[0].length);
+    }
+    return keys;
+  }
+
+  /** The table at `keys` below `root`, created on demand (into the last array-table item). */
+  private static tomlTableAt(root: TomlTable, keys: string[]): TomlTable {
+    let table = root;
+    for (const key of keys) {
+      let next = table[key];
+      if (Array.isArray(next)) next = next[next.length - 1];
+      if (typeof next !== "object" || next === null) {
+        next = {};
+        table[key] = next;
+      }
+      table = next as TomlTable;
+    }
+    return table;
+  }
+
+  private static indexOutsideStrings(text: string, target: string): number {
+    let quote: string | null = null;
+    for (let i = 0; i < text.length; i++) {
+      const char = text[i];
+      if (quote) {
+        if (char === "\\" && quote === '"') i++;
+        else if (char === quote) quote = null;
+      } else if (char === '"' || char === "'") {
+        quote = char;
+      } else if (char === target) {
+        return i;
+      }
+    }
+    return -1;
+  }
+}
+
+/** Reads one TOML value (recursively for arrays and inline tables). */
+class TomlValueReader {
+  private index = 0;
+
+  constructor(private readonly text: string) {}
+
+  read(): unknown {
+    this.skipSpace();
+    const char = this.text[this.index];
+
+    if (this.text.startsWith('"""', this.index)) return this.readMultiline('"""');
+    if (this.text.startsWith("'''", this.index)) return this.readMultiline("'''");
+    if (char === '"') return this.readBasicString();
+    if (char === "'") {
+      const end = this.text.indexOf("'", this.index + 1);
+      const value = this.text.slice(this.index + 1, end === -1 ? undefined : end);
+      this.index = end === -1 ? this.text.length : end + 1;
+      return value;
+    }
+    if (char === "[") return this.readArray();
+    if (char === "{") return this.readInlineTable();
+
+    const raw = this.text.slice(this.index).match(/^[^,\]}\n]+/)?.[0] ?? "";
+    this.index += raw.length;
+    const token = raw.trim();
+    if (token === "true" || token === "false") return token === "true";
+    const number = Number(token.replace(/_/g, ""));
+    return token !== "" && !Number.isNaN(number) ? number : token;
+  }
+
+  private readBasicString(): string {
+    let value = "";
+    this.index++;
+    while (this.index < this.text.length && this.text[this.index] !== '"') {
+      const char = this.text[this.index];
+      if (char === "\\") {
+        const next = this.text[this.index + 1];
+        value += { n: "\n", t: "\t", '"': '"', "\\": "\\" }[next] ?? next;
+        this.index += 2;
+        continue;
+      }
+      value += char;
+      this.index++;
+    }
+    this.index++;
+    return value;
+  }
+
+  private readMultiline(delimiter: string): string {
+    const start = this.index + 3;
+    const end = this.text.indexOf(delimiter, start);
+    this.index = end === -1 ? this.text.length : end + 3;
+    return this.text
+      .slice(start, end === -1 ? undefined : end)
+      .replace(/^\n/, "");
+  }
+
+  private readArray(): unknown[] {
+    const items: unknown[] = [];
+    this.index++;
+    for (;;) {
+      this.skipSpace();
+      if (this.index >= this.text.length) return items;
+      if (this.text[this.index] === "]") {
+        this.index++;
+        return items;
+      }
+      items.push(this.read());
+      this.skipSpace();
+      if (this.text[this.index] === ",") this.index++;
+    }
+  }
+
+  private readInlineTable(): Record<string, unknown> {
+    const table: Record<string, unknown> = {};
+    this.index++;
+    for (;;) {
+      this.skipSpace();
+      if (this.index >= this.text.length) return table;
+      if (this.text[this.index] === "}") {
+        this.index++;
+        return table;
+      }
+      const key = this.text
+        .slice(this.index)
+        .match(/^\s*("[^"]*"|'[^']*'|[^=\s]+)\s*=/);
+      if (!key) return table;
+      this.index += key[0].length;
+      table[key[1].replace(/^["']|["']$/g, "")] = this.read();
+      this.skipSpace();
+      if (this.text[this.index] === ",") this.index++;
+    }
+  }
+
+  private skipSpace(): void {
+    while (/\s/.test(this.text[this.index] ?? "")) this.index++;
+  }
+}
@@ -0,0 +1,298 @@
+/**
+ * @file pacing.ts
+ * @description
+ * Timing helpers for delivering a run of show: converts section `duration` strings
+ * and the configured talk length into seconds, and projects whether the
+ * presenter will finish over or under the target.
+ *
+ * @remarks
+ * - Pure functions; safe to import from client components.
+ * - Durations are read leniently: "3 minutes", "2.5 min", "90 seconds", "1 hour",
+ *   "1h 30m", "4:30", and ranges such as "1-2 minutes" (counted at their midpoint).
+ * - `checkBudget` compares the planned total with the target; the generation route
+ *   enforces it (see `durationBudget`) and the display shows it per section.
+ * - `fitDurations` rescales sections proportionally onto the target time.
+ */
+
+import { Profiles } from "./profiles";
+import type { PresentationConfig, RunOfShow } from "@/app/page";
+
+export type PacingStatus = "on-track" | "over" | "under";
+
+export interface PacingProjection {
+  status: PacingStatus;
+  /** Projected finish minus target, in seconds (positive = over). */
+  driftSeconds: number;
+  targetSeconds: number;
+  projectedSeconds: number;
+}
+
+/** Shortest and longest reading of a duration; equal unless it is a range. */
+export interface DurationRange {
+  minSeconds: number;
+  maxSeconds: number;
+}
+
+export type BudgetStatus = "within" | "over" | "under";
+
+/** Planned section time measured against the target length. */
+export interface DurationBudget {
+  status: BudgetStatus;
+  plannedSeconds: number;
+  targetSeconds: number;
+  /** Planned minus target, in seconds (positive = over). */
+  driftSeconds: number;
+  /** Drift allowed either way before the plan counts as over or under. */
+  toleranceSeconds: number;
+  /** Indexes of sections whose duration could not be read (counted as 0). */
+  unreadable: number[];
+}
+
+export class Pacing {
+  /** Drift tolerated before flagging; running long is flagged sooner than short. */
+  private static readonly OVER_TOLERANCE_SECONDS = 30;
+  private static readonly UNDER_TOLERANCE_SECONDS = 60;
+
+  /** Budget tolerance: a share of the target, but never under a minute. */
+  private static readonly BUDGET_TOLERANCE_RATIO = 0.1;
+  private static readonly MIN_BUDGET_TOLERANCE_SECONDS = 60;
+
+  /** Granularity of rescaled durations, coarsest first (see `fitDurations`). */
+  private static readonly FIT_STEPS_SECONDS = [60, 30, 15, 1];
+
+  /** A number with an optional unit: "2", "2.5 min", "30s", "1 hour". */
+  private static readonly DURATION_TERM =
+    /(\d+(?:\.\d+)?)\s*(hours?|hrs?|h|minutes?|mins?|m|seconds?|secs?|s)?(?![a-z])/gi;
+
+  private static readonly UNIT_SECONDS: Record<string, number> = {
+    h: 3600,
+    m: 60,
+    s: 1,
+  };
+
+  /** Seconds for a section `duration` string (ranges at their midpoint); 0 when unreadable. */
+  static durationSeconds(duration: string): number {
+    const range = this.parseDuration(duration);
+    return range
+      ? Math.round((range.minSeconds + range.maxSeconds) / 2)
+      : 0;
+  }
+
+  /**
+   * Read a duration such as "3 minutes", "30 seconds", "1.5 hours", "1h 30m",
+   * "4:30" or "1-2 minutes". A number without a unit takes the unit of the other
+   * end of its range, or minutes. Returns null when there is no number.
+   */
+  static parseDuration(duration: string): DurationRange | null {
+    const clock = duration.match(/(\d+):([0-5]\d)(?::([0-5]\d))?/);
+    if (clock) {
+      const [a, b, c] = clock.slice(1).map((part) => Number(part ?? 0));
+      const seconds =
+        clock[3] === undefined ? a * 60 + b : a * 3600 + b * 60 + c;
+      return { minSeconds: seconds, maxSeconds: seconds };
+    }
+
+    const [low, high] = duration.split(
+      /\s*(?:-|–|—|\bto\b)\s*(?=\d)/i,
+      2
+    );
+    const upper =
+      high !== undefined ? this.sumTerms(high, "m") : null;
+    const lower = this.sumTerms(low, upper?.firstUnit ?? "m");
+    if (!lower) return null;
+    if (!upper) {
+      return { minSeconds: lower.seconds, maxSeconds: lower.seconds };
+    }
+    return {
+      minSeconds: Math.min(lower.seconds, upper.seconds),
+      maxSeconds: Math.max(lower.seconds, upper.seconds),
+    };
+  }
+
+  /** Total of every term in `text`, e.g. "1 hour 30 minutes"; null when there is none. */
+  private static sumTerms(
+    text: string,
+    defaultUnit: string
+  ): { seconds: number; firstUnit: string } | null {
+    const terms = [...text.matchAll(this.DURATION_TERM)];
+    if (terms.length === 0) return null;
+    const unitOf = (term: RegExpMatchArray) =>
+      term[2]?.[0].toLowerCase() ?? defaultUnit;
+    return {
+      seconds: Math.round(
+        terms.reduce(
+          (total, term) =>
+            total + parseFloat(term[1]) * this.UNIT_SECONDS[unitOf(term)],
+          0
+        )
+      ),
+      firstUnit: unitOf(terms[0]),
+    };
+  }
+
+  /** Target length of the talk, from the config's time profile. */
+  static targetSeconds(config: PresentationConfig): number {
+    return Profiles.durationMinutes(config) * 60;
+  }
+
+  /**
+   * Project the finish time from the time spent so far: elapsed time, plus what is
+   * left of the current section, plus the planned time of every later section.
+   */
+  static project(
+    runOfShow: RunOfShow,
+    config: PresentationConfig,
+    currentIndex: number,
+    elapsedSeconds: number,
+    sectionElapsedSeconds: number
+  ): PacingProjection {
+    const planned = runOfShow.sections.map((section) =>
+      this.durationSeconds(section.duration)
+    );
+    const remainingCurrent = Math.max(
+      0,
+      (planned[currentIndex] ?? 0) - sectionElapsedSeconds
+    );
+    const remainingLater = planned
+      .slice(currentIndex + 1)
+      .reduce((total, seconds) => total + seconds, 0);
+
+    const targetSeconds = this.targetSeconds(config);
+    const projectedSeconds =
+      elapsedSeconds + remainingCurrent + remainingLater;
+    const driftSeconds = projectedSeconds - targetSeconds;
+
+    return {
+      status:
+        driftSeconds > this.OVER_TOLERANCE_SECONDS
+          ? "over"
+          : driftSeconds < -this.UNDER_TOLERANCE_SECONDS
+            ? "under"
+            : "on-track",
+      driftSeconds,
+      targetSeconds,
+      projectedSeconds,
+    };
+  }
+
+  /** Total planned seconds across all sections. */
+  static plannedSeconds(sections: RunOfShow["sections"]): number {
+    return sections.reduce(
+      (total, section) => total + this.durationSeconds(section.duration),
+      0
+    );
+  }
+
+  /**
+   * Compare the planned total with `targetSeconds`. The plan is "within" budget
+   * when it is off by at most 10% of the target (and at least a minute).
+   */
+  static checkBudget(
+    sections: RunOfShow["sections"],
+    targetSeconds: number
+  ): DurationBudget {
+    const plannedSeconds = this.plannedSeconds(sections);
+    const driftSeconds = plannedSeconds - targetSeconds;
+    const toleranceSeconds = Math.max(
+      this.MIN_BUDGET_TOLERANCE_SECONDS,
+      Math.round(targetSeconds * this.BUDGET_TOLERANCE_RATIO)
+    );
+
+    return {
+      status:
+        driftSeconds > toleranceSeconds
+          ? "over"
+          : driftSeconds < -toleranceSeconds
+            ? "under"
+            : "within",
+      plannedSeconds,
+      targetSeconds,
+      driftSeconds,
+      toleranceSeconds,
+      unreadable: sections.flatMap((section, index) =>
+        this.parseDuration(section.duration) ? [] : [index]
+      ),
+    };
+  }
+
+  /** Duration string in the generated format, e.g. "3 minutes". */
+  static formatMinutes(minutes: number): string {
+    return `${minutes} minute${minutes === 1 ? "" : "s"}`;
+  }
+
+  /** Duration string for any length: "45 seconds", "2.5 minutes", "3 minutes 10 seconds". */
+  static formatDuration(seconds: number): string {
+    const rounded = Math.round(seconds);
+    if (rounded < 60) {
+      return `${rounded} second${rounded === 1 ? "" : "s"}`;
+    }
+    if (rounded % 30 === 0) return this.formatMinutes(rounded / 60);
+    const rest = rounded % 60;
+    return `${this.formatMinutes(Math.floor(rounded / 60))} ${rest} second${
+      rest === 1 ? "" : "s"
+    }`;
+  }
+
+  /**
+   * Rescale section durations proportionally so they add up to `targetSeconds`,
+   * in whole minutes with at least one minute per section, or in half or quarter
+   * minutes (or, past that, whole seconds) when there are too many sections for
+   * that. Sections without a parseable duration are weighted like an average
+   * section.
+   */
+  static fitDurations(
+    sections: RunOfShow["sections"],
+    targetSeconds: number
+  ): RunOfShow["sections"] {
+    if (sections.length === 0) return sections;
+
+    const parsed = sections.map((s) => this.durationSeconds(s.duration));
+    const known = parsed.filter((seconds) => seconds > 0);
+    const fallback = known.length
+      ? known.reduce((a, b) => a + b, 0) / known.length
+      : 60;
+    const weights = parsed.map((seconds) => seconds || fallback);
+    const totalWeight = weights.reduce((a, b) => a + b, 0);
+
+    // Largest-remainder rounding keeps the total exact.
+    const step =
+      this.FIT_STEPS_SECONDS.find(
+        (seconds) => targetSeconds >= sections.length * seconds
+      ) ?? this.FIT_STEPS_SECONDS[this.FIT_STEPS_SECONDS.length - 1];
+    const targetSteps = Math.round(targetSeconds / step);
+    const exact = weights.map((w) => (w / totalWeight) * targetSteps);
+    const steps = exact.map((m) => Math.max(1, Math.floor(m)));
+    let remaining =
+      targetSteps - steps.reduce((a, b) => a + b, 0);
+    const byRemainder = exact
+      .map((m, index) => ({ index, remainder: m - Math.floor(m) }))
+      .sort((a, b) => b.remainder - a.remainder);
+    for (const { index } of byRemainder) {
+      if (remaining <= 0) break;
+      steps[index]++;
+      remaining--;
+    }
+    // Raising small sections to one step can overshoot; take it back from the
+    // longest sections.
+    while (remaining < 0) {
+      const longest = steps.indexOf(Math.max(...steps));
+      if (steps[longest] <= 1) break;
+      steps[longest]--;
+      remaining++;
+    }
+
+    return sections.map((section, index) => ({
+      ...section,
+      duration: this.formatDuration(steps[index] * step),
+    }));
+  }
+
+  /** Format seconds as `m:ss` (or `h:mm:ss`); the sign is dropped. */
+  static formatClock(totalSeconds: number): string {
+    const seconds = Math.abs(Math.round(totalSeconds));
+    const h = Math.floor(seconds / 3600);
+    const m = Math.floor((seconds % 3600) / 60);
+    const s = String(seconds % 60).padStart(2, "0");
+    return h > 0 ? `${h}:${String(m).padStart(2, "0")}:${s}` : `${m}:${s}`;
+  }
+}
@@ -0,0 +1,304 @@
+/**
+ * @file profiles.ts
+ * @description
+ * Audience and time-constraint profiles: the data behind a `PresentationConfig`.
+ * An audience profile carries the context and focus areas the prompt is tailored
+ * to; a time profile carries the talk length in minutes and pacing guidance.
+ *
+ * @remarks
+ * - The built-in profiles (conference, internal, ..., 5min ... 1hour) are defined
+ *   here; custom profiles are stored server-side (see `storage`'s ProfileStore).
+ * - Configs reference profiles by id and also keep a snapshot of their labels and
+ *   length, so saved presentations still read correctly after a custom profile is
+ *   edited or deleted. The helpers below prefer that snapshot.
+ * - Pure functions; safe to import from client components.
+ */
+
+import type { PresentationConfig } from "@/app/page";
+
+export interface AudienceProfile {
+  kind: "audience";
+  id: string;
+  label: string;
+  /** One-line description shown in the options picker. */
+  description: string;
+  /** Who the audience is and what they expect; completes "presenting this repository to ...". */
+  context: string;
+  focusAreas: string;
+  /** Extra instructions appended to the prompt, e.g. hands-on exercises for workshops. */
+  instructions?: string;
+  builtIn?: boolean;
+}
+
+export interface TimeProfile {
+  kind: "time";
+  id: string;
+  label: string;
+  minutes: number;
+  /** Scope and depth guidance; derived from the nearest built-in when empty. */
+  guidance: string;
+  builtIn?: boolean;
+}
+
+export type Profile = AudienceProfile | TimeProfile;
+
+/** Fields supplied by the client when creating or editing a custom profile. */
+export type NewProfile =
+  | Omit<AudienceProfile, "id" | "builtIn">
+  | Omit<TimeProfile, "id" | "builtIn">;
+
+/** A config with its profiles looked up; what `PromptGenerator` works from. */
+export interface ResolvedConfig extends PresentationConfig {
+  audienceProfile: AudienceProfile;
+  timeProfile: TimeProfile;
+}
+
+/** A config references a profile id that is neither built in nor stored. */
+export class UnknownProfileError extends Error {
+  constructor(kind: Profile["kind"], id: string) {
+    super(
+      `Unknown ${kind === "audience" ? "audience" : "time constraint"} profile "${id}". It may have been deleted.`
+    );
+    this.name = "UnknownProfileError";
+  }
+}
+
+export const BUILT_IN_AUDIENCES: AudienceProfile[] = [
+  {
+    kind: "audience",
+    id: "conference",
+    label: "Conference Talk",
+    description: "Technical presentation for developer audience",
+    context:
+      "developer conference with technical audience expecting innovative solutions, best practices, and cutting-edge approaches",
+    focusAreas:
+      "technical innovation, architecture decisions, performance optimizations, unique solutions",
+    builtIn: true,
+  },
+  {
+    kind: "audience",
+    id: "internal",
+    label: "Internal Demo",
+    description: "Team demonstration or standup presentation",
+    context:
+      "team demonstration focusing on implementation details, architectural decisions, and collaboration benefits",
+    focusAreas:
+      "implementation approach, team collaboration, development workflow, technical debt solutions",
+    builtIn: true,
+  },
+  {
+    kind: "audience",
+    id: "client",
+    label: "Client Presentation",
+    description: "Business-focused demo for stakeholders",
+    context:
+      "business stakeholder presentation emphasizing value proposition, practical outcomes, and ROI",
+    focusAreas:
+      "business value, user impact, scalability, reliability, time-to-market benefits",
+    builtIn: true,
+  },
+  {
+    kind: "audience",
+    id: "interview",
+    label: "Technical Interview",
+    description: "Code walkthrough for job interviews",
+    context:
+      "technical interview showcasing problem-solving approach, code quality, and engineering thinking",
+    focusAreas:
+      "problem-solving process, code quality, testing approach, scalability considerations",
+    builtIn: true,
+  },
+  {
+    kind: "audience",
+    id: "workshop",
+    label: "Workshop",
+    description: "Hands-on learning session with interactive components",
+    context:
+      "hands-on learning session with interactive components, practical exercises, and audience participation",
+    focusAreas:
+      "practical application, hands-on exercises, interactive demonstrations, learning objectives",
+    instructions:
+      "Include hands-on exercises and interactive elements appropriate for the timeframe",
+    builtIn: true,
+  },
+];
+
+export const BUILT_IN_TIME_PROFILES: TimeProfile[] = [
+  {
+    kind: "time",
+    id: "5min",
+    label: "5 minutes",
+    minutes: 5,
+    guidance:
+      "Lightning talk - hit only the most impressive highlights and key innovations",
+    builtIn: true,
+  },
+  {
+    kind: "time",
+    id: "15min",
+    label: "15 minutes",
+    minutes: 15,
+    guidance:
+      "Balanced overview with key technical details and compelling demonstrations",
+    builtIn: true,
+  },
+  {
+    kind: "time",
+    id: "30min",
+    label: "30 minutes",
+    minutes: 30,
+    guidance:
+      "Comprehensive walkthrough with deep dives into interesting technical sections",
+    builtIn: true,
+  },
+  {
+    kind: "time",
+    id: "1hour",
+    label: "1 hour",
+    minutes: 60,
+    guidance:
+      "Detailed exploration with multiple examples, architecture deep-dives, hands-on exercises, and extensive Q&A preparation",
+    builtIn: true,
+  },
+];
+
+export class Profiles {
+  /** Bounds for a custom time profile, in minutes. */
+  static readonly MIN_MINUTES = 1;
+  static readonly MAX_MINUTES = 480;
+  /** Bound on each free-text field, to keep prompts bounded. */
+  static readonly MAX_TEXT_LENGTH = 500;
+
+  /** Used when a config names no length and its time profile is unknown here. */
+  private static readonly FALLBACK_MINUTES = 15;
+
+  static builtIn(id: string): Profile | undefined {
+    return [...BUILT_IN_AUDIENCES, ...BUILT_IN_TIME_PROFILES].find(
+      (profile) => profile.id === id
+    );
+  }
+
+  /** Display name of the config's audience. */
+  static audienceLabel(config: PresentationConfig): string {
+    return (
+      config.audienceLabel ??
+      this.builtIn(config.audience)?.label ??
+      config.audience
+    );
+  }
+
+  /** Display name of the config's time constraint. */
+  static timeLabel(config: PresentationConfig): string {
+    return (
+      config.timeLabel ??
+      this.builtIn(config.timeConstraint)?.label ??
+      config.timeConstraint
+    );
+  }
+
+  /** Target talk length in minutes. */
+  static durationMinutes(config: PresentationConfig): number {
+    const profile = this.builtIn(config.timeConstraint);
+    return (
+      config.durationMinutes ??
+      (profile?.kind === "time" ? profile.minutes : this.FALLBACK_MINUTES)
+    );
+  }
+
+  /** Guidance of the built-in time profile closest in length. */
+  static defaultGuidance(minutes: number): string {
+    return BUILT_IN_TIME_PROFILES.reduce((best, profile) =>
+      Math.abs(profile.minutes - minutes) < Math.abs(best.minutes - minutes)
+        ? profile
+        : best
+    ).guidance;
+  }
+
+  /** `config` with the snapshot fields taken from the selected profile. */
+  static select(
+    config: PresentationConfig,
+    profile: Profile
+  ): PresentationConfig {
+    return profile.kind === "audience"
+      ? { ...config, audience: profile.id, audienceLabel: profile.label }
+      : {
+          ...config,
+          timeConstraint: profile.id,
+          timeLabel: profile.label,
+          durationMinutes: profile.minutes,
+        };
+  }
+
+  /** A resolved config reduced back to the plain, storable config with fresh snapshots. */
+  static toConfig({
+    audienceProfile,
+    timeProfile,
+    ...config
+  }: ResolvedConfig): PresentationConfig {
+    return this.select(
+      this.select(config, audienceProfile),
+      timeProfile
+    );
+  }
+
+  /** Validate a create/edit request; returns the error body on failure. */
+  static parseInput(
+    body: Record<string, unknown>
+  ): NewProfile | { error: string } {
+    const text = (field: string, required: boolean) => {
+      const value = body[field];
+      if (value === undefined || value === null || value === "") {
+        return required ? { error: `${field} is required` } : "";
+      }
+      if (typeof value !== "string" || (required && !value.trim())) {
+        return { error: `${field} must be a non-empty string` };
+      }
+      if (value.length > this.MAX_TEXT_LENGTH) {
+        return {
+          error: `${field} must be at most ${this.MAX_TEXT_LENGTH} characters`,
+        };
+      }
+      return value.trim();
+    };
+
+    const label = text("label", true);
+    if (typeof label !== "string") return label;
+
+    if (body.kind === "audience") {
+      const description = text("description", false);
+      const context = text("context", true);
+      const focusAreas = text("focusAreas", true);
+      const instructions = text("instructions", false);
+      for (const value of [description, context, focusAreas, instructions]) {
+        if (typeof value !== "string") return value;
+      }
+      return {
+        kind: "audience",
+        label,
+        description: description as string,
+        context: context as string,
+        focusAreas: focusAreas as string,
+        ...(instructions ? { instructions: instructions as string } : {}),
+      };
+    }
+
+    if (body.kind === "time") {
+      const { minutes } = body;
+      if (
+        typeof minutes !== "number" ||
+        !Number.isInteger(minutes) ||
+        minutes < this.MIN_MINUTES ||
+        minutes > this.MAX_MINUTES
+      ) {
+        return {
+          error: `minutes must be a whole number from ${this.MIN_MINUTES} to ${this.MAX_MINUTES}`,
+        };
+      }
+      const guidance = text("guidance", false);
+      if (typeof guidance !== "string") return guidance;
+      return { kind: "time", label, minutes, guidance };
+    }
+
+    return { error: 'kind must be "audience" or "time"' };
+  }
+}
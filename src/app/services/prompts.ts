@@ -1,71 +1,64 @@
 /**
  * @file PromptGenerator.ts
  * @description
- * Builds a single, comprehensive prompt string for Claude to generate a
- * presentation "run of show" (structured JSON) from a GitHub repository analysis.
+ * Builds a single, comprehensive prompt string for the selected model to generate a
+ * presentation "run of show" (structured JSON) from a repository analysis.
  *
  * @remarks
  * - Inputs:
- *   - `RepoAnalysis` (facts extracted by the GitHub analyzer: README, files, stats).
- *   - `PresentationConfig` (audience, time constraint, and feature flags).
+ *   - `RepoAnalysis` (facts extracted by a repository source provider: README, files, stats).
+ *   - `ResolvedConfig` (the presentation config with its audience and time profiles
+ *     looked up; see `services/profiles`).
  * - Strategy:
  *   - Assembles a system prompt and several well-labeled sections (analysis, requirements,
  *     storytelling guidance, instructions, and the exact JSON output schema).
- *   - Uses audience/time maps to tailor tone, focus, and pacing.
+ *   - Fits the repository content into a token budget with `packContext`
+ *     (`ContextPacker`) instead of fixed character cuts.
+ *   - Uses the audience profile's context and focus areas and the time profile's
+ *     length and guidance to tailor tone, focus, and pacing.
  * - Output:
  *   - Returns a single string optimized for predictable JSON output from the model.
+ *   - `generateRepair` builds the follow-up turn asking the model to fix schema issues.
+ *   - `generateSectionRegeneration` asks for one replacement section that fits the
+ *     existing outline, its neighbours' transitions and its time slot.
+ *   - `generateRefinement` is a follow-up turn asking for a revised whole run of show
+ *     from a presenter's chat request (sent after `generate` and the current JSON).
+ *   - `generateDurationFix` is a follow-up turn asking for a run of show whose
+ *     section durations add up to the target length.
  * - Side effects:
  *   - None; this class is pure string composition.
  */
 
+import type { ArchitectureSummary } from "./codeInsights";
+import type { Manifest } from "./manifests";
+import { History, type ProjectHistory } from "./history";
+import type { QualityReport } from "./quality";
 import type { RepoAnalysis } from "./github";
-import type { PresentationConfig } from "@/app/page";
+import type {
+  ContextSection,
+  RefinementTurn,
+  RunOfShow,
+} from "@/app/page";
+import {
+  ContextPacker,
+  type ContextCandidate,
+  type PackedContext,
+} from "./contextPacker";
+import { Pacing, type DurationBudget } from "./pacing";
+import type { ResolvedConfig } from "./profiles";
+import type { SchemaIssue } from "./runOfShowSchema";
 
 export class PromptGenerator {
-  /** Audience-specific contextualization used to tailor tone and content. */
-  private static readonly AUDIENCE_CONTEXT = {
-    conference:
-      "developer conference with technical audience expecting innovative solutions, best practices, and cutting-edge approaches",
-    internal:
-      "team demonstration focusing on implementation details, architectural decisions, and collaboration benefits",
-    client:
-      "business stakeholder presentation emphasizing value proposition, practical outcomes, and ROI",
-    interview:
-      "technical interview showcasing problem-solving approach, code quality, and engineering thinking",
-    workshop:
-      "hands-on learning session with interactive components, practical exercises, and audience participation",
-  } as const;
-
-  /** Time-slot guidance to constrain scope and depth. */
-  private static readonly TIME_GUIDANCE = {
-    "5min":
-      "Lightning talk - hit only the most impressive highlights and key innovations",
-    "15min":
-      "Balanced overview with key technical details and compelling demonstrations",
-    "30min":
-      "Comprehensive walkthrough with deep dives into interesting technical sections",
-    "1hour":
-      "Detailed exploration with multiple examples, architecture deep-dives, hands-on exercises, and extensive Q&A preparation",
-  } as const;
-
-  /** Primary focus areas per audience to shape emphasis. */
-  private static readonly FOCUS_AREAS = {
-    conference:
-      "technical innovation, architecture decisions, performance optimizations, unique solutions",
-    internal:
-      "implementation approach, team collaboration, development workflow, technical debt solutions",
-    client:
-      "business value, user impact, scalability, reliability, time-to-market benefits",
-    interview:
-      "problem-solving process, code quality, testing approach, scalability considerations",
-    workshop:
-      "practical application, hands-on exercises, interactive demonstrations, learning objectives",
-  } as const;
+  /**
+   * Version of the prompt text, part of every cached generation's key. Bump it
+   * whenever a change to this class should invalidate cached runs of show.
+   */
+  static readonly VERSION = 1;
 
   /**
    * Compose the full model prompt:
    * - system prompt
-   * - repository analysis block
+   * - repository analysis block (packed with `packContext` unless given)
    * - requirements based on config
    * - storytelling framework
    * - actionable instructions
@@ -73,10 +66,11 @@ export class PromptGenerator {
    */
   static generate(
     repoAnalysis: RepoAnalysis,
-    config: PresentationConfig
+    config: ResolvedConfig,
+    context: PackedContext = this.packContext(repoAnalysis)
   ): string {
     const sections = [
-      this.buildRepoAnalysisSection(repoAnalysis),
+      this.buildRepoAnalysisSection(repoAnalysis, context),
       this.buildRequirementsSection(config),
       this.buildStorytellingSection(),
       this.buildInstructionsSection(config),
@@ -89,22 +83,262 @@ export class PromptGenerator {
     ].join("\n\n");
   }
 
+  /**
+   * Follow-up prompt asking the model to fix output that failed schema validation.
+   * Sent after the model's previous reply, so it only needs to list the problems.
+   */
+  static generateRepair(issues: SchemaIssue[]): string {
+    const problems = issues
+      .map((issue) => `- ${issue.path}: ${issue.message}`)
+      .join("\n");
+
+    return `Your previous response did not match the required JSON structure. Fix these problems:
+${problems}
+
+Return the complete corrected JSON object only, with no code fences or commentary. Keep all content that was already valid.`;
+  }
+
+  /**
+   * Prompt for replacing a single section of an existing run of show. Reuses the
+   * same system prompt, repository analysis and requirements as `generate`, adds
+   * the current outline for continuity, and keeps the section's time slot.
+   *
+   * @param index - Position of the section to replace in `runOfShow.sections`.
+   * @param instruction - Optional presenter direction (e.g. "more code, less business").
+   */
+  static generateSectionRegeneration(
+    repoAnalysis: RepoAnalysis,
+    config: ResolvedConfig,
+    runOfShow: RunOfShow,
+    index: number,
+    instruction?: string
+  ): string {
+    const section = runOfShow.sections[index];
+    const previous = runOfShow.sections[index - 1];
+    const next = runOfShow.sections[index + 1];
+
+    const outline = runOfShow.sections
+      .map(
+        (s, i) =>
+          `${i + 1}. ${s.title} (${s.duration})${
+            i === index ? "  <-- SECTION TO REPLACE" : ""
+          }`
+      )
+      .join("\n");
+
+    const tasks = [
+      `- Write a new version of section ${index + 1} only; every other section stays as it is`,
+      `- Keep the duration at "${section.duration}" so the talk still fits the ${config.timeProfile.minutes}-minute slot`,
+      previous
+        ? `- Open with a natural transition from the previous section, "${previous.title}"`
+        : "- This is the opening section: hook the audience immediately",
+      next
+        ? `- End by setting up the next section, "${next.title}"`
+        : "- This is the final section: lead into the closing and call-to-action",
+      "- Do not repeat material already covered by other sections",
+      instruction
+        ? `- Presenter's direction for this rewrite: ${instruction}`
+        : "- Make it more specific to this codebase and more engaging than the current version",
+    ];
+
+    return [
+      this.buildSystemPrompt(config),
+      this.buildRepoAnalysisSection(
+        repoAnalysis,
+        this.packContext(repoAnalysis)
+      ),
+      this.buildRequirementsSection(config),
+      `CURRENT RUN OF SHOW: "${runOfShow.title}"
+${runOfShow.overview}
+
+Outline:
+${outline}`,
+      `CURRENT VERSION OF THE SECTION:
+${JSON.stringify(section, null, 2)}`,
+      `TASK:
+${tasks.join("\n")}`,
+      `Return a single JSON object for the replacement section with this exact structure (ensure valid JSON syntax):
+{
+  "title": "Section name that clearly indicates what will be covered",
+  "duration": "${section.duration}",
+  "content": "Detailed description of what to present in this section, including specific talking points and technical highlights",
+  "presenterNotes": ["Timing, emphasis and transition notes"],
+  "keyPoints": ["Primary takeaways for the audience"]
+}`,
+    ].join("\n\n");
+  }
+
+  /**
+   * Follow-up prompt for a refinement chat turn. Sent after the original `generate`
+   * prompt and an assistant turn holding the current run of show JSON, so it only
+   * needs the presenter's request and what was asked earlier in the chat.
+   *
+   * @param instruction - The presenter's request, e.g. "cut this to 10 minutes".
+   * @param history - Previous turns of this chat, oldest first; already reflected
+   *   in the current JSON.
+   */
+  static generateRefinement(
+    instruction: string,
+    history: RefinementTurn[] = []
+  ): string {
+    const turns = history
+      .map((turn) => `- "${turn.instruction}" (you: ${turn.summary})`)
+      .join("\n");
+    const earlier = turns
+      ? `Earlier requests in this conversation (already applied to the JSON above; keep them in effect unless the new request overrides them):
+${turns}
+
+`
+      : "";
+
+    return `The JSON above is the current run of show, including any edits the presenter made by hand.
+
+${earlier}Revise it according to this request from the presenter:
+${instruction}
+
+Guidelines:
+- Change only what the request calls for; keep everything else as it is
+- Keep section durations consistent with the requested length (the sum of durations is the talk length)
+- Stay specific to the repository analyzed above
+
+Reply with a single line starting with "Summary:" that describes what you changed, then the complete revised JSON object with the same structure as before (ensure valid JSON syntax).`;
+  }
+
+  /**
+   * Follow-up prompt asking the model to bring its run of show onto the target
+   * length. Sent after the model's reply (or its JSON), so it only needs the
+   * measured totals and which durations could not be read.
+   */
+  static generateDurationFix(budget: DurationBudget): string {
+    const planned = Pacing.formatDuration(budget.plannedSeconds);
+    const target = Pacing.formatDuration(budget.targetSeconds);
+    const problems = [
+      budget.status === "over"
+        ? `- The section durations add up to ${planned}, but the talk must fit in ${target}. Trim it: shorten sections and cut or merge lower-priority material, rather than only changing the numbers`
+        : budget.status === "under"
+          ? `- The section durations add up to only ${planned}, but the talk is ${target} long. Expand the sections with more depth, examples or demo time so the content fills the slot`
+          : null,
+      budget.unreadable.length > 0
+        ? `- These sections have a duration that is not a length of time: ${budget.unreadable
+            .map((index) => index + 1)
+            .join(", ")}`
+        : null,
+    ].filter(Boolean);
+
+    return `The run of show above does not fit the time slot:
+${problems.join("\n")}
+
+Make the durations add up to ${target}. Write every duration as a single length such as "3 minutes", "1.5 minutes" or "45 seconds" (no ranges), and keep the content of each section consistent with its new duration.
+
+Return the complete revised JSON object only, with no code fences or commentary.`;
+  }
+
   /** System-role guidance that sets audience context and expectations. */
   private static buildSystemPrompt(
-    config: PresentationConfig
+    config: ResolvedConfig
   ): string {
-    return `You are an expert presentation coach specializing in technical demos and developer advocacy. Create a compelling, well-structured run-of-show for presenting this GitHub repository to ${
-      this.AUDIENCE_CONTEXT[config.audience]
-    }.`;
+    return `You are an expert presentation coach specializing in technical demos and developer advocacy. Create a compelling, well-structured run-of-show for presenting this repository to ${config.audienceProfile.context}.`;
+  }
+
+  /**
+   * Pack the repository analysis into the prompt's token budget: every section is
+   * rendered as a candidate (key files one each, ranked by relevance) and fitted by
+   * `ContextPacker`. The report goes into response metadata.
+   */
+  static packContext(
+    repoAnalysis: RepoAnalysis,
+    budgetTokens = ContextPacker.DEFAULT_BUDGET_TOKENS
+  ): PackedContext {
+    const candidates: ContextCandidate[] = [
+      {
+        section: "quality",
+        id: "quality",
+        text: this.buildQualitySection(repoAnalysis.quality),
+        relevance: 1,
+        shrink: "truncate",
+      },
+      {
+        section: "structure",
+        id: "structure",
+        text: repoAnalysis.fileStructure.join("\n"),
+        relevance: 1,
+        shrink: "truncate",
+      },
+    ];
+    if (repoAnalysis.readme.trim()) {
+      candidates.push({
+        section: "readme",
+        id: "README",
+        text: repoAnalysis.readme,
+        relevance: 1,
+        shrink: "markdown",
+      });
+    }
+    if (repoAnalysis.history) {
+      candidates.push({
+        section: "timeline",
+        id: "timeline",
+        text: this.buildTimelineSection(repoAnalysis.history),
+        relevance: 1,
+        shrink: "truncate",
+      });
+    }
+    if (repoAnalysis.manifests.length > 0) {
+      candidates.push({
+        section: "dependencies",
+        id: "dependencies",
+        text: this.buildDependencySection(repoAnalysis.manifests),
+        relevance: 1,
+        shrink: "truncate",
+      });
+    }
+    if (repoAnalysis.architecture) {
+      candidates.push({
+        section: "architecture",
+        id: "architecture",
+        text: this.buildArchitectureSection(repoAnalysis.architecture),
+        relevance: 1,
+        shrink: "truncate",
+      });
+    }
+
+    // Key files arrive ranked by `FileTree`; hub modules and files the README
+    // mentions move up.
+    const hubs = new Set(
+      repoAnalysis.architecture?.hubs.map((hub) => hub.path) ?? []
+    );
+    const count = repoAnalysis.keyFiles.length;
+    repoAnalysis.keyFiles.forEach((file, index) => {
+      const basename = file.path.slice(file.path.lastIndexOf("/") + 1);
+      candidates.push({
+        section: "keyFiles",
+        id: file.path,
+        text: `${file.path} (${file.type}):\n${file.content}`,
+        relevance:
+          count -
+          index +
+          (hubs.has(file.path) ? count : 0) +
+          (repoAnalysis.readme.includes(basename) ? count / 2 : 0),
+        shrink: "code",
+      });
+    });
+
+    return ContextPacker.pack(candidates, budgetTokens);
   }
 
   /**
-   * Inject concrete repo facts to the model:
-   * - basic metadata, README excerpt, top-level structure, and selected key files.
+   * Inject concrete repo facts to the model: basic metadata, then the packed
+   * README, repository tree, key files, quality, architecture, dependency and
+   * timeline sections (see `packContext`).
    */
   private static buildRepoAnalysisSection(
-    repoAnalysis: RepoAnalysis
+    repoAnalysis: RepoAnalysis,
+    context: PackedContext
   ): string {
+    const { sections } = context;
+    const optional = (section: ContextSection) =>
+      sections[section].length ? `\n\n${sections[section].join("\n\n")}` : "";
+
     return `REPOSITORY ANALYSIS:
 - Name: ${repoAnalysis.name}
 - Description: ${repoAnalysis.description}
@@ -113,40 +347,300 @@ export class PromptGenerator {
 - Repository Stats: ${repoAnalysis.stats.stars} stars, ${
       repoAnalysis.stats.forks
     } forks
-- Size: ${repoAnalysis.stats.size}KB
+- Size: ${repoAnalysis.stats.size}KB${
+      repoAnalysis.revision
+        ? `\n- Revision: ${repoAnalysis.revision.ref} (commit ${repoAnalysis.revision.commitSha.slice(
+            0,
+            7
+          )})`
+        : ""
+    }${
+      repoAnalysis.revision?.subpath
+        ? `\n- Scope: only the "${repoAnalysis.revision.subpath}/" directory is analyzed; paths below are relative to it`
+        : ""
+    }
 
 README CONTENT:
-${repoAnalysis.readme}
+${sections.readme.join("\n") || "(none)"}
 
 REPOSITORY STRUCTURE:
-${repoAnalysis.fileStructure.join("\n")}
+${sections.structure.join("\n")}
 
 KEY FILES ANALYZED:
-${repoAnalysis.keyFiles
-  .map((f) => `${f.path} (${f.type}):\n${f.content}`)
-  .join("\n\n")}
-
-${
-  repoAnalysis.packageJson
-    ? `CONFIGURATION/DEPENDENCIES:\n${JSON.stringify(
-        repoAnalysis.packageJson,
-        null,
-        2
-      ).slice(0, 1000)}`
-    : ""
-}`;
-  }
-
-  /** Translate `PresentationConfig` into explicit, model-readable requirements. */
+${sections.keyFiles.join("\n\n")}${optional("quality")}${optional(
+      "architecture"
+    )}${optional("dependencies")}${optional("timeline")}`;
+  }
+
+  /**
+   * Render the project timeline: origin, releases (oldest first), commit activity
+   * over the last year with its trend, top contributors and recently merged PRs.
+   */
+  private static buildTimelineSection(history: ProjectHistory): string {
+    const lines = [
+      "PROJECT TIMELINE (use it to narrate how the project evolved):",
+    ];
+
+    if (history.firstCommitAt || history.totalCommits !== undefined) {
+      lines.push(
+        `- ${[
+          history.firstCommitAt &&
+            `First commit: ${History.day(history.firstCommitAt)}`,
+          history.totalCommits !== undefined &&
+            `${history.totalCommits} commit${
+              history.totalCommits === 1 ? "" : "s"
+            } in total`,
+        ]
+          .filter(Boolean)
+          .join("; ")}`
+      );
+    }
+
+    if (history.releases.length > 0) {
+      lines.push(
+        `- Releases (oldest first): ${[...history.releases]
+          .reverse()
+          .map(
+            (release) =>
+              `${release.tag}${release.name ? ` "${release.name}"` : ""}${
+                release.date ? ` (${History.day(release.date)})` : ""
+              }${release.prerelease ? " [pre-release]" : ""}`
+          )
+          .join(", ")}`
+      );
+    }
+
+    if (history.activity.length > 0) {
+      const busiest = history.activity.reduce((max, entry) =>
+        entry.commits > max.commits ? entry : max
+      );
+      const trend = History.trend(history.activity);
+      lines.push(
+        `- Commits per month, last year: ${history.activity
+          .map((entry) => `${entry.month}: ${entry.commits}`)
+          .join(", ")} (busiest ${busiest.month}${
+          trend ? `; activity ${trend} over the last three months` : ""
+        })`
+      );
+    }
+
+    if (history.contributors.length > 0) {
+      lines.push(
+        `- Top contributors (commits): ${history.contributors
+          .map((contributor) => `${contributor.login} (${contributor.commits})`)
+          .join(", ")}`
+      );
+    }
+
+    if (history.mergedPullRequests.length > 0) {
+      lines.push("- Recently merged pull requests:");
+      for (const pull of history.mergedPullRequests) {
+        lines.push(
+          `  - #${pull.number} ${pull.title} (${History.day(pull.mergedAt)}${
+            pull.author ? `, ${pull.author}` : ""
+          })`
+        );
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Render how the project guards quality: test frameworks, test directories and
+   * counts, CI workflows and what they run, linters and type checking.
+   */
+  private static buildQualitySection(quality: QualityReport): string {
+    const tools = (list: QualityReport["linters"]) =>
+      list.length
+        ? list.map((tool) => `${tool.name} (${tool.evidence})`).join(", ")
+        : "none detected";
+    const total = quality.testFiles + quality.sourceFiles;
+
+    const lines = [
+      "TESTING & QUALITY:",
+      `- Test frameworks: ${tools(quality.testFrameworks)}`,
+      `- Test files: ~${quality.testFiles} of ${total} source files${
+        total ? ` (${Math.round((quality.testFiles / total) * 100)}%)` : ""
+      }${
+        quality.testDirectories.length
+          ? `; test directories: ${quality.testDirectories
+              .map((directory) => `${directory.path}/ (${directory.files})`)
+              .join(", ")}`
+          : ""
+      }`,
+    ];
+
+    if (quality.ci.length === 0) {
+      lines.push("- CI: none detected");
+    } else {
+      lines.push("- CI:");
+      for (const workflow of quality.ci) {
+        const details = [
+          workflow.triggers.length && `on ${workflow.triggers.join(", ")}`,
+          workflow.jobs.length && `jobs: ${workflow.jobs.join(", ")}`,
+          workflow.checks.length && `runs ${workflow.checks.join(", ")}`,
+        ].filter(Boolean);
+        lines.push(
+          `  - ${workflow.provider}: ${workflow.file}${
+            workflow.name ? ` "${workflow.name}"` : ""
+          }${details.length ? ` (${details.join("; ")})` : ""}`
+        );
+      }
+    }
+
+    lines.push(`- Linters and formatters: ${tools(quality.linters)}`);
+    lines.push(`- Type checking: ${tools(quality.typeCheckers)}`);
+    return lines.join("\n");
+  }
+
+  /**
+   * Render each manifest as a compact dependency summary: identity, runtime and
+   * development dependencies with their constraints, and scripts.
+   */
+  private static buildDependencySection(manifests: Manifest[]): string {
+    const MAX_DEPENDENCIES = 25;
+    const MAX_SCRIPTS = 10;
+    const MAX_SCRIPT_LENGTH = 80;
+    const list = (items: string[], limit: number) =>
+      items.length > limit
+        ? `${items.slice(0, limit).join(", ")}, +${items.length - limit} more`
+        : items.join(", ");
+    const dependencyList = (dependencies: Record<string, string>) =>
+      list(
+        Object.entries(dependencies).map(([name, version]) =>
+          version ? `${name} ${version}` : name
+        ),
+        MAX_DEPENDENCIES
+      );
+
+    const lines = ["DEPENDENCIES:"];
+    for (const manifest of manifests) {
+      const identity = [manifest.name, manifest.version]
+        .filter(Boolean)
+        .join(" ");
+      lines.push(
+        `- ${manifest.file} (${manifest.ecosystem})${identity ? `: ${identity}` : ""}`
+      );
+
+      const runtime = Object.keys(manifest.dependencies).length;
+      const dev = Object.keys(manifest.devDependencies).length;
+      if (runtime > 0) {
+        lines.push(
+          `  Dependencies (${runtime}): ${dependencyList(manifest.dependencies)}`
+        );
+      }
+      if (dev > 0) {
+        lines.push(
+          `  Dev dependencies (${dev}): ${dependencyList(manifest.devDependencies)}`
+        );
+      }
+      if (runtime === 0 && dev === 0) {
+        lines.push("  No dependencies declared");
+      }
+
+      const scripts = Object.entries(manifest.scripts).map(
+        ([name, command]) =>
+          `${name} (${
+            command.length > MAX_SCRIPT_LENGTH
+              ? `${command.slice(0, MAX_SCRIPT_LENGTH)}...`
+              : command
+          })`
+      );
+      if (scripts.length > 0) {
+        lines.push(`  Scripts: ${list(scripts, MAX_SCRIPTS)}`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /**
+   * Render the code-intelligence summary: hub modules with their exports, imports
+   * between directories, external packages, circular imports, and the exports of
+   * the other most-imported modules.
+   */
+  private static buildArchitectureSection(
+    architecture: ArchitectureSummary
+  ): string {
+    const MAX_EXPORTS = 8;
+    const MAX_MODULES = 15;
+    const exportList = (mod: ArchitectureSummary["modules"][number]) => {
+      const names = mod.exports
+        .slice(0, MAX_EXPORTS)
+        .map((symbol) => `${symbol.name} (${symbol.kind})`);
+      if (mod.exports.length > MAX_EXPORTS) {
+        names.push(`+${mod.exports.length - MAX_EXPORTS} more`);
+      }
+      return names.length ? names.join(", ") : "none";
+    };
+
+    const lines = [
+      `CODE ARCHITECTURE (static analysis of ${architecture.modulesAnalyzed} TypeScript/JavaScript modules${
+        architecture.modulesSkipped
+          ? `; ${architecture.modulesSkipped} more not analyzed`
+          : ""
+      }):`,
+    ];
+
+    if (architecture.hubs.length > 0) {
+      lines.push("Hub modules (imported by many others):");
+      for (const hub of architecture.hubs) {
+        lines.push(
+          `- ${hub.path}: imported by ${hub.importedBy}, imports ${hub.imports.length}; exports ${exportList(hub)}`
+        );
+      }
+    }
+
+    if (architecture.directoryDependencies.length > 0) {
+      lines.push("Dependencies between directories:");
+      for (const edge of architecture.directoryDependencies) {
+        lines.push(
+          `- ${edge.from} -> ${edge.to} (${edge.imports} import${
+            edge.imports === 1 ? "" : "s"
+          })`
+        );
+      }
+    }
+
+    if (architecture.packages.length > 0) {
+      lines.push(
+        `External packages (modules importing each): ${architecture.packages
+          .map((pkg) => `${pkg.name} (${pkg.importers})`)
+          .join(", ")}`
+      );
+    }
+
+    if (architecture.cycles.length > 0) {
+      lines.push("Circular imports:");
+      for (const cycle of architecture.cycles) {
+        lines.push(`- ${cycle.join(" <-> ")}`);
+      }
+    }
+
+    const hubs = new Set(architecture.hubs.map((hub) => hub.path));
+    const others = architecture.modules
+      .filter((mod) => !hubs.has(mod.path) && mod.exports.length)
+      .slice(0, MAX_MODULES);
+    if (others.length > 0) {
+      lines.push("Exports of other modules:");
+      for (const mod of others) {
+        lines.push(`- ${mod.path}: ${exportList(mod)}`);
+      }
+    }
+
+    return lines.join("\n");
+  }
+
+  /** Translate the resolved config into explicit, model-readable requirements. */
   private static buildRequirementsSection(
-    config: PresentationConfig
+    config: ResolvedConfig
   ): string {
     return `PRESENTATION REQUIREMENTS:
-- Target Duration: ${config.timeConstraint}
-- Time Guidance: ${
-      this.TIME_GUIDANCE[config.timeConstraint]
-    }
-- Focus Areas: ${this.FOCUS_AREAS[config.audience]}
+- Audience: ${config.audienceProfile.label}
+- Target Duration: ${config.timeProfile.minutes} minutes (${config.timeProfile.label})
+- Time Guidance: ${config.timeProfile.guidance}
+- Focus Areas: ${config.audienceProfile.focusAreas}
 - Include Q&A Preparation: ${config.includeQA}
 - Include Live Demo Suggestions: ${config.includeLiveDemo}`;
   }
@@ -157,17 +651,17 @@ ${
 Create a narrative arc that follows this structure:
 1. Hook: What problem does this solve that developers care about?
 2. Context: Why is this solution needed/better than alternatives?
-3. Journey: Walk through the most impressive technical decisions
+3. Journey: Walk through the most impressive technical decisions, and how the project got here when a project timeline is given
 4. Impact: What makes this worth paying attention to?
 5. Call-to-action: What should the audience do next?`;
   }
 
   /**
    * Concrete directives that shape pacing, depth, and delivery.
-   * Adds workshop-specific guidance when applicable.
+   * Appends the audience profile's own instructions (e.g. workshop exercises).
    */
   private static buildInstructionsSection(
-    config: PresentationConfig
+    config: ResolvedConfig
   ): string {
     const baseInstructions = `SPECIFIC INSTRUCTIONS:
 - Identify the 2-3 most technically impressive aspects of this codebase
@@ -177,12 +671,11 @@ Create a narrative arc that follows this structure:
 - Suggest timing for dramatic pauses, code reveals, or demo moments
 - Anticipate skeptical questions and prepare confident responses`;
 
-    const workshopAddition =
-      config.audience === "workshop"
-        ? "\n- Include hands-on exercises and interactive elements appropriate for the timeframe"
-        : "";
+    const audienceInstructions = config.audienceProfile.instructions
+      ? `\n- ${config.audienceProfile.instructions}`
+      : "";
 
-    return baseInstructions + workshopAddition;
+    return baseInstructions + audienceInstructions;
   }
 
   /**
@@ -190,7 +683,7 @@ Create a narrative arc that follows this structure:
    * Includes optional Q&A blocks depending on `includeQA`.
    */
   private static buildOutputFormatSection(
-    config: PresentationConfig
+    config: ResolvedConfig
   ): string {
     const qaSection = config.includeQA
       ? `
@@ -0,0 +1,55 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { BitbucketProvider } from "../bitbucket";
+import { ProviderHttpError, providerErrorStatus } from "../http";
+import recording from "./fixtures/bitbucket.json";
+import { recordedFetch } from "./recordedFetch";
+
+describe("BitbucketProvider", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("resolves a slashed ref from the URL and follows listing pages", async () => {
+    const { fetch, requests } = recordedFetch(recording);
+    const provider = new BitbucketProvider({ fetch });
+
+    const analysis = await provider.analyzeRepository(
+      "https://bitbucket.org/acme/widget/src/release/1.0/docs",
+      undefined,
+      { refresh: true }
+    );
+
+    expect(analysis).toMatchObject({
+      name: "Widget",
+      description: "Widgets on Bitbucket",
+      language: "python",
+      stats: { size: 20 },
+      revision: { ref: "release/1.0", commitSha: "b1b2b3b4", subpath: "docs" },
+    });
+    expect(analysis.readme).toBe("# Widget docs\n");
+    expect(analysis.fileStructure.join("\n")).toContain("setup.md");
+    // The shorter candidate "release" was tried first.
+    expect(requests).toContain(
+      "https://api.bitbucket.org/2.0/repositories/acme/widget/commit/release"
+    );
+  });
+
+  it("maps an unauthorized response to 403", async () => {
+    const provider = new BitbucketProvider({
+      fetch: recordedFetch({
+        "https://api.bitbucket.org/2.0/repositories/acme/private": {
+          status: 401,
+          body: { error: { message: "Unauthorized" } },
+        },
+      }).fetch,
+    });
+
+    const error = await provider
+      .analyzeRepository("https://bitbucket.org/acme/private")
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ProviderHttpError);
+    expect(error.status).toBe(401);
+    expect(providerErrorStatus(error)).toBe(403);
+  });
+});
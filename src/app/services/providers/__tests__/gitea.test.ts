@@ -0,0 +1,59 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GiteaProvider } from "../gitea";
+import { ProviderHttpError, providerErrorStatus } from "../http";
+import { RevisionNotFoundError } from "../revision";
+import recording from "./fixtures/gitea.json";
+import { recordedFetch } from "./recordedFetch";
+
+const REPO_URL = "https://codeberg.org/acme/widget";
+
+describe("GiteaProvider", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("analyzes a repository from recorded responses", async () => {
+    const provider = new GiteaProvider({ fetch: recordedFetch(recording).fetch });
+
+    const analysis = await provider.analyzeRepository(REPO_URL, undefined, {
+      refresh: true,
+    });
+
+    expect(analysis).toMatchObject({
+      name: "widget",
+      description: "Widgets on Codeberg",
+      language: "Go",
+      topics: ["widgets"],
+      stats: { stars: 7, forks: 1, size: 512 },
+      revision: { ref: "main", commitSha: "c0ffee01", subpath: "" },
+    });
+    expect(analysis.readme).toBe("# widget\n");
+    expect(analysis.manifests[0]).toMatchObject({ ecosystem: "go" });
+  });
+
+  it("reports a missing subdirectory as RevisionNotFoundError", async () => {
+    const provider = new GiteaProvider({ fetch: recordedFetch(recording).fetch });
+
+    await expect(
+      provider.analyzeRepository(REPO_URL, { subpath: "docs" }, { refresh: true })
+    ).rejects.toBeInstanceOf(RevisionNotFoundError);
+  });
+
+  it("maps a forbidden response to 403", async () => {
+    const provider = new GiteaProvider({
+      fetch: recordedFetch({
+        "https://codeberg.org/api/v1/repos/acme/widget": {
+          status: 403,
+          body: { message: "forbidden" },
+        },
+      }).fetch,
+    });
+
+    const error = await provider
+      .analyzeRepository(REPO_URL)
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ProviderHttpError);
+    expect(providerErrorStatus(error)).toBe(403);
+  });
+});
@@ -0,0 +1,78 @@
+import { beforeEach, describe, expect, it, vi } from "vitest";
+import { GitLabProvider } from "../gitlab";
+import { ProviderHttpError, providerErrorStatus } from "../http";
+import { RevisionNotFoundError } from "../revision";
+import recording from "./fixtures/gitlab.json";
+import { recordedFetch } from "./recordedFetch";
+
+const REPO_URL = "https://gitlab.com/acme/tools/widget";
+
+describe("GitLabProvider", () => {
+  beforeEach(() => {
+    vi.spyOn(console, "warn").mockImplementation(() => {});
+  });
+
+  it("analyzes a nested-group project from recorded responses", async () => {
+    const provider = new GitLabProvider({ fetch: recordedFetch(recording).fetch });
+
+    const analysis = await provider.analyzeRepository(REPO_URL, undefined, {
+      refresh: true,
+    });
+
+    expect(analysis).toMatchObject({
+      name: "Widget",
+      description: "A small CLI for widgets",
+      language: "TypeScript",
+      topics: ["cli"],
+      stats: { stars: 42, forks: 3 },
+      revision: { ref: "main", commitSha: "1a2b3c4d", subpath: "" },
+    });
+    expect(analysis.readme).toContain("# Widget");
+    expect(analysis.manifests[0]).toMatchObject({
+      name: "widget",
+      version: "1.2.0",
+    });
+    expect(analysis.fileStructure.join("\n")).not.toContain("vendored");
+  });
+
+  it("reports a missing project as a 404 ProviderHttpError", async () => {
+    const provider = new GitLabProvider({ fetch: recordedFetch({}).fetch });
+
+    const error = await provider
+      .analyzeRepository("https://gitlab.com/acme/missing")
+      .catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(ProviderHttpError);
+    expect(providerErrorStatus(error)).toBe(404);
+  });
+
+  it("reports an unknown ref as RevisionNotFoundError", async () => {
+    const provider = new GitLabProvider({ fetch: recordedFetch(recording).fetch });
+
+    await expect(
+      provider.analyzeRepository(REPO_URL, { ref: "nope" })
+    ).rejects.toBeInstanceOf(RevisionNotFoundError);
+  });
+
+  it("warns when the tree listing hits the page limit", async () => {
+    const recorded = recordedFetch(recording).fetch;
+    const provider = new GitLabProvider({
+      fetch: async (input, init) => {
+        const page = String(input).match(/repository\/tree\?.*page=(\d+)/);
+        if (!page) return recorded(input, init);
+        return Response.json(
+          Array.from({ length: 100 }, (_, index) => ({
+            path: `generated/p${page[1]}/file${index}.txt`,
+            type: "blob",
+          }))
+        );
+      },
+    });
+
+    await provider.analyzeRepository(REPO_URL, undefined, { refresh: true });
+
+    expect(console.warn).toHaveBeenCalledWith(
+      expect.stringContaining("was truncated")
+    );
+  });
+});
@@ -0,0 +1,29 @@
+/**
+ * @file recordedFetch.ts
+ * @description
+ * A `fetch` that replays recorded API responses, for exercising the fetch-based
+ * providers without the network.
+ *
+ * @remarks
+ * - Recordings are keyed by the full request URL. String bodies are served as-is,
+ *   anything else as JSON. Unrecorded URLs answer 404.
+ */
+
+/** Recorded responses by request URL. */
+export type Recording = Record<string, { status?: number; body: unknown }>;
+
+/** A replaying `fetch` plus the URLs it was asked for, in order. */
+export function recordedFetch(recording: Recording) {
+  const requests: string[] = [];
+  const fetchImpl: typeof fetch = async (input) => {
+    const url = String(input);
+    requests.push(url);
+    const entry = recording[url];
+    if (!entry) return new Response("Not Found", { status: 404 });
+    return new Response(
+      typeof entry.body === "string" ? entry.body : JSON.stringify(entry.body),
+      { status: entry.status ?? 200 }
+    );
+  };
+  return { fetch: fetchImpl, requests };
+}
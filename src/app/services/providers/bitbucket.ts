@@ -0,0 +1,178 @@
+/**
+ * @file BitbucketProvider.ts
+ * @description
+ * Repository source provider for Bitbucket Cloud (bitbucket.org), built on the
+ * Bitbucket REST API 2.0.
+ *
+ * @remarks
+ * - Lists files recursively through the `src` endpoint with `max_depth`, following
+ *   the paginated `next` links.
+ * - Understands `/src/<ref>/<path>` URLs for a specific ref and subdirectory.
+ * - Bitbucket has no stars; `stats.stars` is always 0.
+ * - Authenticates with a Bearer token (repository/workspace access token) when configured.
+ */
+
+import type { RepoAnalysis } from "../github";
+import type { TreeEntry } from "../fileTree";
+import { SourceAnalyzer } from "../sourceAnalyzer";
+import { ProviderHttpClient } from "./http";
+import {
+  joinSubpath,
+  mergeTargets,
+  resolveRevision,
+  scopeEntries,
+  targetFromSegments,
+  type RepoTarget,
+} from "./revision";
+import { rememberAnalysis } from "../cache";
+import type {
+  AnalyzeOptions,
+  ParsedRepoUrl,
+  ProviderOptions,
+  RepoSourceProvider,
+} from "./types";
+
+/** Subset of the Bitbucket repository payload used for analysis. */
+interface BitbucketRepository {
+  name: string;
+  slug: string;
+  description: string;
+  language: string;
+  size: number;
+  mainbranch?: { name: string };
+}
+
+interface BitbucketSrcPage {
+  values: Array<{
+    type: "commit_file" | "commit_directory";
+    path: string;
+    size?: number;
+  }>;
+  next?: string;
+}
+
+export class BitbucketProvider implements RepoSourceProvider {
+  readonly id = "bitbucket";
+  readonly label = "Bitbucket";
+
+  private static readonly API_URL = "https://api.bitbucket.org/2.0";
+  private static readonly MAX_DEPTH = 20;
+  private static readonly MAX_PAGES = 50;
+
+  constructor(private readonly options: ProviderOptions = {}) {}
+
+  matches(url: URL): boolean {
+    return url.host === "bitbucket.org";
+  }
+
+  parseRepoUrl(repoUrl: string): ParsedRepoUrl {
+    const [owner, repo, kind, ...refPath] = new URL(repoUrl).pathname
+      .split("/")
+      .filter(Boolean);
+
+    if (!owner || !repo) {
+      throw new Error(
+        "Invalid Bitbucket URL format. Please provide a valid Bitbucket repository URL."
+      );
+    }
+
+    return {
+      owner,
+      repo: repo.replace(/\.git$/, ""),
+      // Bitbucket uses /src/ for both files and directories.
+      target:
+        kind === "src"
+          ? targetFromSegments(
+              refPath,
+              /\.[a-z0-9]+$/i.test(refPath[refPath.length - 1] ?? "")
+            )
+          : {},
+    };
+  }
+
+  async analyzeRepository(
+    repoUrl: string,
+    target?: RepoTarget,
+    options?: AnalyzeOptions
+  ): Promise<RepoAnalysis> {
+    const parsed = this.parseRepoUrl(repoUrl);
+    const { owner, repo } = parsed;
+    const client = new ProviderHttpClient({
+      baseUrl: BitbucketProvider.API_URL,
+      label: this.label,
+      headers: this.options.token
+        ? { Authorization: `Bearer ${this.options.token}` }
+        : {},
+      fetch: this.options.fetch,
+    });
+    const repoPath = `/repositories/${encodeURIComponent(
+      owner
+    )}/${encodeURIComponent(repo)}`;
+
+    const repository = await client.json<BitbucketRepository>(
+      repoPath
+    );
+    const revision = await resolveRevision(
+      mergeTargets(parsed.target, target),
+      repository.mainbranch?.name ?? "HEAD",
+      async (candidate) =>
+        (
+          await client.jsonOrNull<{ hash: string }>(
+            `${repoPath}/commit/${encodeURIComponent(candidate)}`
+          )
+        )?.hash ?? null
+    );
+    return rememberAnalysis(
+      { provider: this.id, owner, repo, revision },
+      options,
+      async () => {
+        const ref = revision.commitSha;
+        const dirPath = revision.subpath
+          ? `${ProviderHttpClient.encodePath(revision.subpath)}/`
+          : "";
+
+        const listed: TreeEntry[] = [];
+        let next: string | undefined = `${repoPath}/src/${ref}/${dirPath}?max_depth=${BitbucketProvider.MAX_DEPTH}&pagelen=100`;
+        for (
+          let page = 0;
+          next && page < BitbucketProvider.MAX_PAGES;
+          page++
+        ) {
+          const data: BitbucketSrcPage =
+            await client.json<BitbucketSrcPage>(next);
+          for (const item of data.values) {
+            listed.push({
+              path: item.path,
+              type: item.type === "commit_directory" ? "dir" : "file",
+              size: item.size,
+            });
+          }
+          next = data.next;
+        }
+        const entries = scopeEntries(listed, revision.subpath);
+
+        const analysis = await SourceAnalyzer.analyze(
+          {
+            name: repository.slug,
+            entries,
+            read: (filePath) =>
+              client.text(
+                `${repoPath}/src/${ref}/${ProviderHttpClient.encodePath(
+                  joinSubpath(revision.subpath, filePath)
+                )}`
+              ),
+          },
+          {
+            name: repository.name,
+            description: repository.description,
+            language: repository.language,
+            stats: {
+              size: Math.round(repository.size / 1024),
+            },
+          }
+        );
+        return { ...analysis, revision };
+      }
+    );
+  }
+}
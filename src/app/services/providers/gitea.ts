@@ -0,0 +1,189 @@
+/**
+ * @file GiteaProvider.ts
+ * @description
+ * Repository source provider for self-hosted Gitea (and Gitea-compatible Forgejo,
+ * e.g. codeberg.org) instances, built on the Gitea REST API v1.
+ *
+ * @remarks
+ * - Hosts are configured explicitly since any domain can run Gitea.
+ * - Understands `/src/{branch,tag,commit}/<ref>/<path>` URLs.
+ * - Uses the GitHub-like recursive `git/trees` endpoint (with sizes), paging
+ *   while the response reports `truncated`.
+ * - Authenticates with an `Authorization: token` header when configured.
+ */
+
+import type { RepoAnalysis } from "../github";
+import type { TreeEntry } from "../fileTree";
+import { SourceAnalyzer } from "../sourceAnalyzer";
+import { ProviderHttpClient } from "./http";
+import {
+  joinSubpath,
+  mergeTargets,
+  resolveRevision,
+  scopeEntries,
+  targetFromSegments,
+  type RepoTarget,
+} from "./revision";
+import { rememberAnalysis } from "../cache";
+import type {
+  AnalyzeOptions,
+  ParsedRepoUrl,
+  ProviderOptions,
+  RepoSourceProvider,
+} from "./types";
+
+/** Subset of the Gitea repository payload used for analysis. */
+interface GiteaRepository {
+  name: string;
+  description: string;
+  language: string;
+  topics?: string[];
+  stars_count: number;
+  forks_count: number;
+  size: number;
+  default_branch: string;
+}
+
+interface GiteaTree {
+  tree: Array<{
+    path: string;
+    type: "blob" | "tree" | "commit";
+    size: number;
+  }>;
+  truncated: boolean;
+}
+
+export class GiteaProvider implements RepoSourceProvider {
+  readonly id = "gitea";
+  readonly label = "Gitea";
+
+  private static readonly PAGE_SIZE = 1000;
+  private static readonly MAX_TREE_PAGES = 20;
+
+  private readonly hosts: string[];
+
+  constructor(
+    private readonly options: ProviderOptions & {
+      /** Hosts served by this provider; defaults to codeberg.org. */
+      hosts?: string[];
+    } = {}
+  ) {
+    this.hosts = options.hosts ?? ["codeberg.org"];
+  }
+
+  matches(url: URL): boolean {
+    return this.hosts.includes(url.host);
+  }
+
+  parseRepoUrl(repoUrl: string): ParsedRepoUrl {
+    const [owner, repo, kind, refKind, ...refPath] = new URL(
+      repoUrl
+    ).pathname
+      .split("/")
+      .filter(Boolean);
+
+    if (!owner || !repo) {
+      throw new Error(
+        "Invalid Gitea URL format. Please provide a valid Gitea repository URL."
+      );
+    }
+
+    return {
+      owner,
+      repo: repo.replace(/\.git$/, ""),
+      target:
+        (kind === "src" || kind === "raw") &&
+        ["branch", "tag", "commit"].includes(refKind)
+          ? targetFromSegments(refPath, kind === "raw")
+          : {},
+    };
+  }
+
+  async analyzeRepository(
+    repoUrl: string,
+    target?: RepoTarget,
+    options?: AnalyzeOptions
+  ): Promise<RepoAnalysis> {
+    const parsed = this.parseRepoUrl(repoUrl);
+    const { owner, repo } = parsed;
+    const client = new ProviderHttpClient({
+      baseUrl: `${new URL(repoUrl).origin}/api/v1`,
+      label: this.label,
+      headers: this.options.token
+        ? { Authorization: `token ${this.options.token}` }
+        : {},
+      fetch: this.options.fetch,
+    });
+    const repoPath = `/repos/${encodeURIComponent(
+      owner
+    )}/${encodeURIComponent(repo)}`;
+
+    const repository = await client.json<GiteaRepository>(repoPath);
+    const revision = await resolveRevision(
+      mergeTargets(parsed.target, target),
+      repository.default_branch,
+      async (candidate) => {
+        const commits = await client.jsonOrNull<Array<{ sha: string }>>(
+          `${repoPath}/commits?sha=${encodeURIComponent(
+            candidate
+          )}&limit=1&stat=false`
+        );
+        return commits?.[0]?.sha ?? null;
+      }
+    );
+    return rememberAnalysis(
+      {
+        provider: `${this.id}:${new URL(repoUrl).host}`,
+        owner,
+        repo,
+        revision,
+      },
+      options,
+      async () => {
+        const ref = revision.commitSha;
+
+        const listed: TreeEntry[] = [];
+        for (let page = 1; page <= GiteaProvider.MAX_TREE_PAGES; page++) {
+          const data = await client.json<GiteaTree>(
+            `${repoPath}/git/trees/${ref}?recursive=true&per_page=${GiteaProvider.PAGE_SIZE}&page=${page}`
+          );
+          for (const item of data.tree) {
+            if (item.type === "commit") continue;
+            listed.push({
+              path: item.path,
+              type: item.type === "tree" ? "dir" : "file",
+              size: item.size,
+            });
+          }
+          if (!data.truncated) break;
+        }
+        const entries = scopeEntries(listed, revision.subpath);
+
+        const analysis = await SourceAnalyzer.analyze(
+          {
+            name: repository.name,
+            entries,
+            read: (filePath) =>
+              client.text(
+                `${repoPath}/raw/${ProviderHttpClient.encodePath(
+                  joinSubpath(revision.subpath, filePath)
+                )}?ref=${ref}`
+              ),
+          },
+          {
+            name: repository.name,
+            description: repository.description,
+            language: repository.language,
+            topics: repository.topics ?? [],
+            stats: {
+              stars: repository.stars_count,
+              forks: repository.forks_count,
+              size: repository.size,
+            },
+          }
+        );
+        return { ...analysis, revision };
+      }
+    );
+  }
+}
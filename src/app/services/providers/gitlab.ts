@@ -0,0 +1,211 @@
+/**
+ * @file GitLabProvider.ts
+ * @description
+ * Repository source provider for gitlab.com and self-hosted GitLab instances,
+ * built on the GitLab REST API v4.
+ *
+ * @remarks
+ * - Supports nested groups (`gitlab.com/group/subgroup/project`) and
+ *   `/-/tree/<ref>/<path>` or `/-/blob/<ref>/<file>` URLs.
+ * - Lists the full tree via `repository/tree?recursive=true` (which does not report
+ *   file sizes) and reads files through `repository/files/:path/raw`.
+ * - Authenticates with a `PRIVATE-TOKEN` header when a token is configured.
+ */
+
+import type { RepoAnalysis } from "../github";
+import type { TreeEntry } from "../fileTree";
+import { SourceAnalyzer } from "../sourceAnalyzer";
+import { ProviderHttpClient } from "./http";
+import {
+  joinSubpath,
+  mergeTargets,
+  resolveRevision,
+  scopeEntries,
+  targetFromSegments,
+  type RepoTarget,
+} from "./revision";
+import { rememberAnalysis } from "../cache";
+import type {
+  AnalyzeOptions,
+  ParsedRepoUrl,
+  ProviderOptions,
+  RepoSourceProvider,
+} from "./types";
+
+/** Subset of the GitLab project payload used for analysis. */
+interface GitLabProject {
+  name: string;
+  path: string;
+  description: string | null;
+  default_branch: string;
+  star_count: number;
+  forks_count: number;
+  topics?: string[];
+  tag_list?: string[];
+}
+
+interface GitLabTreeItem {
+  path: string;
+  type: "blob" | "tree" | "commit";
+}
+
+export class GitLabProvider implements RepoSourceProvider {
+  readonly id = "gitlab";
+  readonly label = "GitLab";
+
+  private static readonly PAGE_SIZE = 100;
+  private static readonly MAX_TREE_PAGES = 50;
+
+  private readonly hosts: string[];
+
+  constructor(
+    private readonly options: ProviderOptions & {
+      /** Hosts served by this provider; defaults to gitlab.com. */
+      hosts?: string[];
+    } = {}
+  ) {
+    this.hosts = options.hosts ?? ["gitlab.com"];
+  }
+
+  matches(url: URL): boolean {
+    return this.hosts.includes(url.host);
+  }
+
+  /**
+   * Parse a GitLab project URL. Everything before the `/-/` separator is the
+   * project path; the last segment is the project, the rest its namespace.
+   * A following `tree/<ref>/<path>` or `blob/<ref>/<file>` becomes the target.
+   */
+  parseRepoUrl(repoUrl: string): ParsedRepoUrl {
+    const [projectPath, rest = ""] = new URL(repoUrl).pathname.split(
+      "/-/"
+    );
+    const segments = projectPath.split("/").filter(Boolean);
+    const [kind, ...refPath] = rest.split("/").filter(Boolean);
+
+    if (segments.length < 2) {
+      throw new Error(
+        "Invalid GitLab URL format. Please provide a valid GitLab project URL."
+      );
+    }
+
+    const repo = segments.pop()!.replace(/\.git$/, "");
+    return {
+      owner: segments.join("/"),
+      repo,
+      target:
+        kind === "tree" || kind === "blob"
+          ? targetFromSegments(refPath, kind === "blob")
+          : {},
+    };
+  }
+
+  async analyzeRepository(
+    repoUrl: string,
+    target?: RepoTarget,
+    options?: AnalyzeOptions
+  ): Promise<RepoAnalysis> {
+    const parsed = this.parseRepoUrl(repoUrl);
+    const { owner, repo } = parsed;
+    const client = new ProviderHttpClient({
+      baseUrl: `${new URL(repoUrl).origin}/api/v4`,
+      label: this.label,
+      headers: this.options.token
+        ? { "PRIVATE-TOKEN": this.options.token }
+        : {},
+      fetch: this.options.fetch,
+    });
+    const projectId = encodeURIComponent(`${owner}/${repo}`);
+
+    const project = await client.json<GitLabProject>(
+      `/projects/${projectId}`
+    );
+    const revision = await resolveRevision(
+      mergeTargets(parsed.target, target),
+      project.default_branch,
+      async (candidate) =>
+        (
+          await client.jsonOrNull<{ id: string }>(
+            `/projects/${projectId}/repository/commits/${encodeURIComponent(
+              candidate
+            )}`
+          )
+        )?.id ?? null
+    );
+    return rememberAnalysis(
+      {
+        provider: `${this.id}:${new URL(repoUrl).host}`,
+        owner,
+        repo,
+        revision,
+      },
+      options,
+      async () => {
+        const ref = revision.commitSha;
+        const pathParam = revision.subpath
+          ? `&path=${encodeURIComponent(revision.subpath)}`
+          : "";
+
+        const listed: TreeEntry[] = [];
+        let truncated = true;
+        for (let page = 1; page <= GitLabProvider.MAX_TREE_PAGES; page++) {
+          const items = await client.json<GitLabTreeItem[]>(
+            `/projects/${projectId}/repository/tree?recursive=true&per_page=${GitLabProvider.PAGE_SIZE}&page=${page}&ref=${ref}${pathParam}`
+          );
+          for (const item of items) {
+            if (item.type === "commit") continue;
+            listed.push({
+              path: item.path,
+              type: item.type === "tree" ? "dir" : "file",
+            });
+          }
+          if (items.length < GitLabProvider.PAGE_SIZE) {
+            truncated = false;
+            break;
+          }
+        }
+        if (truncated) {
+          console.warn(
+            `Tree for ${owner}/${repo} has more than ${
+              GitLabProvider.MAX_TREE_PAGES * GitLabProvider.PAGE_SIZE
+            } entries and was truncated; analysis is partial.`
+          );
+        }
+        const entries = scopeEntries(listed, revision.subpath);
+
+        const languages = await client
+          .json<Record<string, number>>(
+            `/projects/${projectId}/languages`
+          )
+          .catch(() => ({}) as Record<string, number>);
+        const language = Object.entries(languages).sort(
+          (a, b) => b[1] - a[1]
+        )[0]?.[0];
+
+        const analysis = await SourceAnalyzer.analyze(
+          {
+            name: project.path,
+            entries,
+            read: (filePath) =>
+              client.text(
+                `/projects/${projectId}/repository/files/${encodeURIComponent(
+                  joinSubpath(revision.subpath, filePath)
+                )}/raw?ref=${ref}`
+              ),
+          },
+          {
+            name: project.name,
+            description: project.description ?? "",
+            language,
+            topics: project.topics ?? project.tag_list ?? [],
+            stats: {
+              stars: project.star_count,
+              forks: project.forks_count,
+            },
+          }
+        );
+        return { ...analysis, revision };
+      }
+    );
+  }
+}
@@ -0,0 +1,143 @@
+/**
+ * @file http.ts
+ * @description
+ * Minimal JSON/text HTTP client used by the fetch-based providers (GitLab,
+ * Bitbucket, Gitea). Maps common HTTP failures to the same user-facing messages
+ * `GitHubAnalyzer` produces.
+ *
+ * @remarks
+ * - The `fetch` implementation is injectable so providers can be replayed against
+ *   recorded fixtures.
+ * - Absolute URLs (e.g. pagination `next` links) are accepted only when they share
+ *   the client's origin, so tokens are never sent elsewhere.
+ */
+
+/** HTTP failure carrying the response status, when there was one. */
+export class ProviderHttpError extends Error {
+  constructor(
+    message: string,
+    readonly status?: number
+  ) {
+    super(message);
+    this.name = "ProviderHttpError";
+  }
+}
+
+/**
+ * HTTP status for an API route to answer with: 404 not found, 403 for 401/403,
+ * 429 rate limited, 502 for network failures and anything else upstream.
+ */
+export function providerErrorStatus(error: ProviderHttpError): number {
+  if (error.status === 404) return 404;
+  if (error.status === 401 || error.status === 403) return 403;
+  if (error.status === 429) return 429;
+  return 502;
+}
+
+export interface ProviderHttpClientOptions {
+  /** API root, e.g. "https://gitlab.com/api/v4". */
+  baseUrl: string;
+  /** Provider name used in error messages. */
+  label: string;
+  headers?: Record<string, string>;
+  fetch?: typeof fetch;
+}
+
+export class ProviderHttpClient {
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(private readonly options: ProviderHttpClientOptions) {
+    this.fetchImpl =
+      options.fetch ?? ((input, init) => fetch(input, init));
+  }
+
+  /**
+   * GET a path (relative to `baseUrl`) or same-origin absolute URL.
+   * Throws descriptive errors for common HTTP error codes.
+   */
+  async get(pathOrUrl: string): Promise<Response> {
+    const url = this.resolve(pathOrUrl);
+    const response = await this.fetchImpl(url, {
+      headers: {
+        Accept: "application/json",
+        ...this.options.headers,
+      },
+    }).catch((error) => {
+      throw new ProviderHttpError(
+        `Failed to reach ${this.options.label}: ${
+          error instanceof Error ? error.message : String(error)
+        }`
+      );
+    });
+
+    if (response.ok) return response;
+
+    if (response.status === 404) {
+      throw new ProviderHttpError(
+        `Repository not found on ${this.options.label}. Please check that the repository exists and is accessible.`,
+        404
+      );
+    }
+    if (response.status === 401 || response.status === 403) {
+      throw new ProviderHttpError(
+        `Access forbidden by ${this.options.label}. The repository may be private or you may have hit rate limits.`,
+        response.status
+      );
+    }
+    throw new ProviderHttpError(
+      `Failed to access repository on ${this.options.label}: HTTP ${response.status}`,
+      response.status
+    );
+  }
+
+  /** GET and parse a JSON response. */
+  async json<T>(pathOrUrl: string): Promise<T> {
+    const response = await this.get(pathOrUrl);
+    return (await response.json()) as T;
+  }
+
+  /** GET and parse a JSON response, or `null` on 404. */
+  async jsonOrNull<T>(pathOrUrl: string): Promise<T | null> {
+    try {
+      return await this.json<T>(pathOrUrl);
+    } catch (error) {
+      if (error instanceof ProviderHttpError && error.status === 404)
+        return null;
+      throw error;
+    }
+  }
+
+  /** GET a raw text response, or `null` if it cannot be fetched. */
+  async text(pathOrUrl: string): Promise<string | null> {
+    try {
+      const response = await this.get(pathOrUrl);
+      return await response.text();
+    } catch (error) {
+      console.warn(`Failed to retrieve ${pathOrUrl}:`, error);
+      return null;
+    }
+  }
+
+  /** Encode each segment of a repository file path for use in a URL. */
+  static encodePath(filePath: string): string {
+    return filePath
+      .split("/")
+      .map(encodeURIComponent)
+      .join("/");
+  }
+
+  private resolve(pathOrUrl: string): string {
+    if (!/^https?:\/\//i.test(pathOrUrl)) {
+      return `${this.options.baseUrl}${pathOrUrl}`;
+    }
+    if (
+      new URL(pathOrUrl).origin !==
+      new URL(this.options.baseUrl).origin
+    ) {
+      throw new Error(
+        `Refusing to follow cross-origin link from ${this.options.label}`
+      );
+    }
+    return pathOrUrl;
+  }
+}
@@ -0,0 +1,94 @@
+/**
+ * @file index.ts
+ * @description
+ * Registry of repository source providers. Picks the provider for a repository URL
+ * by its host.
+ *
+ * @remarks
+ * - Tokens come from `GITHUB_TOKEN`, `GITLAB_TOKEN`, `BITBUCKET_TOKEN`, `GITEA_TOKEN`.
+ *   A signed-in user's GitHub token (see `services/session`) replaces
+ *   `GITHUB_TOKEN` for that user's requests.
+ * - Self-hosted instances are enabled with comma-separated host lists:
+ *   `GITLAB_HOSTS` (default "gitlab.com") and `GITEA_HOSTS` (default "codeberg.org").
+ */
+
+import { GitHubAnalyzer } from "../github";
+import { GitLabProvider } from "./gitlab";
+import { BitbucketProvider } from "./bitbucket";
+import { GiteaProvider } from "./gitea";
+import type { RepoSourceProvider } from "./types";
+
+export type {
+  AnalyzeOptions,
+  RepoSourceProvider,
+  ParsedRepoUrl,
+  ProviderOptions,
+} from "./types";
+export type { RepoTarget, ResolvedRevision } from "./revision";
+export { RevisionNotFoundError } from "./revision";
+export { ProviderHttpError, providerErrorStatus } from "./http";
+export { GitLabProvider, BitbucketProvider, GiteaProvider };
+
+/** Parse a comma-separated host list from the environment. */
+function hostsFromEnv(value: string | undefined, fallback: string) {
+  return (value || fallback)
+    .split(",")
+    .map((host) => host.trim().toLowerCase())
+    .filter(Boolean);
+}
+
+let providers: RepoSourceProvider[] | null = null;
+
+/** All configured providers, created once per server process. */
+export function getProviders(): RepoSourceProvider[] {
+  providers ??= [
+    new GitHubAnalyzer(),
+    new GitLabProvider({
+      token: process.env.GITLAB_TOKEN,
+      hosts: hostsFromEnv(process.env.GITLAB_HOSTS, "gitlab.com"),
+    }),
+    new BitbucketProvider({ token: process.env.BITBUCKET_TOKEN }),
+    new GiteaProvider({
+      token: process.env.GITEA_TOKEN,
+      hosts: hostsFromEnv(process.env.GITEA_HOSTS, "codeberg.org"),
+    }),
+  ];
+  return providers;
+}
+
+/** Per-request credentials that override the server-wide tokens. */
+export interface ProviderCredentials {
+  /** The signed-in user's GitHub access token. */
+  githubToken?: string;
+}
+
+/**
+ * Find the provider for an HTTPS repository URL. GitHub URLs get an analyzer
+ * authenticated as the signed-in user when `credentials.githubToken` is set.
+ * @throws {Error} If the URL is malformed, not HTTPS, or its host is unsupported.
+ */
+export function resolveProvider(
+  repoUrl: string,
+  credentials: ProviderCredentials = {}
+): RepoSourceProvider {
+  let url: URL;
+  try {
+    url = new URL(repoUrl);
+  } catch {
+    throw new Error("Repository URL is not a valid URL");
+  }
+  if (url.protocol !== "https:") {
+    throw new Error("Repository URL must use HTTPS");
+  }
+
+  const provider = getProviders().find((p) => p.matches(url));
+  if (!provider) {
+    throw new Error(
+      `Unsupported repository host "${url.host}". Supported: GitHub, GitLab, Bitbucket and configured Gitea hosts.`
+    );
+  }
+  if (provider instanceof GitHubAnalyzer && credentials.githubToken) {
+    return new GitHubAnalyzer({ token: credentials.githubToken });
+  }
+  return provider;
+}
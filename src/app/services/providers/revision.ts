@@ -0,0 +1,166 @@
+/**
+ * @file revision.ts
+ * @description
+ * Helpers for analyzing a specific branch, tag or commit and an optional
+ * subdirectory, shared by every provider.
+ *
+ * @remarks
+ * - Refs parsed out of `/tree/<ref>/<path>`-style URLs are ambiguous when the ref
+ *   itself contains slashes (`release/1.0`). {@link resolveRevision} tries each
+ *   split, shortest ref first, until the provider recognizes one.
+ * - For file URLs (`/blob/...`), the containing directory becomes the subpath.
+ */
+
+import type { TreeEntry } from "../fileTree";
+
+/** Which revision and subdirectory of a repository to analyze. */
+export interface RepoTarget {
+  /** Branch, tag or commit SHA; the default branch when omitted. */
+  ref?: string;
+  /** Directory inside the repository to analyze; the root when omitted. */
+  subpath?: string;
+  /** True when `ref`/`subpath` were split from a URL and the boundary is a guess. */
+  ambiguous?: boolean;
+  /** True when `subpath` points at a file (e.g. a `/blob/` URL). */
+  pathIsFile?: boolean;
+}
+
+/** A ref pinned to the commit it pointed at when analyzed. */
+export interface ResolvedRevision {
+  ref: string;
+  commitSha: string;
+  /** Normalized subdirectory without leading/trailing slashes ("" for root). */
+  subpath: string;
+}
+
+/** The requested branch, tag, commit or subdirectory does not exist (404). */
+export class RevisionNotFoundError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "RevisionNotFoundError";
+  }
+}
+
+/** Strip slashes and reject parent-directory segments. */
+export function normalizeSubpath(subpath?: string): string {
+  const segments = (subpath ?? "").split("/").filter(Boolean);
+  if (segments.some((segment) => segment === "..")) {
+    throw new Error("Subpath must not contain '..' segments");
+  }
+  return segments.join("/");
+}
+
+/**
+ * Build a {@link RepoTarget} from the path segments that follow a URL marker such
+ * as `tree` or `blob`.
+ */
+export function targetFromSegments(
+  segments: string[],
+  pathIsFile: boolean
+): RepoTarget {
+  if (segments.length === 0) return {};
+  const [ref, ...rest] = segments.map(decodeURIComponent);
+  return {
+    ref,
+    subpath: rest.join("/") || undefined,
+    ambiguous: rest.length > 0,
+    pathIsFile,
+  };
+}
+
+/** Merge a URL-derived target with explicit request values (which win). */
+export function mergeTargets(
+  fromUrl: RepoTarget,
+  explicit: RepoTarget = {}
+): RepoTarget {
+  if (!explicit.ref && !explicit.subpath) return fromUrl;
+  return {
+    ref: explicit.ref ?? fromUrl.ref,
+    subpath: explicit.subpath ?? fromUrl.subpath,
+    ambiguous: false,
+    pathIsFile: explicit.subpath ? false : fromUrl.pathIsFile,
+  };
+}
+
+/**
+ * Resolve a target to a concrete commit.
+ *
+ * @param target - Requested ref/subpath.
+ * @param defaultRef - Ref used when the target has none (the default branch).
+ * @param resolveCommit - Returns the commit SHA for a ref, or `null` if the ref
+ *   does not exist.
+ * @throws {RevisionNotFoundError} If no candidate ref exists.
+ */
+export async function resolveRevision(
+  target: RepoTarget,
+  defaultRef: string,
+  resolveCommit: (ref: string) => Promise<string | null>
+): Promise<ResolvedRevision> {
+  const subpath = normalizeSubpath(target.subpath);
+  const candidates: Array<{ ref: string; subpath: string }> = [];
+
+  if (target.ref && target.ambiguous && subpath) {
+    const segments = [target.ref, ...subpath.split("/")];
+    for (let i = 1; i <= segments.length; i++) {
+      candidates.push({
+        ref: segments.slice(0, i).join("/"),
+        subpath: segments.slice(i).join("/"),
+      });
+    }
+  } else {
+    candidates.push({ ref: target.ref || defaultRef, subpath });
+  }
+
+  for (const candidate of candidates) {
+    const commitSha = await resolveCommit(candidate.ref);
+    if (!commitSha) continue;
+
+    let resolvedSubpath = candidate.subpath;
+    if (target.pathIsFile && resolvedSubpath) {
+      resolvedSubpath = resolvedSubpath
+        .split("/")
+        .slice(0, -1)
+        .join("/");
+    }
+    return {
+      ref: candidate.ref,
+      commitSha,
+      subpath: resolvedSubpath,
+    };
+  }
+
+  throw new RevisionNotFoundError(
+    `Branch, tag or commit "${target.ref}" was not found in the repository.`
+  );
+}
+
+/**
+ * Keep only entries under `subpath` and make their paths relative to it.
+ * @throws {RevisionNotFoundError} If nothing exists under the subpath.
+ */
+export function scopeEntries(
+  entries: TreeEntry[],
+  subpath: string
+): TreeEntry[] {
+  if (!subpath) return entries;
+
+  const prefix = `${subpath}/`;
+  const scoped = entries
+    .filter((entry) => entry.path.startsWith(prefix))
+    .map((entry) => ({
+      ...entry,
+      path: entry.path.slice(prefix.length),
+    }));
+
+  if (scoped.length === 0) {
+    throw new RevisionNotFoundError(
+      `Directory "${subpath}" was not found in the repository.`
+    );
+  }
+  return scoped;
+}
+
+/** Join a subpath and a relative file path. */
+export function joinSubpath(subpath: string, filePath: string) {
+  return subpath ? `${subpath}/${filePath}` : filePath;
+}
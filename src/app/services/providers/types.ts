@@ -0,0 +1,58 @@
+/**
+ * @file types.ts
+ * @description
+ * Contract shared by every repository source provider (GitHub, GitLab, Bitbucket,
+ * Gitea). A provider recognizes its URLs, parses them, and produces a
+ * {@link RepoAnalysis} the prompt generator can consume unchanged.
+ *
+ * @remarks
+ * - Providers take an optional `fetch` implementation so they can be exercised
+ *   against recorded HTTP fixtures instead of the live service.
+ */
+
+import type { RepoAnalysis } from "../github";
+import type { RepoTarget } from "./revision";
+
+/** Owner/repository pair parsed from a provider URL. */
+export interface ParsedRepoUrl {
+  /** User, organization, workspace or (for GitLab) full group path. */
+  owner: string;
+  repo: string;
+  /** Ref/subpath embedded in the URL (e.g. `/tree/<ref>/<path>`), if any. */
+  target: RepoTarget;
+}
+
+/** Per-request analysis options. */
+export interface AnalyzeOptions {
+  /** Skip the cached analysis for this commit and analyze again. */
+  refresh?: boolean;
+}
+
+/** Construction options common to all providers. */
+export interface ProviderOptions {
+  /** Access token for the provider's API; unauthenticated when omitted. */
+  token?: string;
+  /** HTTP implementation; defaults to the global `fetch`. */
+  fetch?: typeof fetch;
+}
+
+export interface RepoSourceProvider {
+  /** Stable identifier, e.g. "github" or "gitlab". */
+  readonly id: string;
+  /** Human-readable provider name for messages and UI. */
+  readonly label: string;
+  /** True if this provider serves repositories at the given URL's host. */
+  matches(url: URL): boolean;
+  /** Extract owner/repo from a repository URL. Throws on malformed URLs. */
+  parseRepoUrl(repoUrl: string): ParsedRepoUrl;
+  /**
+   * Fetch and analyze the repository behind `repoUrl`.
+   * Analyses are cached per resolved commit (see `services/cache`).
+   * @param target - Explicit ref/subpath; overrides any embedded in the URL.
+   */
+  analyzeRepository(
+    repoUrl: string,
+    target?: RepoTarget,
+    options?: AnalyzeOptions
+  ): Promise<RepoAnalysis>;
+}
@@ -0,0 +1,475 @@
+/**
+ * @file quality.ts
+ * @description
+ * Detects how a repository guards its quality: test frameworks, test directories
+ * and approximate test file counts, CI workflows (and what they run), linters and
+ * formatters, and type checking. Feeds "testing approach" talking points.
+ *
+ * @remarks
+ * - Works from the file listing, the parsed manifests and a handful of reads: the
+ *   root `tsconfig.json` (strictness), `pyproject.toml`/`setup.cfg` (`[tool.*]`
+ *   sections) and up to MAX_WORKFLOWS CI files.
+ * - Counts are approximate: test files are recognized by naming conventions
+ *   (`*.test.ts`, `test_*.py`, `*_test.go`, `FooTest.java`...) or by living in a
+ *   test directory; inline tests (e.g. Rust `#[cfg(test)]`) are not counted.
+ * - CI files are looked up relative to the analyzed root, so a subdirectory
+ *   analysis does not see the repository's `.github/workflows`.
+ */
+
+import { FileTree, type TreeEntry } from "./fileTree";
+import type { FileReader } from "./codeInsights";
+import type { Manifest } from "./manifests";
+
+/** A detected tool and what gave it away (a config file or a dependency). */
+export interface QualityTool {
+  name: string;
+  evidence: string;
+}
+
+export interface TestDirectory {
+  path: string;
+  /** Source files below it. */
+  files: number;
+}
+
+export interface CiWorkflow {
+  provider: string;
+  file: string;
+  name?: string;
+  /** Events that start it (GitHub Actions only). */
+  triggers: string[];
+  /** Job ids (GitHub Actions only). */
+  jobs: string[];
+  /** What it appears to run: "tests", "lint", "type-check", "build", "coverage", "release". */
+  checks: string[];
+}
+
+export interface QualityReport {
+  testFrameworks: QualityTool[];
+  testDirectories: TestDirectory[];
+  /** Approximate number of test files. */
+  testFiles: number;
+  /** Source files that are not tests, for the test-to-code ratio. */
+  sourceFiles: number;
+  ci: CiWorkflow[];
+  linters: QualityTool[];
+  typeCheckers: QualityTool[];
+}
+
+/** Tools recognized by a config file's name, or by a dependency of that name. */
+interface ToolPattern {
+  name: string;
+  files?: RegExp;
+  dependencies?: Array<string | RegExp>;
+}
+
+export class Quality {
+  static readonly MAX_WORKFLOWS = 8;
+  static readonly MAX_TEST_DIRECTORIES = 10;
+
+  private static readonly SOURCE_FILE =
+    /\.(js|jsx|ts|tsx|mjs|cjs|mts|cts|py|go|rs|java|kt|scala|rb|php|cs|swift|c|cc|cpp|h|ex|exs)$/i;
+
+  private static readonly TEST_FILE =
+    /(\.(test|spec)\.[cm]?[jt]sx?$)|((^|\/)test_[^/]+\.py$)|(_test\.(py|go|rb|exs)$)|(_spec\.rb$)|((Test|Tests|IT|Spec)\.(java|kt|scala|cs|php|swift)$)/;
+
+  private static readonly TEST_DIRECTORY =
+    /^(tests?|__tests__|specs?|e2e|cypress|integration[-_]tests?|testing)$/i;
+
+  private static readonly TEST_FRAMEWORKS: ToolPattern[] = [
+    { name: "Jest", files: /^jest\.config\./, dependencies: ["jest"] },
+    { name: "Vitest", files: /^vitest\.(config|workspace)\./, dependencies: ["vitest"] },
+    { name: "Mocha", files: /^\.mocharc(\.|$)/, dependencies: ["mocha"] },
+    { name: "Jasmine", dependencies: ["jasmine"] },
+    { name: "AVA", dependencies: ["ava"] },
+    { name: "node-tap", dependencies: ["tap"] },
+    { name: "Karma", files: /^karma\.conf\./, dependencies: ["karma"] },
+    {
+      name: "Playwright",
+      files: /^playwright\.config\./,
+      dependencies: ["@playwright/test"],
+    },
+    {
+      name: "Cypress",
+      files: /^cypress\.(config\.|json$)/,
+      dependencies: ["cypress"],
+    },
+    { name: "Testing Library", dependencies: [/^@testing-library\//] },
+    {
+      name: "pytest",
+      files: /^(pytest\.ini|conftest\.py)$/,
+      dependencies: ["pytest"],
+    },
+    { name: "Hypothesis", dependencies: ["hypothesis"] },
+    { name: "nose2", dependencies: ["nose2"] },
+    {
+      name: "RSpec",
+      files: /^\.rspec$/,
+      dependencies: ["rspec", "rspec-rails"],
+    },
+    { name: "Minitest", dependencies: ["minitest"] },
+    {
+      name: "PHPUnit",
+      files: /^phpunit\.xml(\.dist)?$/,
+      dependencies: ["phpunit/phpunit"],
+    },
+    { name: "Pest", dependencies: ["pestphp/pest"] },
+    { name: "JUnit 4", dependencies: ["junit:junit"] },
+    { name: "JUnit 5", dependencies: [/^org\.junit\.jupiter:/] },
+    { name: "TestNG", dependencies: ["org.testng:testng"] },
+    { name: "Kotest", dependencies: [/^io\.kotest:/] },
+    { name: "Testify", dependencies: ["github.com/stretchr/testify"] },
+    { name: "Ginkgo", dependencies: [/^github\.com\/onsi\/ginkgo/] },
+    { name: "rstest", dependencies: ["rstest"] },
+    { name: "proptest", dependencies: ["proptest"] },
+  ];
+
+  private static readonly LINTERS: ToolPattern[] = [
+    {
+      name: "ESLint",
+      files: /^(\.eslintrc(\..+)?|eslint\.config\.[cm]?[jt]s)$/,
+      dependencies: ["eslint"],
+    },
+    {
+      name: "Prettier",
+      files: /^(\.prettierrc(\..+)?|prettier\.config\.[cm]?js)$/,
+      dependencies: ["prettier"],
+    },
+    { name: "Biome", files: /^biome\.jsonc?$/, dependencies: ["@biomejs/biome"] },
+    {
+      name: "Stylelint",
+      files: /^(\.stylelintrc(\..+)?|stylelint\.config\.[cm]?js)$/,
+      dependencies: ["stylelint"],
+    },
+    { name: "Ruff", files: /^\.?ruff\.toml$/, dependencies: ["ruff"] },
+    { name: "Black", dependencies: ["black"] },
+    { name: "Flake8", files: /^\.flake8$/, dependencies: ["flake8"] },
+    { name: "Pylint", files: /^\.?pylintrc$/, dependencies: ["pylint"] },
+    { name: "isort", files: /^\.isort\.cfg$/, dependencies: ["isort"] },
+    { name: "RuboCop", files: /^\.rubocop\.yml$/, dependencies: [/^rubocop/] },
+    { name: "StandardJS", dependencies: ["standard"] },
+    { name: "golangci-lint", files: /^\.golangci\.(ya?ml|toml|json)$/ },
+    { name: "Clippy", files: /^\.?clippy\.toml$/ },
+    { name: "rustfmt", files: /^\.?rustfmt\.toml$/ },
+    { name: "Checkstyle", files: /^checkstyle.*\.xml$/ },
+    { name: "Spotless", dependencies: [/spotless/] },
+    {
+      name: "PHP CS Fixer",
+      files: /^\.php-cs-fixer(\.dist)?\.php$/,
+      dependencies: ["friendsofphp/php-cs-fixer"],
+    },
+    {
+      name: "PHP_CodeSniffer",
+      files: /^phpcs\.xml(\.dist)?$/,
+      dependencies: ["squizlabs/php_codesniffer"],
+    },
+    { name: "SwiftLint", files: /^\.swiftlint\.ya?ml$/ },
+    { name: "pre-commit", files: /^\.pre-commit-config\.ya?ml$/ },
+  ];
+
+  private static readonly TYPE_CHECKERS: ToolPattern[] = [
+    { name: "TypeScript", files: /^tsconfig\.json$/, dependencies: ["typescript"] },
+    { name: "mypy", files: /^\.?mypy\.ini$/, dependencies: ["mypy"] },
+    { name: "Pyright", files: /^pyrightconfig\.json$/, dependencies: ["pyright"] },
+    { name: "Flow", files: /^\.flowconfig$/, dependencies: ["flow-bin"] },
+    {
+      name: "PHPStan",
+      files: /^phpstan\.neon(\.dist)?$/,
+      dependencies: ["phpstan/phpstan"],
+    },
+    { name: "Psalm", files: /^psalm\.xml(\.dist)?$/, dependencies: ["vimeo/psalm"] },
+    { name: "Sorbet", dependencies: ["sorbet", "sorbet-runtime"] },
+  ];
+
+  /** `[tool.<name>]` (pyproject.toml) or `[<name>]`/`[tool:<name>]` (setup.cfg) sections. */
+  private static readonly PYTHON_TOOL_SECTIONS: Record<string, string> = {
+    pytest: "pytest",
+    mypy: "mypy",
+    pyright: "Pyright",
+    ruff: "Ruff",
+    black: "Black",
+    pylint: "Pylint",
+    isort: "isort",
+    flake8: "Flake8",
+  };
+
+  /** Hosted CI configuration files other than GitHub Actions workflows. */
+  private static readonly CI_FILES: Record<string, string> = {
+    ".gitlab-ci.yml": "GitLab CI",
+    ".circleci/config.yml": "CircleCI",
+    Jenkinsfile: "Jenkins",
+    "azure-pipelines.yml": "Azure Pipelines",
+    ".travis.yml": "Travis CI",
+    "bitbucket-pipelines.yml": "Bitbucket Pipelines",
+    ".drone.yml": "Drone",
+    ".buildkite/pipeline.yml": "Buildkite",
+  };
+
+  /** What a CI file appears to run, by keywords in its content. */
+  private static readonly CI_CHECKS: Array<[string, RegExp]> = [
+    [
+      "tests",
+      /\b(test|tests|pytest|jest|vitest|rspec|phpunit|go test|cargo test|mvn\b.*\b(verify|test))\b/i,
+    ],
+    [
+      "lint",
+      /\b(lint|eslint|ruff|flake8|pylint|rubocop|golangci-lint|clippy|prettier\s+(--check|-c)|black\s+--check)\b/i,
+    ],
+    ["type-check", /\b(type-?check|tsc|mypy|pyright|phpstan)\b/i],
+    ["build", /\bbuild\b/i],
+    ["coverage", /\b(coverage|codecov|coveralls)\b/i],
+    ["release", /\b(deploy|publish|release)\b/i],
+  ];
+
+  /**
+   * Detect tests, CI, linters and type checking.
+   *
+   * @param entries - The repository's file listing (already scoped to a subpath).
+   * @param manifests - Parsed manifests, whose dependencies reveal tools.
+   * @param read - Reads a file by its path in `entries`.
+   */
+  static async analyze(
+    entries: TreeEntry[],
+    manifests: Manifest[],
+    read: FileReader
+  ): Promise<QualityReport> {
+    const files = entries
+      .filter(
+        (entry) => entry.type === "file" && !FileTree.isIgnoredPath(entry.path)
+      )
+      .map((entry) => entry.path)
+      .sort((a, b) => a.split("/").length - b.split("/").length);
+    const paths = new Set(files);
+    const readText = (file: string) =>
+      paths.has(file) ? read(file) : Promise.resolve(null);
+
+    const [tsconfig, pythonConfigs] = await Promise.all([
+      readText("tsconfig.json"),
+      Promise.all(["pyproject.toml", "setup.cfg"].map(readText)),
+    ]);
+    const pythonSections = this.pythonToolSections(
+      ["pyproject.toml", "setup.cfg"],
+      pythonConfigs
+    );
+
+    const tests = this.countTests(files);
+    const testFrameworks = this.detect(
+      this.TEST_FRAMEWORKS,
+      files,
+      manifests,
+      pythonSections
+    );
+    const goTests = files.filter((file) => file.endsWith("_test.go")).length;
+    if (goTests > 0) {
+      testFrameworks.push({
+        name: "go test",
+        evidence: `${goTests} *_test.go file${goTests === 1 ? "" : "s"}`,
+      });
+    }
+    if (
+      manifests.some((manifest) => manifest.ecosystem === "rust") &&
+      files.some((file) => /^([^/]+\/)?tests\/[^/]+\.rs$/.test(file))
+    ) {
+      testFrameworks.push({ name: "cargo test", evidence: "tests/*.rs" });
+    }
+
+    const typeCheckers = this.detect(
+      this.TYPE_CHECKERS,
+      files,
+      manifests,
+      pythonSections
+    );
+    if (tsconfig && /"strict"\s*:\s*true/.test(tsconfig)) {
+      const typescript = typeCheckers.find((tool) => tool.name === "TypeScript");
+      if (typescript) typescript.name = "TypeScript (strict)";
+    }
+
+    return {
+      testFrameworks,
+      ...tests,
+      ci: await this.readCi(files, readText),
+      linters: this.detect(this.LINTERS, files, manifests, pythonSections),
+      typeCheckers,
+    };
+  }
+
+  /** Match tool patterns against config filenames, dependencies and Python tool sections. */
+  private static detect(
+    patterns: ToolPattern[],
+    files: string[],
+    manifests: Manifest[],
+    pythonSections: Map<string, string>
+  ): QualityTool[] {
+    const tools: QualityTool[] = [];
+    for (const pattern of patterns) {
+      const file =
+        pattern.files &&
+        files.find((path) =>
+          pattern.files!.test(path.slice(path.lastIndexOf("/") + 1))
+        );
+      if (file) {
+        tools.push({ name: pattern.name, evidence: file });
+        continue;
+      }
+
+      const section = pythonSections.get(pattern.name);
+      if (section) {
+        tools.push({ name: pattern.name, evidence: section });
+        continue;
+      }
+
+      const dependency = this.findDependency(pattern, manifests);
+      if (dependency) tools.push({ name: pattern.name, evidence: dependency });
+    }
+    return tools;
+  }
+
+  /** "package.json dev dependency" style evidence for the first manifest that lists the tool. */
+  private static findDependency(
+    pattern: ToolPattern,
+    manifests: Manifest[]
+  ): string | null {
+    if (!pattern.dependencies) return null;
+    const matches = (name: string) =>
+      pattern.dependencies!.some((dependency) =>
+        typeof dependency === "string"
+          ? dependency === name
+          : dependency.test(name)
+      );
+
+    for (const manifest of manifests) {
+      const dev = Object.keys(manifest.devDependencies).find(matches);
+      if (dev) return `${manifest.file} dev dependency ${dev}`;
+      const runtime = Object.keys(manifest.dependencies).find(matches);
+      if (runtime) return `${manifest.file} dependency ${runtime}`;
+    }
+    return null;
+  }
+
+  /** Tool names configured in `[tool.*]` sections, mapped to the file that configures them. */
+  private static pythonToolSections(
+    files: string[],
+    contents: Array<string | null>
+  ): Map<string, string> {
+    const sections = new Map<string, string>();
+    contents.forEach((content, index) => {
+      if (!content) return;
+      for (const match of content.matchAll(
+        /^\[(?:tool[.:])?([\w-]+)(?:[.\]])/gm
+      )) {
+        const name = this.PYTHON_TOOL_SECTIONS[match[1]];
+        if (name && !sections.has(name)) {
+          sections.set(name, `${files[index]} [${match[0].slice(1, -1)}]`);
+        }
+      }
+    });
+    return sections;
+  }
+
+  /** Count test files and source files, and collect the outermost test directories. */
+  private static countTests(
+    files: string[]
+  ): Pick<QualityReport, "testDirectories" | "testFiles" | "sourceFiles"> {
+    const directories = new Map<string, number>();
+    let testFiles = 0;
+    let sourceFiles = 0;
+
+    for (const file of files) {
+      if (!this.SOURCE_FILE.test(file)) continue;
+      const segments = file.split("/").slice(0, -1);
+      const testSegment = segments.findIndex((segment) =>
+        this.TEST_DIRECTORY.test(segment)
+      );
+
+      if (testSegment !== -1) {
+        const directory = segments.slice(0, testSegment + 1).join("/");
+        directories.set(directory, (directories.get(directory) ?? 0) + 1);
+      }
+      if (testSegment !== -1 || this.TEST_FILE.test(file)) {
+        testFiles++;
+      } else {
+        sourceFiles++;
+      }
+    }
+
+    return {
+      testDirectories: [...directories]
+        .map(([path, count]) => ({ path, files: count }))
+        .sort((a, b) => b.files - a.files)
+        .slice(0, this.MAX_TEST_DIRECTORIES),
+      testFiles,
+      sourceFiles,
+    };
+  }
+
+  /** Read GitHub Actions workflows and other CI configs (up to MAX_WORKFLOWS files). */
+  private static async readCi(
+    files: string[],
+    readText: (file: string) => Promise<string | null>
+  ): Promise<CiWorkflow[]> {
+    const candidates = [
+      ...files
+        .filter((file) => /^\.github\/workflows\/[^/]+\.ya?ml$/.test(file))
+        .sort()
+        .map((file) => ({ file, provider: "GitHub Actions" })),
+      ...Object.entries(this.CI_FILES)
+        .filter(([file]) => files.includes(file))
+        .map(([file, provider]) => ({ file, provider })),
+    ].slice(0, this.MAX_WORKFLOWS);
+
+    return Promise.all(
+      candidates.map(async ({ file, provider }) => {
+        const content = (await readText(file)) ?? "";
+        const githubActions = provider === "GitHub Actions";
+        return {
+          provider,
+          file,
+          name: githubActions
+            ? content
+                .match(/^name:\s*(.+?)\s*$/m)?.[1]
+                .replace(/^["']|["']$/g, "")
+            : undefined,
+          triggers: githubActions ? this.workflowTriggers(content) : [],
+          jobs: githubActions ? this.yamlChildKeys(content, "jobs") : [],
+          checks: this.CI_CHECKS.filter(([, pattern]) =>
+            pattern.test(content)
+          ).map(([check]) => check),
+        };
+      })
+    );
+  }
+
+  /** `on: push`, `on: [push, pull_request]` or an `on:` block of events. */
+  private static workflowTriggers(content: string): string[] {
+    const inline = content.match(/^["']?on["']?:[ \t]*([^\s#].*)$/m);
+    if (inline) {
+      return inline[1]
+        .split(/[\[\],\s]+/)
+        .map((event) => event.replace(/^["']|["']$/g, ""))
+        .filter(Boolean);
+    }
+    return this.yamlChildKeys(content, "on");
+  }
+
+  /** Keys directly below a top-level YAML block (`key:` on its own line). */
+  private static yamlChildKeys(content: string, key: string): string[] {
+    const lines = content.split(/\r?\n/);
+    const start = lines.findIndex((line) =>
+      new RegExp(`^["']?${key}["']?:\\s*(#.*)?$`).test(line)
+    );
+    if (start === -1) return [];
+
+    const keys: string[] = [];
+    let indent: number | null = null;
+    for (const line of lines.slice(start + 1)) {
+      if (!line.trim() || line.trim().startsWith("#")) continue;
+      const depth = line.length - line.trimStart().length;
+      if (depth === 0) break;
+      indent ??= depth;
+      if (depth !== indent) continue;
+      const child = line.trim().match(/^["']?([\w.-]+)["']?\s*:/);
+      if (child) keys.push(child[1]);
+    }
+    return keys;
+  }
+}
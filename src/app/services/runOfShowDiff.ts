@@ -0,0 +1,202 @@
+/**
+ * @file runOfShowDiff.ts
+ * @description
+ * Compares two versions of a run of show: which top-level fields changed and, per
+ * section, whether it was added, removed, changed (and in which fields) or kept.
+ * `diffList` compares bullet lists (key points, notes, Q&A) item by item.
+ *
+ * @remarks
+ * - Sections are aligned by title (longest common subsequence), so reordering and
+ *   insertions do not mark every later section as changed.
+ * - Between aligned sections, removed and added sections are paired up in order and
+ *   reported as changed: a renamed section is one change, not a delete and an add.
+ * - Pure functions; safe to import from client components.
+ */
+
+import type { RunOfShow } from "@/app/page";
+
+type Section = RunOfShow["sections"][number];
+
+export type SectionChangeStatus =
+  | "added"
+  | "removed"
+  | "changed"
+  | "unchanged";
+
+export interface SectionChange {
+  status: SectionChangeStatus;
+  /** Absent for added sections. */
+  before?: Section;
+  /** Absent for removed sections. */
+  after?: Section;
+  /** Fields that differ; empty unless `status` is "changed". */
+  fields: Array<keyof Section>;
+}
+
+/** One item of a compared list; "unchanged" items appear in both versions. */
+export interface ListChange {
+  status: "added" | "removed" | "unchanged";
+  text: string;
+}
+
+export interface RunOfShowChanges {
+  /** Top-level fields (other than `sections`) that differ. */
+  fields: Array<Exclude<keyof RunOfShow, "sections">>;
+  sections: SectionChange[];
+  /** True when nothing differs. */
+  unchanged: boolean;
+}
+
+const TOP_LEVEL_FIELDS: Array<Exclude<keyof RunOfShow, "sections">> = [
+  "title",
+  "overview",
+  "qaPredictions",
+  "techQuestions",
+  "closingNotes",
+];
+
+const SECTION_FIELDS: Array<keyof Section> = [
+  "title",
+  "duration",
+  "content",
+  "keyPoints",
+  "presenterNotes",
+];
+
+export class RunOfShowDiff {
+  static diff(before: RunOfShow, after: RunOfShow): RunOfShowChanges {
+    const fields = TOP_LEVEL_FIELDS.filter(
+      (field) => !this.sameValue(before[field], after[field])
+    );
+    const sections = this.diffSections(before.sections, after.sections);
+
+    return {
+      fields,
+      sections,
+      unchanged:
+        fields.length === 0 &&
+        sections.every((change) => change.status === "unchanged"),
+    };
+  }
+
+  /** Section changes in the order of the new version, removals where they were. */
+  static diffSections(
+    before: Section[],
+    after: Section[]
+  ): SectionChange[] {
+    const matches = this.align(
+      before.map((s) => this.titleKey(s.title)),
+      after.map((s) => this.titleKey(s.title))
+    );
+
+    const changes: SectionChange[] = [];
+    let i = 0;
+    let j = 0;
+    // A sentinel match past the end flushes the trailing gap.
+    for (const [mi, mj] of [...matches, [before.length, after.length]]) {
+      const removed = before.slice(i, mi);
+      const added = after.slice(j, mj);
+      const paired = Math.min(removed.length, added.length);
+      for (let k = 0; k < paired; k++) {
+        changes.push(this.compareSections(removed[k], added[k]));
+      }
+      for (const section of removed.slice(paired)) {
+        changes.push({ status: "removed", before: section, fields: [] });
+      }
+      for (const section of added.slice(paired)) {
+        changes.push({ status: "added", after: section, fields: [] });
+      }
+
+      if (mi < before.length && mj < after.length) {
+        changes.push(this.compareSections(before[mi], after[mj]));
+      }
+      i = mi + 1;
+      j = mj + 1;
+    }
+    return changes;
+  }
+
+  /** Item-level changes between two lists, removals before additions in each gap. */
+  static diffList(before: string[], after: string[]): ListChange[] {
+    const matches = this.align(
+      before.map((item) => item.trim()),
+      after.map((item) => item.trim())
+    );
+
+    const changes: ListChange[] = [];
+    let i = 0;
+    let j = 0;
+    for (const [mi, mj] of [...matches, [before.length, after.length]]) {
+      for (const text of before.slice(i, mi)) {
+        changes.push({ status: "removed", text });
+      }
+      for (const text of after.slice(j, mj)) {
+        changes.push({ status: "added", text });
+      }
+      if (mi < before.length && mj < after.length) {
+        changes.push({ status: "unchanged", text: after[mj] });
+      }
+      i = mi + 1;
+      j = mj + 1;
+    }
+    return changes;
+  }
+
+  private static compareSections(
+    before: Section,
+    after: Section
+  ): SectionChange {
+    const fields = SECTION_FIELDS.filter(
+      (field) => !this.sameValue(before[field], after[field])
+    );
+    return {
+      status: fields.length ? "changed" : "unchanged",
+      before,
+      after,
+      fields,
+    };
+  }
+
+  /**
+   * Index pairs of a longest common subsequence of `a` and `b`, in order.
+   * Quadratic, which is fine for outlines of a few dozen items.
+   */
+  private static align(a: string[], b: string[]): Array<[number, number]> {
+    // lengths[i][j] = LCS length of a[i..] and b[j..]
+    const lengths = Array.from({ length: a.length + 1 }, () =>
+      new Array<number>(b.length + 1).fill(0)
+    );
+    for (let i = a.length - 1; i >= 0; i--) {
+      for (let j = b.length - 1; j >= 0; j--) {
+        lengths[i][j] =
+          a[i] === b[j]
+            ? lengths[i + 1][j + 1] + 1
+            : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+      }
+    }
+
+    const pairs: Array<[number, number]> = [];
+    let i = 0;
+    let j = 0;
+    while (i < a.length && j < b.length) {
+      if (a[i] === b[j]) {
+        pairs.push([i, j]);
+        i++;
+        j++;
+      } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+        i++;
+      } else {
+        j++;
+      }
+    }
+    return pairs;
+  }
+
+  private static titleKey(title: string): string {
+    return title.trim().toLowerCase();
+  }
+
+  private static sameValue(a: unknown, b: unknown): boolean {
+    return JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+  }
+}
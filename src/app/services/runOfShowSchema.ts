@@ -0,0 +1,251 @@
+/**
+ * @file runOfShowSchema.ts
+ * @description
+ * Runtime schema for the model's run-of-show output. Extracts the JSON object
+ * from raw model text and validates every field, returning either a normalized
+ * `RunOfShow` or a list of issues that can be fed back to the model for repair.
+ *
+ * @remarks
+ * - Field specs are declarative; unknown keys are dropped from the normalized value.
+ * - Issue paths use a JSONPath-like form (`sections[2].keyPoints[0]`) so repair
+ *   prompts and API error bodies can point at the exact failure.
+ * - No Node-only APIs: safe to import from client components.
+ */
+
+import type { RunOfShow } from "@/app/page";
+
+/** One validation failure, located by its path in the document. */
+export interface SchemaIssue {
+  path: string;
+  message: string;
+}
+
+export type SchemaResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: SchemaIssue[] };
+
+type Section = RunOfShow["sections"][number];
+
+/** Expected kind of each field; `optional` fields may be absent. */
+type FieldSpec = {
+  kind: "string" | "string[]";
+  optional?: boolean;
+};
+
+const SECTION_FIELDS: Record<keyof Section, FieldSpec> = {
+  title: { kind: "string" },
+  duration: { kind: "string" },
+  content: { kind: "string" },
+  presenterNotes: { kind: "string[]" },
+  keyPoints: { kind: "string[]" },
+};
+
+const RUN_OF_SHOW_FIELDS: Record<
+  Exclude<keyof RunOfShow, "sections">,
+  FieldSpec
+> = {
+  title: { kind: "string" },
+  overview: { kind: "string" },
+  qaPredictions: { kind: "string[]", optional: true },
+  techQuestions: { kind: "string[]", optional: true },
+  closingNotes: { kind: "string" },
+};
+
+export class RunOfShowSchema {
+  /**
+   * Extract and validate a run of show from raw model text.
+   * Accepts fenced (```json) or bare JSON, with or without surrounding prose.
+   */
+  static parse(text: string): SchemaResult<RunOfShow> {
+    const json = this.parseJson(text);
+    return json.ok ? this.validate(json.value) : json;
+  }
+
+  /** Extract and validate a single section from raw model text. */
+  static parseSection(text: string): SchemaResult<Section> {
+    const json = this.parseJson(text);
+    return json.ok ? this.validateSection(json.value) : json;
+  }
+
+  /** Validate an already-parsed value against the run-of-show schema. */
+  static validate(value: unknown): SchemaResult<RunOfShow> {
+    if (!this.isObject(value)) {
+      return {
+        ok: false,
+        issues: [{ path: "$", message: "expected an object" }],
+      };
+    }
+
+    const issues: SchemaIssue[] = [];
+    const fields = this.checkFields(value, RUN_OF_SHOW_FIELDS, "", issues);
+
+    const sections: Section[] = [];
+    if (!Array.isArray(value.sections)) {
+      issues.push({ path: "sections", message: "expected an array of sections" });
+    } else if (value.sections.length === 0) {
+      issues.push({ path: "sections", message: "expected at least one section" });
+    } else {
+      value.sections.forEach((section, index) => {
+        const result = this.validateSection(section, `sections[${index}]`);
+        if (result.ok) sections.push(result.value);
+        else issues.push(...result.issues);
+      });
+    }
+
+    if (issues.length > 0) return { ok: false, issues };
+    return {
+      ok: true,
+      value: { ...(fields as Omit<RunOfShow, "sections">), sections },
+    };
+  }
+
+  /** Validate a single section; `path` prefixes reported issues. */
+  static validateSection(
+    value: unknown,
+    path = "section"
+  ): SchemaResult<Section> {
+    if (!this.isObject(value)) {
+      return {
+        ok: false,
+        issues: [{ path, message: "expected a section object" }],
+      };
+    }
+
+    const issues: SchemaIssue[] = [];
+    const fields = this.checkFields(value, SECTION_FIELDS, `${path}.`, issues);
+    return issues.length > 0
+      ? { ok: false, issues }
+      : { ok: true, value: fields as Section };
+  }
+
+  /**
+   * Return the first balanced `{...}` starting at or after `from`, skipping code
+   * fences and prose. Braces inside JSON strings are ignored.
+   */
+  static extractJsonObject(text: string, from = 0): string | null {
+    const start = text.indexOf("{", from);
+    if (start === -1) return null;
+
+    let depth = 0;
+    let inString = false;
+    let escaped = false;
+    for (let i = start; i < text.length; i++) {
+      const char = text[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+      } else if (char === '"') {
+        inString = true;
+      } else if (char === "{") {
+        depth++;
+      } else if (char === "}" && --depth === 0) {
+        return text.slice(start, i + 1);
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Parse the first JSON object found in `text`. A balanced candidate that is not
+   * valid JSON is skipped, so braces in prose before the object (e.g. a summary
+   * line) do not hide it; when none parses, the error for the first candidate is
+   * reported. A candidate that never closes is reported as truncated rather than
+   * searched for objects nested in it.
+   */
+  private static parseJson(text: string): SchemaResult<unknown> {
+    let firstError: unknown = null;
+    let from = text.indexOf("{");
+    while (from !== -1) {
+      const json = this.extractJsonObject(text, from);
+      if (json === null) {
+        return {
+          ok: false,
+          issues: [
+            { path: "$", message: "response JSON is incomplete (truncated?)" },
+          ],
+        };
+      }
+      try {
+        return { ok: true, value: JSON.parse(json) };
+      } catch (error) {
+        firstError ??= error;
+      }
+      // Resume after the candidate so objects nested in it are not mistaken for it.
+      from = text.indexOf("{", from + json.length);
+    }
+
+    if (firstError === null) {
+      return {
+        ok: false,
+        issues: [
+          { path: "$", message: "response does not contain a JSON object" },
+        ],
+      };
+    }
+    return {
+      ok: false,
+      issues: [
+        {
+          path: "$",
+          message: `invalid JSON: ${
+            firstError instanceof Error
+              ? firstError.message
+              : String(firstError)
+          }`,
+        },
+      ],
+    };
+  }
+
+  /** Check each spec'd field, collecting issues; returns only the known fields. */
+  private static checkFields(
+    value: Record<string, unknown>,
+    specs: Record<string, FieldSpec>,
+    prefix: string,
+    issues: SchemaIssue[]
+  ): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+
+    for (const [key, spec] of Object.entries(specs)) {
+      const field = value[key];
+      const path = `${prefix}${key}`;
+
+      if (field === undefined || field === null) {
+        if (!spec.optional) {
+          issues.push({ path, message: `missing required ${spec.kind}` });
+        }
+        continue;
+      }
+
+      if (spec.kind === "string") {
+        if (typeof field !== "string" || !field.trim()) {
+          issues.push({ path, message: "expected a non-empty string" });
+          continue;
+        }
+      } else {
+        if (!Array.isArray(field)) {
+          issues.push({ path, message: "expected an array of strings" });
+          continue;
+        }
+        const bad = field.findIndex((item) => typeof item !== "string");
+        if (bad !== -1) {
+          issues.push({ path: `${path}[${bad}]`, message: "expected a string" });
+          continue;
+        }
+      }
+
+      result[key] = field;
+    }
+
+    return result;
+  }
+
+  private static isObject(
+    value: unknown
+  ): value is Record<string, unknown> {
+    return (
+      typeof value === "object" && value !== null && !Array.isArray(value)
+    );
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * @file session.ts
+ * @description
+ * Signed-in user sessions, kept entirely in an encrypted cookie: the GitHub access
+ * token never reaches the browser in readable form and nothing is stored
+ * server-side.
+ *
+ * @remarks
+ * - Sealed with AES-256-GCM under a key derived from `SESSION_SECRET`; a cookie
+ *   that was tampered with, or sealed with another secret, reads as signed out.
+ * - Sign-in is enabled only when `SESSION_SECRET`, `GITHUB_CLIENT_ID` and
+ *   `GITHUB_CLIENT_SECRET` are all set (see {@link Session.isEnabled}).
+ * - The client id and secret may belong to a GitHub OAuth App or a GitHub App;
+ *   both use the same web flow. GitHub App user tokens expire, and the session
+ *   expires with them.
+ * - Saved presentations and custom profiles belong to {@link Session.owner}: the
+ *   signed-in user's, or the shared signed-out library.
+ */
+
+import { createCipheriv, createDecipheriv, createHash, randomBytes } from "crypto";
+import type { NextRequest, NextResponse } from "next/server";
+
+/** What the session cookie holds. */
+export interface SessionData {
+  github: {
+    /** User access token; server-side only. */
+    token: string;
+    /** GitHub user id; unlike the login, it never changes or gets reused. */
+    id: number;
+    login: string;
+    name?: string;
+    avatarUrl?: string;
+  };
+  /** Epoch milliseconds after which the session is ignored. */
+  expiresAt: number;
+}
+
+/** The signed-in user as exposed to the browser (no token). */
+export interface SessionUser {
+  login: string;
+  name?: string;
+  avatarUrl?: string;
+}
+
+export class Session {
+  static readonly COOKIE = "rp_session";
+  /** Short-lived cookie holding the OAuth `state` between login and callback. */
+  static readonly STATE_COOKIE = "rp_oauth_state";
+  static readonly MAX_AGE_SECONDS = 7 * 24 * 60 * 60;
+  static readonly MIN_SECRET_LENGTH = 32;
+
+  /** True when GitHub sign-in is configured. */
+  static isEnabled(): boolean {
+    return Boolean(
+      (process.env.SESSION_SECRET?.length ?? 0) >= this.MIN_SECRET_LENGTH &&
+        process.env.GITHUB_CLIENT_ID &&
+        process.env.GITHUB_CLIENT_SECRET
+    );
+  }
+
+  /** The live session of a request, or `null` when signed out or invalid. */
+  static read(request: NextRequest): SessionData | null {
+    const value = request.cookies.get(this.COOKIE)?.value;
+    if (!value || !this.isEnabled()) return null;
+    const session = this.open(value);
+    // Sessions sealed before the user id was recorded cannot own saved work.
+    return session &&
+      session.expiresAt > Date.now() &&
+      typeof session.github.id === "number"
+      ? session
+      : null;
+  }
+
+  /**
+   * Who saved presentations and custom profiles belong to: `github:<user id>`
+   * for a signed-in user, or `null` for the library shared while signed out.
+   */
+  static owner(request: NextRequest): string | null {
+    const session = this.read(request);
+    return session ? `github:${session.github.id}` : null;
+  }
+
+  /** GitHub token of the signed-in user, if any. */
+  static githubToken(request: NextRequest): string | undefined {
+    return this.read(request)?.github.token;
+  }
+
+  /** Set the encrypted session cookie on `response`. */
+  static write(response: NextResponse, session: SessionData): void {
+    response.cookies.set(this.COOKIE, this.seal(session), {
+      ...this.cookieOptions(),
+      maxAge: Math.max(
+        0,
+        Math.floor((session.expiresAt - Date.now()) / 1000)
+      ),
+    });
+  }
+
+  static clear(response: NextResponse): void {
+    response.cookies.set(this.COOKIE, "", {
+      ...this.cookieOptions(),
+      maxAge: 0,
+    });
+  }
+
+  /** Browser-safe view of a session. */
+  static user(session: SessionData | null): SessionUser | null {
+    if (!session) return null;
+    const { login, name, avatarUrl } = session.github;
+    return { login, name, avatarUrl };
+  }
+
+  /** Cookie attributes shared by the session and state cookies. */
+  static cookieOptions() {
+    return {
+      httpOnly: true,
+      secure: process.env.NODE_ENV === "production",
+      sameSite: "lax" as const,
+      path: "/",
+    };
+  }
+
+  /** Encrypt `session` as `iv.tag.ciphertext` (base64url). */
+  private static seal(session: SessionData): string {
+    const iv = randomBytes(12);
+    const cipher = createCipheriv("aes-256-gcm", this.key(), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(session), "utf8"),
+      cipher.final(),
+    ]);
+    return [iv, cipher.getAuthTag(), ciphertext]
+      .map((part) => part.toString("base64url"))
+      .join(".");
+  }
+
+  private static open(value: string): SessionData | null {
+    try {
+      const [iv, tag, ciphertext] = value
+        .split(".")
+        .map((part) => Buffer.from(part, "base64url"));
+      const decipher = createDecipheriv("aes-256-gcm", this.key(), iv);
+      decipher.setAuthTag(tag);
+      return JSON.parse(
+        Buffer.concat([
+          decipher.update(ciphertext),
+          decipher.final(),
+        ]).toString("utf8")
+      ) as SessionData;
+    } catch {
+      return null;
+    }
+  }
+
+  private static key(): Buffer {
+    return createHash("sha256")
+      .update(process.env.SESSION_SECRET ?? "")
+      .digest();
+  }
+}
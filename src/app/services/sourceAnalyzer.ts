@@ -0,0 +1,166 @@
+/**
+ * @file SourceAnalyzer.ts
+ * @description
+ * Turns any flat, readable file listing into a {@link RepoAnalysis}. Shared by the
+ * local/archive analyzer and by every hosted provider that can list a tree and
+ * read raw files (GitLab, Bitbucket, Gitea).
+ *
+ * @remarks
+ * - Reuses `GitHubAnalyzer`'s README list and size limits, and the same manifest
+ *   parsing (`Manifests`), so prompts are comparable regardless of where the code
+ *   came from.
+ * - Provider metadata (stars, description, language...) can be passed as overrides;
+ *   anything missing is derived from the manifest and file listing.
+ * - Detects tests, CI, linters and type checking the same way (`Quality`).
+ * - Ends with the same code-intelligence stage as GitHub (`CodeInsights`).
+ */
+
+import { GitHubAnalyzer, type RepoAnalysis } from "./github";
+import { FileTree, type TreeEntry } from "./fileTree";
+import { CodeInsights } from "./codeInsights";
+import { Manifests } from "./manifests";
+import { Quality } from "./quality";
+
+/** A flat, readable view of a repository's files. */
+export interface RepoFileSource {
+  /** Display name used as the repository name. */
+  name: string;
+  entries: TreeEntry[];
+  /**
+   * Read a file as UTF-8, or `null` if it is missing or unreadable. Rejects
+   * only when the host fails, which fails the analysis.
+   */
+  read(filePath: string): Promise<string | null>;
+}
+
+export class SourceAnalyzer {
+  /** File extensions mapped to language names for primary-language detection. */
+  private static readonly LANGUAGE_BY_EXTENSION: Record<
+    string,
+    string
+  > = {
+    ts: "TypeScript",
+    tsx: "TypeScript",
+    js: "JavaScript",
+    jsx: "JavaScript",
+    mjs: "JavaScript",
+    cjs: "JavaScript",
+    py: "Python",
+    go: "Go",
+    rs: "Rust",
+    java: "Java",
+    kt: "Kotlin",
+    rb: "Ruby",
+    php: "PHP",
+    cs: "C#",
+    swift: "Swift",
+    c: "C",
+    cpp: "C++",
+    cc: "C++",
+  };
+
+  /**
+   * Run the shared analysis over any {@link RepoFileSource}:
+   * README, manifest, tree rendering, key-file ranking, language detection and
+   * code insights.
+   *
+   * @param source - Files to analyze.
+   * @param overrides - Provider metadata that takes precedence over derived values.
+   */
+  static async analyze(
+    source: RepoFileSource,
+    overrides: Partial<
+      Pick<
+        RepoAnalysis,
+        "name" | "description" | "language" | "topics"
+      >
+    > & { stats?: Partial<RepoAnalysis["stats"]> } = {}
+  ): Promise<RepoAnalysis> {
+    let readme = "";
+    const readmeFile = GitHubAnalyzer.findReadme(source.entries);
+    if (readmeFile) {
+      readme = (await source.read(readmeFile)) ?? "";
+    }
+
+    const manifests = await Manifests.collect(source.entries, (filePath) =>
+      source.read(filePath)
+    );
+    const primary = Manifests.primary(manifests);
+    const quality = await Quality.analyze(
+      source.entries,
+      manifests,
+      (filePath) => source.read(filePath)
+    );
+
+    const fileTree = FileTree.build(source.entries);
+    const fileStructure = FileTree.render(fileTree);
+    const keyFiles: RepoAnalysis["keyFiles"] = [];
+
+    for (const item of FileTree.rankKeyFiles(
+      source.entries,
+      GitHubAnalyzer.MAX_KEY_FILES,
+      GitHubAnalyzer.MAX_FILE_SIZE
+    )) {
+      const content = await source.read(item.path);
+      if (content === null) continue;
+      keyFiles.push({
+        path: item.path,
+        content: content.slice(0, GitHubAnalyzer.MAX_FILE_SIZE),
+        type: GitHubAnalyzer.getFileType(item.path),
+      });
+    }
+
+    const architecture = await CodeInsights.analyze(
+      source.entries,
+      (filePath) => source.read(filePath)
+    );
+
+    return {
+      name: overrides.name || primary?.name || source.name,
+      description: overrides.description || primary?.description || "",
+      language:
+        overrides.language ||
+        SourceAnalyzer.detectLanguage(source.entries),
+      topics: overrides.topics ?? primary?.keywords ?? [],
+      readme: readme.slice(0, GitHubAnalyzer.MAX_FILE_SIZE),
+      manifests,
+      fileStructure,
+      fileTree,
+      keyFiles,
+      quality,
+      architecture,
+      stats: {
+        stars: 0,
+        forks: 0,
+        size: Math.round(fileTree.size / 1024),
+        ...overrides.stats,
+      },
+    };
+  }
+
+  /** Pick the language with the most bytes (or files, if sizes are unknown). */
+  static detectLanguage(entries: TreeEntry[]): string {
+    const weights = new Map<string, number>();
+    for (const entry of entries) {
+      if (entry.type !== "file") continue;
+      const ext = entry.path.split(".").pop()?.toLowerCase() ?? "";
+      const language = SourceAnalyzer.LANGUAGE_BY_EXTENSION[ext];
+      if (language) {
+        weights.set(
+          language,
+          (weights.get(language) ?? 0) + (entry.size ?? 1)
+        );
+      }
+    }
+
+    let best = "Unknown";
+    let bestWeight = 0;
+    for (const [language, total] of weights) {
+      if (total > bestWeight) {
+        best = language;
+        bestWeight = total;
+      }
+    }
+    return best;
+  }
+}
@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it, vi } from "vitest";
+import { JsonDocumentFile } from "../jsonFile";
+
+interface Counter {
+  items: string[];
+}
+
+describe("JsonDocumentFile.mutate", () => {
+  let dir: string;
+  let file: JsonDocumentFile<Counter>;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "json-file-"));
+    file = new JsonDocumentFile<Counter>(path.join(dir, "doc.json"), () => ({
+      items: [],
+    }));
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  it("persists the change and serves it from memory", async () => {
+    await file.mutate(({ items }) => items.push("a"));
+
+    expect(await file.read()).toEqual({ items: ["a"] });
+    expect(
+      JSON.parse(await fs.readFile(path.join(dir, "doc.json"), "utf8"))
+    ).toEqual({ items: ["a"] });
+  });
+
+  it("keeps the in-memory document when the write fails", async () => {
+    await file.mutate(({ items }) => items.push("a"));
+    vi.spyOn(fs, "rename").mockRejectedValueOnce(new Error("disk full"));
+
+    await expect(
+      file.mutate(({ items }) => items.push("b"))
+    ).rejects.toThrow("disk full");
+    expect(await file.read()).toEqual({ items: ["a"] });
+
+    await file.mutate(({ items }) => items.push("c"));
+    expect(await file.read()).toEqual({ items: ["a", "c"] });
+  });
+
+  it("keeps the in-memory document when the change throws", async () => {
+    await expect(
+      file.mutate(({ items }) => {
+        items.push("a");
+        throw new Error("rejected");
+      })
+    ).rejects.toThrow("rejected");
+
+    expect(await file.read()).toEqual({ items: [] });
+  });
+});
@@ -0,0 +1,59 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { afterEach, beforeEach, describe, expect, it } from "vitest";
+import { JsonFilePresentationStore } from "../jsonFileStore";
+import type { NewPresentation } from "../types";
+
+const presentation: NewPresentation = {
+  repoUrl: "https://github.com/acme/private-widget",
+  runOfShow: {
+    title: "Widget",
+    overview: "A tour of the widget.",
+    sections: [],
+    closingNotes: "Thanks!",
+  },
+  metadata: null,
+  config: {
+    audience: "technical",
+    timeConstraint: "15min",
+    includeQA: true,
+    includeLiveDemo: false,
+  },
+};
+
+describe("JsonFilePresentationStore", () => {
+  let dir: string;
+  let store: JsonFilePresentationStore;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), "presentations-"));
+    store = new JsonFilePresentationStore(path.join(dir, "library.json"));
+  });
+
+  afterEach(() => fs.rm(dir, { recursive: true, force: true }));
+
+  it("keeps each owner's presentations to that owner", async () => {
+    const saved = await store.create("github:1", presentation);
+
+    expect(saved).not.toHaveProperty("owner");
+    expect(await store.get("github:1", saved.id)).toEqual(saved);
+    expect(await store.list("github:1")).toHaveLength(1);
+
+    for (const other of ["github:2", null]) {
+      expect(await store.list(other)).toEqual([]);
+      expect(await store.get(other, saved.id)).toBeNull();
+      expect(await store.update(other, saved.id, presentation)).toBeNull();
+      expect(await store.delete(other, saved.id)).toBe(false);
+    }
+    expect(await store.get("github:1", saved.id)).toEqual(saved);
+  });
+
+  it("shares the signed-out library among signed-out callers", async () => {
+    const saved = await store.create(null, presentation);
+
+    expect(await store.get(null, saved.id)).toEqual(saved);
+    expect(await store.get("github:1", saved.id)).toBeNull();
+    expect(await store.delete(null, saved.id)).toBe(true);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * @file index.ts
+ * @description
+ * Entry point for persistence. Routes call {@link getPresentationStore} and
+ * {@link getProfileStore} and never construct a store directly.
+ *
+ * @remarks
+ * - The library lives in `PRESENTATIONS_FILE` (default `.data/presentations.json`
+ *   under the working directory); custom profiles in `PROFILES_FILE` (default
+ *   `.data/profiles.json`).
+ * - {@link resolvePresentationConfig} looks up a config's profiles, built-in or custom,
+ *   for prompt generation.
+ * - Stores are shared by every user; each call names the owner it acts for (see
+ *   `Session.owner`).
+ */
+
+import path from "path";
+import { JsonFilePresentationStore } from "./jsonFileStore";
+import { JsonFileProfileStore } from "./jsonFileProfileStore";
+import {
+  Profiles,
+  UnknownProfileError,
+  type ResolvedConfig,
+} from "../profiles";
+import type { PresentationConfig } from "@/app/page";
+import type { PresentationStore, ProfileStore } from "./types";
+
+export type {
+  NewPresentation,
+  PresentationRecord,
+  PresentationStore,
+  PresentationSummary,
+  ProfileStore,
+} from "./types";
+export { JsonFilePresentationStore, JsonFileProfileStore };
+export { parsePresentationInput } from "./validation";
+
+let store: PresentationStore | null = null;
+let profileStore: ProfileStore | null = null;
+
+/** The configured store, created once per server process. */
+export function getPresentationStore(): PresentationStore {
+  store ??= new JsonFilePresentationStore(
+    process.env.PRESENTATIONS_FILE ||
+      path.join(process.cwd(), ".data", "presentations.json")
+  );
+  return store;
+}
+
+/** The configured profile store, created once per server process. */
+export function getProfileStore(): ProfileStore {
+  profileStore ??= new JsonFileProfileStore(
+    process.env.PROFILES_FILE ||
+      path.join(process.cwd(), ".data", "profiles.json")
+  );
+  return profileStore;
+}
+
+/**
+ * Look up the audience and time profiles a config refers to, among the built-ins
+ * and `owner`'s custom profiles. Time profiles without guidance get the guidance
+ * of the closest built-in length.
+ *
+ * The label and length snapshots are replaced with the looked-up profiles', so
+ * the prompt and the duration budget (`Pacing.targetSeconds`) read the same
+ * length whatever the client sent.
+ *
+ * @throws {UnknownProfileError} When a profile id is neither built in nor stored.
+ */
+export async function resolvePresentationConfig(
+  config: PresentationConfig,
+  owner: string | null
+): Promise<ResolvedConfig> {
+  const find = async (id: string) =>
+    Profiles.builtIn(id) ?? (await getProfileStore().get(owner, id));
+
+  const audienceProfile = await find(config.audience);
+  if (audienceProfile?.kind !== "audience") {
+    throw new UnknownProfileError("audience", config.audience);
+  }
+  const timeProfile = await find(config.timeConstraint);
+  if (timeProfile?.kind !== "time") {
+    throw new UnknownProfileError("time", config.timeConstraint);
+  }
+
+  return {
+    ...Profiles.select(
+      Profiles.select(config, audienceProfile),
+      timeProfile
+    ),
+    audienceProfile,
+    timeProfile: {
+      ...timeProfile,
+      guidance:
+        timeProfile.guidance ||
+        Profiles.defaultGuidance(timeProfile.minutes),
+    },
+  };
+}
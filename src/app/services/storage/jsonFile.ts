@@ -0,0 +1,89 @@
+/**
+ * @file jsonFile.ts
+ * @description
+ * A JSON document kept in a single file on the server's disk; the building block
+ * of the JSON file stores.
+ *
+ * @remarks
+ * - The document is read once and then kept in memory.
+ * - Writes are serialized through a promise queue and land atomically
+ *   (write to a temp file, then rename), so a crash never leaves a partial file.
+ *   The in-memory copy only changes once a write has succeeded.
+ * - A missing file reads as the `empty` document and is created on the first write.
+ * - Records are tagged with their owner ({@link Owned}); the tag stays on disk
+ *   and is stripped before a record leaves the store.
+ */
+
+import { promises as fs } from "fs";
+import path from "path";
+
+/** A stored record and its owner; `owner` is absent for the signed-out library. */
+export type Owned<T> = T & { owner?: string };
+
+/** True if `record` belongs to `owner`. */
+export function isOwnedBy(record: Owned<object>, owner: string | null) {
+  return (record.owner ?? null) === owner;
+}
+
+/** Tag a new record with its owner. */
+export function withOwner<T extends object>(
+  record: T,
+  owner: string | null
+): Owned<T> {
+  return owner === null ? record : { ...record, owner };
+}
+
+/** A stored record as returned to callers. */
+export function withoutOwner<T extends object>(record: Owned<T>): T {
+  const copy = { ...record };
+  delete copy.owner;
+  return copy;
+}
+
+export class JsonDocumentFile<T> {
+  private document: Promise<T> | null = null;
+  private writes: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string,
+    private readonly empty: () => T
+  ) {}
+
+  /** Read the file once; later calls share the in-memory copy. */
+  read(): Promise<T> {
+    this.document ??= fs
+      .readFile(this.filePath, "utf8")
+      .then((text) => JSON.parse(text) as T)
+      .catch((error: NodeJS.ErrnoException) => {
+        if (error.code === "ENOENT") return this.empty();
+        this.document = null;
+        throw error;
+      });
+    return this.document;
+  }
+
+  /**
+   * Apply a change to the document and persist it, one change at a time. The
+   * change is made to a copy, which replaces the in-memory document only once
+   * it is on disk; a change that throws or fails to write leaves both untouched.
+   */
+  mutate<R>(change: (document: T) => R): Promise<R> {
+    const result = this.writes.then(async () => {
+      const document = structuredClone(await this.read());
+      const value = change(document);
+      await this.persist(document);
+      this.document = Promise.resolve(document);
+      return value;
+    });
+    // Keep the queue alive after a failed write.
+    this.writes = result.catch(() => {});
+    return result;
+  }
+
+  private async persist(document: T) {
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    await fs.writeFile(tempPath, JSON.stringify(document, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+}
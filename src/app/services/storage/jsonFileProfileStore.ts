@@ -0,0 +1,94 @@
+/**
+ * @file jsonFileProfileStore.ts
+ * @description
+ * {@link ProfileStore} backed by a single JSON file, alongside the presentation
+ * library. Same storage model as {@link JsonFilePresentationStore}, including
+ * one file shared by every owner.
+ */
+
+import { randomUUID } from "crypto";
+import {
+  isOwnedBy,
+  JsonDocumentFile,
+  withOwner,
+  withoutOwner,
+  type Owned,
+} from "./jsonFile";
+import type { NewProfile, Profile } from "../profiles";
+import type { ProfileStore } from "./types";
+
+interface ProfilesFile {
+  version: 1;
+  profiles: Owned<Profile>[];
+}
+
+export class JsonFileProfileStore implements ProfileStore {
+  private readonly file: JsonDocumentFile<ProfilesFile>;
+
+  constructor(filePath: string) {
+    this.file = new JsonDocumentFile<ProfilesFile>(filePath, () => ({
+      version: 1,
+      profiles: [],
+    }));
+  }
+
+  async list(owner: string | null): Promise<Profile[]> {
+    return (await this.file.read()).profiles
+      .filter((profile) => isOwnedBy(profile, owner))
+      .map(withoutOwner);
+  }
+
+  async get(owner: string | null, id: string): Promise<Profile | null> {
+    const profile = (await this.file.read()).profiles.find(
+      (candidate) => candidate.id === id && isOwnedBy(candidate, owner)
+    );
+    return profile ? withoutOwner(profile) : null;
+  }
+
+  create(owner: string | null, input: NewProfile): Promise<Profile> {
+    return this.file.mutate(({ profiles }) => {
+      const profile = { ...input, id: randomUUID() } as Profile;
+      profiles.push(withOwner(profile, owner));
+      return profile;
+    });
+  }
+
+  update(
+    owner: string | null,
+    id: string,
+    input: NewProfile
+  ): Promise<Profile | null> {
+    return this.file.mutate(({ profiles }) => {
+      const index = this.indexOf(profiles, owner, id);
+      if (index === -1) return null;
+      if (profiles[index].kind !== input.kind) {
+        throw new Error(
+          `Profile ${id} is a ${profiles[index].kind} profile`
+        );
+      }
+      const profile = { ...input, id } as Profile;
+      profiles[index] = withOwner(profile, owner);
+      return profile;
+    });
+  }
+
+  delete(owner: string | null, id: string): Promise<boolean> {
+    return this.file.mutate(({ profiles }) => {
+      const index = this.indexOf(profiles, owner, id);
+      if (index === -1) return false;
+      profiles.splice(index, 1);
+      return true;
+    });
+  }
+
+  /** Index of the owner's profile `id`, or -1. */
+  private indexOf(
+    profiles: Owned<Profile>[],
+    owner: string | null,
+    id: string
+  ): number {
+    return profiles.findIndex(
+      (profile) => profile.id === id && isOwnedBy(profile, owner)
+    );
+  }
+}
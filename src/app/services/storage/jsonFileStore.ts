@@ -0,0 +1,159 @@
+/**
+ * @file jsonFileStore.ts
+ * @description
+ * {@link PresentationStore} backed by a single JSON file on the server's disk.
+ *
+ * @remarks
+ * - Suited to single-instance deployments and local use; the whole library is kept
+ *   in memory after the first read.
+ * - Reads and atomic, serialized writes are handled by {@link JsonDocumentFile}.
+ * - Every owner's presentations share the file; each call sees only its owner's.
+ * - A missing file is treated as an empty library and created on the first save.
+ */
+
+import { randomUUID } from "crypto";
+import {
+  isOwnedBy,
+  JsonDocumentFile,
+  withOwner,
+  withoutOwner,
+  type Owned,
+} from "./jsonFile";
+import type {
+  NewPresentation,
+  PresentationRecord,
+  PresentationStore,
+  PresentationSummary,
+} from "./types";
+
+interface LibraryFile {
+  version: 1;
+  presentations: Owned<PresentationRecord>[];
+}
+
+export class JsonFilePresentationStore implements PresentationStore {
+  private readonly file: JsonDocumentFile<LibraryFile>;
+
+  constructor(filePath: string) {
+    this.file = new JsonDocumentFile<LibraryFile>(filePath, () => ({
+      version: 1,
+      presentations: [],
+    }));
+  }
+
+  async list(
+    owner: string | null,
+    query?: string
+  ): Promise<PresentationSummary[]> {
+    const needle = query?.trim().toLowerCase();
+    return (await this.load(owner))
+      .filter((record) => !needle || this.matches(record, needle))
+      .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+      .map((record) => this.toSummary(record));
+  }
+
+  async get(
+    owner: string | null,
+    id: string
+  ): Promise<PresentationRecord | null> {
+    const record = (await this.load(owner)).find(
+      (candidate) => candidate.id === id
+    );
+    return record ? withoutOwner(record) : null;
+  }
+
+  create(
+    owner: string | null,
+    input: NewPresentation
+  ): Promise<PresentationRecord> {
+    return this.mutate((records) => {
+      const now = new Date().toISOString();
+      const record: PresentationRecord = {
+        id: randomUUID(),
+        ...input,
+        createdAt: now,
+        updatedAt: now,
+      };
+      records.push(withOwner(record, owner));
+      return record;
+    });
+  }
+
+  update(
+    owner: string | null,
+    id: string,
+    input: NewPresentation
+  ): Promise<PresentationRecord | null> {
+    return this.mutate((records) => {
+      const index = this.indexOf(records, owner, id);
+      if (index === -1) return null;
+      records[index] = {
+        ...records[index],
+        ...input,
+        // A save without history replaces it rather than leaving a stale one.
+        versions: input.versions,
+        updatedAt: new Date().toISOString(),
+      };
+      return withoutOwner(records[index]);
+    });
+  }
+
+  delete(owner: string | null, id: string): Promise<boolean> {
+    return this.mutate((records) => {
+      const index = this.indexOf(records, owner, id);
+      if (index === -1) return false;
+      records.splice(index, 1);
+      return true;
+    });
+  }
+
+  /** The owner's presentations. */
+  private async load(
+    owner: string | null
+  ): Promise<Owned<PresentationRecord>[]> {
+    return (await this.file.read()).presentations.filter((record) =>
+      isOwnedBy(record, owner)
+    );
+  }
+
+  private mutate<T>(
+    change: (records: Owned<PresentationRecord>[]) => T
+  ): Promise<T> {
+    return this.file.mutate((library) => change(library.presentations));
+  }
+
+  /** Index of the owner's presentation `id`, or -1. */
+  private indexOf(
+    records: Owned<PresentationRecord>[],
+    owner: string | null,
+    id: string
+  ): number {
+    return records.findIndex(
+      (record) => record.id === id && isOwnedBy(record, owner)
+    );
+  }
+
+  private matches(record: PresentationRecord, needle: string): boolean {
+    return [
+      record.runOfShow.title,
+      record.runOfShow.overview,
+      record.repoUrl,
+      record.metadata?.repoName ?? "",
+      ...record.runOfShow.sections.map((section) => section.title),
+    ].some((text) => text.toLowerCase().includes(needle));
+  }
+
+  private toSummary(record: PresentationRecord): PresentationSummary {
+    return {
+      id: record.id,
+      title: record.runOfShow.title,
+      overview: record.runOfShow.overview,
+      repoUrl: record.repoUrl,
+      repoName: record.metadata?.repoName,
+      sectionCount: record.runOfShow.sections.length,
+      config: record.config,
+      createdAt: record.createdAt,
+      updatedAt: record.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,101 @@
+/**
+ * @file types.ts
+ * @description
+ * Contracts for persisting generated presentations and custom audience/time
+ * profiles. API routes depend only on {@link PresentationStore} and
+ * {@link ProfileStore}, so the JSON file stores can be swapped for a database
+ * without touching them.
+ *
+ * @remarks
+ * - Every call names an `owner` (see `Session.owner`): a store only lists, reads
+ *   and changes that owner's records, so one user's library (which may hold
+ *   output from private repositories) is never served to another. `null` is the
+ *   library shared while signed out.
+ */
+
+import type {
+  PresentationConfig,
+  RunOfShow,
+  RunOfShowMetadata,
+  RunOfShowVersion,
+} from "@/app/page";
+import type { NewProfile, Profile } from "../profiles";
+
+/** A saved presentation, with everything needed to reopen it. */
+export interface PresentationRecord {
+  id: string;
+  /** Source repository URL; empty for uploaded archives. */
+  repoUrl: string;
+  runOfShow: RunOfShow;
+  metadata: RunOfShowMetadata | null;
+  config: PresentationConfig;
+  /**
+   * Version history, oldest first; the last version matches `runOfShow`.
+   * Absent on presentations saved before history was recorded.
+   */
+  versions?: RunOfShowVersion[];
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Lightweight listing entry for the library view. */
+export interface PresentationSummary {
+  id: string;
+  title: string;
+  overview: string;
+  repoUrl: string;
+  repoName?: string;
+  sectionCount: number;
+  config: PresentationConfig;
+  createdAt: string;
+  updatedAt: string;
+}
+
+/** Fields supplied by the client when saving a presentation. */
+export type NewPresentation = Pick<
+  PresentationRecord,
+  "repoUrl" | "runOfShow" | "metadata" | "config" | "versions"
+>;
+
+export interface PresentationStore {
+  /**
+   * Saved presentations, newest first. `query` filters case-insensitively on
+   * title, overview, repository and section titles.
+   */
+  list(
+    owner: string | null,
+    query?: string
+  ): Promise<PresentationSummary[]>;
+  get(owner: string | null, id: string): Promise<PresentationRecord | null>;
+  create(
+    owner: string | null,
+    input: NewPresentation
+  ): Promise<PresentationRecord>;
+  /** Replace a saved presentation's content; null when the id is unknown. */
+  update(
+    owner: string | null,
+    id: string,
+    input: NewPresentation
+  ): Promise<PresentationRecord | null>;
+  /** @returns false when no presentation had this id. */
+  delete(owner: string | null, id: string): Promise<boolean>;
+}
+
+/** Custom audience and time profiles; the built-ins are not stored. */
+export interface ProfileStore {
+  /** Custom profiles in creation order. */
+  list(owner: string | null): Promise<Profile[]>;
+  get(owner: string | null, id: string): Promise<Profile | null>;
+  create(owner: string | null, input: NewProfile): Promise<Profile>;
+  /**
+   * Replace a profile's fields; null when the id is unknown.
+   * @throws {Error} When `input.kind` differs from the stored profile's kind.
+   */
+  update(
+    owner: string | null,
+    id: string,
+    input: NewProfile
+  ): Promise<Profile | null>;
+  /** @returns false when no profile had this id. */
+  delete(owner: string | null, id: string): Promise<boolean>;
+}
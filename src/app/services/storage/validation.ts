@@ -0,0 +1,63 @@
+/**
+ * @file validation.ts
+ * @description
+ * Request-body validation shared by the presentation library routes (create and
+ * update take the same fields, including the optional version history).
+ */
+
+import { RunOfShowSchema } from "../runOfShowSchema";
+import { VersionHistory } from "../versionHistory";
+import type { NewPresentation } from "./types";
+import type {
+  PresentationConfig,
+  RunOfShowMetadata,
+} from "@/app/page";
+
+/** Validate a save request; returns the error body on failure. */
+export function parsePresentationInput(
+  body: Record<string, unknown>
+): NewPresentation | { error: string; issues?: unknown } {
+  const { repoUrl, runOfShow, metadata, config, versions } = body;
+
+  if (typeof repoUrl !== "string") {
+    return { error: "repoUrl must be a string" };
+  }
+
+  const result = RunOfShowSchema.validate(runOfShow);
+  if (!result.ok) {
+    return { error: "Invalid run of show", issues: result.issues };
+  }
+
+  if (
+    !config ||
+    typeof config !== "object" ||
+    typeof (config as PresentationConfig).audience !== "string" ||
+    typeof (config as PresentationConfig).timeConstraint !== "string"
+  ) {
+    return { error: "Presentation configuration is required" };
+  }
+
+  if (
+    metadata !== undefined &&
+    metadata !== null &&
+    typeof metadata !== "object"
+  ) {
+    return { error: "metadata must be an object" };
+  }
+
+  const history =
+    versions === undefined ? null : VersionHistory.validate(versions);
+  if (history && !history.ok) {
+    return { error: "Invalid version history", issues: history.issues };
+  }
+
+  return {
+    repoUrl: repoUrl.trim(),
+    runOfShow: result.value,
+    metadata: (metadata ?? null) as RunOfShowMetadata | null,
+    config: config as PresentationConfig,
+    ...(history?.ok && history.value.length > 0
+      ? { versions: history.value }
+      : {}),
+  };
+}
@@ -0,0 +1,135 @@
+/**
+ * @file versionHistory.ts
+ * @description
+ * Ordered version history of a run of show: every generation, manual edit,
+ * section regeneration, chat refinement and restore adds a version, so what the
+ * model produced can always be told apart from what the presenter changed.
+ *
+ * @remarks
+ * - Histories are immutable arrays; every helper returns a new one.
+ * - The last version is always the current run of show.
+ * - Consecutive manual edits within EDIT_MERGE_MS are merged into one version, so
+ *   typing in the editor does not create a version per keystroke.
+ * - At most MAX_VERSIONS are kept; the first version (usually the original
+ *   generation) is always kept and the oldest after it are dropped.
+ * - Pure functions; safe to import from client components.
+ */
+
+import { RunOfShowSchema } from "./runOfShowSchema";
+import type { SchemaIssue, SchemaResult } from "./runOfShowSchema";
+import type {
+  RunOfShow,
+  RunOfShowVersion,
+  VersionSource,
+} from "@/app/page";
+
+export class VersionHistory {
+  static readonly MAX_VERSIONS = 50;
+  static readonly EDIT_MERGE_MS = 5 * 60 * 1000;
+
+  static readonly SOURCE_LABELS: Record<VersionSource, string> = {
+    generation: "Generated",
+    edit: "Manual edit",
+    regeneration: "Section regenerated",
+    refinement: "Chat refinement",
+    restore: "Restored",
+  };
+
+  /** A new history whose only version is `runOfShow`. */
+  static start(
+    runOfShow: RunOfShow,
+    source: VersionSource = "generation",
+    createdAt = new Date().toISOString()
+  ): RunOfShowVersion[] {
+    return [{ number: 1, source, createdAt, runOfShow }];
+  }
+
+  /** `versions` with `runOfShow` recorded as the new current version. */
+  static append(
+    versions: RunOfShowVersion[],
+    runOfShow: RunOfShow,
+    source: VersionSource,
+    note?: string
+  ): RunOfShowVersion[] {
+    const now = new Date();
+    const last = versions[versions.length - 1];
+    if (!last) return this.start(runOfShow, source, now.toISOString());
+
+    if (
+      source === "edit" &&
+      last.source === "edit" &&
+      now.getTime() - Date.parse(last.createdAt) < this.EDIT_MERGE_MS
+    ) {
+      return [
+        ...versions.slice(0, -1),
+        { ...last, runOfShow, createdAt: now.toISOString() },
+      ];
+    }
+
+    const next: RunOfShowVersion[] = [
+      ...versions,
+      {
+        number: last.number + 1,
+        source,
+        ...(note ? { note } : {}),
+        createdAt: now.toISOString(),
+        runOfShow,
+      },
+    ];
+    return next.length > this.MAX_VERSIONS
+      ? [next[0], ...next.slice(next.length - this.MAX_VERSIONS + 1)]
+      : next;
+  }
+
+  /** Validate a stored or submitted history; each run of show is schema-checked. */
+  static validate(value: unknown): SchemaResult<RunOfShowVersion[]> {
+    if (!Array.isArray(value)) {
+      return {
+        ok: false,
+        issues: [{ path: "versions", message: "expected an array" }],
+      };
+    }
+
+    const issues: SchemaIssue[] = [];
+    const versions: RunOfShowVersion[] = [];
+    value.forEach((version, index) => {
+      const path = `versions[${index}]`;
+      if (
+        typeof version !== "object" ||
+        version === null ||
+        !Number.isInteger(version.number) ||
+        !Object.keys(this.SOURCE_LABELS).includes(version.source) ||
+        typeof version.createdAt !== "string" ||
+        (version.note !== undefined && typeof version.note !== "string")
+      ) {
+        issues.push({
+          path,
+          message: "expected { number, source, createdAt, note?, runOfShow }",
+        });
+        return;
+      }
+
+      const result = RunOfShowSchema.validate(version.runOfShow);
+      if (!result.ok) {
+        issues.push(
+          ...result.issues.map((issue) => ({
+            ...issue,
+            path: `${path}.runOfShow${issue.path === "$" ? "" : `.${issue.path}`}`,
+          }))
+        );
+        return;
+      }
+      versions.push({
+        number: version.number,
+        source: version.source,
+        ...(version.note ? { note: version.note } : {}),
+        createdAt: version.createdAt,
+        runOfShow: result.value,
+      });
+    });
+
+    return issues.length > 0
+      ? { ok: false, issues }
+      : { ok: true, value: versions };
+  }
+}